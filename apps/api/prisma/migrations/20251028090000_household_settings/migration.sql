@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "settings" (
+    "id" TEXT NOT NULL PRIMARY KEY DEFAULT 'household',
+    "gold_multiplier" REAL NOT NULL DEFAULT 1.0,
+    "silver_multiplier" REAL NOT NULL DEFAULT 1.3,
+    "urgency_ahead_boundary" REAL NOT NULL DEFAULT -0.15,
+    "urgency_on_track_boundary" REAL NOT NULL DEFAULT 0.1,
+    "urgency_warning_boundary" REAL NOT NULL DEFAULT 0.3,
+    "default_expected_minutes" REAL NOT NULL DEFAULT 1.0,
+    "allow_skip_by_default" BOOLEAN NOT NULL DEFAULT false,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "thresholds_snapshot" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "households" ADD COLUMN "pin_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "session_tasks" ADD COLUMN "skipped_at" DATETIME;
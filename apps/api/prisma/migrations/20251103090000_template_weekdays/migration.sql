@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "templates" ADD COLUMN "days_active" TEXT NOT NULL DEFAULT 'mon,tue,wed,thu,fri,sat,sun';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_children" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "first_name" TEXT NOT NULL,
+    "birthdate" DATETIME NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "default_template_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "children_default_template_id_fkey" FOREIGN KEY ("default_template_id") REFERENCES "templates" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_children" ("active", "birthdate", "created_at", "first_name", "id") SELECT "active", "birthdate", "created_at", "first_name", "id" FROM "children";
+DROP TABLE "children";
+ALTER TABLE "new_children" RENAME TO "children";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "scheduled_for" TEXT;
+
+-- CreateTable
+CREATE TABLE "schedule_assignments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "child_id" TEXT NOT NULL,
+    "weekday" TEXT NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "schedule_assignments_child_id_fkey" FOREIGN KEY ("child_id") REFERENCES "children" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "schedule_assignments_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "templates" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_child_id_scheduled_for_key" ON "sessions"("child_id", "scheduled_for");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_assignments_child_id_weekday_key" ON "schedule_assignments"("child_id", "weekday");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "calendar_exceptions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" TEXT NOT NULL,
+    "child_id" TEXT,
+    "kind" TEXT NOT NULL,
+    "template_id" TEXT,
+    "note" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "calendar_exceptions_child_id_fkey" FOREIGN KEY ("child_id") REFERENCES "children" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "calendar_exceptions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "templates" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "calendar_exceptions_date_idx" ON "calendar_exceptions"("date");
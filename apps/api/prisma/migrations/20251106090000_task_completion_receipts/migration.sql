@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "task_completion_receipts" (
+    "idempotency_key" TEXT NOT NULL PRIMARY KEY,
+    "session_task_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "task_completion_receipts_session_task_id_fkey" FOREIGN KEY ("session_task_id") REFERENCES "session_tasks" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
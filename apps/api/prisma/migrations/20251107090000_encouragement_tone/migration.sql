@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "children" ADD COLUMN "tone" TEXT;
+
+-- AlterTable
+ALTER TABLE "settings" ADD COLUMN "tone" TEXT NOT NULL DEFAULT 'playful';
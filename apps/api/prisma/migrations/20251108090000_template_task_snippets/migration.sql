@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "template_tasks" ADD COLUMN "completion_snippet" TEXT;
+ALTER TABLE "template_tasks" ADD COLUMN "nudge_snippet" TEXT;
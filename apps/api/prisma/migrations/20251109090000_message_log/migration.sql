@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "message_log_entries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "session_id" TEXT NOT NULL,
+    "session_task_id" TEXT,
+    "type" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "latency_ms" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_log_entries_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "blocked_phrases" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pattern" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "message_log_entries_session_id_created_at_idx" ON "message_log_entries"("session_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blocked_phrases_pattern_key" ON "blocked_phrases"("pattern");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "children" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en-US';
+ALTER TABLE "children" ADD COLUMN "voice" TEXT NOT NULL DEFAULT 'kiddo';
+ALTER TABLE "children" ADD COLUMN "speech_rate" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "children" ADD COLUMN "speech_pitch" REAL NOT NULL DEFAULT 1;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "settings" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en-US';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "template_id" TEXT;
+
+-- Backfill from the snapshot each session was started with
+UPDATE "sessions" SET "template_id" = json_extract("template_snapshot", '$.templateId');
+
+-- CreateIndex
+CREATE INDEX "sessions_template_id_idx" ON "sessions"("template_id");
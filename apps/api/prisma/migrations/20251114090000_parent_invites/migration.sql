@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "parent_invites" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "household_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" DATETIME NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "parent_invites_household_id_fkey" FOREIGN KEY ("household_id") REFERENCES "households" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "parent_invites_token_hash_key" ON "parent_invites"("token_hash");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "households" ADD COLUMN "pin_failed_attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "households" ADD COLUMN "pin_locked_until" DATETIME;
@@ -35,6 +35,6 @@ describe('fake dev endpoints', () => {
       .post('/api/tts')
       .send({ text: 'Hello', language: 'en-US', voice: 'default' });
     expect(response.status).toBe(200);
-    expect(response.body.audioUrl).toMatch(/^data:audio\/wav;base64,/);
+    expect(response.body.audioUrl).toMatch(/^\/api\/tts\/audio\/[a-f0-9]{64}\.wav$/);
   });
 });
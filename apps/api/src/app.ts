@@ -1,28 +1,42 @@
 import cors from 'cors';
 import express from 'express';
 
+import { registerAuthRoutes } from './routes/auth.js';
+import { registerCalendarRoutes } from './routes/calendar.js';
 import { registerChildrenRoutes } from './routes/children.js';
 import { registerDevRoutes } from './routes/dev.js';
 import { registerEncouragementRoutes } from './routes/encouragement.js';
+import { registerInsightsRoutes } from './routes/insights.js';
+import { registerMessageLogRoutes } from './routes/messageLog.js';
+import { registerScheduleRoutes } from './routes/schedule.js';
 import { registerSessionRoutes } from './routes/sessions.js';
+import { registerSettingsRoutes } from './routes/settings.js';
 import { registerTemplateRoutes } from './routes/templates.js';
+import { registerTodayRoutes } from './routes/today.js';
 import { registerTtsRoutes } from './routes/tts.js';
 
 export const createApp = () => {
   const app = express();
 
   app.use(cors());
-  app.use(express.json());
+  app.use(express.json({ limit: '2mb' }));
 
   app.get('/health', (_req, res) => {
     res.type('text/plain').send('OK');
   });
 
+  registerAuthRoutes(app);
   registerChildrenRoutes(app);
   registerTemplateRoutes(app);
   registerSessionRoutes(app);
+  registerTodayRoutes(app);
+  registerScheduleRoutes(app);
+  registerCalendarRoutes(app);
+  registerSettingsRoutes(app);
+  registerInsightsRoutes(app);
   registerTtsRoutes(app);
   registerEncouragementRoutes(app);
+  registerMessageLogRoutes(app);
   registerDevRoutes(app);
 
   return app;
@@ -0,0 +1,60 @@
+import { MESSAGE_SOURCES, type MessageSource } from '@klar-parat/shared';
+
+import { loadFeatureFlags } from './flags.js';
+
+export const LLM_PROVIDERS = ['fake', 'openai', 'openai-compatible'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export type LlmConfig = {
+  provider: LlmProviderName;
+  model: string | undefined;
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+  timeoutMs: number;
+};
+
+const DEFAULT_LLM_TIMEOUT_MS = 10_000;
+
+const parseProvider = (value: string | undefined): LlmProviderName | undefined => {
+  const normalized = value?.trim().toLowerCase();
+  return LLM_PROVIDERS.find((provider) => provider === normalized);
+};
+
+const parsePositiveNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const readOptional = (value: string | undefined) => (value && value.trim() !== '' ? value.trim() : undefined);
+
+// Without LLM_PROVIDER the legacy FLAG_USE_FAKE_LLM switch still picks between the fake and OpenAI.
+export const loadLlmConfig = (): LlmConfig => {
+  const provider =
+    parseProvider(process.env.LLM_PROVIDER) ?? (loadFeatureFlags().useFakeLLM ? 'fake' : 'openai');
+
+  return {
+    provider,
+    model: readOptional(process.env.LLM_MODEL),
+    baseUrl: readOptional(process.env.LLM_BASE_URL),
+    apiKey: readOptional(provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.LLM_API_KEY),
+    timeoutMs: parsePositiveNumber(process.env.LLM_TIMEOUT_MS) ?? DEFAULT_LLM_TIMEOUT_MS
+  };
+};
+
+const DEFAULT_MESSAGE_SOURCE_ORDER: MessageSource[] = ['snippet', 'llm', 'fallback'];
+
+// MESSAGE_SOURCE_ORDER="llm,snippet" lists the sources to try; the fallback phrases always close the list.
+export const loadMessageSourceOrder = (): MessageSource[] => {
+  const requested = (process.env.MESSAGE_SOURCE_ORDER ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value): value is MessageSource => (MESSAGE_SOURCES as readonly string[]).includes(value));
+
+  if (requested.length === 0) {
+    return DEFAULT_MESSAGE_SOURCE_ORDER;
+  }
+
+  return Array.from(new Set<MessageSource>([...requested, 'fallback']));
+};
@@ -0,0 +1,28 @@
+export type SchedulerConfig = {
+  enabled: boolean;
+  leadMinutes: number;
+  pollIntervalMs: number;
+};
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  enabled: true,
+  leadMinutes: 30,
+  pollIntervalMs: 60_000
+};
+
+const parseNonNegativeNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export const loadSchedulerConfig = (): SchedulerConfig => ({
+  enabled: process.env.SCHEDULER_ENABLED
+    ? ['1', 'true', 'yes', 'on'].includes(process.env.SCHEDULER_ENABLED.toLowerCase())
+    : DEFAULT_SCHEDULER_CONFIG.enabled,
+  leadMinutes:
+    parseNonNegativeNumber(process.env.SCHEDULER_LEAD_MINUTES) ?? DEFAULT_SCHEDULER_CONFIG.leadMinutes,
+  pollIntervalMs:
+    parseNonNegativeNumber(process.env.SCHEDULER_POLL_INTERVAL_MS) ||
+    DEFAULT_SCHEDULER_CONFIG.pollIntervalMs
+});
@@ -0,0 +1,43 @@
+import path from 'node:path';
+
+import { loadFeatureFlags } from './flags.js';
+
+export const TTS_PROVIDERS = ['fake', 'http', 'command'] as const;
+
+export type TtsProviderName = (typeof TTS_PROVIDERS)[number];
+
+export type TtsConfig = {
+  provider: TtsProviderName | null;
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+  region: string | undefined;
+  command: string | undefined;
+  timeoutMs: number;
+  cacheDir: string;
+};
+
+const DEFAULT_TTS_TIMEOUT_MS = 15_000;
+
+const parseProvider = (value: string | undefined): TtsProviderName | undefined => {
+  const normalized = value?.trim().toLowerCase();
+  return TTS_PROVIDERS.find((provider) => provider === normalized);
+};
+
+const parsePositiveNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const readOptional = (value: string | undefined) => (value && value.trim() !== '' ? value.trim() : undefined);
+
+// Without TTS_PROVIDER the FLAG_USE_FAKE_TTS switch decides between the sine tone and no server voice at all.
+export const loadTtsConfig = (): TtsConfig => ({
+  provider: parseProvider(process.env.TTS_PROVIDER) ?? (loadFeatureFlags().useFakeTTS ? 'fake' : null),
+  baseUrl: readOptional(process.env.TTS_BASE_URL),
+  apiKey: readOptional(process.env.TTS_PROVIDER_API_KEY),
+  region: readOptional(process.env.TTS_PROVIDER_REGION),
+  command: readOptional(process.env.TTS_COMMAND),
+  timeoutMs: parsePositiveNumber(process.env.TTS_TIMEOUT_MS) ?? DEFAULT_TTS_TIMEOUT_MS,
+  cacheDir: path.resolve(readOptional(process.env.TTS_CACHE_DIR) ?? '.tts-cache')
+});
@@ -1,4 +1,4 @@
-export const generateSineWave = ({
+export const renderSineWave = ({
   frequency = 440,
   durationMs = 600,
   sampleRate = 16000
@@ -38,7 +38,8 @@ export const generateSineWave = ({
     offset += 2;
   }
 
-  const uint8 = new Uint8Array(buffer);
-  const binary = String.fromCharCode(...uint8);
-  return `data:audio/wav;base64,${Buffer.from(binary, 'binary').toString('base64')}`;
+  return Buffer.from(buffer);
 };
+
+export const generateSineWave = (options?: Parameters<typeof renderSineWave>[0]) =>
+  `data:audio/wav;base64,${renderSineWave(options).toString('base64')}`;
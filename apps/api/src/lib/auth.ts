@@ -0,0 +1,222 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+import type { DeviceToken, Household, Parent } from '@prisma/client';
+import type { NextFunction, Request, Response } from 'express';
+
+import { sendForbidden, sendServerError, sendTooManyRequests, sendUnauthorized } from './http.js';
+import { prisma } from './prisma.js';
+
+export const SESSION_COOKIE_NAME = 'klar_parat_session';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const PASSWORD_KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export type AuthenticatedParent = Parent & { household: Household };
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const derived = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${derived.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string) => {
+  const [algorithm, saltHex, hashHex] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derived = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(derived, expected);
+};
+
+export const generateToken = () => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const readCookie = (req: Request, name: string) => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return undefined;
+};
+
+// EventSource cannot send headers, so a paired board passes its token as `access_token` on the stream URL instead.
+const readBearerToken = (req: Request) => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.get('authorization') ?? '');
+  const queryToken = req.query.access_token;
+  return match?.[1] ?? (typeof queryToken === 'string' ? queryToken : undefined);
+};
+
+export const startAuthSession = async (res: Response, parentId: string) => {
+  const token = generateToken();
+  await prisma.authSession.create({
+    data: {
+      parentId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+    }
+  });
+
+  res.cookie(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL_MS,
+    path: '/'
+  });
+};
+
+export const endAuthSession = async (req: Request, res: Response) => {
+  const token = readCookie(req, SESSION_COOKIE_NAME);
+  if (token) {
+    await prisma.authSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
+};
+
+const findParent = async (req: Request): Promise<AuthenticatedParent | null> => {
+  const token = readCookie(req, SESSION_COOKIE_NAME);
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.authSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { parent: { include: { household: true } } }
+  });
+
+  if (!session || session.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return session.parent;
+};
+
+const findDeviceToken = async (req: Request) => {
+  const token = readBearerToken(req);
+  if (!token) {
+    return null;
+  }
+
+  const deviceToken = await prisma.deviceToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!deviceToken) {
+    return null;
+  }
+
+  return prisma.deviceToken.update({
+    where: { id: deviceToken.id },
+    data: { lastUsedAt: new Date() }
+  });
+};
+
+export const getAuthenticatedParent = (res: Response) => res.locals.parent as AuthenticatedParent;
+
+const getRequestHouseholdId = (res: Response) =>
+  (res.locals.parent as AuthenticatedParent | undefined)?.householdId ??
+  (res.locals.deviceToken as DeviceToken | undefined)?.householdId;
+
+const PIN_FREE_ATTEMPTS = 5;
+const PIN_LOCKOUT_BASE_MS = 30 * 1000;
+const PIN_LOCKOUT_MAX_MS = 15 * 60 * 1000;
+
+const pinLockoutMs = (failedAttempts: number) =>
+  Math.min(PIN_LOCKOUT_BASE_MS * 2 ** (failedAttempts - PIN_FREE_ATTEMPTS), PIN_LOCKOUT_MAX_MS);
+
+const sendPinLocked = (res: Response, lockedUntil: Date) =>
+  sendTooManyRequests(
+    res,
+    'Too many wrong PINs. Please wait before trying again.',
+    Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+  );
+
+// Every guess is counted before the PIN is checked, so parallel guesses cannot slip past the limit. The fifth miss
+// in a row locks the household for 30 seconds, and each further miss doubles that up to 15 minutes. A correct PIN
+// clears the count.
+export const checkHouseholdPin = async (res: Response, pin: string) => {
+  const householdId = getRequestHouseholdId(res);
+  const household = householdId ? await prisma.household.findUnique({ where: { id: householdId } }) : null;
+
+  if (!household?.pinHash) {
+    sendForbidden(res, 'Set a household PIN first');
+    return false;
+  }
+
+  const now = new Date();
+  if (household.pinLockedUntil && household.pinLockedUntil > now) {
+    sendPinLocked(res, household.pinLockedUntil);
+    return false;
+  }
+
+  const failedAttempts = household.pinFailedAttempts + 1;
+  const lockedUntil =
+    failedAttempts >= PIN_FREE_ATTEMPTS ? new Date(now.getTime() + pinLockoutMs(failedAttempts)) : null;
+  const { count } = await prisma.household.updateMany({
+    where: { id: household.id, pinFailedAttempts: household.pinFailedAttempts },
+    data: { pinFailedAttempts: failedAttempts, pinLockedUntil: lockedUntil }
+  });
+  if (count === 0) {
+    // Another guess claimed this attempt first.
+    sendPinLocked(res, new Date(now.getTime() + 1000));
+    return false;
+  }
+
+  if (!(await verifyPassword(pin, household.pinHash))) {
+    sendForbidden(res, 'Incorrect PIN');
+    return false;
+  }
+
+  await prisma.household.update({
+    where: { id: household.id },
+    data: { pinFailedAttempts: 0, pinLockedUntil: null }
+  });
+  return true;
+};
+
+export const requireParent = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parent = await findParent(req);
+    if (!parent) {
+      return sendUnauthorized(res);
+    }
+    res.locals.parent = parent;
+    next();
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+};
+
+export const requireParentOrDevice = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parent = await findParent(req);
+    if (parent) {
+      res.locals.parent = parent;
+      return next();
+    }
+
+    const deviceToken = await findDeviceToken(req);
+    if (!deviceToken) {
+      return sendUnauthorized(res);
+    }
+    res.locals.deviceToken = deviceToken;
+    next();
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+};
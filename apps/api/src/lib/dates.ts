@@ -0,0 +1,57 @@
+import { getWeekday } from '@klar-parat/shared';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfUtcDay = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+// How far the zone's wall clock runs ahead of UTC at `instant`.
+const zoneOffsetMs = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// The instant the zone's wall clock shows `time` on `date`. The offset is read a second time at the first guess so a
+// day that follows a daylight saving switch still lands on the right hour.
+export const zonedDateTime = (date: string, time: string, timeZone: string) => {
+  const wallClock = new Date(`${date}T${time}:00.000Z`).getTime();
+  const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffsetMs(new Date(guess), timeZone));
+};
+
+export const startOfZonedDay = (date: string, timeZone: string) => zonedDateTime(date, '00:00', timeZone);
+
+export const addDaysToIsoDate = (date: string, days: number) =>
+  new Date(startOfUtcDay(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export const toZonedIsoDate = (date: Date, timeZone: string) =>
+  new Date(date.getTime() + zoneOffsetMs(date, timeZone)).toISOString().slice(0, 10);
+
+export const plannedStartRange = ({ from, to }: { from?: string; to?: string }, timeZone: string) =>
+  from || to
+    ? {
+        plannedStartAt: {
+          ...(from && { gte: startOfZonedDay(from, timeZone) }),
+          ...(to && { lt: startOfZonedDay(addDaysToIsoDate(to, 1), timeZone) })
+        }
+      }
+    : {};
+
+export const isoDateWeekday = (date: string) => getWeekday(new Date(`${date}T12:00:00`));
+
+// Households that never picked a zone keep the server's own, which is where every day boundary used to fall.
+export const householdTimeZone = ({ timeZone }: { timeZone: string | null }) =>
+  timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
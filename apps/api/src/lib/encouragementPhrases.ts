@@ -0,0 +1,242 @@
+import type { EncouragementType, TonePreset } from '@klar-parat/shared';
+
+type PhraseLanguage = 'en' | 'da';
+
+type MessageParts = {
+  name: string;
+  session: string;
+  task: string;
+};
+
+type PhraseSet<T> = {
+  sessionStart: (parts: MessageParts & T) => string;
+  nextTask: (parts: MessageParts & T & { next: string }) => string;
+  lastTask: (parts: MessageParts & T) => string;
+  nudge: (parts: MessageParts & T) => string;
+};
+
+type FallbackExtras = { time: string };
+
+type FakeExtras = { minutes: string; elapsed: string; pace: string };
+
+const toPhraseLanguage = (language: string): PhraseLanguage =>
+  language.toLowerCase().startsWith('da') ? 'da' : 'en';
+
+const pickPhrase = <T>(
+  set: PhraseSet<T>,
+  type: EncouragementType,
+  parts: MessageParts & T,
+  next: string | null
+) => {
+  if (type === 'session_start') {
+    return set.sessionStart(parts);
+  }
+  if (type === 'completion') {
+    return next ? set.nextTask({ ...parts, next }) : set.lastTask(parts);
+  }
+  return set.nudge(parts);
+};
+
+const FALLBACK_TIME: Record<TonePreset, Record<PhraseLanguage, (minutes: number) => string>> = {
+  playful: {
+    en: (minutes) => (minutes <= 0 ? 'Time is almost up' : `We have about ${minutes} minutes`),
+    da: (minutes) => (minutes <= 0 ? 'Tiden er knap' : `Vi har cirka ${minutes} min`)
+  },
+  coach: {
+    en: (minutes) => (minutes <= 0 ? 'The clock is nearly out' : `${minutes} minutes on the clock`),
+    da: (minutes) => (minutes <= 0 ? 'Uret er næsten løbet ud' : `${minutes} minutter på uret`)
+  },
+  calm: {
+    en: (minutes) => (minutes <= 0 ? 'We are close to the end of our time' : `There are about ${minutes} minutes`),
+    da: (minutes) => (minutes <= 0 ? 'Vi er tæt på slutningen af tiden' : `Der er cirka ${minutes} minutter`)
+  }
+};
+
+const FALLBACK_PHRASES: Record<TonePreset, Record<PhraseLanguage, PhraseSet<FallbackExtras>>> = {
+  playful: {
+    en: {
+      sessionStart: ({ time, name, session, task }) => `${time}, ${name}! First up for ${session} is ${task}.`,
+      nextTask: ({ time, name, next }) => `Amazing job, ${name}! ${time.toLowerCase()} — next up is ${next}.`,
+      lastTask: ({ time, name, task }) =>
+        `Awesome work finishing ${task}, ${name}! ${time.toLowerCase()} to spare.`,
+      nudge: ({ time, name, task }) => `${time}, ${name}! Stay on ${task}!`
+    },
+    da: {
+      sessionStart: ({ time, name, session, task }) => `${time}, ${name}! Første opgave er ${task} i ${session}.`,
+      nextTask: ({ time, name, next }) => `Sejt, ${name}! ${time.toLowerCase()} — videre til ${next}!`,
+      lastTask: ({ time, name }) => `Fantastisk arbejde, ${name}! ${time.toLowerCase()} til resten.`,
+      nudge: ({ time, name, task }) => `${time}, ${name}! Hold fokus på ${task}.`
+    }
+  },
+  coach: {
+    en: {
+      sessionStart: ({ time, name, session, task }) =>
+        `Let’s get to work, ${name}. ${time} for ${session} — first task: ${task}.`,
+      nextTask: ({ time, name, task, next }) =>
+        `Good work finishing ${task}, ${name}. ${time} — keep your pace for ${next}.`,
+      lastTask: ({ time, name, task }) => `Strong finish on ${task}, ${name}. ${time} — routine complete.`,
+      nudge: ({ time, name, task }) => `Keep pushing on ${task}, ${name}. ${time}.`
+    },
+    da: {
+      sessionStart: ({ time, name, session, task }) =>
+        `Så er vi i gang, ${name}. ${time} til ${session} — første opgave: ${task}.`,
+      nextTask: ({ time, name, task, next }) =>
+        `Godt arbejde med ${task}, ${name}. ${time} — hold tempoet til ${next}.`,
+      lastTask: ({ time, name, task }) => `Stærk afslutning på ${task}, ${name}. ${time} — rutinen er klaret.`,
+      nudge: ({ time, name, task }) => `Bliv ved med ${task}, ${name}. ${time}.`
+    }
+  },
+  calm: {
+    en: {
+      sessionStart: ({ time, name, session, task }) =>
+        `Good morning, ${name}. ${time} for ${session}. When you’re ready, begin with ${task}.`,
+      nextTask: ({ time, name, next }) => `Well done, ${name}. ${time}. When you’re ready, the next step is ${next}.`,
+      lastTask: ({ name, task }) => `Well done finishing ${task}, ${name}. That was the last step.`,
+      nudge: ({ time, name, task }) => `You’re doing fine, ${name}. ${time}, so keep going with ${task}.`
+    },
+    da: {
+      sessionStart: ({ time, name, session, task }) =>
+        `Godmorgen, ${name}. ${time} til ${session}. Når du er klar, begynder vi med ${task}.`,
+      nextTask: ({ time, name, next }) => `Godt gået, ${name}. ${time}. Når du er klar, er næste skridt ${next}.`,
+      lastTask: ({ name, task }) => `Godt gået med ${task}, ${name}. Det var det sidste skridt.`,
+      nudge: ({ time, name, task }) => `Du klarer det fint, ${name}. ${time}, så fortsæt roligt med ${task}.`
+    }
+  }
+};
+
+type FakeWord = 'now' | 'in' | 'justStarted' | 'plentyOfTime' | 'almostDone';
+
+const FAKE_WORDS: Record<PhraseLanguage, Record<FakeWord, string>> = {
+  en: {
+    now: 'right now',
+    in: 'in',
+    justStarted: 'just getting started',
+    plentyOfTime: 'plenty of time',
+    almostDone: 'almost done'
+  },
+  da: {
+    now: 'lige nu',
+    in: 'inde',
+    justStarted: 'lige begyndt',
+    plentyOfTime: 'stadig tid',
+    almostDone: 'næsten færdig'
+  }
+};
+
+const FAKE_PHRASES: Record<TonePreset, Record<PhraseLanguage, PhraseSet<FakeExtras>>> = {
+  playful: {
+    en: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Morning, ${name}! ${elapsed}, ${minutes} left — ${session} begins with ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Great job, ${name}! ${minutes} left — next is ${next}!`,
+      lastTask: ({ name, minutes, task }) => `Way to go finishing ${task}, ${name}! ${minutes} to spare!`,
+      nudge: ({ name, pace, task }) => `Let’s go, ${name}! You’re ${pace} on ${task}!`
+    },
+    da: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Godmorgen, ${name}! ${elapsed}, ${minutes} tilbage — vi starter ${session} med ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Super, ${name}! ${minutes} tilbage — nu ${next}!`,
+      lastTask: ({ name, minutes }) => `Flot klaret, ${name}! ${minutes} til overs!`,
+      nudge: ({ name, pace, task }) => `Kom så, ${name}! ${pace} på ${task}!`
+    }
+  },
+  coach: {
+    en: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Coach here, ${name}: ${elapsed}, ${minutes} left. ${session} opens with ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Solid work, ${name}. ${minutes} left — focus on ${next}.`,
+      lastTask: ({ name, minutes, task }) => `That’s the set, ${name}. ${task} done with ${minutes} to spare.`,
+      nudge: ({ name, pace, task }) => `Eyes on ${task}, ${name} — ${pace}.`
+    },
+    da: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Træneren her, ${name}: ${elapsed}, ${minutes} tilbage. ${session} åbner med ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Godt arbejde, ${name}. ${minutes} tilbage — fokus på ${next}.`,
+      lastTask: ({ name, minutes, task }) => `Sættet er klaret, ${name}. ${task} færdig med ${minutes} til overs.`,
+      nudge: ({ name, pace, task }) => `Fokus på ${task}, ${name} — ${pace}.`
+    }
+  },
+  calm: {
+    en: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Good morning, ${name}. ${elapsed}, ${minutes} left. We’ll begin ${session} with ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Nicely done, ${name}. ${minutes} left. Next, ${next}.`,
+      lastTask: ({ name, minutes, task }) => `All done with ${task}, ${name}. ${minutes} to spare.`,
+      nudge: ({ name, pace, task }) => `Take your time with ${task}, ${name} — ${pace}.`
+    },
+    da: {
+      sessionStart: ({ name, elapsed, minutes, session, task }) =>
+        `Godmorgen, ${name}. ${elapsed}, ${minutes} tilbage. Vi begynder ${session} med ${task}.`,
+      nextTask: ({ name, minutes, next }) => `Fint klaret, ${name}. ${minutes} tilbage. Næste er ${next}.`,
+      lastTask: ({ name, minutes, task }) => `Færdig med ${task}, ${name}. ${minutes} til overs.`,
+      nudge: ({ name, pace, task }) => `Tag den med ro på ${task}, ${name} — ${pace}.`
+    }
+  }
+};
+
+export const buildFallbackMessage = ({
+  type,
+  tone,
+  childFirstName,
+  sessionName,
+  taskTitle,
+  nextTaskTitle,
+  sessionMinutesRemaining,
+  language
+}: {
+  type: EncouragementType;
+  tone: TonePreset;
+  childFirstName: string;
+  sessionName: string;
+  taskTitle: string;
+  nextTaskTitle: string | null;
+  sessionMinutesRemaining: number;
+  language: string;
+}) => {
+  const phraseLanguage = toPhraseLanguage(language);
+  const parts = {
+    name: childFirstName,
+    session: sessionName,
+    task: taskTitle,
+    time: FALLBACK_TIME[tone][phraseLanguage](sessionMinutesRemaining)
+  };
+
+  return pickPhrase(FALLBACK_PHRASES[tone][phraseLanguage], type, parts, nextTaskTitle);
+};
+
+export const buildFakeMessage = ({
+  type,
+  tone,
+  childFirstName,
+  sessionName,
+  taskTitle,
+  nextTaskTitle,
+  sessionMinutesRemaining,
+  sessionMinutesElapsed,
+  currentTaskSecondsRemaining,
+  language
+}: {
+  type: EncouragementType;
+  tone: TonePreset;
+  childFirstName: string;
+  sessionName: string;
+  taskTitle: string;
+  nextTaskTitle: string | null;
+  sessionMinutesRemaining: number;
+  sessionMinutesElapsed: number;
+  currentTaskSecondsRemaining: number;
+  language: string;
+}) => {
+  const phraseLanguage = toPhraseLanguage(language);
+  const words = FAKE_WORDS[phraseLanguage];
+  const parts = {
+    name: childFirstName,
+    session: sessionName,
+    task: taskTitle,
+    minutes: sessionMinutesRemaining > 0 ? `${sessionMinutesRemaining}m` : words.now,
+    elapsed: sessionMinutesElapsed > 0 ? `${sessionMinutesElapsed}m ${words.in}` : words.justStarted,
+    pace: currentTaskSecondsRemaining > 30 ? words.plentyOfTime : words.almostDone
+  };
+
+  return pickPhrase(FAKE_PHRASES[tone][phraseLanguage], type, parts, nextTaskTitle);
+};
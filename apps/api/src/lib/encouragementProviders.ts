@@ -0,0 +1,208 @@
+import { type EncouragementType, llmResponseSchema, type TonePreset } from '@klar-parat/shared';
+
+import type { LlmConfig, LlmProviderName } from '../config/llm.js';
+import { buildFakeMessage } from './encouragementPhrases.js';
+
+export type EncouragementRequest = {
+  type: EncouragementType;
+  tone: TonePreset;
+  language: string;
+  context: Record<string, unknown>;
+  childFirstName: string;
+  sessionName: string;
+  taskTitle: string;
+  nextTaskTitle: string | null;
+  sessionMinutesRemaining: number;
+  sessionMinutesElapsed: number;
+  currentTaskSecondsRemaining: number;
+};
+
+export type EncouragementProvider = {
+  name: LlmProviderName;
+  generate: (request: EncouragementRequest) => Promise<string | null>;
+};
+
+type ChatMessage = { role: string; content: string };
+
+type ChatCompletionClient = {
+  chat: {
+    completions: {
+      create(input: {
+        model: string;
+        temperature: number;
+        max_tokens: number;
+        messages: ChatMessage[];
+      }): Promise<{
+        choices?: { message?: { content?: string } }[];
+      }>;
+    };
+  };
+};
+
+type OpenAIConstructor = new (config: { apiKey: string; timeout?: number }) => ChatCompletionClient;
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const describeLanguage = (code: string) => {
+  if (code.toLowerCase().startsWith('da')) {
+    return 'Danish';
+  }
+  return 'English';
+};
+
+const TONE_STYLES: Record<TonePreset, string> = {
+  playful: 'Playful — bouncy, silly and game-like; small “power-up” metaphors and exclamation marks are welcome.',
+  coach: 'Coach — clear, upbeat sports-coach language; name the finished task and keep the pace steady.',
+  calm: 'Calm — soft and unhurried; no exclamation marks, invite the next step gently and never rush.'
+};
+
+const buildSystemPrompt = (tone: TonePreset) => `You are Klar Parat, a morning coach helping young kids get ready at home before they leave for the day.
+Speak in short sentences (1–3) with zero shame and lots of encouragement.
+Tone: ${TONE_STYLES[tone]}
+You receive structured JSON with details about the child, routine, timing, and nudges.
+Event types:
+- session_start — welcome the child, frame today’s routine, highlight the first task, and mention how much time there is.
+- nudge — mid-task encouragement referencing progress and the pace/urgency data provided.
+- completion — celebrate the finished task, preview the next task (or wrap the session) and comment on how the schedule looks.
+Always use the child’s first name and comment honestly on whether there is plenty of time or if everyone needs to hurry.
+Never invent details that are not in the context.
+Respond ONLY with valid JSON: {"text":"..."} ready to be spoken aloud.`;
+
+const buildMessages = ({ context, language, tone }: EncouragementRequest): ChatMessage[] => [
+  { role: 'system', content: buildSystemPrompt(tone) },
+  {
+    role: 'user',
+    content: [
+      `Language: ${describeLanguage(language)}`,
+      'You are speaking aloud to the child right now.',
+      'Use the timing details to judge urgency honestly.',
+      'JSON context follows:',
+      JSON.stringify(context, null, 2),
+      'Respond with JSON {"text":"..."} only.'
+    ].join('\n')
+  }
+];
+
+// Local models often wrap the JSON in prose or code fences, so only the first object is parsed.
+const parseCompletion = (content: string): string | null => {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return llmResponseSchema.parse(JSON.parse(match[0])).text;
+  } catch (error) {
+    console.error('Failed to parse LLM response', error);
+    return null;
+  }
+};
+
+const createChatProvider = (
+  name: LlmProviderName,
+  model: string,
+  getClient: () => Promise<ChatCompletionClient>
+): EncouragementProvider => ({
+  name,
+  generate: async (request) => {
+    const client = await getClient();
+    const messages = buildMessages(request);
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      try {
+        const response = await client.chat.completions.create({
+          model,
+          temperature: 0.7,
+          max_tokens: 220,
+          messages
+        });
+
+        const choice = response.choices?.[0]?.message?.content;
+        return choice ? parseCompletion(choice) : null;
+      } catch (error) {
+        console.error(`${name} request failed`, error);
+        if (attempt === 0) {
+          await wait(150 + Math.random() * 150);
+        }
+      }
+    }
+
+    return null;
+  }
+});
+
+let openAiConstructor: OpenAIConstructor | null = null;
+let openAiClient: { apiKey: string; client: ChatCompletionClient } | null = null;
+
+const getOpenAiClient = async ({ apiKey, timeoutMs }: LlmConfig): Promise<ChatCompletionClient> => {
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  if (openAiClient?.apiKey === apiKey) {
+    return openAiClient.client;
+  }
+
+  if (!openAiConstructor) {
+    try {
+      const module = await import('openai');
+      openAiConstructor = module.default as unknown as OpenAIConstructor;
+    } catch {
+      throw new Error('OPENAI_SDK_UNAVAILABLE');
+    }
+  }
+
+  openAiClient = { apiKey, client: new openAiConstructor({ apiKey, timeout: timeoutMs }) };
+  return openAiClient.client;
+};
+
+// Talks to any server exposing POST {baseUrl}/chat/completions, e.g. llama.cpp or Ollama's /v1 API.
+const createHttpChatClient = ({ baseUrl, apiKey, timeoutMs }: LlmConfig): ChatCompletionClient => {
+  if (!baseUrl) {
+    throw new Error('LLM_BASE_URL is not configured');
+  }
+
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    chat: {
+      completions: {
+        create: async (input) => {
+          const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+            },
+            body: JSON.stringify({ ...input, stream: false }),
+            signal: AbortSignal.timeout(timeoutMs)
+          });
+
+          if (!response.ok) {
+            throw new Error(`LLM endpoint responded with ${response.status}`);
+          }
+
+          return (await response.json()) as { choices?: { message?: { content?: string } }[] };
+        }
+      }
+    }
+  };
+};
+
+export const createEncouragementProvider = (config: LlmConfig): EncouragementProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createChatProvider('openai', config.model ?? DEFAULT_OPENAI_MODEL, () => getOpenAiClient(config));
+    case 'openai-compatible':
+      return createChatProvider('openai-compatible', config.model ?? 'default', async () =>
+        createHttpChatClient(config)
+      );
+    default:
+      return {
+        name: 'fake',
+        generate: async (request) => buildFakeMessage(request)
+      };
+  }
+};
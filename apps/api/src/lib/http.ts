@@ -22,6 +22,43 @@ export const sendNotFound = (res: Response, message: string) => {
   });
 };
 
+export const sendUnauthorized = (res: Response, message = 'Sign in required') => {
+  res.status(401).json({
+    error: {
+      code: 'UNAUTHORIZED',
+      message
+    }
+  });
+};
+
+export const sendForbidden = (res: Response, message: string) => {
+  res.status(403).json({
+    error: {
+      code: 'FORBIDDEN',
+      message
+    }
+  });
+};
+
+export const sendConflict = (res: Response, message: string) => {
+  res.status(409).json({
+    error: {
+      code: 'CONFLICT',
+      message
+    }
+  });
+};
+
+export const sendTooManyRequests = (res: Response, message: string, retryAfterSeconds: number) => {
+  res.set('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({
+    error: {
+      code: 'TOO_MANY_REQUESTS',
+      message
+    }
+  });
+};
+
 export const sendServerError = (res: Response, message = 'Unexpected error') => {
   res.status(500).json({
     error: {
@@ -0,0 +1,114 @@
+import {
+  CALENDAR_EXCEPTION_MAX_RANGE_DAYS,
+  expandDateRange,
+  type IcsImportEntry,
+  type IcsImportRule
+} from '@klar-parat/shared';
+
+export type IcsAllDayEvent = {
+  summary: string;
+  startDate: string;
+  endDate: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const compactDatePattern = /^(\d{4})(\d{2})(\d{2})$/;
+
+const toIsoDate = (value: string) => {
+  const match = compactDatePattern.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const previousDay = (date: string) =>
+  new Date(new Date(`${date}T00:00:00.000Z`).getTime() - DAY_MS).toISOString().slice(0, 10);
+
+const unescapeText = (value: string) =>
+  value
+    .replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? ' ' : char))
+    .trim();
+
+type IcsProperty = { name: string; value: string };
+
+const parseProperty = (line: string): IcsProperty | null => {
+  const colonIndex = line.indexOf(':');
+  if (colonIndex === -1) {
+    return null;
+  }
+  // Parameters such as VALUE=DATE are dropped; all-day dates are recognised by their value format.
+  const [name] = line.slice(0, colonIndex).split(';');
+  return { name: name.toUpperCase(), value: line.slice(colonIndex + 1) };
+};
+
+// Only all-day events are relevant for school calendars; timed events and recurrence rules are ignored.
+export const parseIcsAllDayEvents = (text: string): IcsAllDayEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsAllDayEvent[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      continue;
+    }
+    if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT' && current) {
+      const find = (name: string) => current?.find((entry) => entry.name === name);
+      const start = find('DTSTART');
+      const end = find('DTEND');
+      const status = find('STATUS')?.value.toUpperCase();
+      const startDate = start ? toIsoDate(start.value) : null;
+
+      if (startDate && status !== 'CANCELLED') {
+        const exclusiveEnd = end ? toIsoDate(end.value) : null;
+        const endDate = exclusiveEnd && exclusiveEnd > startDate ? previousDay(exclusiveEnd) : startDate;
+        events.push({ summary: unescapeText(find('SUMMARY')?.value ?? ''), startDate, endDate });
+      }
+      current = null;
+      continue;
+    }
+    current?.push(property);
+  }
+
+  return events;
+};
+
+export const buildIcsImportEntries = (
+  events: IcsAllDayEvent[],
+  rules: IcsImportRule[],
+  childIds: string[]
+): IcsImportEntry[] => {
+  const targets = childIds.length > 0 ? childIds : [null];
+  const entries = new Map<string, IcsImportEntry>();
+
+  for (const event of events) {
+    const summary = event.summary.toLowerCase();
+    const rule = rules.find(({ keyword }) => summary.includes(keyword.toLowerCase()));
+    if (!rule) {
+      continue;
+    }
+    const dates = expandDateRange(event.startDate, event.endDate);
+    if (dates.length > CALENDAR_EXCEPTION_MAX_RANGE_DAYS) {
+      continue;
+    }
+    for (const date of dates) {
+      for (const childId of targets) {
+        const key = `${date}:${childId ?? 'household'}`;
+        if (!entries.has(key)) {
+          entries.set(key, {
+            date,
+            childId,
+            kind: rule.kind,
+            templateId: rule.templateId ?? null,
+            note: event.summary
+          });
+        }
+      }
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -1,13 +1,54 @@
-import type { Child, Session, Template } from '@klar-parat/shared';
-import { templateSnapshotSchema } from '@klar-parat/shared';
 import type {
+  BlockedPhrase,
+  CalendarException,
+  Child,
+  ChildLanguage,
+  DeviceToken,
+  MessageLogEntry,
+  Parent,
+  ParentInvite,
+  ScheduleAssignment,
+  Session,
+  SessionHistoryEntry,
+  Settings,
+  TaskRunSample,
+  Template,
+  TonePreset,
+  Weekday
+} from '@klar-parat/shared';
+import {
+  calendarExceptionKindSchema,
+  childLanguageSchema,
+  computeSessionDurationSeconds,
+  DEFAULT_CHILD_LANGUAGE,
+  DEFAULT_TONE,
+  encouragementTypeSchema,
+  measureTaskRuns,
+  MESSAGE_LOG_SOURCES,
+  templateSnapshotSchema,
+  tonePresetSchema,
+  WEEKDAYS,
+  weekdaySchema
+} from '@klar-parat/shared';
+import type {
+  BlockedPhrase as PrismaBlockedPhrase,
+  CalendarException as PrismaCalendarException,
   Child as PrismaChild,
+  DeviceToken as PrismaDeviceToken,
+  Household as PrismaHousehold,
+  MessageLogEntry as PrismaMessageLogEntry,
+  Parent as PrismaParent,
+  ParentInvite as PrismaParentInvite,
+  ScheduleAssignment as PrismaScheduleAssignment,
   Session as PrismaSession,
   SessionTask as PrismaSessionTask,
+  Settings as PrismaSettings,
   Template as PrismaTemplate,
   TemplateTask as PrismaTemplateTask
 } from '@prisma/client';
 
+import { householdTimeZone } from './dates.js';
+
 const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
 
 const toIsoString = (date: Date) => date.toISOString();
@@ -17,18 +58,41 @@ const mapTemplateTask = (task: PrismaTemplateTask) => ({
   title: task.title,
   emoji: task.emoji ?? undefined,
   hint: task.hint ?? undefined,
+  completionSnippet: task.completionSnippet ?? undefined,
+  nudgeSnippet: task.nudgeSnippet ?? undefined,
   expectedMinutes: task.expectedMinutes,
   orderIndex: task.orderIndex
 });
 
+const asTone = (value: string | null): TonePreset | null => {
+  const parsed = tonePresetSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+const asChildLanguage = (value: string): ChildLanguage => {
+  const parsed = childLanguageSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_CHILD_LANGUAGE;
+};
+
 export const mapChild = (child: PrismaChild): Child => ({
   id: child.id,
   firstName: child.firstName,
   birthdate: toIsoDate(child.birthdate),
   active: child.active,
+  defaultTemplateId: child.defaultTemplateId,
+  tone: asTone(child.tone),
+  language: asChildLanguage(child.language),
+  voice: child.voice,
+  speechRate: child.speechRate,
+  speechPitch: child.speechPitch,
   createdAt: toIsoString(child.createdAt)
 });
 
+const parseDaysActive = (value: string): Weekday[] => {
+  const days = value.split(',');
+  return WEEKDAYS.filter((day) => days.includes(day));
+};
+
 export const mapTemplate = (
   template: PrismaTemplate & { tasks: PrismaTemplateTask[] }
 ): Template => ({
@@ -36,6 +100,7 @@ export const mapTemplate = (
   name: template.name,
   defaultStartTime: template.defaultStartTime,
   defaultEndTime: template.defaultEndTime,
+  daysActive: parseDaysActive(template.daysActive),
   tasks: template.tasks
     .slice()
     .sort((a, b) => a.orderIndex - b.orderIndex)
@@ -77,9 +142,145 @@ export const mapSession = (
         expectedMinutes: task.expectedMinutes,
         completedAt: task.completedAt ? toIsoString(task.completedAt) : null,
         skipped: task.skipped,
+        skippedAt: task.skippedAt ? toIsoString(task.skippedAt) : null,
         orderIndex: task.orderIndex,
         emoji: snapshotByOrder.get(task.orderIndex)?.emoji,
         hint: snapshotByOrder.get(task.orderIndex)?.hint
       }))
   };
 };
+
+export const mapSessionHistoryEntry = (
+  session: PrismaSession & { tasks: PrismaSessionTask[]; child: PrismaChild }
+): SessionHistoryEntry => {
+  const snapshot = templateSnapshotSchema.parse(JSON.parse(session.templateSnapshot));
+  const snapshotByOrder = new Map(snapshot.tasks.map((task) => [task.orderIndex, task]));
+
+  return {
+    id: session.id,
+    child: mapChild(session.child),
+    templateName: snapshot.name,
+    plannedStartAt: toIsoString(session.plannedStartAt),
+    actualStartAt: session.actualStartAt ? toIsoString(session.actualStartAt) : null,
+    actualEndAt: session.actualEndAt ? toIsoString(session.actualEndAt) : null,
+    medal: asMedal(session.medal),
+    expectedTotalMinutes: session.expectedTotalMinutes,
+    durationSeconds: computeSessionDurationSeconds(session.actualStartAt, session.actualEndAt),
+    tasks: measureTaskRuns(session.tasks, session.actualStartAt).map((task) => ({
+      id: task.id,
+      orderIndex: task.orderIndex,
+      title: task.title,
+      emoji: snapshotByOrder.get(task.orderIndex)?.emoji,
+      expectedMinutes: task.expectedMinutes,
+      skipped: task.skipped,
+      startedAt: task.startedAt ? toIsoString(task.startedAt) : null,
+      completedAt: task.completedAt ? toIsoString(task.completedAt) : null,
+      durationSeconds: task.durationSeconds
+    }))
+  };
+};
+
+export const mapTaskRunSamples = (
+  session: PrismaSession & { tasks: PrismaSessionTask[]; child: PrismaChild }
+): TaskRunSample[] => {
+  const snapshot = templateSnapshotSchema.parse(JSON.parse(session.templateSnapshot));
+
+  return measureTaskRuns(session.tasks, session.actualStartAt).map((task) => ({
+    childId: session.childId,
+    childFirstName: session.child.firstName,
+    templateId: snapshot.templateId,
+    templateName: snapshot.name,
+    taskTitle: task.title,
+    expectedMinutes: task.expectedMinutes,
+    durationSeconds: task.durationSeconds,
+    skipped: task.skipped,
+    nudgeCount: [task.nudgeFirstFiredAt, task.nudgeSecondFiredAt, task.nudgeFinalFiredAt].filter(
+      (firedAt) => firedAt !== null
+    ).length
+  }));
+};
+
+export const mapSettings = (settings: PrismaSettings): Settings => ({
+  medalThresholds: {
+    gold: settings.goldMultiplier,
+    silver: settings.silverMultiplier
+  },
+  urgencyThresholds: {
+    aheadBoundary: settings.urgencyAheadBoundary,
+    onTrackBoundary: settings.urgencyOnTrackBoundary,
+    warningBoundary: settings.urgencyWarningBoundary
+  },
+  defaultExpectedMinutes: settings.defaultExpectedMinutes,
+  allowSkipByDefault: settings.allowSkipByDefault,
+  tone: asTone(settings.tone) ?? DEFAULT_TONE,
+  language: asChildLanguage(settings.language),
+  timeZone: householdTimeZone(settings),
+  updatedAt: toIsoString(settings.updatedAt)
+});
+
+export const mapParent = (parent: PrismaParent & { household: PrismaHousehold }): Parent => ({
+  id: parent.id,
+  email: parent.email,
+  householdId: parent.householdId,
+  householdName: parent.household.name,
+  hasPin: Boolean(parent.household.pinHash)
+});
+
+export const mapParentInvite = (invite: PrismaParentInvite): ParentInvite => ({
+  id: invite.id,
+  expiresAt: toIsoString(invite.expiresAt),
+  createdAt: toIsoString(invite.createdAt)
+});
+
+export const mapDeviceToken = (deviceToken: PrismaDeviceToken): DeviceToken => ({
+  id: deviceToken.id,
+  label: deviceToken.label,
+  lastUsedAt: deviceToken.lastUsedAt ? toIsoString(deviceToken.lastUsedAt) : null,
+  createdAt: toIsoString(deviceToken.createdAt)
+});
+
+export const mapScheduleAssignment = (
+  assignment: PrismaScheduleAssignment
+): ScheduleAssignment => ({
+  id: assignment.id,
+  childId: assignment.childId,
+  weekday: weekdaySchema.parse(assignment.weekday),
+  templateId: assignment.templateId
+});
+
+export const mapCalendarException = (exception: PrismaCalendarException): CalendarException => ({
+  id: exception.id,
+  date: exception.date,
+  childId: exception.childId,
+  kind: calendarExceptionKindSchema.parse(exception.kind),
+  templateId: exception.templateId,
+  note: exception.note,
+  createdAt: toIsoString(exception.createdAt)
+});
+
+const asMessageLogSource = (value: string): MessageLogEntry['source'] =>
+  MESSAGE_LOG_SOURCES.find((source) => source === value) ?? 'fallback';
+
+export const mapMessageLogEntry = (
+  entry: PrismaMessageLogEntry & { session: PrismaSession & { child: PrismaChild } },
+  blocked: boolean
+): MessageLogEntry => ({
+  id: entry.id,
+  sessionId: entry.sessionId,
+  sessionTaskId: entry.sessionTaskId,
+  childFirstName: entry.session.child.firstName,
+  templateName: templateSnapshotSchema.parse(JSON.parse(entry.session.templateSnapshot)).name,
+  type: encouragementTypeSchema.parse(entry.type),
+  source: asMessageLogSource(entry.source),
+  language: entry.language,
+  latencyMs: entry.latencyMs,
+  text: entry.text,
+  blocked,
+  createdAt: toIsoString(entry.createdAt)
+});
+
+export const mapBlockedPhrase = (phrase: PrismaBlockedPhrase): BlockedPhrase => ({
+  id: phrase.id,
+  text: phrase.text,
+  createdAt: toIsoString(phrase.createdAt)
+});
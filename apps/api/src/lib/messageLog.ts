@@ -0,0 +1,71 @@
+import type { EncouragementType, MESSAGE_LOG_SOURCES } from '@klar-parat/shared';
+
+import { prisma } from './prisma.js';
+
+type MessageLogSource = (typeof MESSAGE_LOG_SOURCES)[number];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only understands ASCII letters, so names like "Søren" need explicit Unicode boundaries.
+const wordPattern = (word: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, 'giu');
+
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+const PHONE_PATTERN = /\+?\d[\d\s-]{5,}\d/g;
+
+export type MessageGuard = {
+  scrub: (text: string) => string;
+  isBlocked: (text: string) => boolean;
+  blockedTexts: string[];
+};
+
+// Blocked phrases are stored with the child's name swapped for a marker, so blocking a line for one
+// child keeps it away from their siblings too.
+export const toBlockedPattern = (text: string, firstName: string) =>
+  text
+    .replace(wordPattern(firstName), '{name}')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}{}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Only the child's first name may stay in a logged message; other names, e-mails and phone numbers go.
+export const loadMessageGuard = async (firstName: string): Promise<MessageGuard> => {
+  const [children, households, blocked] = await Promise.all([
+    prisma.child.findMany({ select: { firstName: true } }),
+    prisma.household.findMany({ select: { name: true } }),
+    prisma.blockedPhrase.findMany({ orderBy: { createdAt: 'desc' } })
+  ]);
+
+  const otherNames = Array.from(
+    new Set(
+      [...children.map((child) => child.firstName), ...households.map((household) => household.name)]
+        .map((name) => name.trim())
+        .filter((name) => name && name.toLowerCase() !== firstName.toLowerCase())
+    )
+  );
+
+  const scrub = (text: string) =>
+    otherNames
+      .reduce((result, name) => result.replace(wordPattern(name), '[name]'), text)
+      .replace(EMAIL_PATTERN, '[email]')
+      .replace(PHONE_PATTERN, '[number]');
+
+  const blockedPatterns = new Set(blocked.map((phrase) => phrase.pattern));
+
+  return {
+    scrub,
+    isBlocked: (text) => blockedPatterns.has(toBlockedPattern(scrub(text), firstName)),
+    blockedTexts: blocked.map((phrase) => phrase.text)
+  };
+};
+
+export const recordMessage = (entry: {
+  sessionId: string;
+  sessionTaskId: string;
+  type: EncouragementType;
+  source: MessageLogSource;
+  language: string;
+  latencyMs: number;
+  text: string;
+}) => prisma.messageLogEntry.create({ data: entry });
@@ -0,0 +1,117 @@
+import { findExceptionForChild, sessionSchema } from '@klar-parat/shared';
+import { Prisma } from '@prisma/client';
+
+import type { SchedulerConfig } from '../config/scheduler.js';
+import { householdTimeZone, isoDateWeekday, startOfZonedDay, toZonedIsoDate } from './dates.js';
+import { mapChild, mapSession } from './mappers.js';
+import { prisma } from './prisma.js';
+import { publishSessionEvent } from './sessionEvents.js';
+import { buildTemplateSnapshot, createSession, toPlannedDate } from './sessions.js';
+import { loadSettings } from './settings.js';
+
+const MINUTE_MS = 60 * 1000;
+
+export const stageScheduledSessions = async (now: Date, leadMinutes: number) => {
+  const settings = await loadSettings();
+  const timeZone = householdTimeZone(settings);
+  const scheduledFor = toZonedIsoDate(now, timeZone);
+  const [assignments, exceptions] = await Promise.all([
+    prisma.scheduleAssignment.findMany({
+      where: { weekday: isoDateWeekday(scheduledFor), child: { active: true } },
+      include: { child: true, template: { include: { tasks: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.calendarException.findMany({
+      where: { date: scheduledFor },
+      include: { template: { include: { tasks: true } } }
+    })
+  ]);
+  if (assignments.length === 0) {
+    return 0;
+  }
+
+  let staged = 0;
+  for (const assignment of assignments) {
+    const { childId } = assignment;
+    const exception = findExceptionForChild(exceptions, childId);
+    if (exception?.kind === 'skip') {
+      continue;
+    }
+    const template = exception?.template ?? assignment.template;
+
+    const plannedStartAt = toPlannedDate(template.defaultStartTime, timeZone, now);
+    const plannedEndAt = toPlannedDate(template.defaultEndTime, timeZone, now);
+    const stagingOpensAt = new Date(plannedStartAt.getTime() - leadMinutes * MINUTE_MS);
+    if (now < stagingOpensAt || now >= plannedEndAt) {
+      continue;
+    }
+
+    // One scheduled session per child per day; an open session planned today also counts.
+    const existing = await prisma.session.findFirst({
+      where: {
+        childId,
+        OR: [
+          { scheduledFor },
+          { actualEndAt: null, plannedStartAt: { gte: startOfZonedDay(scheduledFor, timeZone) } }
+        ]
+      }
+    });
+    if (existing) {
+      continue;
+    }
+
+    try {
+      const created = await createSession({
+        childId,
+        snapshot: buildTemplateSnapshot(template),
+        plannedStartAt,
+        plannedEndAt,
+        allowSkip: settings.allowSkipByDefault,
+        settings,
+        startedAt: plannedStartAt > now ? plannedStartAt : now,
+        scheduledFor
+      });
+      if (created) {
+        publishSessionEvent({
+          type: 'session.started',
+          session: sessionSchema.parse(mapSession(created)),
+          child: mapChild(assignment.child)
+        });
+      }
+      staged += 1;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return staged;
+};
+
+export const startScheduler = ({ enabled, leadMinutes, pollIntervalMs }: SchedulerConfig) => {
+  if (!enabled) {
+    return () => {};
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const staged = await stageScheduledSessions(new Date(), leadMinutes);
+      if (staged > 0) {
+        console.log(`Scheduler staged ${staged} session${staged === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('Scheduler run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), pollIntervalMs);
+  return () => clearInterval(timer);
+};
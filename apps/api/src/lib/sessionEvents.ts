@@ -0,0 +1,22 @@
+import { EventEmitter } from 'node:events';
+
+import type { SessionStreamEvent } from '@klar-parat/shared';
+
+type SessionEventListener = (event: SessionStreamEvent) => void;
+
+const SESSION_EVENT = 'session-event';
+
+const emitter = new EventEmitter();
+// Every open board holds one listener, so the default cap of 10 is too low.
+emitter.setMaxListeners(0);
+
+export const publishSessionEvent = (event: SessionStreamEvent) => {
+  emitter.emit(SESSION_EVENT, event);
+};
+
+export const subscribeToSessionEvents = (listener: SessionEventListener) => {
+  emitter.on(SESSION_EVENT, listener);
+  return () => {
+    emitter.off(SESSION_EVENT, listener);
+  };
+};
@@ -0,0 +1,96 @@
+import { type TemplateSnapshot, templateSnapshotSchema } from '@klar-parat/shared';
+import type {
+  Settings as PrismaSettings,
+  Template as PrismaTemplate,
+  TemplateTask as PrismaTemplateTask
+} from '@prisma/client';
+
+import { toZonedIsoDate, zonedDateTime } from './dates.js';
+import { prisma } from './prisma.js';
+import { toSessionThresholds } from './settings.js';
+
+export const toPlannedDate = (time: string, timeZone: string, day: Date = new Date()) =>
+  zonedDateTime(toZonedIsoDate(day, timeZone), time, timeZone);
+
+export const buildTemplateSnapshot = (
+  template: PrismaTemplate & { tasks: PrismaTemplateTask[] }
+): TemplateSnapshot => {
+  const sortedTasks = template.tasks
+    .slice()
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map((task, index) => ({
+      title: task.title,
+      emoji: task.emoji ?? undefined,
+      hint: task.hint ?? undefined,
+      completionSnippet: task.completionSnippet ?? undefined,
+      nudgeSnippet: task.nudgeSnippet ?? undefined,
+      expectedMinutes: task.expectedMinutes,
+      orderIndex: index
+    }));
+
+  return templateSnapshotSchema.parse({
+    templateId: template.id,
+    name: template.name,
+    defaultStartTime: template.defaultStartTime,
+    defaultEndTime: template.defaultEndTime,
+    tasks: sortedTasks,
+    expectedTotalMinutes: sortedTasks.reduce((total, task) => total + task.expectedMinutes, 0)
+  });
+};
+
+type CreateSessionInput = {
+  childId: string;
+  snapshot: TemplateSnapshot;
+  plannedStartAt: Date;
+  plannedEndAt: Date;
+  allowSkip: boolean;
+  settings: PrismaSettings;
+  startedAt?: Date;
+  scheduledFor?: string;
+};
+
+export const createSession = ({
+  childId,
+  snapshot,
+  plannedStartAt,
+  plannedEndAt,
+  allowSkip,
+  settings,
+  startedAt = new Date(),
+  scheduledFor
+}: CreateSessionInput) =>
+  prisma.$transaction(async (tx) => {
+    const session = await tx.session.create({
+      data: {
+        childId,
+        templateId: snapshot.templateId,
+        templateSnapshot: JSON.stringify(snapshot),
+        plannedStartAt,
+        plannedEndAt,
+        expectedTotalMinutes: snapshot.expectedTotalMinutes,
+        allowSkip,
+        thresholdsSnapshot: JSON.stringify(toSessionThresholds(settings)),
+        actualStartAt: startedAt,
+        scheduledFor
+      }
+    });
+
+    await Promise.all(
+      snapshot.tasks.map((task) =>
+        tx.sessionTask.create({
+          data: {
+            sessionId: session.id,
+            title: task.title,
+            expectedMinutes: task.expectedMinutes,
+            orderIndex: task.orderIndex,
+            startedAt: task.orderIndex === 0 ? startedAt : null
+          }
+        })
+      )
+    );
+
+    return tx.session.findUnique({
+      where: { id: session.id },
+      include: { tasks: true }
+    });
+  });
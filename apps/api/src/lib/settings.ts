@@ -0,0 +1,55 @@
+import {
+  DEFAULT_MEDAL_THRESHOLDS,
+  getDefaultUrgencyThresholds,
+  type SessionThresholds,
+  sessionThresholdsSchema,
+  type TonePreset
+} from '@klar-parat/shared';
+import type { Settings as PrismaSettings } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+
+import { mapSettings } from './mappers.js';
+import { prisma } from './prisma.js';
+
+export const HOUSEHOLD_SETTINGS_ID = 'household';
+
+type SettingsClient = Pick<Prisma.TransactionClient, 'settings'>;
+
+export const loadSettings = async (client: SettingsClient = prisma): Promise<PrismaSettings> => {
+  const existing = await client.settings.findUnique({ where: { id: HOUSEHOLD_SETTINGS_ID } });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await client.settings.create({ data: { id: HOUSEHOLD_SETTINGS_ID } });
+  } catch (error) {
+    // Two requests may race to create the singleton row; the loser reads the winner's copy.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return client.settings.findUniqueOrThrow({ where: { id: HOUSEHOLD_SETTINGS_ID } });
+    }
+    throw error;
+  }
+};
+
+export const toSessionThresholds = (settings: PrismaSettings): SessionThresholds => {
+  const { medalThresholds, urgencyThresholds } = mapSettings(settings);
+  return { medalThresholds, urgencyThresholds };
+};
+
+// A child's own tone wins; otherwise the household setting applies.
+export const resolveTone = async (childTone: TonePreset | null): Promise<TonePreset> =>
+  childTone ?? mapSettings(await loadSettings()).tone;
+
+export const resolveSessionThresholds = (session: {
+  thresholdsSnapshot: string | null;
+}): SessionThresholds => {
+  if (!session.thresholdsSnapshot) {
+    return {
+      medalThresholds: DEFAULT_MEDAL_THRESHOLDS,
+      urgencyThresholds: getDefaultUrgencyThresholds()
+    };
+  }
+
+  return sessionThresholdsSchema.parse(JSON.parse(session.thresholdsSnapshot));
+};
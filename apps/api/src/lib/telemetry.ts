@@ -0,0 +1,159 @@
+import {
+  computeUrgency,
+  type SessionActiveTaskTelemetry,
+  type SessionTelemetry,
+  sessionTelemetrySchema,
+  templateSnapshotSchema
+} from '@klar-parat/shared';
+
+import { prisma } from './prisma.js';
+import { publishSessionEvent } from './sessionEvents.js';
+import { resolveSessionThresholds } from './settings.js';
+
+// Nudges fire lazily: whichever caller computes telemetry first records the threshold.
+export const computeSessionTelemetry = (
+  id: string,
+  now: Date = new Date()
+): Promise<SessionTelemetry | null> =>
+  prisma.$transaction(async (tx) => {
+    const session = await tx.session.findUnique({
+      where: { id },
+      include: { tasks: true }
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const snapshot = templateSnapshotSchema.parse(JSON.parse(session.templateSnapshot));
+    const snapshotByOrder = new Map(snapshot.tasks.map((task) => [task.orderIndex, task]));
+    const completedExpectedMinutes = session.tasks
+      .filter((task) => task.completedAt || task.skipped)
+      .reduce((total, task) => total + task.expectedMinutes, 0);
+
+    const urgency = computeUrgency({
+      plannedStartAt: session.plannedStartAt,
+      plannedEndAt: session.plannedEndAt,
+      expectedTotalMinutes: session.expectedTotalMinutes,
+      completedExpectedMinutes,
+      now,
+      thresholds: resolveSessionThresholds(session).urgencyThresholds
+    });
+
+    const orderedTasks = session.tasks.slice().sort((a, b) => a.orderIndex - b.orderIndex);
+    const activeTask = orderedTasks.find((task) => !task.completedAt && !task.skipped);
+    const nextTaskCandidate = orderedTasks.find((task) => {
+      if (!activeTask) {
+        return !task.completedAt && !task.skipped;
+      }
+      return task.orderIndex > activeTask.orderIndex && !task.completedAt && !task.skipped;
+    });
+
+    const nudges: { sessionTaskId: string; threshold: 'first' | 'second' | 'final'; firedAt: string }[] = [];
+    let currentTaskTelemetry: SessionActiveTaskTelemetry | null = null;
+
+    if (activeTask) {
+      const startedAt = activeTask.startedAt ?? session.actualStartAt ?? session.plannedStartAt;
+      const elapsedSeconds = Math.max(0, Math.floor((now.getTime() - startedAt.getTime()) / 1000));
+      const totalSeconds = Math.max(1, Math.round(activeTask.expectedMinutes * 60));
+      const thresholds = [
+        { key: 'nudgeFirstFiredAt' as const, ratio: 1 / 3, label: 'first' as const },
+        { key: 'nudgeSecondFiredAt' as const, ratio: 2 / 3, label: 'second' as const },
+        { key: 'nudgeFinalFiredAt' as const, ratio: 1, label: 'final' as const }
+      ];
+
+      for (const threshold of thresholds) {
+        const targetSeconds = Math.max(1, Math.round(totalSeconds * threshold.ratio));
+        const alreadyFired = activeTask[threshold.key];
+
+        if (elapsedSeconds >= targetSeconds && !alreadyFired) {
+          await tx.sessionTask.update({
+            where: { id: activeTask.id },
+            data: { [threshold.key]: now }
+          });
+
+          activeTask[threshold.key] = now;
+
+          nudges.push({
+            sessionTaskId: activeTask.id,
+            threshold: threshold.label,
+            firedAt: now.toISOString()
+          });
+        }
+      }
+
+      const firedDates = thresholds
+        .map((threshold) => activeTask[threshold.key])
+        .filter((value): value is Date => Boolean(value));
+      const lastNudgeFiredAt = firedDates.length
+        ? firedDates.reduce((latest, current) => (current > latest ? current : latest))
+        : null;
+      const nextNudge = thresholds.find((threshold) => !activeTask[threshold.key]);
+      const snapshotTask = snapshotByOrder.get(activeTask.orderIndex);
+
+      currentTaskTelemetry = {
+        sessionTaskId: activeTask.id,
+        title: activeTask.title,
+        expectedMinutes: activeTask.expectedMinutes,
+        hint: snapshotTask?.hint,
+        startedAt: startedAt.toISOString(),
+        elapsedSeconds,
+        remainingSeconds: Math.max(0, totalSeconds - elapsedSeconds),
+        nudgesFiredCount: firedDates.length,
+        totalScheduledNudges: thresholds.length,
+        nextNudgeThreshold: nextNudge ? nextNudge.label : null,
+        lastNudgeFiredAt: lastNudgeFiredAt ? lastNudgeFiredAt.toISOString() : null
+      };
+    }
+
+    const nextTaskTelemetry = nextTaskCandidate
+      ? {
+          title: nextTaskCandidate.title,
+          hint: snapshotByOrder.get(nextTaskCandidate.orderIndex)?.hint
+        }
+      : null;
+
+    return sessionTelemetrySchema.parse({
+      urgencyLevel: urgency.urgencyLevel,
+      timeRemainingMinutes: urgency.timeRemainingMinutes,
+      paceDelta: urgency.paceDelta,
+      sessionEndsAt: session.plannedEndAt.toISOString(),
+      nudges,
+      currentTask: currentTaskTelemetry,
+      nextTask: nextTaskTelemetry
+    });
+  });
+
+export const broadcastActiveTelemetry = async (now: Date = new Date()) => {
+  const active = await prisma.session.findMany({
+    where: { actualEndAt: null },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  for (const { id } of active) {
+    const telemetry = await computeSessionTelemetry(id, now);
+    if (telemetry) {
+      publishSessionEvent({ type: 'telemetry', sessionId: id, telemetry });
+    }
+  }
+};
+
+export const startTelemetryBroadcast = (intervalMs: number) => {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await broadcastActiveTelemetry();
+    } catch (error) {
+      console.error('Telemetry broadcast failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => void tick(), intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,66 @@
+import { createHash } from 'node:crypto';
+import { access, mkdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { TtsAudio, TtsProvider, TtsRequest } from './ttsProviders.js';
+
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm'
+};
+
+const CACHE_EXTENSIONS = Array.from(new Set(Object.values(EXTENSION_BY_CONTENT_TYPE)));
+
+export const TTS_CACHE_FILE_PATTERN = new RegExp(`^[a-f0-9]{64}\\.(${CACHE_EXTENSIONS.join('|')})$`);
+
+// The provider name is part of the key so switching providers never replays audio from the previous one.
+export const ttsCacheKey = (provider: TtsProvider['name'], request: TtsRequest) =>
+  createHash('sha256')
+    .update(
+      JSON.stringify([provider, request.language.toLowerCase(), request.voice, request.rate, request.pitch, request.text])
+    )
+    .digest('hex');
+
+const exists = async (filePath: string) => {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const findCachedFile = async (cacheDir: string, key: string) => {
+  for (const extension of CACHE_EXTENSIONS) {
+    const fileName = `${key}.${extension}`;
+    if (await exists(path.join(cacheDir, fileName))) {
+      return fileName;
+    }
+  }
+  return null;
+};
+
+const storeAudio = async (cacheDir: string, key: string, audio: TtsAudio) => {
+  const fileName = `${key}.${EXTENSION_BY_CONTENT_TYPE[audio.contentType] ?? 'wav'}`;
+  const tempPath = path.join(cacheDir, `${fileName}.${process.pid}.tmp`);
+  await mkdir(cacheDir, { recursive: true });
+  // Write then rename so a concurrent request never serves a half-written file.
+  await writeFile(tempPath, audio.data);
+  await rename(tempPath, path.join(cacheDir, fileName));
+  return fileName;
+};
+
+// Returns the cache file name for the request, synthesizing it only on a miss.
+export const synthesizeCached = async (provider: TtsProvider, cacheDir: string, request: TtsRequest) => {
+  const key = ttsCacheKey(provider.name, request);
+  const cached = await findCachedFile(cacheDir, key);
+  if (cached) {
+    return cached;
+  }
+
+  return storeAudio(cacheDir, key, await provider.synthesize(request));
+};
@@ -0,0 +1,132 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import type { TtsConfig, TtsProviderName } from '../config/tts.js';
+import { renderSineWave } from './audio.js';
+
+export type TtsRequest = {
+  text: string;
+  voice: string;
+  language: string;
+  rate: number;
+  pitch: number;
+};
+
+export type TtsAudio = {
+  data: Buffer;
+  contentType: string;
+};
+
+export type TtsProvider = {
+  name: TtsProviderName;
+  synthesize: (request: TtsRequest) => Promise<TtsAudio>;
+};
+
+const MAX_AUDIO_BYTES = 20 * 1024 * 1024;
+
+const runCommand = promisify(execFile);
+
+const createFakeTtsProvider = (): TtsProvider => ({
+  name: 'fake',
+  synthesize: async () => ({ data: renderSineWave(), contentType: 'audio/wav' })
+});
+
+// Posts { text, voice, language, rate, pitch } as JSON and expects the audio bytes back, which is the smallest
+// contract a hosted voice or a local stand-in server can both answer.
+const createHttpTtsProvider = (config: TtsConfig): TtsProvider => ({
+  name: 'http',
+  synthesize: async (request) => {
+    if (!config.baseUrl) {
+      throw new Error('TTS_BASE_URL is required for the http TTS provider');
+    }
+
+    const response = await fetch(config.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'audio/*',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+      },
+      body: JSON.stringify({ ...request, ...(config.region && { region: config.region }) }),
+      signal: AbortSignal.timeout(config.timeoutMs)
+    });
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    if (!response.ok || !contentType.startsWith('audio/')) {
+      throw new Error(`TTS endpoint responded with ${response.status} (${contentType || 'no content type'})`);
+    }
+
+    return { data: Buffer.from(await response.arrayBuffer()), contentType };
+  }
+});
+
+// TTS_COMMAND is split on whitespace and run without a shell; {textFile}, {text}, {voice}, {language}, {rate},
+// {pitch} and {output} are filled in per argument. Without {textFile} or {text} the text goes to stdin, without
+// {output} the WAV is read from stdout.
+const createCommandTtsProvider = (config: TtsConfig): TtsProvider => ({
+  name: 'command',
+  synthesize: async (request) => {
+    const [binary, ...template] = (config.command ?? '').split(/\s+/).filter(Boolean);
+    if (!binary) {
+      throw new Error('TTS_COMMAND is required for the command TTS provider');
+    }
+
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'klar-parat-tts-'));
+    const textPath = path.join(workDir, 'speech.txt');
+    const outputPath = path.join(workDir, 'speech.wav');
+    const usesPlaceholder = (placeholder: string) => template.some((arg) => arg.includes(placeholder));
+    // Spoken text comes from children's task names, so a leading dash must not turn into an option of the binary.
+    const argText = request.text.startsWith('-') ? ` ${request.text}` : request.text;
+    const fill = (arg: string) =>
+      arg
+        .replaceAll('{textFile}', textPath)
+        .replaceAll('{text}', argText)
+        .replaceAll('{voice}', request.voice)
+        .replaceAll('{language}', request.language)
+        .replaceAll('{rate}', String(request.rate))
+        .replaceAll('{pitch}', String(request.pitch))
+        .replaceAll('{output}', outputPath);
+
+    try {
+      if (usesPlaceholder('{textFile}')) {
+        await writeFile(textPath, request.text, 'utf8');
+      }
+
+      const pending = runCommand(binary, template.map(fill), {
+        encoding: 'buffer',
+        timeout: config.timeoutMs,
+        maxBuffer: MAX_AUDIO_BYTES
+      });
+      // A synthesizer that exits without reading stdin closes the pipe; the exit status decides the outcome.
+      pending.child.stdin?.on('error', () => undefined);
+      const readsStdin = !usesPlaceholder('{textFile}') && !usesPlaceholder('{text}');
+      pending.child.stdin?.end(readsStdin ? request.text : undefined);
+      const { stdout } = await pending;
+
+      const data = usesPlaceholder('{output}') ? await readFile(outputPath) : stdout;
+      if (data.length === 0) {
+        throw new Error('TTS command produced no audio');
+      }
+
+      return { data, contentType: 'audio/wav' };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+});
+
+export const createTtsProvider = (config: TtsConfig): TtsProvider | null => {
+  switch (config.provider) {
+    case 'fake':
+      return createFakeTtsProvider();
+    case 'http':
+      return createHttpTtsProvider(config);
+    case 'command':
+      return createCommandTtsProvider(config);
+    default:
+      return null;
+  }
+};
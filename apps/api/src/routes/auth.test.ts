@@ -0,0 +1,181 @@
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+describe.sequential('auth routes', () => {
+  const app = createApp();
+
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs up, logs out, and logs back in with a cookie session', async () => {
+    const agent = request.agent(app);
+
+    const signupResponse = await agent
+      .post('/api/auth/signup')
+      .send({ email: 'Parent@Example.com', password: 'correct-horse-battery', householdName: 'Jensen' });
+
+    expect(signupResponse.status).toBe(201);
+    expect(signupResponse.body.parent).toMatchObject({ email: 'parent@example.com', householdName: 'Jensen' });
+    expect(signupResponse.headers['set-cookie'][0]).toContain('HttpOnly');
+
+    const stored = await prisma.parent.findUniqueOrThrow({ where: { email: 'parent@example.com' } });
+    expect(stored.passwordHash).not.toContain('correct-horse-battery');
+
+    expect((await agent.get('/api/children')).status).toBe(200);
+
+    expect((await agent.post('/api/auth/logout')).status).toBe(204);
+    expect((await agent.get('/api/auth/me')).status).toBe(401);
+
+    const badLogin = await agent
+      .post('/api/auth/login')
+      .send({ email: 'parent@example.com', password: 'wrong-password' });
+    expect(badLogin.status).toBe(401);
+
+    const login = await agent
+      .post('/api/auth/login')
+      .send({ email: 'parent@example.com', password: 'correct-horse-battery' });
+    expect(login.status).toBe(200);
+    expect((await agent.get('/api/auth/me')).body.parent.email).toBe('parent@example.com');
+  });
+
+  it('only allows the first parent to sign up', async () => {
+    await createParentCookie();
+
+    const response = await request(app)
+      .post('/api/auth/signup')
+      .send({ email: 'intruder@example.com', password: 'correct-horse-battery' });
+
+    expect(response.status).toBe(409);
+  });
+
+  it('lets a parent invite a second parent into the same household, once', async () => {
+    const agent = request.agent(app).set('Cookie', await createParentCookie());
+    const inviteResponse = await agent.post('/api/auth/invites').send();
+    expect(inviteResponse.status).toBe(201);
+    const inviteToken = inviteResponse.body.token as string;
+
+    const second = request.agent(app);
+    const signupResponse = await second
+      .post('/api/auth/signup')
+      .send({ email: 'second@example.com', password: 'correct-horse-battery', inviteToken });
+    expect(signupResponse.status).toBe(201);
+
+    const me = (await agent.get('/api/auth/me')).body.parent;
+    expect(signupResponse.body.parent.householdId).toBe(me.householdId);
+    expect((await second.get('/api/children')).status).toBe(200);
+
+    const parentsResponse = await agent.get('/api/auth/parents');
+    expect(parentsResponse.body.parents.map((parent: { email: string }) => parent.email)).toContain(
+      'second@example.com'
+    );
+
+    const reused = await request(app)
+      .post('/api/auth/signup')
+      .send({ email: 'third@example.com', password: 'correct-horse-battery', inviteToken });
+    expect(reused.status).toBe(403);
+  });
+
+  it('protects parent routes', async () => {
+    for (const path of ['/api/children', '/api/templates', '/api/settings', '/api/insights']) {
+      const response = await request(app).get(path);
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    }
+  });
+
+  it('lets Kid Mode devices drive the board but not parent routes', async () => {
+    const agent = request.agent(app).set('Cookie', await createParentCookie());
+    const tokenResponse = await agent.post('/api/auth/device-tokens').send({ label: 'Kitchen tablet' });
+    expect(tokenResponse.status).toBe(201);
+    const authorization = `Bearer ${tokenResponse.body.token as string}`;
+
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const template = await prisma.template.create({
+      data: {
+        name: 'Quick',
+        defaultStartTime: '07:00',
+        defaultEndTime: '08:00',
+        tasks: { create: [{ title: 'Wake up', expectedMinutes: 5, orderIndex: 0 }] }
+      }
+    });
+    const startResponse = await agent
+      .post('/api/sessions/start')
+      .send({ childId: child.id, templateId: template.id });
+    const sessionId = startResponse.body.session.id as string;
+
+    const telemetryResponse = await request(app)
+      .get(`/api/sessions/${sessionId}/telemetry`)
+      .set('Authorization', authorization);
+    expect(telemetryResponse.status).toBe(200);
+
+    const anonymousComplete = await request(app).post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    expect(anonymousComplete.status).toBe(401);
+
+    const completeResponse = await request(app)
+      .post(`/api/sessions/${sessionId}/task/0/complete`)
+      .set('Authorization', authorization)
+      .send({});
+    expect(completeResponse.status).toBe(200);
+
+    // The board's EventSource cannot set headers, so the token may ride on the query string.
+    const queryTokenResponse = await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .query({ access_token: tokenResponse.body.token as string });
+    expect(queryTokenResponse.status).toBe(200);
+
+    const childrenResponse = await request(app).get('/api/children').set('Authorization', authorization);
+    expect(childrenResponse.status).toBe(401);
+
+    const revokeResponse = await agent.delete(`/api/auth/device-tokens/${tokenResponse.body.deviceToken.id}`);
+    expect(revokeResponse.status).toBe(204);
+
+    const revokedTelemetry = await request(app)
+      .get(`/api/sessions/${sessionId}/telemetry`)
+      .set('Authorization', authorization);
+    expect(revokedTelemetry.status).toBe(401);
+  });
+
+  it('locks the household PIN after five wrong guesses and backs off further misses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const start = new Date('2025-01-01T07:00:00.000Z');
+    vi.setSystemTime(start);
+
+    const agent = request.agent(app).set('Cookie', await createParentCookie());
+    await agent.put('/api/auth/pin').send({ pin: '1234' });
+    const tokenResponse = await agent.post('/api/auth/device-tokens').send({ label: 'Kitchen tablet' });
+    const authorization = `Bearer ${tokenResponse.body.token as string}`;
+    const verify = (pin: string) =>
+      request(app).post('/api/auth/pin/verify').set('Authorization', authorization).send({ pin });
+
+    for (const pin of ['0000', '0001', '0002', '0003', '0004']) {
+      expect((await verify(pin)).status).toBe(403);
+    }
+
+    const locked = await verify('1234');
+    expect(locked.status).toBe(429);
+    expect(locked.body.error.code).toBe('TOO_MANY_REQUESTS');
+    expect(locked.headers['retry-after']).toBe('30');
+
+    vi.setSystemTime(new Date(start.getTime() + 31 * 1000));
+    expect((await verify('0005')).status).toBe(403);
+    const doubled = await verify('1234');
+    expect(doubled.status).toBe(429);
+    expect(doubled.headers['retry-after']).toBe('60');
+
+    vi.setSystemTime(new Date(start.getTime() + 92 * 1000));
+    expect((await verify('1234')).status).toBe(204);
+    expect((await verify('0006')).status).toBe(403);
+    expect((await verify('1234')).status).toBe(204);
+  });
+});
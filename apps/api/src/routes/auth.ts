@@ -0,0 +1,260 @@
+import {
+  deviceTokenCreateSchema,
+  householdPinInputSchema,
+  loginSchema,
+  signupSchema
+} from '@klar-parat/shared';
+import { Prisma } from '@prisma/client';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import {
+  checkHouseholdPin,
+  endAuthSession,
+  generateToken,
+  getAuthenticatedParent,
+  hashPassword,
+  hashToken,
+  requireParent,
+  requireParentOrDevice,
+  startAuthSession,
+  verifyPassword
+} from '../lib/auth.js';
+import {
+  sendConflict,
+  sendForbidden,
+  sendNotFound,
+  sendServerError,
+  sendUnauthorized,
+  sendValidationError
+} from '../lib/http.js';
+import { mapDeviceToken, mapParent, mapParentInvite } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router();
+
+const DEFAULT_HOUSEHOLD_NAME = 'Our household';
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// An invite is spent by the signup that uses it, so a leaked link works at most once.
+const claimParentInvite = async (token: string) => {
+  const invite = await prisma.parentInvite.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!invite) {
+    return null;
+  }
+  const { count } = await prisma.parentInvite.deleteMany({ where: { id: invite.id } });
+  return count === 1 && invite.expiresAt.getTime() > Date.now() ? invite : null;
+};
+
+router.post('/signup', async (req, res) => {
+  const parseResult = signupSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { email, password, householdName, inviteToken } = parseResult.data;
+
+  try {
+    if (inviteToken) {
+      if (await prisma.parent.findUnique({ where: { email } })) {
+        return sendConflict(res, 'An account with this email already exists');
+      }
+      const invite = await claimParentInvite(inviteToken);
+      if (!invite) {
+        return sendForbidden(res, 'This invite has expired or was already used');
+      }
+
+      const parent = await prisma.parent.create({
+        data: { email, passwordHash: await hashPassword(password), householdId: invite.householdId },
+        include: { household: true }
+      });
+
+      await startAuthSession(res, parent.id);
+      return res.status(201).json({ parent: mapParent(parent) });
+    }
+
+    if ((await prisma.household.count()) > 0) {
+      return sendConflict(res, 'This household already has a parent account. Ask a parent for an invite link.');
+    }
+
+    const parent = await prisma.parent.create({
+      data: {
+        email,
+        passwordHash: await hashPassword(password),
+        household: { create: { name: householdName ?? DEFAULT_HOUSEHOLD_NAME } }
+      },
+      include: { household: true }
+    });
+
+    await startAuthSession(res, parent.id);
+    res.status(201).json({ parent: mapParent(parent) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return sendConflict(res, 'An account with this email already exists');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/login', async (req, res) => {
+  const parseResult = loginSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { email, password } = parseResult.data;
+
+  try {
+    const parent = await prisma.parent.findUnique({
+      where: { email },
+      include: { household: true }
+    });
+
+    if (!parent || !(await verifyPassword(password, parent.passwordHash))) {
+      return sendUnauthorized(res, 'Invalid email or password');
+    }
+
+    await startAuthSession(res, parent.id);
+    res.json({ parent: mapParent(parent) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/logout', async (req, res) => {
+  try {
+    await endAuthSession(req, res);
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.get('/me', requireParent, (_req, res) => {
+  res.json({ parent: mapParent(getAuthenticatedParent(res)) });
+});
+
+router.put('/pin', requireParent, async (req, res) => {
+  const parseResult = householdPinInputSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  try {
+    const household = await prisma.household.update({
+      where: { id: getAuthenticatedParent(res).householdId },
+      data: { pinHash: await hashPassword(parseResult.data.pin), pinFailedAttempts: 0, pinLockedUntil: null }
+    });
+    res.json({ parent: mapParent({ ...getAuthenticatedParent(res), household }) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/pin/verify', requireParentOrDevice, async (req, res) => {
+  const parseResult = householdPinInputSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  try {
+    if (await checkHouseholdPin(res, parseResult.data.pin)) {
+      res.status(204).send();
+    }
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.get('/parents', requireParent, async (_req, res) => {
+  try {
+    const parents = await prisma.parent.findMany({
+      where: { householdId: getAuthenticatedParent(res).householdId },
+      include: { household: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    res.json({ parents: parents.map(mapParent) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/invites', requireParent, async (_req, res) => {
+  try {
+    const token = generateToken();
+    const invite = await prisma.parentInvite.create({
+      data: {
+        householdId: getAuthenticatedParent(res).householdId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS)
+      }
+    });
+
+    res.status(201).json({ invite: mapParentInvite(invite), token });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.get('/device-tokens', requireParent, async (_req, res) => {
+  try {
+    const deviceTokens = await prisma.deviceToken.findMany({
+      where: { householdId: getAuthenticatedParent(res).householdId },
+      orderBy: { createdAt: 'asc' }
+    });
+    res.json({ deviceTokens: deviceTokens.map(mapDeviceToken) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/device-tokens', requireParent, async (req, res) => {
+  const parseResult = deviceTokenCreateSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  try {
+    const token = generateToken();
+    const deviceToken = await prisma.deviceToken.create({
+      data: {
+        householdId: getAuthenticatedParent(res).householdId,
+        label: parseResult.data.label,
+        tokenHash: hashToken(token)
+      }
+    });
+
+    res.status(201).json({ deviceToken: mapDeviceToken(deviceToken), token });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.delete('/device-tokens/:id', requireParent, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const { count } = await prisma.deviceToken.deleteMany({
+      where: { id, householdId: getAuthenticatedParent(res).householdId }
+    });
+    if (count === 0) {
+      return sendNotFound(res, 'Device token not found');
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerAuthRoutes = (app: Express) => {
+  app.use('/api/auth', router);
+};
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+const schoolCalendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20261221',
+  'DTEND;VALUE=DATE:20261224',
+  'SUMMARY:Juleferie',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20261101',
+  'SUMMARY:Staff training\\, no',
+  '  school',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20261105T180000Z',
+  'DTEND:20261105T190000Z',
+  'SUMMARY:Holiday concert',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+describe.sequential('calendar exception routes', () => {
+  const app = createApp();
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+  });
+
+  it('creates, replaces, lists, and deletes exceptions', async () => {
+    const ada = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const weekend = await prisma.template.create({
+      data: { name: 'Weekend', defaultStartTime: '08:00', defaultEndTime: '09:00' }
+    });
+
+    const householdResponse = await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2026-12-24', kind: 'skip', note: 'Christmas Eve' });
+    expect(householdResponse.status).toBe(201);
+    expect(householdResponse.body.exception).toMatchObject({
+      date: '2026-12-24',
+      childId: null,
+      kind: 'skip',
+      templateId: null,
+      note: 'Christmas Eve'
+    });
+
+    const replacedResponse = await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2026-12-24', kind: 'template', templateId: weekend.id });
+    expect(replacedResponse.status).toBe(201);
+
+    await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2026-12-23', childId: ada.id, kind: 'skip' });
+
+    const listResponse = await agent.get(`/api/calendar/exceptions?childId=${ada.id}`);
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body.exceptions).toMatchObject([
+      { date: '2026-12-23', childId: ada.id, kind: 'skip' },
+      { date: '2026-12-24', childId: null, kind: 'template', templateId: weekend.id }
+    ]);
+
+    const deleteResponse = await agent.delete(
+      `/api/calendar/exceptions/${replacedResponse.body.exception.id}`
+    );
+    expect(deleteResponse.status).toBe(204);
+
+    const afterDelete = await agent.get('/api/calendar/exceptions?from=2026-12-24&to=2026-12-31');
+    expect(afterDelete.body.exceptions).toEqual([]);
+  });
+
+  it('bulk imports a date range for the household', async () => {
+    const response = await agent.post('/api/calendar/exceptions/bulk').send({
+      from: '2026-12-21',
+      to: '2027-01-01',
+      kind: 'skip',
+      note: 'Christmas break'
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.exceptions).toHaveLength(12);
+    expect(response.body.exceptions[0].date).toBe('2026-12-21');
+    expect(response.body.exceptions[11].date).toBe('2027-01-01');
+  });
+
+  it('validates exception payloads', async () => {
+    const missingTemplate = await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2026-12-24', kind: 'template' });
+    expect(missingTemplate.status).toBe(400);
+    expect(missingTemplate.body.error.message).toContain('templateId');
+
+    const backwardsRange = await agent
+      .post('/api/calendar/exceptions/bulk')
+      .send({ from: '2026-12-24', to: '2026-12-01', kind: 'skip' });
+    expect(backwardsRange.status).toBe(400);
+
+    const unknownChild = await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2026-12-24', childId: 'ckz1x2y3z0000abcde1234567', kind: 'skip' });
+    expect(unknownChild.status).toBe(404);
+  });
+
+  it('previews an .ics import without saving, then commits it', async () => {
+    const ada = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const payload = {
+      ics: schoolCalendar,
+      rules: [
+        { keyword: 'ferie', kind: 'skip' },
+        { keyword: 'training', kind: 'skip' }
+      ],
+      childIds: [ada.id]
+    };
+
+    const previewResponse = await agent.post('/api/calendar/import/preview').send(payload);
+
+    expect(previewResponse.status).toBe(200);
+    expect(previewResponse.body.preview.eventCount).toBe(2);
+    expect(previewResponse.body.preview.entries).toEqual([
+      { date: '2026-11-01', childId: ada.id, kind: 'skip', templateId: null, note: 'Staff training, no school' },
+      { date: '2026-12-21', childId: ada.id, kind: 'skip', templateId: null, note: 'Juleferie' },
+      { date: '2026-12-22', childId: ada.id, kind: 'skip', templateId: null, note: 'Juleferie' },
+      { date: '2026-12-23', childId: ada.id, kind: 'skip', templateId: null, note: 'Juleferie' }
+    ]);
+    expect(await prisma.calendarException.count()).toBe(0);
+
+    const importResponse = await agent.post('/api/calendar/import').send(payload);
+
+    expect(importResponse.status).toBe(201);
+    expect(importResponse.body.exceptions).toHaveLength(4);
+    expect(await prisma.calendarException.count()).toBe(4);
+  });
+
+  it('defaults to the Ferie and Holiday keywords for the whole household', async () => {
+    const response = await agent
+      .post('/api/calendar/import/preview')
+      .send({ ics: schoolCalendar });
+
+    expect(response.status).toBe(200);
+    expect(response.body.preview.entries).toHaveLength(3);
+    expect(response.body.preview.entries[0]).toMatchObject({ date: '2026-12-21', childId: null });
+  });
+});
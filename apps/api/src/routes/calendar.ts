@@ -0,0 +1,177 @@
+import {
+  calendarExceptionBulkSchema,
+  calendarExceptionCreateSchema,
+  type CalendarExceptionKind,
+  calendarExceptionQuerySchema,
+  expandDateRange,
+  icsImportPreviewSchema,
+  icsImportSchema
+} from '@klar-parat/shared';
+import { Prisma } from '@prisma/client';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
+import { buildIcsImportEntries, parseIcsAllDayEvents } from '../lib/ics.js';
+import { mapCalendarException } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+type ExceptionFields = {
+  childId?: string | null;
+  kind: CalendarExceptionKind;
+  templateId?: string | null;
+  note?: string;
+};
+
+type ExceptionEntry = {
+  date: string;
+  childId: string | null;
+  kind: CalendarExceptionKind;
+  templateId: string | null;
+  note: string | null;
+};
+
+const toExceptionEntries = (
+  dates: string[],
+  { childId, kind, templateId, note }: ExceptionFields
+): ExceptionEntry[] =>
+  dates.map((date) => ({
+    date,
+    childId: childId ?? null,
+    kind,
+    templateId: templateId ?? null,
+    note: note || null
+  }));
+
+// A date holds at most one exception per child (or for the household), so new entries replace old ones.
+const replaceExceptions = (entries: ExceptionEntry[]) =>
+  prisma.$transaction(async (tx) => {
+    const saved = [];
+    for (const entry of entries) {
+      await tx.calendarException.deleteMany({ where: { date: entry.date, childId: entry.childId } });
+      saved.push(await tx.calendarException.create({ data: entry }));
+    }
+    return saved.sort((a, b) => a.date.localeCompare(b.date));
+  });
+
+const isMissingReference = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003';
+
+router.get('/exceptions', async (req, res) => {
+  const parseResult = calendarExceptionQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { from, to, childId } = parseResult.data;
+  try {
+    const exceptions = await prisma.calendarException.findMany({
+      where: {
+        ...((from || to) && {
+          date: { ...(from && { gte: from }), ...(to && { lte: to }) }
+        }),
+        ...(childId && { OR: [{ childId }, { childId: null }] })
+      },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
+    });
+    res.json({ exceptions: exceptions.map(mapCalendarException) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/exceptions', async (req, res) => {
+  const parseResult = calendarExceptionCreateSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { date, ...fields } = parseResult.data;
+  try {
+    const [exception] = await replaceExceptions(toExceptionEntries([date], fields));
+    res.status(201).json({ exception: mapCalendarException(exception) });
+  } catch (error) {
+    if (isMissingReference(error)) {
+      return sendNotFound(res, 'Child or template not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/exceptions/bulk', async (req, res) => {
+  const parseResult = calendarExceptionBulkSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { from, to, ...fields } = parseResult.data;
+  try {
+    const exceptions = await replaceExceptions(toExceptionEntries(expandDateRange(from, to), fields));
+    res.status(201).json({ exceptions: exceptions.map(mapCalendarException) });
+  } catch (error) {
+    if (isMissingReference(error)) {
+      return sendNotFound(res, 'Child or template not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.delete('/exceptions/:id', async (req, res) => {
+  const { id } = req.params;
+  try {
+    await prisma.calendarException.delete({ where: { id } });
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return sendNotFound(res, 'Calendar exception not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/import/preview', (req, res) => {
+  const parseResult = icsImportSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { ics, rules, childIds } = parseResult.data;
+  const events = parseIcsAllDayEvents(ics);
+  const entries = buildIcsImportEntries(events, rules, childIds);
+
+  res.json({ preview: icsImportPreviewSchema.parse({ eventCount: events.length, entries }) });
+});
+
+router.post('/import', async (req, res) => {
+  const parseResult = icsImportSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { ics, rules, childIds } = parseResult.data;
+  const entries = buildIcsImportEntries(parseIcsAllDayEvents(ics), rules, childIds);
+
+  try {
+    const exceptions = await replaceExceptions(entries);
+    res.status(201).json({ exceptions: exceptions.map(mapCalendarException) });
+  } catch (error) {
+    if (isMissingReference(error)) {
+      return sendNotFound(res, 'Child or template not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerCalendarRoutes = (app: Express) => {
+  app.use('/api/calendar', router);
+};
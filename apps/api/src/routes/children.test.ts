@@ -2,17 +2,21 @@ import request from 'supertest';
 import { beforeEach, describe, expect, it } from 'vitest';
 
 import { createApp } from '../app.js';
-import { resetDatabase } from '../test/utils.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
 
 describe.sequential('children routes', () => {
   const app = createApp();
 
+  let agent: ReturnType<typeof request.agent>;
+
   beforeEach(async () => {
     await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
   });
 
   it('creates and lists children', async () => {
-    const createResponse = await request(app).post('/api/children').send({
+    const createResponse = await agent.post('/api/children').send({
       firstName: 'Ada',
       birthdate: '2015-04-03'
     });
@@ -20,7 +24,7 @@ describe.sequential('children routes', () => {
     expect(createResponse.status).toBe(201);
     expect(createResponse.body.child.firstName).toBe('Ada');
 
-    const listResponse = await request(app).get('/api/children');
+    const listResponse = await agent.get('/api/children');
     expect(listResponse.status).toBe(200);
     expect(listResponse.body.children).toHaveLength(1);
     expect(listResponse.body.children[0]).toMatchObject({
@@ -29,8 +33,38 @@ describe.sequential('children routes', () => {
     });
   });
 
+  it('stores a voice profile per child', async () => {
+    const createResponse = await agent.post('/api/children').send({
+      firstName: 'Bo',
+      birthdate: '2019-08-12',
+      language: 'da-DK',
+      voice: 'mette',
+      speechRate: 0.9
+    });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.body.child).toMatchObject({
+      language: 'da-DK',
+      voice: 'mette',
+      speechRate: 0.9,
+      speechPitch: 1
+    });
+
+    const updateResponse = await agent
+      .put(`/api/children/${createResponse.body.child.id}`)
+      .send({ language: 'en-US', speechPitch: 1.2 });
+
+    expect(updateResponse.status).toBe(200);
+    expect(updateResponse.body.child).toMatchObject({
+      language: 'en-US',
+      voice: 'mette',
+      speechRate: 0.9,
+      speechPitch: 1.2
+    });
+  });
+
   it('validates child payloads', async () => {
-    const response = await request(app).post('/api/children').send({
+    const response = await agent.post('/api/children').send({
       firstName: '',
       birthdate: '20150403'
     });
@@ -40,7 +74,7 @@ describe.sequential('children routes', () => {
   });
 
   it('updates and deletes a child', async () => {
-    const createResponse = await request(app).post('/api/children').send({
+    const createResponse = await agent.post('/api/children').send({
       firstName: 'Ada',
       birthdate: '2015-04-03'
     });
@@ -48,14 +82,40 @@ describe.sequential('children routes', () => {
     expect(createResponse.status).toBe(201);
     const childId = createResponse.body.child.id;
 
-    const updateResponse = await request(app)
+    const updateResponse = await agent
       .put(`/api/children/${childId}`)
       .send({ active: false });
 
     expect(updateResponse.status).toBe(200);
     expect(updateResponse.body.child.active).toBe(false);
 
-    const deleteResponse = await request(app).delete(`/api/children/${childId}`);
+    const deleteResponse = await agent.delete(`/api/children/${childId}`);
     expect(deleteResponse.status).toBe(204);
   });
+
+  it('assigns and clears a default template', async () => {
+    const template = await prisma.template.create({
+      data: { name: 'Morning', defaultStartTime: '07:00', defaultEndTime: '08:00' }
+    });
+    const createResponse = await agent.post('/api/children').send({
+      firstName: 'Ada',
+      birthdate: '2015-04-03',
+      defaultTemplateId: template.id
+    });
+
+    expect(createResponse.status).toBe(201);
+    expect(createResponse.body.child.defaultTemplateId).toBe(template.id);
+    const childId = createResponse.body.child.id;
+
+    const clearResponse = await agent
+      .put(`/api/children/${childId}`)
+      .send({ defaultTemplateId: null });
+    expect(clearResponse.status).toBe(200);
+    expect(clearResponse.body.child.defaultTemplateId).toBeNull();
+
+    const missingResponse = await agent
+      .put(`/api/children/${childId}`)
+      .send({ defaultTemplateId: 'ckz1x2y3z0000abcde1234567' });
+    expect(missingResponse.status).toBe(404);
+  });
 });
@@ -3,12 +3,15 @@ import { Prisma } from '@prisma/client';
 import type { Express } from 'express';
 import { Router } from 'express';
 
+import { requireParent } from '../lib/auth.js';
 import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
 import { mapChild } from '../lib/mappers.js';
 import { prisma } from '../lib/prisma.js';
 
 const router = Router();
 
+router.use(requireParent);
+
 router.get('/', async (_req, res) => {
   try {
     const children = await prisma.child.findMany({
@@ -27,17 +30,27 @@ router.post('/', async (req, res) => {
     return sendValidationError(res, parseResult.error.issues);
   }
 
-  const { firstName, birthdate, active } = parseResult.data;
+  const { firstName, birthdate, active, defaultTemplateId, tone, language, voice, speechRate, speechPitch } =
+    parseResult.data;
   try {
     const created = await prisma.child.create({
       data: {
         firstName,
         birthdate: new Date(`${birthdate}T00:00:00.000Z`),
-        active
+        active,
+        defaultTemplateId,
+        tone,
+        language,
+        voice,
+        speechRate,
+        speechPitch
       }
     });
     res.status(201).json({ child: mapChild(created) });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return sendNotFound(res, 'Default template not found');
+    }
     console.error(error);
     sendServerError(res);
   }
@@ -58,7 +71,15 @@ router.put('/:id', async (req, res) => {
         ...(parseResult.data.birthdate && {
           birthdate: new Date(`${parseResult.data.birthdate}T00:00:00.000Z`)
         }),
-        ...(parseResult.data.active !== undefined && { active: parseResult.data.active })
+        ...(parseResult.data.active !== undefined && { active: parseResult.data.active }),
+        ...(parseResult.data.defaultTemplateId !== undefined && {
+          defaultTemplateId: parseResult.data.defaultTemplateId
+        }),
+        ...(parseResult.data.tone !== undefined && { tone: parseResult.data.tone }),
+        ...(parseResult.data.language && { language: parseResult.data.language }),
+        ...(parseResult.data.voice && { voice: parseResult.data.voice }),
+        ...(parseResult.data.speechRate !== undefined && { speechRate: parseResult.data.speechRate }),
+        ...(parseResult.data.speechPitch !== undefined && { speechPitch: parseResult.data.speechPitch })
       }
     });
     res.json({ child: mapChild(updated) });
@@ -66,6 +87,9 @@ router.put('/:id', async (req, res) => {
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
       return sendNotFound(res, 'Child not found');
     }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return sendNotFound(res, 'Default template not found');
+    }
     console.error(error);
     sendServerError(res);
   }
@@ -3,11 +3,14 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { createApp } from '../app.js';
 import { prisma } from '../lib/prisma.js';
-import { resetDatabase } from '../test/utils.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
 
 const app = createApp();
 
-const createSessionFixture = async () => {
+const createSessionFixture = async (
+  agent: ReturnType<typeof request.agent>,
+  firstTaskSnippets: { completionSnippet?: string; nudgeSnippet?: string } = {}
+) => {
   const child = await prisma.child.create({
     data: {
       firstName: 'Luna',
@@ -23,14 +26,14 @@ const createSessionFixture = async () => {
       defaultEndTime: '08:00',
       tasks: {
         create: [
-          { title: 'Wake up', expectedMinutes: 5, orderIndex: 0 },
+          { title: 'Wake up', expectedMinutes: 5, orderIndex: 0, ...firstTaskSnippets },
           { title: 'Brush teeth', expectedMinutes: 3, orderIndex: 1 }
         ]
       }
     }
   });
 
-  const startResponse = await request(app).post('/api/sessions/start').send({
+  const startResponse = await agent.post('/api/sessions/start').send({
     childId: child.id,
     templateId: template.id
   });
@@ -39,30 +42,43 @@ const createSessionFixture = async () => {
 };
 
 describe.sequential('encouragement route', () => {
-  const originalFlag = process.env.FLAG_USE_FAKE_LLM;
-  const originalApiKey = process.env.OPENAI_API_KEY;
+  const originalEnv = {
+    MESSAGE_SOURCE_ORDER: process.env.MESSAGE_SOURCE_ORDER,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_MODEL: process.env.LLM_MODEL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY
+  };
+
+  let agent: ReturnType<typeof request.agent>;
 
   beforeEach(async () => {
     await resetDatabase();
-    process.env.FLAG_USE_FAKE_LLM = '1';
-    process.env.OPENAI_API_KEY = originalApiKey;
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+    process.env.LLM_PROVIDER = 'fake';
   });
 
   afterEach(() => {
     vi.useRealTimers();
-    process.env.FLAG_USE_FAKE_LLM = originalFlag;
-    process.env.OPENAI_API_KEY = originalApiKey;
+    vi.restoreAllMocks();
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
   });
 
   it('returns a celebratory message for completed tasks when fake LLM is enabled', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2025-01-01T07:00:00.000Z'));
 
-    const session = await createSessionFixture();
+    const session = await createSessionFixture(agent);
 
-    await request(app).post(`/api/sessions/${session.id}/task/0/complete`).send();
+    await agent.post(`/api/sessions/${session.id}/task/0/complete`).send();
 
-    const response = await request(app)
+    const response = await agent
       .post(`/api/sessions/${session.id}/message`)
       .send({
         type: 'completion',
@@ -74,16 +90,17 @@ describe.sequential('encouragement route', () => {
     expect(response.body.text).toBeTypeOf('string');
     expect(response.body.text).toContain('Luna');
     expect(response.body.text).toContain('Brush teeth');
+    expect(response.body.source).toBe('llm');
 
     vi.useRealTimers();
   });
 
   it('falls back to a deterministic message when OpenAI is unavailable', async () => {
-    const session = await createSessionFixture();
-    process.env.FLAG_USE_FAKE_LLM = '0';
+    const session = await createSessionFixture(agent);
+    process.env.LLM_PROVIDER = 'openai';
     delete process.env.OPENAI_API_KEY;
 
-    const response = await request(app)
+    const response = await agent
       .post(`/api/sessions/${session.id}/message`)
       .send({
         type: 'nudge',
@@ -95,15 +112,172 @@ describe.sequential('encouragement route', () => {
     expect(response.status).toBe(200);
     expect(response.body.text).toContain('Luna');
     expect(response.body.text).toContain('Wake up');
+    expect(response.body.source).toBe('fallback');
+  });
+
+  it('prefers template snippets and honours the configured source order', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T07:00:00.000Z'));
+
+    const session = await createSessionFixture(agent, {
+      completionSnippet: 'Up and awake, {{name}}! {{next}} next, {{minutesLeft}} minutes left.',
+      nudgeSnippet: 'Time to rise and shine, {{name}}!'
+    });
+    await agent.post(`/api/sessions/${session.id}/task/0/complete`).send();
+
+    const snippetResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'completion', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(snippetResponse.status).toBe(200);
+    expect(snippetResponse.body.source).toBe('snippet');
+    expect(snippetResponse.body.text).toMatch(/^Up and awake, Luna! Brush teeth next, \d+ minutes left\.$/);
+
+    process.env.MESSAGE_SOURCE_ORDER = 'llm,snippet';
+
+    const llmFirstResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'completion', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(llmFirstResponse.body.source).toBe('llm');
+
+    process.env.MESSAGE_SOURCE_ORDER = 'snippet';
+
+    const startResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'session_start', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(startResponse.body.source).toBe('fallback');
+  });
+
+  it('asks an OpenAI-compatible endpoint for the message when configured', async () => {
+    const session = await createSessionFixture(agent);
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    process.env.LLM_BASE_URL = 'http://llm.local:11434/v1/';
+    process.env.LLM_MODEL = 'llama3.2';
+
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: '```json\n{"text":"Wake up time, Luna!"}\n```' } }]
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+
+    const response = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({
+        type: 'nudge',
+        sessionTaskId: session.tasks[0].id,
+        language: 'en-US'
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.text).toBe('Wake up time, Luna!');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('http://llm.local:11434/v1/chat/completions');
+    expect(JSON.parse(String(init?.body))).toMatchObject({ model: 'llama3.2' });
+  });
+
+  it('replaces unsafe model output with the fallback line', async () => {
+    const session = await createSessionFixture(agent);
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    process.env.LLM_BASE_URL = 'http://llm.local:11434/v1';
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: '{"text":"Your sister is faster than you, Luna. Grab your backpack!"}' } }]
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+
+    const response = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.source).toBe('fallback');
+    expect(response.body.text).toContain('Wake up');
+    expect(response.body.text).not.toMatch(/sister|backpack/);
+  });
+
+  it('speaks in the child tone, falling back to the household tone', async () => {
+    const session = await createSessionFixture(agent);
+    await agent.put('/api/settings').send({ tone: 'coach' });
+
+    const coachResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(coachResponse.status).toBe(200);
+    expect(coachResponse.body.text).toMatch(/^Eyes on Wake up, Luna/);
+
+    await prisma.child.updateMany({ data: { tone: 'calm' } });
+
+    const calmResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(calmResponse.body.text).toMatch(/^Take your time with Wake up, Luna —/);
+    expect(calmResponse.body.text).not.toContain('!');
+  });
+
+  it('speaks in the child language unless the request overrides it', async () => {
+    const session = await createSessionFixture(agent);
+    await prisma.child.updateMany({ data: { language: 'da-DK' } });
+
+    const danishResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id });
+
+    expect(danishResponse.status).toBe(200);
+    expect(danishResponse.body.text).toMatch(/^Kom så, Luna!/);
+
+    const englishResponse = await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    expect(englishResponse.body.text).toMatch(/^Let’s go, Luna!/);
+  });
+
+  it('previews every tone with sample phrases for the chosen child', async () => {
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2017-05-01'), active: true }
+    });
+
+    const response = await agent
+      .get('/api/encouragement/tones/preview')
+      .query({ language: 'da-DK', childId: child.id });
+
+    expect(response.status).toBe(200);
+    expect(response.body.previews.map((preview: { tone: string }) => preview.tone)).toEqual([
+      'playful',
+      'coach',
+      'calm'
+    ]);
+    expect(response.body.previews[2].samples).toHaveLength(3);
+    expect(response.body.previews[2].samples[0].text).toContain('Godmorgen, Ada');
+
+    const missing = await agent
+      .get('/api/encouragement/tones/preview')
+      .query({ childId: 'ckmissing0000000000000000' });
+    expect(missing.status).toBe(404);
+
+    const anonymous = await request(app).get('/api/encouragement/tones/preview');
+    expect(anonymous.status).toBe(401);
   });
 
   it('provides a session kick-off message including time context', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2025-01-01T07:00:00.000Z'));
 
-    const session = await createSessionFixture();
+    const session = await createSessionFixture(agent);
 
-    const response = await request(app)
+    const response = await agent
       .post(`/api/sessions/${session.id}/message`)
       .send({
         type: 'session_start',
@@ -1,41 +1,33 @@
 import {
+  checkMessageSafety,
   computeUrgency,
-  llmResponseSchema,
+  type EncouragementType,
+  type MessageSource,
+  renderSnippet,
   sessionMessageRequestSchema,
-  templateSnapshotSchema
+  type SessionMessageResponse,
+  sessionMessageResponseSchema,
+  templateSnapshotSchema,
+  TONE_PRESETS,
+  type TonePreview,
+  tonePreviewQuerySchema
 } from '@klar-parat/shared';
 import type { Express } from 'express';
 import { Router } from 'express';
 
-import { loadFeatureFlags } from '../config/flags.js';
+import { loadLlmConfig, loadMessageSourceOrder } from '../config/llm.js';
+import { requireParent, requireParentOrDevice } from '../lib/auth.js';
+import { buildFallbackMessage } from '../lib/encouragementPhrases.js';
+import { createEncouragementProvider } from '../lib/encouragementProviders.js';
 import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
+import { mapChild } from '../lib/mappers.js';
+import { loadMessageGuard, recordMessage } from '../lib/messageLog.js';
 import { prisma } from '../lib/prisma.js';
+import { resolveSessionThresholds, resolveTone } from '../lib/settings.js';
 
 const router = Router();
 
-type OpenAIClient = {
-  chat: {
-    completions: {
-      create(input: {
-        model: string;
-        temperature: number;
-        max_tokens: number;
-        messages: { role: string; content: string }[];
-      }): Promise<{
-        choices?: { message?: { content?: string } }[];
-      }>;
-    };
-  };
-};
-
-const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const describeLanguage = (code: string) => {
-  if (code.toLowerCase().startsWith('da')) {
-    return 'Danish';
-  }
-  return 'English';
-};
+const MAX_PROMPT_BLOCKED_PHRASES = 20;
 
 const formatNudgeThreshold = (threshold: 'first' | 'second' | 'final' | null) => {
   switch (threshold) {
@@ -56,205 +48,7 @@ const toAgeYears = (birthdate: Date, now: Date) => {
   return Math.max(0, Math.floor(diffMs / yearMs));
 };
 
-const buildFallbackMessage = ({
-  type,
-  childFirstName,
-  sessionName,
-  taskTitle,
-  nextTaskTitle,
-  sessionMinutesRemaining,
-  language
-}: {
-  type: 'session_start' | 'completion' | 'nudge';
-  childFirstName: string;
-  sessionName: string;
-  taskTitle: string;
-  nextTaskTitle: string | null;
-  sessionMinutesRemaining: number;
-  language: string;
-}) => {
-  const isDanish = language.toLowerCase().startsWith('da');
-  const timePhrase = (() => {
-    if (sessionMinutesRemaining <= 0) {
-      return isDanish ? 'Tiden er knap' : 'Time is almost up';
-    }
-    return isDanish
-      ? `Vi har cirka ${sessionMinutesRemaining} min`
-      : `We have about ${sessionMinutesRemaining} minutes`;
-  })();
-
-  if (type === 'session_start') {
-    if (isDanish) {
-      return `${timePhrase}, ${childFirstName}! Første opgave er ${taskTitle} i ${sessionName}.`;
-    }
-    return `${timePhrase}, ${childFirstName}! First up for ${sessionName} is ${taskTitle}.`;
-  }
-
-  if (type === 'completion') {
-    if (isDanish) {
-      return nextTaskTitle
-        ? `Sejt, ${childFirstName}! ${timePhrase.toLowerCase()} — videre til ${nextTaskTitle}!`
-        : `Fantastisk arbejde, ${childFirstName}! ${timePhrase.toLowerCase()} til resten.`;
-    }
-
-    return nextTaskTitle
-      ? `Amazing job, ${childFirstName}! ${timePhrase.toLowerCase()} — next up is ${nextTaskTitle}.`
-      : `Awesome work finishing ${taskTitle}, ${childFirstName}! ${timePhrase.toLowerCase()} to spare.`;
-  }
-
-  if (isDanish) {
-    return `${timePhrase}, ${childFirstName}! Hold fokus på ${taskTitle}.`;
-  }
-
-  return `${timePhrase}, ${childFirstName}! Stay on ${taskTitle}!`;
-};
-
-const buildFakeMessage = ({
-  type,
-  childFirstName,
-  sessionName,
-  taskTitle,
-  nextTaskTitle,
-  sessionMinutesRemaining,
-  sessionMinutesElapsed,
-  currentTaskSecondsRemaining,
-  language
-}: {
-  type: 'session_start' | 'completion' | 'nudge';
-  childFirstName: string;
-  sessionName: string;
-  taskTitle: string;
-  nextTaskTitle: string | null;
-  sessionMinutesRemaining: number;
-  sessionMinutesElapsed: number;
-  currentTaskSecondsRemaining: number;
-  language: string;
-}) => {
-  const isDanish = language.toLowerCase().startsWith('da');
-  const minutesText = sessionMinutesRemaining > 0 ? `${sessionMinutesRemaining}m` : 'lige nu';
-  const secondsText = currentTaskSecondsRemaining > 30 ? 'stadig tid' : 'næsten færdig';
-  const englishMinutes = sessionMinutesRemaining > 0 ? `${sessionMinutesRemaining}m` : 'right now';
-  const englishSeconds = currentTaskSecondsRemaining > 30 ? 'plenty of time' : 'almost done';
-  const elapsedText = sessionMinutesElapsed > 0 ? `${sessionMinutesElapsed}m inde` : 'lige begyndt';
-  const elapsedEnglish = sessionMinutesElapsed > 0 ? `${sessionMinutesElapsed}m in` : 'just getting started';
-
-  if (type === 'session_start') {
-    if (isDanish) {
-      return `Godmorgen, ${childFirstName}! ${elapsedText}, ${minutesText} tilbage — vi starter ${sessionName} med ${taskTitle}.`;
-    }
-    return `Morning, ${childFirstName}! ${elapsedEnglish}, ${englishMinutes} left — ${sessionName} begins with ${taskTitle}.`;
-  }
-
-  if (type === 'completion') {
-    if (isDanish) {
-      return nextTaskTitle
-        ? `Super, ${childFirstName}! ${minutesText} tilbage — nu ${nextTaskTitle}!`
-        : `Flot klaret, ${childFirstName}! ${minutesText} til overs!`;
-    }
-
-    return nextTaskTitle
-      ? `Great job, ${childFirstName}! ${englishMinutes} left — next is ${nextTaskTitle}!`
-      : `Way to go finishing ${taskTitle}, ${childFirstName}! ${englishMinutes} to spare!`;
-  }
-
-  if (isDanish) {
-    return `Kom så, ${childFirstName}! ${secondsText} på ${taskTitle}!`;
-  }
-
-  return `Let’s go, ${childFirstName}! You’re ${englishSeconds} on ${taskTitle}!`;
-};
-
-const SYSTEM_PROMPT = `You are Klar Parat, a cheerful morning coach helping young kids get ready at home before they leave for the day.
-Speak in short, lively sentences (1–3) with zero shame and lots of encouragement.
-You receive structured JSON with details about the child, routine, timing, and nudges.
-Event types:
-- session_start — welcome the child, frame today’s routine, highlight the first task, and mention how much time there is.
-- nudge — mid-task encouragement referencing progress and the pace/urgency data provided.
-- completion — celebrate the finished task, preview the next task (or wrap the session) and comment on how the schedule looks.
-Always use the child’s first name and comment honestly on whether there is plenty of time or if everyone needs to hurry.
-Never invent details that are not in the context.
-Respond ONLY with valid JSON: {"text":"..."} ready to be spoken aloud.`;
-
-let openAiClient: OpenAIClient | null = null;
-let openAiConstructor: (new (config: { apiKey: string }) => OpenAIClient) | null = null;
-
-const getOpenAiClient = async (): Promise<OpenAIClient> => {
-  if (openAiClient) {
-    return openAiClient;
-  }
-
-  if (!openAiConstructor) {
-    try {
-      const module = await import('openai');
-      openAiConstructor = module.default as unknown as new (config: { apiKey: string }) => OpenAIClient;
-    } catch {
-      throw new Error('OPENAI_SDK_UNAVAILABLE');
-    }
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured');
-  }
-
-  openAiClient = new openAiConstructor!({ apiKey });
-  return openAiClient;
-};
-
-const callOpenAi = async ({
-  context,
-  language
-}: {
-  context: Record<string, unknown>;
-  language: string;
-}): Promise<string | null> => {
-  const client = await getOpenAiClient();
-  const userPrompt = [
-    `Language: ${describeLanguage(language)}`,
-    'You are speaking aloud to the child right now.',
-    'Use the timing details to judge urgency honestly.',
-    'JSON context follows:',
-    JSON.stringify(context, null, 2),
-    'Respond with JSON {"text":"..."} only.'
-  ].join('\n');
-
-  for (let attempt = 0; attempt < 2; attempt += 1) {
-    try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        temperature: 0.7,
-        max_tokens: 220,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt }
-        ]
-      });
-
-      const choice = response.choices?.[0]?.message?.content;
-      if (!choice) {
-        return null;
-      }
-
-      try {
-        const parsed = JSON.parse(choice);
-        const validated = llmResponseSchema.parse(parsed);
-        return validated.text;
-      } catch (error) {
-        console.error('Failed to parse LLM response', error);
-        return null;
-      }
-    } catch (error) {
-      console.error('OpenAI request failed', error);
-      if (attempt === 0) {
-        await wait(150 + Math.random() * 150);
-      }
-    }
-  }
-
-  return null;
-};
-
-router.post('/api/sessions/:id/message', async (req, res) => {
+router.post('/api/sessions/:id/message', requireParentOrDevice, async (req, res) => {
   const { id } = req.params;
   const parseResult = sessionMessageRequestSchema.safeParse(req.body);
 
@@ -262,7 +56,7 @@ router.post('/api/sessions/:id/message', async (req, res) => {
     return sendValidationError(res, parseResult.error.issues);
   }
 
-  const { type, sessionTaskId, nudgeThreshold, language } = parseResult.data;
+  const { type, sessionTaskId, nudgeThreshold, language: requestedLanguage } = parseResult.data;
   const now = new Date();
 
   try {
@@ -275,6 +69,7 @@ router.post('/api/sessions/:id/message', async (req, res) => {
       return sendNotFound(res, 'Session not found');
     }
 
+    const language = requestedLanguage ?? mapChild(session.child).language;
     const task = session.tasks.find((item) => item.id === sessionTaskId);
     if (!task) {
       return sendNotFound(res, 'Task not found in this session');
@@ -290,7 +85,8 @@ router.post('/api/sessions/:id/message', async (req, res) => {
       plannedEndAt: session.plannedEndAt,
       expectedTotalMinutes: session.expectedTotalMinutes,
       completedExpectedMinutes,
-      now
+      now,
+      thresholds: resolveSessionThresholds(session).urgencyThresholds
     });
 
     const thresholds = [
@@ -440,44 +236,153 @@ router.post('/api/sessions/:id/message', async (req, res) => {
       }
     } satisfies Record<string, unknown>;
 
-    const flags = loadFeatureFlags();
-    let text: string | null = null;
+    const tone = await resolveTone(mapChild(session.child).tone);
+    const snapshotTask = snapshotByOrder.get(task.orderIndex);
+    const snippetByType: Partial<Record<EncouragementType, string>> = {
+      completion: snapshotTask?.completionSnippet,
+      nudge: snapshotTask?.nudgeSnippet
+    };
+    const snippet = snippetByType[type];
+    const messageDetails = {
+      type,
+      tone,
+      language,
+      childFirstName: session.child.firstName,
+      sessionName: snapshot.name,
+      taskTitle: task.title,
+      nextTaskTitle: nextTaskCandidate?.title ?? null,
+      sessionMinutesRemaining
+    };
 
-    if (flags.useFakeLLM) {
-      text = buildFakeMessage({
-        type,
-        childFirstName: session.child.firstName,
-        sessionName: snapshot.name,
-        taskTitle: task.title,
-        nextTaskTitle: nextTaskCandidate?.title ?? null,
-        sessionMinutesRemaining,
-        sessionMinutesElapsed,
-        currentTaskSecondsRemaining: remainingSeconds,
-        language
-      });
-    } else {
-      try {
-        text = await callOpenAi({ context, language });
-      } catch (error) {
-        console.error('LLM client unavailable', error);
-        text = null;
+    const guard = await loadMessageGuard(session.child.firstName);
+    const siblings = await prisma.child.findMany({
+      where: { id: { not: session.childId } },
+      select: { firstName: true }
+    });
+    const safetyContext = {
+      siblingNames: siblings.map((sibling) => sibling.firstName),
+      knownTaskTitles: [snapshot.name, ...session.tasks.map((item) => item.title)]
+    };
+    const provider = createEncouragementProvider(loadLlmConfig());
+
+    const generateFrom = async (source: MessageSource): Promise<string | null> => {
+      if (source === 'snippet') {
+        return snippet
+          ? renderSnippet(snippet, {
+              name: session.child.firstName,
+              task: task.title,
+              next: nextTaskCandidate?.title ?? null,
+              minutesLeft: sessionMinutesRemaining
+            })
+          : null;
+      }
+
+      if (source === 'llm') {
+        try {
+          return await provider.generate({
+            ...messageDetails,
+            context: { ...context, neverSay: guard.blockedTexts.slice(0, MAX_PROMPT_BLOCKED_PHRASES) },
+            sessionMinutesElapsed,
+            currentTaskSecondsRemaining: remainingSeconds
+          });
+        } catch (error) {
+          console.error(`Encouragement provider ${provider.name} unavailable`, error);
+          return null;
+        }
+      }
+
+      // A blocked fallback line is swapped for the same line in another tone before giving up.
+      const fallbackTones = [tone, ...TONE_PRESETS.filter((candidate) => candidate !== tone)];
+      return (
+        fallbackTones
+          .map((candidate) => buildFallbackMessage({ ...messageDetails, tone: candidate }))
+          .find((text) => !guard.isBlocked(text)) ?? buildFallbackMessage(messageDetails)
+      );
+    };
+
+    // Model output is checked against the local safety rules; anything that fails is replaced by the fallback line.
+    const generateSafely = async (source: MessageSource) => {
+      const text = await generateFrom(source);
+      if (source !== 'llm' || !text) {
+        return { source, text };
+      }
+      const safety = checkMessageSafety(text, safetyContext);
+      if (safety.safe) {
+        return { source, text };
+      }
+      console.warn(`Rejected ${provider.name} message: ${safety.reason}`);
+      return { source: 'fallback' as const, text: await generateFrom('fallback') };
+    };
+
+    const generationStartedAt = performance.now();
+    for (const candidate of loadMessageSourceOrder()) {
+      const { source, text } = await generateSafely(candidate);
+      if (text && (source === 'fallback' || !guard.isBlocked(text))) {
+        try {
+          await recordMessage({
+            sessionId: session.id,
+            sessionTaskId: task.id,
+            type,
+            source: source === 'llm' && provider.name === 'fake' ? 'fake' : source,
+            language,
+            latencyMs: Math.round(performance.now() - generationStartedAt),
+            text: guard.scrub(text)
+          });
+        } catch (error) {
+          console.error('Failed to record message log entry', error);
+        }
+
+        const payload: SessionMessageResponse = sessionMessageResponseSchema.parse({ text, source });
+        return res.json(payload);
       }
     }
 
-    if (!text) {
-      text = buildFallbackMessage({
-        type,
-        childFirstName: session.child.firstName,
-        sessionName: snapshot.name,
-        taskTitle: task.title,
-        nextTaskTitle: nextTaskCandidate?.title ?? null,
-        sessionMinutesRemaining,
-        language
-      });
+    // Unreachable in practice: the source order always ends with the fallback phrases.
+    sendServerError(res);
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+const PREVIEW_TYPES: EncouragementType[] = ['session_start', 'nudge', 'completion'];
+
+const PREVIEW_ROUTINE = {
+  en: { sessionName: 'Morning routine', taskTitle: 'Get dressed', nextTaskTitle: 'Breakfast' },
+  da: { sessionName: 'Morgenrutinen', taskTitle: 'Tag tøj på', nextTaskTitle: 'Morgenmad' }
+};
+
+router.get('/api/encouragement/tones/preview', requireParent, async (req, res) => {
+  const parseResult = tonePreviewQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { language, childId } = parseResult.data;
+
+  try {
+    const child = childId ? await prisma.child.findUnique({ where: { id: childId } }) : null;
+    if (childId && !child) {
+      return sendNotFound(res, 'Child not found');
     }
 
-    const payload = llmResponseSchema.parse({ text });
-    res.json(payload);
+    const routine = PREVIEW_ROUTINE[language.toLowerCase().startsWith('da') ? 'da' : 'en'];
+    const previews: TonePreview[] = TONE_PRESETS.map((tone) => ({
+      tone,
+      samples: PREVIEW_TYPES.map((type) => ({
+        type,
+        text: buildFallbackMessage({
+          ...routine,
+          type,
+          tone,
+          childFirstName: child?.firstName ?? 'Alex',
+          sessionMinutesRemaining: 12,
+          language
+        })
+      }))
+    }));
+
+    res.json({ previews });
   } catch (error) {
     console.error(error);
     sendServerError(res);
@@ -0,0 +1,102 @@
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+describe.sequential('insights routes', () => {
+  const app = createApp();
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const runSession = async (childId: string, templateId: string, startTime: Date, minutes: number[]) => {
+    vi.setSystemTime(startTime);
+    const startResponse = await agent.post('/api/sessions/start').send({ childId, templateId });
+    const sessionId = startResponse.body.session.id as string;
+
+    let elapsed = 0;
+    for (const [index, taskMinutes] of minutes.entries()) {
+      elapsed += taskMinutes;
+      vi.setSystemTime(new Date(startTime.getTime() + elapsed * 60 * 1000));
+      await agent.post(`/api/sessions/${sessionId}/task/${index}/complete`).send({});
+    }
+
+    await agent.post(`/api/sessions/${sessionId}/finish`).send();
+    return sessionId;
+  };
+
+  it('aggregates task overruns per child and ranks the slowest tasks this month', async () => {
+    vi.useFakeTimers();
+
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const template = await prisma.template.create({
+      data: {
+        name: 'Morning',
+        defaultStartTime: '07:00',
+        defaultEndTime: '08:00',
+        tasks: {
+          create: [
+            { title: 'Brush Teeth', expectedMinutes: 2, orderIndex: 0 },
+            { title: 'Get Dressed', expectedMinutes: 5, orderIndex: 1 }
+          ]
+        }
+      }
+    });
+
+    await runSession(child.id, template.id, new Date('2025-03-03T07:00:00.000Z'), [4, 5]);
+    const secondSessionId = await runSession(
+      child.id,
+      template.id,
+      new Date('2025-03-04T07:00:00.000Z'),
+      [6, 4]
+    );
+    await prisma.sessionTask.updateMany({
+      where: { sessionId: secondSessionId, orderIndex: 0 },
+      data: { nudgeFirstFiredAt: new Date('2025-03-04T07:03:00.000Z') }
+    });
+
+    vi.setSystemTime(new Date('2025-03-10T12:00:00.000Z'));
+    const response = await agent.get('/api/insights').query({ childId: child.id });
+
+    expect(response.status).toBe(200);
+    expect(response.body.insights.monthStartsOn).toBe('2025-03-01');
+    expect(response.body.insights.tasks).toEqual([
+      expect.objectContaining({
+        taskTitle: 'Brush Teeth',
+        runs: 2,
+        averageActualMinutes: 5,
+        averageExpectedMinutes: 2,
+        overrunRatio: 2.5,
+        skipRate: 0,
+        nudgeCount: 1
+      }),
+      expect.objectContaining({
+        taskTitle: 'Get Dressed',
+        averageActualMinutes: 4.5,
+        overrunRatio: 0.9
+      })
+    ]);
+    expect(response.body.insights.topSlowTasks).toHaveLength(1);
+    expect(response.body.insights.topSlowTasks[0].taskTitle).toBe('Brush Teeth');
+  });
+
+  it('validates the date range', async () => {
+    const response = await agent
+      .get('/api/insights')
+      .query({ from: '2025-03-10', to: '2025-03-01' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  aggregateTaskInsights,
+  insightsQuerySchema,
+  insightsSchema,
+  selectTopSlowTasks
+} from '@klar-parat/shared';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { householdTimeZone, plannedStartRange, startOfZonedDay, toZonedIsoDate } from '../lib/dates.js';
+import { sendServerError, sendValidationError } from '../lib/http.js';
+import { mapTaskRunSamples } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+import { loadSettings } from '../lib/settings.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+router.get('/', async (req, res) => {
+  const parseResult = insightsQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { childId, from, to } = parseResult.data;
+
+  try {
+    const timeZone = householdTimeZone(await loadSettings());
+    const monthStartsOn = `${toZonedIsoDate(new Date(), timeZone).slice(0, 7)}-01`;
+    const [rangeSessions, monthSessions] = await Promise.all([
+      prisma.session.findMany({
+        where: {
+          actualEndAt: { not: null },
+          ...(childId && { childId }),
+          ...plannedStartRange({ from, to }, timeZone)
+        },
+        include: { tasks: true, child: true }
+      }),
+      prisma.session.findMany({
+        where: {
+          actualEndAt: { not: null },
+          ...(childId && { childId }),
+          plannedStartAt: { gte: startOfZonedDay(monthStartsOn, timeZone) }
+        },
+        include: { tasks: true, child: true }
+      })
+    ]);
+
+    const tasks = aggregateTaskInsights(rangeSessions.flatMap(mapTaskRunSamples)).sort(
+      (a, b) =>
+        a.childFirstName.localeCompare(b.childFirstName) ||
+        (b.overrunRatio ?? 0) - (a.overrunRatio ?? 0)
+    );
+    const topSlowTasks = selectTopSlowTasks(
+      aggregateTaskInsights(monthSessions.flatMap(mapTaskRunSamples))
+    );
+
+    res.json({
+      insights: insightsSchema.parse({
+        tasks,
+        topSlowTasks,
+        monthStartsOn
+      })
+    });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerInsightsRoutes = (app: Express) => {
+  app.use('/api/insights', router);
+};
@@ -0,0 +1,145 @@
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+const app = createApp();
+
+const createSessionFixture = async (agent: ReturnType<typeof request.agent>, nudgeSnippet?: string) => {
+  const child = await prisma.child.create({
+    data: { firstName: 'Luna', birthdate: new Date('2016-02-14'), active: true }
+  });
+  await prisma.child.create({
+    data: { firstName: 'Otto', birthdate: new Date('2018-05-01'), active: true }
+  });
+
+  const template = await prisma.template.create({
+    data: {
+      name: 'Morning Flow',
+      defaultStartTime: '07:00',
+      defaultEndTime: '08:00',
+      tasks: {
+        create: [
+          { title: 'Wake up', expectedMinutes: 5, orderIndex: 0, nudgeSnippet },
+          { title: 'Brush teeth', expectedMinutes: 3, orderIndex: 1 }
+        ]
+      }
+    }
+  });
+
+  const startResponse = await agent.post('/api/sessions/start').send({
+    childId: child.id,
+    templateId: template.id
+  });
+
+  return {
+    childId: child.id,
+    session: startResponse.body.session as { id: string; tasks: { id: string }[] }
+  };
+};
+
+describe.sequential('message log routes', () => {
+  const originalProvider = process.env.LLM_PROVIDER;
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+    process.env.LLM_PROVIDER = 'fake';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+  });
+
+  it('requires a parent session', async () => {
+    const response = await request(app).get('/api/message-log');
+    expect(response.status).toBe(401);
+  });
+
+  it('logs each spoken message with its source and scrubs other names', async () => {
+    const { childId, session } = await createSessionFixture(agent, 'Beat Otto to the kitchen, {{name}}!');
+
+    await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'nudge', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+    await agent.post(`/api/sessions/${session.id}/task/0/complete`).send();
+    await agent
+      .post(`/api/sessions/${session.id}/message`)
+      .send({ type: 'completion', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    const response = await agent.get('/api/message-log').query({ childId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.nextCursor).toBeNull();
+    expect(response.body.entries).toHaveLength(2);
+
+    const [completion, nudge] = response.body.entries;
+    expect(completion).toMatchObject({
+      sessionId: session.id,
+      childFirstName: 'Luna',
+      templateName: 'Morning Flow',
+      type: 'completion',
+      source: 'fake',
+      language: 'en-US',
+      blocked: false
+    });
+    expect(completion.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(nudge).toMatchObject({
+      type: 'nudge',
+      source: 'snippet',
+      text: 'Beat [name] to the kitchen, Luna!'
+    });
+  });
+
+  it('keeps blocked phrases out of later messages until they are allowed again', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T07:00:00.000Z'));
+
+    const { session } = await createSessionFixture(agent);
+    await agent.post(`/api/sessions/${session.id}/task/0/complete`).send();
+
+    const sendCompletion = () =>
+      agent
+        .post(`/api/sessions/${session.id}/message`)
+        .send({ type: 'completion', sessionTaskId: session.tasks[0].id, language: 'en-US' });
+
+    const first = await sendCompletion();
+    expect(first.body.source).toBe('llm');
+
+    const log = await agent.get('/api/message-log').query({ sessionId: session.id });
+    const blockResponse = await agent.post(`/api/message-log/${log.body.entries[0].id}/block`).send();
+
+    expect(blockResponse.status).toBe(201);
+    expect(blockResponse.body.blockedPhrase.text).toBe(first.body.text);
+
+    const second = await sendCompletion();
+    expect(second.body.source).toBe('fallback');
+    expect(second.body.text).not.toBe(first.body.text);
+
+    const blockedList = await agent.get('/api/message-log/blocked');
+    expect(blockedList.body.blockedPhrases).toHaveLength(1);
+
+    const refreshedLog = await agent.get('/api/message-log').query({ sessionId: session.id });
+    expect(refreshedLog.body.entries.map((entry: { blocked: boolean }) => entry.blocked)).toEqual([false, true]);
+
+    const allowResponse = await agent.delete(`/api/message-log/blocked/${blockResponse.body.blockedPhrase.id}`);
+    expect(allowResponse.status).toBe(204);
+
+    const third = await sendCompletion();
+    expect(third.body.source).toBe('llm');
+  });
+
+  it('returns 404 when blocking an unknown message', async () => {
+    const response = await agent.post('/api/message-log/missing/block').send();
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,110 @@
+import { messageLogQuerySchema, messageLogResponseSchema } from '@klar-parat/shared';
+import { Prisma } from '@prisma/client';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
+import { mapBlockedPhrase, mapMessageLogEntry } from '../lib/mappers.js';
+import { toBlockedPattern } from '../lib/messageLog.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+router.get('/', async (req, res) => {
+  const parseResult = messageLogQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { childId, sessionId, cursor, limit } = parseResult.data;
+
+  try {
+    const [records, blocked] = await Promise.all([
+      prisma.messageLogEntry.findMany({
+        where: {
+          ...(sessionId && { sessionId }),
+          ...(childId && { session: { childId } })
+        },
+        include: { session: { include: { child: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      }),
+      prisma.blockedPhrase.findMany({ select: { pattern: true } })
+    ]);
+
+    const blockedPatterns = new Set(blocked.map((phrase) => phrase.pattern));
+    const page = records.slice(0, limit);
+    const hasMore = records.length > limit;
+
+    res.json(
+      messageLogResponseSchema.parse({
+        entries: page.map((entry) =>
+          mapMessageLogEntry(
+            entry,
+            blockedPatterns.has(toBlockedPattern(entry.text, entry.session.child.firstName))
+          )
+        ),
+        nextCursor: hasMore ? page[page.length - 1].id : null
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.get('/blocked', async (_req, res) => {
+  try {
+    const phrases = await prisma.blockedPhrase.findMany({ orderBy: { createdAt: 'desc' } });
+    res.json({ blockedPhrases: phrases.map(mapBlockedPhrase) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.delete('/blocked/:id', async (req, res) => {
+  try {
+    await prisma.blockedPhrase.delete({ where: { id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return sendNotFound(res, 'Blocked phrase not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/:id/block', async (req, res) => {
+  try {
+    const entry = await prisma.messageLogEntry.findUnique({
+      where: { id: req.params.id },
+      include: { session: { include: { child: true } } }
+    });
+
+    if (!entry) {
+      return sendNotFound(res, 'Message not found');
+    }
+
+    const pattern = toBlockedPattern(entry.text, entry.session.child.firstName);
+    const existing = await prisma.blockedPhrase.findUnique({ where: { pattern } });
+    if (existing) {
+      return res.json({ blockedPhrase: mapBlockedPhrase(existing) });
+    }
+
+    const created = await prisma.blockedPhrase.create({ data: { pattern, text: entry.text } });
+    res.status(201).json({ blockedPhrase: mapBlockedPhrase(created) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerMessageLogRoutes = (app: Express) => {
+  app.use('/api/message-log', router);
+};
@@ -0,0 +1,147 @@
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { stageScheduledSessions } from '../lib/scheduler.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+const createTemplate = (name: string, defaultStartTime: string, defaultEndTime: string) =>
+  prisma.template.create({
+    data: {
+      name,
+      defaultStartTime,
+      defaultEndTime,
+      tasks: { create: [{ title: 'Wake up', expectedMinutes: 5, orderIndex: 0 }] }
+    }
+  });
+
+describe.sequential('schedule routes', () => {
+  const app = createApp();
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replaces and lists weekday assignments for a child', async () => {
+    const school = await createTemplate('School day', '07:00', '08:00');
+    const weekend = await createTemplate('Weekend', '08:30', '09:30');
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+
+    const updateResponse = await agent.put(`/api/schedule/${child.id}`).send({
+      assignments: [
+        { weekday: 'sat', templateId: weekend.id },
+        { weekday: 'mon', templateId: school.id }
+      ]
+    });
+
+    expect(updateResponse.status).toBe(200);
+    expect(updateResponse.body.assignments).toMatchObject([
+      { childId: child.id, weekday: 'mon', templateId: school.id },
+      { childId: child.id, weekday: 'sat', templateId: weekend.id }
+    ]);
+
+    await agent
+      .put(`/api/schedule/${child.id}`)
+      .send({ assignments: [{ weekday: 'tue', templateId: school.id }] });
+
+    const listResponse = await agent.get('/api/schedule');
+    expect(listResponse.status).toBe(200);
+    expect(listResponse.body.assignments).toHaveLength(1);
+    expect(listResponse.body.assignments[0].weekday).toBe('tue');
+
+    const duplicateResponse = await agent.put(`/api/schedule/${child.id}`).send({
+      assignments: [
+        { weekday: 'mon', templateId: school.id },
+        { weekday: 'mon', templateId: weekend.id }
+      ]
+    });
+    expect(duplicateResponse.status).toBe(400);
+  });
+
+  it('stages assigned sessions once the lead time opens, without duplicates', async () => {
+    vi.useFakeTimers();
+    const template = await createTemplate('School day', '07:00', '08:00');
+    const ada = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const bo = await prisma.child.create({
+      data: { firstName: 'Bo', birthdate: new Date('2017-09-12'), active: false }
+    });
+    await prisma.scheduleAssignment.createMany({
+      data: [
+        { childId: ada.id, weekday: 'mon', templateId: template.id },
+        { childId: bo.id, weekday: 'mon', templateId: template.id }
+      ]
+    });
+
+    // Monday 3 November 2025, local time.
+    const tooEarly = new Date(2025, 10, 3, 6, 15);
+    vi.setSystemTime(tooEarly);
+    expect(await stageScheduledSessions(tooEarly, 30)).toBe(0);
+
+    const withinLead = new Date(2025, 10, 3, 6, 40);
+    vi.setSystemTime(withinLead);
+    expect(await stageScheduledSessions(withinLead, 30)).toBe(1);
+    expect(await stageScheduledSessions(withinLead, 30)).toBe(0);
+
+    const activeResponse = await agent.get('/api/sessions/active');
+    expect(activeResponse.status).toBe(200);
+    expect(activeResponse.body.sessions).toHaveLength(1);
+    expect(activeResponse.body.sessions[0].child.id).toBe(ada.id);
+    expect(activeResponse.body.sessions[0].session.actualStartAt).toBe(
+      new Date(2025, 10, 3, 7, 0).toISOString()
+    );
+
+    await prisma.session.updateMany({ data: { actualEndAt: new Date(2025, 10, 3, 7, 20) } });
+    const afterFinish = new Date(2025, 10, 3, 7, 30);
+    vi.setSystemTime(afterFinish);
+    expect(await stageScheduledSessions(afterFinish, 30)).toBe(0);
+  });
+
+  it('stages by the household time zone rather than the server clock', async () => {
+    vi.useFakeTimers();
+    const template = await createTemplate('School day', '07:00', '08:00');
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    await prisma.scheduleAssignment.create({
+      data: { childId: child.id, weekday: 'mon', templateId: template.id }
+    });
+    await agent.put('/api/settings').send({ timeZone: 'Pacific/Auckland' });
+
+    // 06:40 on Monday 3 November in Auckland is still Sunday afternoon in UTC.
+    const now = new Date('2025-11-02T17:40:00.000Z');
+    vi.setSystemTime(now);
+    expect(await stageScheduledSessions(now, 30)).toBe(1);
+
+    const session = await prisma.session.findFirstOrThrow({ where: { childId: child.id } });
+    expect(session.scheduledFor).toBe('2025-11-03');
+    expect(session.plannedStartAt.toISOString()).toBe('2025-11-02T18:00:00.000Z');
+  });
+
+  it('leaves out children whose routine is suspended that day', async () => {
+    vi.useFakeTimers();
+    const template = await createTemplate('School day', '07:00', '08:00');
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    await prisma.scheduleAssignment.create({
+      data: { childId: child.id, weekday: 'mon', templateId: template.id }
+    });
+    await prisma.calendarException.create({ data: { date: '2025-11-03', kind: 'skip' } });
+
+    const now = new Date(2025, 10, 3, 6, 45);
+    vi.setSystemTime(now);
+    expect(await stageScheduledSessions(now, 30)).toBe(0);
+  });
+});
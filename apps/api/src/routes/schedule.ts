@@ -0,0 +1,65 @@
+import { type ScheduleAssignment, scheduleUpdateSchema, WEEKDAYS } from '@klar-parat/shared';
+import { Prisma } from '@prisma/client';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
+import { mapScheduleAssignment } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+const byWeekday = (a: ScheduleAssignment, b: ScheduleAssignment) =>
+  WEEKDAYS.indexOf(a.weekday) - WEEKDAYS.indexOf(b.weekday);
+
+router.get('/', async (_req, res) => {
+  try {
+    const assignments = await prisma.scheduleAssignment.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+    res.json({ assignments: assignments.map(mapScheduleAssignment).sort(byWeekday) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.put('/:childId', async (req, res) => {
+  const parseResult = scheduleUpdateSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { childId } = req.params;
+  const { assignments } = parseResult.data;
+
+  try {
+    const child = await prisma.child.findUnique({ where: { id: childId } });
+    if (!child) {
+      return sendNotFound(res, 'Child not found');
+    }
+
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.scheduleAssignment.deleteMany({ where: { childId } });
+      for (const { weekday, templateId } of assignments) {
+        await tx.scheduleAssignment.create({ data: { childId, weekday, templateId } });
+      }
+      return tx.scheduleAssignment.findMany({ where: { childId } });
+    });
+
+    res.json({ assignments: saved.map(mapScheduleAssignment).sort(byWeekday) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return sendNotFound(res, 'Template not found');
+    }
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerScheduleRoutes = (app: Express) => {
+  app.use('/api/schedule', router);
+};
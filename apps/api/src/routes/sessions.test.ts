@@ -1,10 +1,11 @@
-import type { Child } from '@klar-parat/shared';
+import type { Child, SessionStreamEvent } from '@klar-parat/shared';
 import request from 'supertest';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { createApp } from '../app.js';
 import { prisma } from '../lib/prisma.js';
-import { resetDatabase } from '../test/utils.js';
+import { subscribeToSessionEvents } from '../lib/sessionEvents.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
 
 const createFixtures = async () => {
   const child = await prisma.child.create({
@@ -36,14 +37,17 @@ const createFixtures = async () => {
 describe.sequential('sessions routes', () => {
   const app = createApp();
 
+  let agent: ReturnType<typeof request.agent>;
+
   beforeEach(async () => {
     await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
   });
 
   it('starts a session from a template and returns session data', async () => {
     const { child, template } = await createFixtures();
 
-    const response = await request(app).post('/api/sessions/start').send({
+    const response = await agent.post('/api/sessions/start').send({
       childId: child.id,
       templateId: template.id,
       allowSkip: true
@@ -57,13 +61,13 @@ describe.sequential('sessions routes', () => {
     expect(session.tasks[0].title).toBe('Wake up');
     expect(session.actualStartAt).toBeTruthy();
 
-    const persisted = await request(app).get(`/api/sessions/${session.id}`);
+    const persisted = await agent.get(`/api/sessions/${session.id}`);
     expect(persisted.status).toBe(200);
     expect(persisted.body.session.tasks[1].title).toBe('Brush Teeth');
   });
 
   it('validates payloads', async () => {
-    const response = await request(app).post('/api/sessions/start').send({});
+    const response = await agent.post('/api/sessions/start').send({});
     expect(response.status).toBe(400);
     expect(response.body.error.message).toContain('childId');
   });
@@ -71,7 +75,7 @@ describe.sequential('sessions routes', () => {
   it('returns not found when template is missing', async () => {
     const { child } = await createFixtures();
 
-    const response = await request(app).post('/api/sessions/start').send({
+    const response = await agent.post('/api/sessions/start').send({
       childId: child.id,
       templateId: 'cktemplate12345678901234567'
     });
@@ -87,7 +91,7 @@ describe.sequential('sessions routes', () => {
 
     const { child, template } = await createFixtures();
 
-    const startResponse = await request(app).post('/api/sessions/start').send({
+    const startResponse = await agent.post('/api/sessions/start').send({
       childId: child.id,
       templateId: template.id
     });
@@ -95,7 +99,7 @@ describe.sequential('sessions routes', () => {
     const sessionId = startResponse.body.session.id as string;
     expect(startResponse.body.session.actualStartAt).toBeTruthy();
 
-    const completeFirst = await request(app)
+    const completeFirst = await agent
       .post(`/api/sessions/${sessionId}/task/0/complete`)
       .send({});
 
@@ -103,18 +107,18 @@ describe.sequential('sessions routes', () => {
     expect(completeFirst.body.session.actualStartAt).toBeTruthy();
     expect(completeFirst.body.session.tasks[0].completedAt).toBeTruthy();
 
-    const prematureFinish = await request(app).post(`/api/sessions/${sessionId}/finish`).send();
+    const prematureFinish = await agent.post(`/api/sessions/${sessionId}/finish`).send();
     expect(prematureFinish.status).toBe(400);
     expect(prematureFinish.body.error.message).toContain('All tasks must be completed');
 
     vi.setSystemTime(new Date(startTime.getTime() + 9 * 60 * 1000));
 
-    const completeSecond = await request(app)
+    const completeSecond = await agent
       .post(`/api/sessions/${sessionId}/task/1/complete`)
       .send({});
     expect(completeSecond.status).toBe(200);
 
-    const finishResponse = await request(app).post(`/api/sessions/${sessionId}/finish`).send();
+    const finishResponse = await agent.post(`/api/sessions/${sessionId}/finish`).send();
     expect(finishResponse.status).toBe(200);
     expect(finishResponse.body.session.medal).toBe('silver');
     expect(finishResponse.body.session.actualEndAt).toBeTruthy();
@@ -122,7 +126,7 @@ describe.sequential('sessions routes', () => {
       new Date(finishResponse.body.session.actualStartAt!).getTime()
     );
 
-    const idempotentFinish = await request(app).post(`/api/sessions/${sessionId}/finish`).send();
+    const idempotentFinish = await agent.post(`/api/sessions/${sessionId}/finish`).send();
     expect(idempotentFinish.status).toBe(200);
     expect(idempotentFinish.body.session.medal).toBe('silver');
 
@@ -135,7 +139,7 @@ describe.sequential('sessions routes', () => {
     vi.setSystemTime(now);
 
     const { child, template } = await createFixtures();
-    const startResponse = await request(app).post('/api/sessions/start').send({
+    const startResponse = await agent.post('/api/sessions/start').send({
       childId: child.id,
       templateId: template.id,
       allowSkip: true
@@ -143,19 +147,19 @@ describe.sequential('sessions routes', () => {
 
     const sessionId = startResponse.body.session.id as string;
 
-    const skipFirst = await request(app)
+    const skipFirst = await agent
       .post(`/api/sessions/${sessionId}/task/0/complete`)
       .send({ skipped: true });
     expect(skipFirst.status).toBe(200);
     expect(skipFirst.body.session.tasks[0].skipped).toBe(true);
     expect(skipFirst.body.session.actualStartAt).toBeTruthy();
 
-    const skipSecond = await request(app)
+    const skipSecond = await agent
       .post(`/api/sessions/${sessionId}/task/1/complete`)
       .send({ skipped: true });
     expect(skipSecond.status).toBe(200);
 
-    const finishResponse = await request(app).post(`/api/sessions/${sessionId}/finish`).send();
+    const finishResponse = await agent.post(`/api/sessions/${sessionId}/finish`).send();
     expect(finishResponse.status).toBe(200);
     expect(finishResponse.body.session.medal).toBe('gold');
     expect(finishResponse.body.session.actualStartAt).toBeTruthy();
@@ -190,14 +194,14 @@ describe.sequential('sessions routes', () => {
       }
     });
 
-    const startResponse = await request(app).post('/api/sessions/start').send({
+    const startResponse = await agent.post('/api/sessions/start').send({
       childId: child.id,
       templateId: template.id
     });
 
     const sessionId = startResponse.body.session.id as string;
 
-    const initialTelemetry = await request(app).get(`/api/sessions/${sessionId}/telemetry`);
+    const initialTelemetry = await agent.get(`/api/sessions/${sessionId}/telemetry`);
     expect(initialTelemetry.status).toBe(200);
     expect(initialTelemetry.body.telemetry.nudges).toHaveLength(0);
     expect(initialTelemetry.body.telemetry.sessionEndsAt).toMatch(/T/);
@@ -207,22 +211,22 @@ describe.sequential('sessions routes', () => {
     });
 
     vi.setSystemTime(new Date(startTime.getTime() + 60 * 1000));
-    const firstNudgeTelemetry = await request(app).get(`/api/sessions/${sessionId}/telemetry`);
+    const firstNudgeTelemetry = await agent.get(`/api/sessions/${sessionId}/telemetry`);
     expect(firstNudgeTelemetry.body.telemetry.nudges).toHaveLength(1);
     expect(firstNudgeTelemetry.body.telemetry.nudges[0].threshold).toBe('first');
     expect(firstNudgeTelemetry.body.telemetry.currentTask?.nudgesFiredCount).toBe(1);
 
-    const noDuplicate = await request(app).get(`/api/sessions/${sessionId}/telemetry`);
+    const noDuplicate = await agent.get(`/api/sessions/${sessionId}/telemetry`);
     expect(noDuplicate.body.telemetry.nudges).toHaveLength(0);
 
     vi.setSystemTime(new Date(startTime.getTime() + 2 * 60 * 1000));
-    const secondNudgeTelemetry = await request(app).get(`/api/sessions/${sessionId}/telemetry`);
+    const secondNudgeTelemetry = await agent.get(`/api/sessions/${sessionId}/telemetry`);
     expect(secondNudgeTelemetry.body.telemetry.nudges).toHaveLength(1);
     expect(secondNudgeTelemetry.body.telemetry.nudges[0].threshold).toBe('second');
     expect(secondNudgeTelemetry.body.telemetry.currentTask?.nudgesFiredCount).toBe(2);
 
     vi.setSystemTime(new Date(startTime.getTime() + 3 * 60 * 1000));
-    const finalNudgeTelemetry = await request(app).get(`/api/sessions/${sessionId}/telemetry`);
+    const finalNudgeTelemetry = await agent.get(`/api/sessions/${sessionId}/telemetry`);
     expect(finalNudgeTelemetry.body.telemetry.nudges).toHaveLength(1);
     expect(finalNudgeTelemetry.body.telemetry.nudges[0].threshold).toBe('final');
     expect(finalNudgeTelemetry.body.telemetry.currentTask?.nudgesFiredCount).toBe(3);
@@ -241,14 +245,14 @@ describe.sequential('sessions routes', () => {
     });
 
     const [firstStart, secondStart] = await Promise.all([
-      request(app).post('/api/sessions/start').send({ childId: childOne.id, templateId: template.id }),
-      request(app).post('/api/sessions/start').send({ childId: childTwo.id, templateId: template.id })
+      agent.post('/api/sessions/start').send({ childId: childOne.id, templateId: template.id }),
+      agent.post('/api/sessions/start').send({ childId: childTwo.id, templateId: template.id })
     ]);
 
     expect(firstStart.status).toBe(201);
     expect(secondStart.status).toBe(201);
 
-    const activeResponse = await request(app).get('/api/sessions/active');
+    const activeResponse = await agent.get('/api/sessions/active');
     expect(activeResponse.status).toBe(200);
     expect(activeResponse.body.sessions).toHaveLength(2);
     const activeNames = activeResponse.body.sessions.map((entry: { child: Child }) => entry.child.firstName);
@@ -256,8 +260,8 @@ describe.sequential('sessions routes', () => {
     expect(activeNames).toContain('Charles');
 
     const [firstComplete, secondComplete] = await Promise.all([
-      request(app).post(`/api/sessions/${firstStart.body.session.id}/task/0/complete`).send({}),
-      request(app).post(`/api/sessions/${secondStart.body.session.id}/task/0/complete`).send({})
+      agent.post(`/api/sessions/${firstStart.body.session.id}/task/0/complete`).send({}),
+      agent.post(`/api/sessions/${secondStart.body.session.id}/task/0/complete`).send({})
     ]);
 
     expect(firstComplete.status).toBe(200);
@@ -265,4 +269,274 @@ describe.sequential('sessions routes', () => {
     expect(firstComplete.body.session.tasks[0].completedAt).toBeTruthy();
     expect(secondComplete.body.session.tasks[0].completedAt).toBeTruthy();
   });
+
+  it('lists finished sessions in history with per-task durations and pagination', async () => {
+    vi.useFakeTimers();
+    const { child, template } = await createFixtures();
+
+    const runSession = async (day: string) => {
+      const startTime = new Date(`${day}T07:00:00.000Z`);
+      vi.setSystemTime(startTime);
+      const startResponse = await agent.post('/api/sessions/start').send({
+        childId: child.id,
+        templateId: template.id,
+        plannedStartAt: startTime.toISOString(),
+        plannedEndAt: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString()
+      });
+      const sessionId = startResponse.body.session.id as string;
+
+      vi.setSystemTime(new Date(startTime.getTime() + 4 * 60 * 1000));
+      await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+      vi.setSystemTime(new Date(startTime.getTime() + 10 * 60 * 1000));
+      await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({});
+      await agent.post(`/api/sessions/${sessionId}/finish`).send();
+      return sessionId;
+    };
+
+    const firstId = await runSession('2025-01-01');
+    const secondId = await runSession('2025-01-02');
+    await agent.post('/api/sessions/start').send({ childId: child.id, templateId: template.id });
+    vi.useRealTimers();
+
+    const historyResponse = await agent.get('/api/sessions/history').query({ childId: child.id });
+    expect(historyResponse.status).toBe(200);
+    expect(historyResponse.body.sessions).toHaveLength(2);
+    expect(historyResponse.body.nextCursor).toBeNull();
+
+    const [latest] = historyResponse.body.sessions;
+    expect(latest.id).toBe(secondId);
+    expect(latest.child.firstName).toBe('Ada');
+    expect(latest.templateName).toBe('Morning');
+    expect(latest.medal).toBe('silver');
+    expect(latest.expectedTotalMinutes).toBe(8);
+    expect(latest.durationSeconds).toBe(600);
+    expect(latest.tasks.map((task: { durationSeconds: number }) => task.durationSeconds)).toEqual([240, 360]);
+
+    const firstPage = await agent.get('/api/sessions/history').query({ limit: 1 });
+    expect(firstPage.body.sessions).toHaveLength(1);
+    expect(firstPage.body.nextCursor).toBe(secondId);
+
+    const secondPage = await agent
+      .get('/api/sessions/history')
+      .query({ limit: 1, cursor: firstPage.body.nextCursor });
+    expect(secondPage.body.sessions[0].id).toBe(firstId);
+    expect(secondPage.body.nextCursor).toBeNull();
+
+    const filtered = await agent
+      .get('/api/sessions/history')
+      .query({ from: '2025-01-01', to: '2025-01-01' });
+    expect(filtered.body.sessions.map((entry: { id: string }) => entry.id)).toEqual([firstId]);
+
+    const invalid = await agent
+      .get('/api/sessions/history')
+      .query({ from: '2025-01-02', to: '2025-01-01' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('cuts history days at midnight in the household time zone', async () => {
+    const { child, template } = await createFixtures();
+    await agent.put('/api/settings').send({ timeZone: 'Europe/Copenhagen' });
+
+    // 00:30 on 2 January in Copenhagen is still 1 January in UTC.
+    const plannedStartAt = new Date('2025-01-01T23:30:00.000Z');
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id,
+      plannedStartAt: plannedStartAt.toISOString(),
+      plannedEndAt: new Date(plannedStartAt.getTime() + 60 * 60 * 1000).toISOString()
+    });
+    const sessionId = startResponse.body.session.id as string;
+    await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({});
+    await agent.post(`/api/sessions/${sessionId}/finish`).send();
+
+    const localDay = await agent.get('/api/sessions/history').query({ from: '2025-01-02', to: '2025-01-02' });
+    expect(localDay.body.sessions.map((entry: { id: string }) => entry.id)).toEqual([sessionId]);
+
+    const previousDay = await agent.get('/api/sessions/history').query({ from: '2025-01-01', to: '2025-01-01' });
+    expect(previousDay.body.sessions).toEqual([]);
+  });
+
+  it('undoes a task within 30 seconds behind the household PIN and reopens finished sessions', async () => {
+    vi.useFakeTimers();
+    const startTime = new Date('2025-01-01T07:00:00.000Z');
+    vi.setSystemTime(startTime);
+
+    const { child, template } = await createFixtures();
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const sessionId = startResponse.body.session.id as string;
+
+    const missingPin = await agent.post(`/api/sessions/${sessionId}/task/0/undo`).send({ pin: '1234' });
+    expect(missingPin.status).toBe(403);
+
+    await agent.put('/api/auth/pin').send({ pin: '1234' });
+
+    vi.setSystemTime(new Date(startTime.getTime() + 4 * 60 * 1000));
+    await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    vi.setSystemTime(new Date(startTime.getTime() + 7 * 60 * 1000));
+    await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({});
+    const finishResponse = await agent.post(`/api/sessions/${sessionId}/finish`).send();
+    expect(finishResponse.body.session.medal).toBe('gold');
+
+    const wrongPin = await agent.post(`/api/sessions/${sessionId}/task/1/undo`).send({ pin: '9999' });
+    expect(wrongPin.status).toBe(403);
+
+    vi.setSystemTime(new Date(startTime.getTime() + 7 * 60 * 1000 + 20 * 1000));
+    const undoResponse = await agent.post(`/api/sessions/${sessionId}/task/1/undo`).send({ pin: '1234' });
+    expect(undoResponse.status).toBe(200);
+    expect(undoResponse.body.session.tasks[1].completedAt).toBeNull();
+    expect(undoResponse.body.session.medal).toBeNull();
+    expect(undoResponse.body.session.actualEndAt).toBeNull();
+
+    const staleUndo = await agent.post(`/api/sessions/${sessionId}/task/0/undo`).send({ pin: '1234' });
+    expect(staleUndo.status).toBe(409);
+    expect(staleUndo.body.error.message).toContain('30 seconds');
+
+    const nothingToUndo = await agent.post(`/api/sessions/${sessionId}/task/1/undo`).send({ pin: '1234' });
+    expect(nothingToUndo.status).toBe(409);
+
+    vi.useRealTimers();
+  });
+
+  it('publishes starts, completions, nudges and medals to stream subscribers', async () => {
+    vi.useFakeTimers();
+    const startTime = new Date('2025-01-01T07:00:00.000Z');
+    vi.setSystemTime(startTime);
+
+    const { child, template } = await createFixtures();
+    const events: SessionStreamEvent[] = [];
+    const unsubscribe = subscribeToSessionEvents((event) => events.push(event));
+
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const sessionId = startResponse.body.session.id as string;
+
+    vi.setSystemTime(new Date(startTime.getTime() + 2 * 60 * 1000));
+    await agent.get(`/api/sessions/${sessionId}/telemetry`);
+    await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({ skipped: true });
+    await agent.post(`/api/sessions/${sessionId}/finish`).send();
+    unsubscribe();
+
+    expect(events.map((event) => event.type)).toEqual([
+      'session.started',
+      'telemetry',
+      'task.completed',
+      'session.updated',
+      'task.completed',
+      'session.updated',
+      'session.finished'
+    ]);
+    expect(events[0]).toMatchObject({ session: { id: sessionId }, child: { firstName: 'Ada' } });
+    expect(events[1]).toMatchObject({ sessionId, telemetry: { nudges: [{ threshold: 'first' }] } });
+    expect(events[4]).toMatchObject({ sessionId, orderIndex: 1, skipped: true });
+    expect(events[6]).toMatchObject({ session: { medal: expect.any(String) } });
+
+    vi.useRealTimers();
+  });
+
+  it('requires a parent or device to open the session stream', async () => {
+    const response = await request(app).get('/api/sessions/stream');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects anonymous starts, reads and finishes', async () => {
+    const { child, template } = await createFixtures();
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const sessionId = startResponse.body.session.id as string;
+
+    const anonymousStart = await request(app)
+      .post('/api/sessions/start')
+      .send({ childId: child.id, templateId: template.id });
+    expect(anonymousStart.status).toBe(401);
+
+    expect((await request(app).get('/api/sessions/active')).status).toBe(401);
+    expect((await request(app).get(`/api/sessions/${sessionId}`)).status).toBe(401);
+    expect((await request(app).post(`/api/sessions/${sessionId}/finish`).send()).status).toBe(401);
+  });
+
+  it('asks the kid board to encourage the current task', async () => {
+    const { child, template } = await createFixtures();
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const session = startResponse.body.session as { id: string; tasks: { id: string }[] };
+    const events: SessionStreamEvent[] = [];
+    const unsubscribe = subscribeToSessionEvents((event) => events.push(event));
+
+    await agent.post(`/api/sessions/${session.id}/task/0/complete`).send({});
+    const encourageResponse = await agent.post(`/api/sessions/${session.id}/encourage`).send();
+    unsubscribe();
+
+    expect(encourageResponse.status).toBe(202);
+    expect(encourageResponse.body.sessionTaskId).toBe(session.tasks[1].id);
+    expect(events.at(-1)).toEqual({
+      type: 'encouragement.requested',
+      sessionId: session.id,
+      sessionTaskId: session.tasks[1].id
+    });
+
+    await agent.post(`/api/sessions/${session.id}/task/1/complete`).send({});
+    const doneResponse = await agent.post(`/api/sessions/${session.id}/encourage`).send();
+    expect(doneResponse.status).toBe(409);
+
+    const missingResponse = await agent.post('/api/sessions/ckmissingsession000000000/encourage').send();
+    expect(missingResponse.status).toBe(404);
+
+    const deviceResponse = await request(app).post(`/api/sessions/${session.id}/encourage`).send();
+    expect(deviceResponse.status).toBe(401);
+  });
+
+  it('replays offline completions with their tap time exactly once per idempotency key', async () => {
+    vi.useFakeTimers();
+    const startTime = new Date('2025-01-01T07:00:00.000Z');
+    vi.setSystemTime(startTime);
+
+    const { child, template } = await createFixtures();
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const sessionId = startResponse.body.session.id as string;
+
+    vi.setSystemTime(new Date(startTime.getTime() + 10 * 60 * 1000));
+    const tappedAt = new Date(startTime.getTime() + 4 * 60 * 1000).toISOString();
+    const payload = { completedAt: tappedAt, idempotencyKey: 'offline-key-0001' };
+
+    const first = await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send(payload);
+    expect(first.status).toBe(200);
+    expect(first.body.session.tasks[0].completedAt).toBe(tappedAt);
+    expect(first.body.session.actualStartAt).toBe(tappedAt);
+
+    // A parent undoes the task; replaying the same queued completion must not redo it.
+    await prisma.sessionTask.updateMany({
+      where: { sessionId, orderIndex: 0 },
+      data: { completedAt: null }
+    });
+    const replay = await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send(payload);
+    expect(replay.status).toBe(200);
+    expect(replay.body.session.tasks[0].completedAt).toBeNull();
+
+    const reused = await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send(payload);
+    expect(reused.status).toBe(409);
+
+    const future = await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({
+      completedAt: new Date(startTime.getTime() + 60 * 60 * 1000).toISOString(),
+      idempotencyKey: 'offline-key-0002'
+    });
+    expect(future.body.session.tasks[1].completedAt).toBe(new Date(startTime.getTime() + 10 * 60 * 1000).toISOString());
+
+    vi.useRealTimers();
+  });
 });
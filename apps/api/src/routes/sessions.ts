@@ -1,33 +1,68 @@
 import {
   computeMedal,
-  computeUrgency,
-  type SessionActiveTaskTelemetry,
+  getTaskActedAt,
+  householdPinInputSchema,
+  isWithinUndoWindow,
+  sessionHistoryQuerySchema,
+  sessionHistoryResponseSchema,
   sessionSchema,
   sessionStartSchema,
   sessionTaskCompleteSchema,
-  sessionTelemetrySchema,
-  sessionWithChildSchema,
-  templateSnapshotSchema
+  sessionWithChildSchema
 } from '@klar-parat/shared';
 import type { Express } from 'express';
 import { Router } from 'express';
 
-import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
-import { mapChild, mapSession } from '../lib/mappers.js';
+import { checkHouseholdPin, requireParent, requireParentOrDevice } from '../lib/auth.js';
+import { householdTimeZone, plannedStartRange } from '../lib/dates.js';
+import {
+  sendConflict,
+  sendNotFound,
+  sendServerError,
+  sendValidationError
+} from '../lib/http.js';
+import { mapChild, mapSession, mapSessionHistoryEntry } from '../lib/mappers.js';
 import { prisma } from '../lib/prisma.js';
+import { publishSessionEvent, subscribeToSessionEvents } from '../lib/sessionEvents.js';
+import { buildTemplateSnapshot, createSession, toPlannedDate } from '../lib/sessions.js';
+import { loadSettings, resolveSessionThresholds } from '../lib/settings.js';
+import { computeSessionTelemetry, startTelemetryBroadcast } from '../lib/telemetry.js';
 
 const router = Router();
 
-const toPlannedDate = (time: string) => {
-  const [hours, minutes] = time.split(':').map(Number);
-  const now = new Date();
-  const result = new Date(now);
-  result.setSeconds(0, 0);
-  result.setHours(hours, minutes, 0, 0);
-  return result;
+const TELEMETRY_BROADCAST_INTERVAL_MS = 5000;
+const STREAM_HEARTBEAT_INTERVAL_MS = 25000;
+const STREAM_RETRY_MS = 3000;
+
+let streamClients = 0;
+let stopTelemetryBroadcast: (() => void) | null = null;
+
+const parseTaskIndex = (value: string) => {
+  const orderIndex = Number.parseInt(value, 10);
+  return Number.isInteger(orderIndex) && orderIndex >= 0 ? orderIndex : null;
+};
+
+// Replayed completions keep the child's tap time, bounded by the session's creation and the server clock.
+const resolveActedAt = (completedAt: string | undefined, sessionCreatedAt: Date, now: Date) => {
+  if (!completedAt) {
+    return now;
+  }
+  const requested = new Date(completedAt);
+  if (requested > now) {
+    return now;
+  }
+  return requested < sessionCreatedAt ? sessionCreatedAt : requested;
 };
 
-router.post('/start', async (req, res) => {
+const invalidTaskIndexIssues = [
+  {
+    code: 'custom' as const,
+    message: 'Task index must be a non-negative integer',
+    path: ['index']
+  }
+];
+
+router.post('/start', requireParent, async (req, res) => {
   const parseResult = sessionStartSchema.safeParse(req.body);
   if (!parseResult.success) {
     return sendValidationError(res, parseResult.error.issues);
@@ -36,9 +71,10 @@ router.post('/start', async (req, res) => {
   const { childId, templateId, plannedStartAt, plannedEndAt, allowSkip } = parseResult.data;
 
   try {
-    const [child, template] = await Promise.all([
+    const [child, template, settings] = await Promise.all([
       prisma.child.findUnique({ where: { id: childId } }),
-      prisma.template.findUnique({ where: { id: templateId }, include: { tasks: true } })
+      prisma.template.findUnique({ where: { id: templateId }, include: { tasks: true } }),
+      loadSettings()
     ]);
 
     if (!child) {
@@ -49,28 +85,13 @@ router.post('/start', async (req, res) => {
       return sendNotFound(res, 'Template not found');
     }
 
-    const sortedTasks = template.tasks
-      .slice()
-      .sort((a, b) => a.orderIndex - b.orderIndex)
-      .map((task, index) => ({
-        title: task.title,
-        emoji: task.emoji ?? undefined,
-        hint: task.hint ?? undefined,
-        expectedMinutes: task.expectedMinutes,
-        orderIndex: index
-      }));
-
-    const snapshot = templateSnapshotSchema.parse({
-      templateId: template.id,
-      name: template.name,
-      defaultStartTime: template.defaultStartTime,
-      defaultEndTime: template.defaultEndTime,
-      tasks: sortedTasks,
-      expectedTotalMinutes: sortedTasks.reduce((total, task) => total + task.expectedMinutes, 0)
-    });
+    const snapshot = buildTemplateSnapshot(template);
 
-    const resolvedPlannedStart = plannedStartAt ? new Date(plannedStartAt) : toPlannedDate(snapshot.defaultStartTime);
-    const resolvedPlannedEnd = plannedEndAt ? new Date(plannedEndAt) : toPlannedDate(snapshot.defaultEndTime);
+    const timeZone = householdTimeZone(settings);
+    const resolvedPlannedStart = plannedStartAt
+      ? new Date(plannedStartAt)
+      : toPlannedDate(snapshot.defaultStartTime, timeZone);
+    const resolvedPlannedEnd = plannedEndAt ? new Date(plannedEndAt) : toPlannedDate(snapshot.defaultEndTime, timeZone);
 
     if (resolvedPlannedEnd <= resolvedPlannedStart) {
       return sendValidationError(res, [
@@ -82,38 +103,13 @@ router.post('/start', async (req, res) => {
       ]);
     }
 
-    const created = await prisma.$transaction(async (tx) => {
-      const sessionStart = new Date();
-      const session = await tx.session.create({
-        data: {
-          childId: child.id,
-          templateSnapshot: JSON.stringify(snapshot),
-          plannedStartAt: resolvedPlannedStart,
-          plannedEndAt: resolvedPlannedEnd,
-          expectedTotalMinutes: snapshot.expectedTotalMinutes,
-          allowSkip,
-          actualStartAt: sessionStart
-        }
-      });
-
-      await Promise.all(
-        snapshot.tasks.map((task) =>
-          tx.sessionTask.create({
-            data: {
-              sessionId: session.id,
-              title: task.title,
-              expectedMinutes: task.expectedMinutes,
-              orderIndex: task.orderIndex,
-              startedAt: task.orderIndex === 0 ? sessionStart : null
-            }
-          })
-        )
-      );
-
-      return tx.session.findUnique({
-        where: { id: session.id },
-        include: { tasks: true }
-      });
+    const created = await createSession({
+      childId: child.id,
+      snapshot,
+      plannedStartAt: resolvedPlannedStart,
+      plannedEndAt: resolvedPlannedEnd,
+      allowSkip: allowSkip ?? settings.allowSkipByDefault,
+      settings
     });
 
     if (!created) {
@@ -121,6 +117,7 @@ router.post('/start', async (req, res) => {
     }
 
     const session = sessionSchema.parse(mapSession(created));
+    publishSessionEvent({ type: 'session.started', session, child: mapChild(child) });
     res.status(201).json({ session });
   } catch (error) {
     console.error(error);
@@ -128,7 +125,7 @@ router.post('/start', async (req, res) => {
   }
 });
 
-router.get('/active', async (_req, res) => {
+router.get('/active', requireParentOrDevice, async (_req, res) => {
   try {
     const active = await prisma.session.findMany({
       where: { actualEndAt: null },
@@ -150,7 +147,74 @@ router.get('/active', async (_req, res) => {
   }
 });
 
-router.get('/:id', async (req, res) => {
+router.get('/history', requireParent, async (req, res) => {
+  const parseResult = sessionHistoryQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const { childId, from, to, cursor, limit } = parseResult.data;
+
+  try {
+    const timeZone = householdTimeZone(await loadSettings());
+    const records = await prisma.session.findMany({
+      where: {
+        actualEndAt: { not: null },
+        ...(childId && { childId }),
+        ...plannedStartRange({ from, to }, timeZone)
+      },
+      include: { tasks: true, child: true },
+      orderBy: [{ plannedStartAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    const page = records.slice(0, limit);
+    const hasMore = records.length > limit;
+
+    res.json(
+      sessionHistoryResponseSchema.parse({
+        sessions: page.map(mapSessionHistoryEntry),
+        nextCursor: hasMore ? page[page.length - 1].id : null
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.get('/stream', requireParentOrDevice, (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+  const unsubscribe = subscribeToSessionEvents((event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_INTERVAL_MS);
+
+  streamClients += 1;
+  stopTelemetryBroadcast ??= startTelemetryBroadcast(TELEMETRY_BROADCAST_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    streamClients -= 1;
+    // Nudges are only computed while someone is listening, matching the old polling behaviour.
+    if (streamClients === 0 && stopTelemetryBroadcast) {
+      stopTelemetryBroadcast();
+      stopTelemetryBroadcast = null;
+    }
+  });
+});
+
+router.get('/:id', requireParentOrDevice, async (req, res) => {
   const { id } = req.params;
   try {
     const session = await prisma.session.findUnique({
@@ -169,123 +233,20 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-router.get('/:id/telemetry', async (req, res) => {
+router.get('/:id/telemetry', requireParentOrDevice, async (req, res) => {
   const { id } = req.params;
-  const now = new Date();
 
   try {
-    const telemetry = await prisma.$transaction(async (tx) => {
-      const session = await tx.session.findUnique({
-        where: { id },
-        include: { tasks: true }
-      });
-
-      if (!session) {
-        return null;
-      }
-
-      const snapshot = templateSnapshotSchema.parse(JSON.parse(session.templateSnapshot));
-      const snapshotByOrder = new Map(snapshot.tasks.map((task) => [task.orderIndex, task]));
-      const completedExpectedMinutes = session.tasks
-        .filter((task) => task.completedAt || task.skipped)
-        .reduce((total, task) => total + task.expectedMinutes, 0);
-
-      const urgency = computeUrgency({
-        plannedStartAt: session.plannedStartAt,
-        plannedEndAt: session.plannedEndAt,
-        expectedTotalMinutes: session.expectedTotalMinutes,
-        completedExpectedMinutes,
-        now
-      });
-
-      const orderedTasks = session.tasks.slice().sort((a, b) => a.orderIndex - b.orderIndex);
-      const activeTask = orderedTasks.find((task) => !task.completedAt && !task.skipped);
-      const nextTaskCandidate = orderedTasks.find((task) => {
-        if (!activeTask) {
-          return !task.completedAt && !task.skipped;
-        }
-        return task.orderIndex > activeTask.orderIndex && !task.completedAt && !task.skipped;
-      });
-
-      const nudges: { sessionTaskId: string; threshold: 'first' | 'second' | 'final'; firedAt: string }[] = [];
-      let currentTaskTelemetry: SessionActiveTaskTelemetry | null = null;
-
-      if (activeTask) {
-        const startedAt = activeTask.startedAt ?? session.actualStartAt ?? session.plannedStartAt;
-        const elapsedSeconds = Math.max(0, Math.floor((now.getTime() - startedAt.getTime()) / 1000));
-        const totalSeconds = Math.max(1, Math.round(activeTask.expectedMinutes * 60));
-        const thresholds = [
-          { key: 'nudgeFirstFiredAt' as const, ratio: 1 / 3, label: 'first' as const },
-          { key: 'nudgeSecondFiredAt' as const, ratio: 2 / 3, label: 'second' as const },
-          { key: 'nudgeFinalFiredAt' as const, ratio: 1, label: 'final' as const }
-        ];
-
-        for (const threshold of thresholds) {
-          const targetSeconds = Math.max(1, Math.round(totalSeconds * threshold.ratio));
-          const alreadyFired = activeTask[threshold.key];
-
-          if (elapsedSeconds >= targetSeconds && !alreadyFired) {
-            await tx.sessionTask.update({
-              where: { id: activeTask.id },
-              data: { [threshold.key]: now }
-            });
-
-            activeTask[threshold.key] = now;
-
-            nudges.push({
-              sessionTaskId: activeTask.id,
-              threshold: threshold.label,
-              firedAt: now.toISOString()
-            });
-          }
-        }
-
-        const firedDates = thresholds
-          .map((threshold) => activeTask[threshold.key])
-          .filter((value): value is Date => Boolean(value));
-        const lastNudgeFiredAt = firedDates.length
-          ? firedDates.reduce((latest, current) => (current > latest ? current : latest))
-          : null;
-        const nextNudge = thresholds.find((threshold) => !activeTask[threshold.key]);
-        const snapshotTask = snapshotByOrder.get(activeTask.orderIndex);
-
-        currentTaskTelemetry = {
-          sessionTaskId: activeTask.id,
-          title: activeTask.title,
-          expectedMinutes: activeTask.expectedMinutes,
-          hint: snapshotTask?.hint,
-          startedAt: startedAt.toISOString(),
-          elapsedSeconds,
-          remainingSeconds: Math.max(0, totalSeconds - elapsedSeconds),
-          nudgesFiredCount: firedDates.length,
-          totalScheduledNudges: thresholds.length,
-          nextNudgeThreshold: nextNudge ? nextNudge.label : null,
-          lastNudgeFiredAt: lastNudgeFiredAt ? lastNudgeFiredAt.toISOString() : null
-        };
-      }
-
-      const nextTaskTelemetry = nextTaskCandidate
-        ? {
-            title: nextTaskCandidate.title,
-            hint: snapshotByOrder.get(nextTaskCandidate.orderIndex)?.hint
-          }
-        : null;
-
-      return sessionTelemetrySchema.parse({
-        urgencyLevel: urgency.urgencyLevel,
-        timeRemainingMinutes: urgency.timeRemainingMinutes,
-        paceDelta: urgency.paceDelta,
-        sessionEndsAt: session.plannedEndAt.toISOString(),
-        nudges,
-        currentTask: currentTaskTelemetry,
-        nextTask: nextTaskTelemetry
-      });
-    });
+    const telemetry = await computeSessionTelemetry(id);
 
     if (!telemetry) {
       return sendNotFound(res, 'Session not found');
     }
 
+    if (telemetry.nudges.length > 0) {
+      publishSessionEvent({ type: 'telemetry', sessionId: id, telemetry });
+    }
+
     res.json({ telemetry });
   } catch (error) {
     console.error(error);
@@ -293,18 +254,12 @@ router.get('/:id/telemetry', async (req, res) => {
   }
 });
 
-router.post('/:id/task/:index/complete', async (req, res) => {
+router.post('/:id/task/:index/complete', requireParentOrDevice, async (req, res) => {
   const { id, index } = req.params;
-  const orderIndex = Number.parseInt(index, 10);
-
-  if (!Number.isInteger(orderIndex) || orderIndex < 0) {
-    return sendValidationError(res, [
-      {
-        code: 'custom',
-        message: 'Task index must be a non-negative integer',
-        path: ['index']
-      }
-    ]);
+  const orderIndex = parseTaskIndex(index);
+
+  if (orderIndex === null) {
+    return sendValidationError(res, invalidTaskIndexIssues);
   }
 
   const parseResult = sessionTaskCompleteSchema.safeParse(req.body);
@@ -312,29 +267,46 @@ router.post('/:id/task/:index/complete', async (req, res) => {
     return sendValidationError(res, parseResult.error.issues);
   }
 
-  const { skipped } = parseResult.data;
+  const { skipped, completedAt, idempotencyKey } = parseResult.data;
   const now = new Date();
 
   try {
     const updated = await prisma.$transaction(async (tx) => {
+      const receipt = idempotencyKey
+        ? await tx.taskCompletionReceipt.findUnique({
+            where: { idempotencyKey },
+            include: { sessionTask: true }
+          })
+        : null;
+
       const session = await tx.session.findUnique({
         where: { id },
-        include: { tasks: true }
+        include: { tasks: true, child: true }
       });
 
       if (!session) {
         return null;
       }
 
+      if (receipt) {
+        const sameTask = receipt.sessionTask.sessionId === id && receipt.sessionTask.orderIndex === orderIndex;
+        return sameTask ? { record: session, changedTask: null } : 'IDEMPOTENCY_KEY_REUSED';
+      }
+
       const task = session.tasks.find((item) => item.orderIndex === orderIndex);
       if (!task) {
         return 'TASK_NOT_FOUND';
       }
 
+      if (idempotencyKey) {
+        await tx.taskCompletionReceipt.create({ data: { idempotencyKey, sessionTaskId: task.id } });
+      }
+
+      const actedAt = resolveActedAt(completedAt, session.createdAt, now);
       const alreadyComplete = !skipped && Boolean(task.completedAt);
       const alreadySkipped = skipped && task.skipped && !task.completedAt;
       if (alreadyComplete || alreadySkipped) {
-        return session;
+        return { record: session, changedTask: null };
       }
 
       await tx.sessionTask.update({
@@ -342,18 +314,20 @@ router.post('/:id/task/:index/complete', async (req, res) => {
         data: skipped
           ? {
               skipped: true,
+              skippedAt: actedAt,
               completedAt: null
             }
           : {
               skipped: false,
-              completedAt: now
+              skippedAt: null,
+              completedAt: actedAt
             }
       });
 
-      if (!skipped && !session.actualStartAt) {
+      if (!skipped && (!session.actualStartAt || actedAt < session.actualStartAt)) {
         await tx.session.update({
           where: { id },
-          data: { actualStartAt: now }
+          data: { actualStartAt: actedAt }
         });
       }
 
@@ -370,16 +344,16 @@ router.post('/:id/task/:index/complete', async (req, res) => {
       if (nextTask && !nextTask.startedAt) {
         await tx.sessionTask.update({
           where: { id: nextTask.id },
-          data: { startedAt: now }
+          data: { startedAt: actedAt }
         });
       }
 
-      const refreshed = await tx.session.findUnique({
+      const refreshed = await tx.session.findUniqueOrThrow({
         where: { id },
-        include: { tasks: true }
+        include: { tasks: true, child: true }
       });
 
-      return refreshed;
+      return { record: refreshed, changedTask: task };
     });
 
     if (updated === null) {
@@ -390,22 +364,164 @@ router.post('/:id/task/:index/complete', async (req, res) => {
       return sendNotFound(res, 'Task not found');
     }
 
-    res.json({ session: sessionSchema.parse(mapSession(updated)) });
+    if (updated === 'IDEMPOTENCY_KEY_REUSED') {
+      return sendConflict(res, 'Idempotency key was already used for another task');
+    }
+
+    const session = sessionSchema.parse(mapSession(updated.record));
+    if (updated.changedTask) {
+      publishSessionEvent({
+        type: 'task.completed',
+        sessionId: session.id,
+        sessionTaskId: updated.changedTask.id,
+        orderIndex,
+        skipped
+      });
+      publishSessionEvent({ type: 'session.updated', session, child: mapChild(updated.record.child) });
+    }
+
+    res.json({ session });
   } catch (error) {
     console.error(error);
     sendServerError(res);
   }
 });
 
-router.post('/:id/finish', async (req, res) => {
+router.post('/:id/task/:index/undo', requireParentOrDevice, async (req, res) => {
+  const { id, index } = req.params;
+  const orderIndex = parseTaskIndex(index);
+
+  if (orderIndex === null) {
+    return sendValidationError(res, invalidTaskIndexIssues);
+  }
+
+  const parseResult = householdPinInputSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const now = new Date();
+
+  try {
+    if (!(await checkHouseholdPin(res, parseResult.data.pin))) {
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const session = await tx.session.findUnique({
+        where: { id },
+        include: { tasks: true, child: true }
+      });
+
+      if (!session) {
+        return null;
+      }
+
+      const task = session.tasks.find((item) => item.orderIndex === orderIndex);
+      if (!task) {
+        return 'TASK_NOT_FOUND';
+      }
+
+      const actedAt = getTaskActedAt(task);
+      if (!actedAt) {
+        return 'NOTHING_TO_UNDO';
+      }
+      if (!isWithinUndoWindow(actedAt, now)) {
+        return 'UNDO_WINDOW_EXPIRED';
+      }
+
+      await tx.sessionTask.update({
+        where: { id: task.id },
+        data: { completedAt: null, skipped: false, skippedAt: null }
+      });
+
+      await tx.sessionTask.updateMany({
+        where: {
+          sessionId: session.id,
+          orderIndex: { gt: orderIndex },
+          completedAt: null,
+          skipped: false
+        },
+        data: { startedAt: null }
+      });
+
+      if (session.actualEndAt || session.medal) {
+        await tx.session.update({
+          where: { id },
+          data: { actualEndAt: null, medal: null }
+        });
+      }
+
+      return tx.session.findUniqueOrThrow({
+        where: { id },
+        include: { tasks: true, child: true }
+      });
+    });
+
+    if (updated === null) {
+      return sendNotFound(res, 'Session not found');
+    }
+
+    if (updated === 'TASK_NOT_FOUND') {
+      return sendNotFound(res, 'Task not found');
+    }
+
+    if (updated === 'NOTHING_TO_UNDO') {
+      return sendConflict(res, 'Task has not been completed or skipped');
+    }
+
+    if (updated === 'UNDO_WINDOW_EXPIRED') {
+      return sendConflict(res, 'Tasks can only be undone within 30 seconds');
+    }
+
+    const session = sessionSchema.parse(mapSession(updated));
+    publishSessionEvent({ type: 'session.updated', session, child: mapChild(updated.child) });
+    res.json({ session });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/:id/encourage', requireParent, async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id },
+      include: { tasks: true }
+    });
+
+    if (!session) {
+      return sendNotFound(res, 'Session not found');
+    }
+
+    const activeTask = session.tasks
+      .slice()
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .find((task) => !task.completedAt && !task.skipped);
+    if (session.actualEndAt || !activeTask) {
+      return sendConflict(res, 'Session has no task left to encourage');
+    }
+
+    // The kid board owns the speaker, so it generates and plays the message when it hears this event.
+    publishSessionEvent({ type: 'encouragement.requested', sessionId: id, sessionTaskId: activeTask.id });
+    res.status(202).json({ sessionTaskId: activeTask.id });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.post('/:id/finish', requireParentOrDevice, async (req, res) => {
   const { id } = req.params;
   const now = new Date();
 
   try {
-    const session = await prisma.$transaction(async (tx) => {
+    const result = await prisma.$transaction(async (tx) => {
       const found = await tx.session.findUnique({
         where: { id },
-        include: { tasks: true }
+        include: { tasks: true, child: true }
       });
 
       if (!found) {
@@ -413,7 +529,7 @@ router.post('/:id/finish', async (req, res) => {
       }
 
       if (found.actualEndAt && found.medal) {
-        return found;
+        return { record: found, finished: false };
       }
 
       const hasRemaining = found.tasks.some((task) => !task.completedAt && !task.skipped);
@@ -433,7 +549,8 @@ router.post('/:id/finish', async (req, res) => {
 
       const medal = computeMedal({
         expectedTotalMinutes: found.expectedTotalMinutes,
-        actualDurationMs: now.getTime() - effectiveStart.getTime()
+        actualDurationMs: now.getTime() - effectiveStart.getTime(),
+        thresholds: resolveSessionThresholds(found).medalThresholds
       });
 
       const updated = await tx.session.update({
@@ -443,13 +560,18 @@ router.post('/:id/finish', async (req, res) => {
           actualEndAt: now,
           medal
         },
-        include: { tasks: true }
+        include: { tasks: true, child: true }
       });
 
-      return updated;
+      return { record: updated, finished: true };
     });
 
-    res.json({ session: sessionSchema.parse(mapSession(session)) });
+    const session = sessionSchema.parse(mapSession(result.record));
+    if (result.finished) {
+      publishSessionEvent({ type: 'session.finished', session, child: mapChild(result.record.child) });
+    }
+
+    res.json({ session });
   } catch (error) {
     if (error instanceof Error) {
       if (error.message === 'SESSION_NOT_FOUND') {
@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+describe.sequential('settings routes', () => {
+  const app = createApp();
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+  });
+
+  it('returns default household settings', async () => {
+    const response = await agent.get('/api/settings');
+
+    expect(response.status).toBe(200);
+    expect(response.body.settings).toMatchObject({
+      medalThresholds: { gold: 1.0, silver: 1.3 },
+      urgencyThresholds: { aheadBoundary: -0.15, onTrackBoundary: 0.1, warningBoundary: 0.3 },
+      defaultExpectedMinutes: 1,
+      allowSkipByDefault: false,
+      tone: 'playful',
+      language: 'en-US',
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+  });
+
+  it('updates settings and validates payloads', async () => {
+    const updateResponse = await agent
+      .put('/api/settings')
+      .send({
+        medalThresholds: { gold: 1.2, silver: 1.6 },
+        allowSkipByDefault: true,
+        language: 'da-DK',
+        timeZone: 'Europe/Copenhagen'
+      });
+
+    expect(updateResponse.status).toBe(200);
+    expect(updateResponse.body.settings.language).toBe('da-DK');
+    expect(updateResponse.body.settings.timeZone).toBe('Europe/Copenhagen');
+    expect(updateResponse.body.settings.medalThresholds).toEqual({ gold: 1.2, silver: 1.6 });
+    expect(updateResponse.body.settings.allowSkipByDefault).toBe(true);
+    expect(updateResponse.body.settings.defaultExpectedMinutes).toBe(1);
+
+    const invalidResponse = await agent
+      .put('/api/settings')
+      .send({ medalThresholds: { gold: 2, silver: 1 } });
+
+    expect(invalidResponse.status).toBe(400);
+    expect(invalidResponse.body.error.message).toContain('Silver multiplier');
+  });
+
+  it('applies defaults to new templates and sessions', async () => {
+    await agent
+      .put('/api/settings')
+      .send({ defaultExpectedMinutes: 4, allowSkipByDefault: true });
+
+    const templateResponse = await agent.post('/api/templates').send({
+      name: 'Morning',
+      defaultStartTime: '07:00',
+      defaultEndTime: '08:00',
+      tasks: [{ title: 'Wake up' }, { title: 'Brush Teeth', expectedMinutes: 2 }]
+    });
+
+    expect(templateResponse.status).toBe(201);
+    expect(templateResponse.body.template.tasks[0].expectedMinutes).toBe(4);
+    expect(templateResponse.body.template.tasks[1].expectedMinutes).toBe(2);
+
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: templateResponse.body.template.id
+    });
+
+    expect(startResponse.status).toBe(201);
+    expect(startResponse.body.session.allowSkip).toBe(true);
+  });
+
+  it('freezes thresholds into sessions so later changes only affect future sessions', async () => {
+    vi.useFakeTimers();
+    const startTime = new Date('2025-01-01T07:00:00.000Z');
+    vi.setSystemTime(startTime);
+
+    await agent.put('/api/settings').send({ medalThresholds: { gold: 2, silver: 3 } });
+
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+    const template = await prisma.template.create({
+      data: {
+        name: 'Quick',
+        defaultStartTime: '07:00',
+        defaultEndTime: '08:00',
+        tasks: { create: [{ title: 'Wake up', expectedMinutes: 5, orderIndex: 0 }] }
+      }
+    });
+
+    const startResponse = await agent.post('/api/sessions/start').send({
+      childId: child.id,
+      templateId: template.id
+    });
+    const sessionId = startResponse.body.session.id as string;
+
+    await agent.put('/api/settings').send({ medalThresholds: { gold: 1, silver: 1.3 } });
+
+    vi.setSystemTime(new Date(startTime.getTime() + 8 * 60 * 1000));
+    await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+    const finishResponse = await agent.post(`/api/sessions/${sessionId}/finish`).send();
+
+    expect(finishResponse.status).toBe(200);
+    expect(finishResponse.body.session.medal).toBe('gold');
+
+    vi.useRealTimers();
+  });
+});
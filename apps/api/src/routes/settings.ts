@@ -0,0 +1,72 @@
+import { settingsUpdateSchema } from '@klar-parat/shared';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { sendServerError, sendValidationError } from '../lib/http.js';
+import { mapSettings } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+import { HOUSEHOLD_SETTINGS_ID, loadSettings } from '../lib/settings.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+router.get('/', async (_req, res) => {
+  try {
+    const settings = await loadSettings();
+    res.json({ settings: mapSettings(settings) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+router.put('/', async (req, res) => {
+  const parseResult = settingsUpdateSchema.safeParse(req.body);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  const {
+    medalThresholds,
+    urgencyThresholds,
+    defaultExpectedMinutes,
+    allowSkipByDefault,
+    tone,
+    language,
+    timeZone
+  } = parseResult.data;
+
+  try {
+    await loadSettings();
+    const updated = await prisma.settings.update({
+      where: { id: HOUSEHOLD_SETTINGS_ID },
+      data: {
+        ...(medalThresholds && {
+          goldMultiplier: medalThresholds.gold,
+          silverMultiplier: medalThresholds.silver
+        }),
+        ...(urgencyThresholds && {
+          urgencyAheadBoundary: urgencyThresholds.aheadBoundary,
+          urgencyOnTrackBoundary: urgencyThresholds.onTrackBoundary,
+          urgencyWarningBoundary: urgencyThresholds.warningBoundary
+        }),
+        ...(defaultExpectedMinutes !== undefined && { defaultExpectedMinutes }),
+        ...(allowSkipByDefault !== undefined && { allowSkipByDefault }),
+        ...(tone && { tone }),
+        ...(language && { language }),
+        ...(timeZone && { timeZone })
+      }
+    });
+
+    res.json({ settings: mapSettings(updated) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerSettingsRoutes = (app: Express) => {
+  app.use('/api/settings', router);
+};
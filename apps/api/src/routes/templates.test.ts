@@ -1,23 +1,27 @@
 import request from 'supertest';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { createApp } from '../app.js';
-import { resetDatabase } from '../test/utils.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
 
 describe.sequential('templates routes', () => {
   const app = createApp();
 
+  let agent: ReturnType<typeof request.agent>;
+
   beforeEach(async () => {
     await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
   });
 
   it('creates, lists, updates, and deletes templates', async () => {
-    const createResponse = await request(app).post('/api/templates').send({
+    const createResponse = await agent.post('/api/templates').send({
       name: 'Morning',
       defaultStartTime: '07:00',
       defaultEndTime: '08:00',
       tasks: [
-        { title: 'Wake up', expectedMinutes: 5 },
+        { title: 'Wake up', expectedMinutes: 5, nudgeSnippet: 'Feet on the floor, {{name}}!', completionSnippet: '' },
         { title: 'Brush Teeth', expectedMinutes: 2 }
       ]
     });
@@ -25,17 +29,29 @@ describe.sequential('templates routes', () => {
     expect(createResponse.status).toBe(201);
     const templateId = createResponse.body.template.id;
     expect(createResponse.body.template.tasks).toHaveLength(2);
+    expect(createResponse.body.template.tasks[0].nudgeSnippet).toBe('Feet on the floor, {{name}}!');
+    expect(createResponse.body.template.tasks[0].completionSnippet).toBeUndefined();
+    expect(createResponse.body.template.daysActive).toEqual([
+      'mon',
+      'tue',
+      'wed',
+      'thu',
+      'fri',
+      'sat',
+      'sun'
+    ]);
 
-    const listResponse = await request(app).get('/api/templates');
+    const listResponse = await agent.get('/api/templates');
     expect(listResponse.status).toBe(200);
     expect(listResponse.body.templates).toHaveLength(1);
 
-    const updateResponse = await request(app)
+    const updateResponse = await agent
       .put(`/api/templates/${templateId}`)
       .send({
         name: 'Updated Morning',
         defaultStartTime: '06:50',
         defaultEndTime: '08:10',
+        daysActive: ['fri', 'mon', 'wed'],
         tasks: [
           { title: 'Brush Teeth', expectedMinutes: 3 },
           { title: 'Wake up', expectedMinutes: 4 }
@@ -44,13 +60,14 @@ describe.sequential('templates routes', () => {
 
     expect(updateResponse.status).toBe(200);
     expect(updateResponse.body.template.tasks[0].title).toBe('Brush Teeth');
+    expect(updateResponse.body.template.daysActive).toEqual(['mon', 'wed', 'fri']);
 
-    const deleteResponse = await request(app).delete(`/api/templates/${templateId}`);
+    const deleteResponse = await agent.delete(`/api/templates/${templateId}`);
     expect(deleteResponse.status).toBe(204);
   });
 
   it('validates template payloads', async () => {
-    const response = await request(app).post('/api/templates').send({
+    const response = await agent.post('/api/templates').send({
       name: '',
       defaultStartTime: '7:00',
       defaultEndTime: '08:00',
@@ -62,7 +79,7 @@ describe.sequential('templates routes', () => {
   });
 
   it('clones template to today snapshot', async () => {
-    const createResponse = await request(app).post('/api/templates').send({
+    const createResponse = await agent.post('/api/templates').send({
       name: 'Morning',
       defaultStartTime: '07:00',
       defaultEndTime: '08:00',
@@ -75,9 +92,84 @@ describe.sequential('templates routes', () => {
     expect(createResponse.status).toBe(201);
     const templateId = createResponse.body.template.id;
 
-    const response = await request(app).post(`/api/templates/${templateId}/clone-to-today`);
+    const response = await agent.post(`/api/templates/${templateId}/clone-to-today`);
     expect(response.status).toBe(200);
     expect(response.body.snapshot.expectedTotalMinutes).toBe(7);
     expect(response.body.snapshot.tasks[0].title).toBe('Wake up');
   });
+
+  it('suggests expected minutes from the median of recent runs', async () => {
+    vi.useFakeTimers();
+
+    const createResponse = await agent.post('/api/templates').send({
+      name: 'Morning',
+      defaultStartTime: '07:00',
+      defaultEndTime: '08:00',
+      tasks: [
+        { title: 'Wake up', expectedMinutes: 2 },
+        { title: 'Brush Teeth', expectedMinutes: 2 }
+      ]
+    });
+    const templateId = createResponse.body.template.id as string;
+    const child = await prisma.child.create({
+      data: { firstName: 'Ada', birthdate: new Date('2015-04-03'), active: true }
+    });
+
+    for (const [day, brushMinutes] of [4, 5, 6].entries()) {
+      const startTime = new Date(`2025-03-0${day + 1}T07:00:00.000Z`);
+      vi.setSystemTime(startTime);
+      const startResponse = await agent
+        .post('/api/sessions/start')
+        .send({ childId: child.id, templateId });
+      const sessionId = startResponse.body.session.id as string;
+
+      vi.setSystemTime(new Date(startTime.getTime() + 2 * 60 * 1000));
+      await agent.post(`/api/sessions/${sessionId}/task/0/complete`).send({});
+      vi.setSystemTime(new Date(startTime.getTime() + (2 + brushMinutes) * 60 * 1000));
+      await agent.post(`/api/sessions/${sessionId}/task/1/complete`).send({});
+      await agent.post(`/api/sessions/${sessionId}/finish`).send();
+    }
+
+    vi.useRealTimers();
+
+    // Another routine's session that merely mentions this template in its snapshot must not count.
+    await prisma.session.create({
+      data: {
+        childId: child.id,
+        templateId: 'cjld2cjxh0000qzrmn831i7rn',
+        templateSnapshot: `{"templateId":"cjld2cjxh0000qzrmn831i7rn","copiedFrom":{"templateId":"${templateId}"}}`,
+        plannedStartAt: new Date('2025-03-04T07:00:00.000Z'),
+        plannedEndAt: new Date('2025-03-04T08:00:00.000Z'),
+        actualStartAt: new Date('2025-03-04T07:00:00.000Z'),
+        actualEndAt: new Date('2025-03-04T07:40:00.000Z'),
+        expectedTotalMinutes: 2,
+        tasks: {
+          create: [
+            {
+              title: 'Brush Teeth',
+              expectedMinutes: 2,
+              orderIndex: 0,
+              startedAt: new Date('2025-03-04T07:00:00.000Z'),
+              completedAt: new Date('2025-03-04T07:40:00.000Z')
+            }
+          ]
+        }
+      }
+    });
+
+    const response = await agent.get(`/api/templates/${templateId}/recalibration`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.suggestions).toEqual([
+      expect.objectContaining({
+        title: 'Brush Teeth',
+        currentMinutes: 2,
+        suggestedMinutes: 5,
+        sampleSize: 3
+      })
+    ]);
+
+    const missingResponse = await agent.get('/api/templates/cjld2cjxh0000qzrmn831i7rn/recalibration');
+    expect(missingResponse.status).toBe(404);
+  });
 });
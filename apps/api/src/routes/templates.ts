@@ -1,18 +1,29 @@
 import {
+  expectedMinutesSuggestionSchema,
+  measureTaskRuns,
+  type RecalibrationRun,
+  suggestExpectedMinutes,
   templateCreateSchema,
   templateSnapshotSchema,
-  templateUpdateSchema
+  templateUpdateSchema,
+  WEEKDAYS
 } from '@klar-parat/shared';
 import { Prisma } from '@prisma/client';
 import type { Express } from 'express';
 import { Router } from 'express';
 
+import { requireParent } from '../lib/auth.js';
 import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
 import { mapTemplate } from '../lib/mappers.js';
 import { prisma } from '../lib/prisma.js';
+import { loadSettings } from '../lib/settings.js';
 
 const router = Router();
 
+router.use(requireParent);
+
+const RECALIBRATION_SESSION_LIMIT = 30;
+
 router.get('/', async (_req, res) => {
   try {
     const templates = await prisma.template.findMany({
@@ -32,21 +43,27 @@ router.post('/', async (req, res) => {
     return sendValidationError(res, parseResult.error.issues);
   }
 
-  const { name, defaultStartTime, defaultEndTime, tasks } = parseResult.data;
+  const { name, defaultStartTime, defaultEndTime, daysActive, tasks } = parseResult.data;
   try {
+    const settings = await loadSettings();
     const created = await prisma.template.create({
       data: {
         name,
         defaultStartTime,
         defaultEndTime,
+        daysActive: (daysActive ?? WEEKDAYS).join(','),
         tasks: {
-          create: tasks.map(({ title, emoji, hint, expectedMinutes, orderIndex }) => ({
-            title,
-            emoji,
-            hint,
-            expectedMinutes,
-            orderIndex
-          }))
+          create: tasks.map(
+            ({ title, emoji, hint, completionSnippet, nudgeSnippet, expectedMinutes, orderIndex }) => ({
+              title,
+              emoji,
+              hint,
+              completionSnippet,
+              nudgeSnippet,
+              expectedMinutes: expectedMinutes ?? settings.defaultExpectedMinutes,
+              orderIndex
+            })
+          )
         }
       },
       include: { tasks: true }
@@ -67,7 +84,8 @@ router.put('/:id', async (req, res) => {
 
   const { id } = req.params;
   try {
-    const { name, defaultStartTime, defaultEndTime, tasks } = parseResult.data;
+    const { name, defaultStartTime, defaultEndTime, daysActive, tasks } = parseResult.data;
+    const settings = await loadSettings();
 
     const updated = await prisma.template.update({
       where: { id },
@@ -75,15 +93,20 @@ router.put('/:id', async (req, res) => {
         name,
         defaultStartTime,
         defaultEndTime,
+        ...(daysActive && { daysActive: daysActive.join(',') }),
         tasks: {
           deleteMany: {},
-          create: tasks.map(({ title, emoji, hint, expectedMinutes, orderIndex }) => ({
-            title,
-            emoji,
-            hint,
-            expectedMinutes,
-            orderIndex
-          }))
+          create: tasks.map(
+            ({ title, emoji, hint, completionSnippet, nudgeSnippet, expectedMinutes, orderIndex }) => ({
+              title,
+              emoji,
+              hint,
+              completionSnippet,
+              nudgeSnippet,
+              expectedMinutes: expectedMinutes ?? settings.defaultExpectedMinutes,
+              orderIndex
+            })
+          )
         }
       },
       include: { tasks: true }
@@ -132,6 +155,8 @@ router.post('/:id/clone-to-today', async (req, res) => {
         title: task.title,
         emoji: task.emoji ?? undefined,
         hint: task.hint ?? undefined,
+        completionSnippet: task.completionSnippet ?? undefined,
+        nudgeSnippet: task.nudgeSnippet ?? undefined,
         expectedMinutes: task.expectedMinutes,
         orderIndex: task.orderIndex
       }));
@@ -154,6 +179,47 @@ router.post('/:id/clone-to-today', async (req, res) => {
   }
 });
 
+router.get('/:id/recalibration', async (req, res) => {
+  const { id } = req.params;
+  try {
+    const template = await prisma.template.findUnique({
+      where: { id },
+      include: { tasks: true }
+    });
+
+    if (!template) {
+      return sendNotFound(res, 'Template not found');
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        actualEndAt: { not: null },
+        templateId: id
+      },
+      include: { tasks: true },
+      orderBy: { actualEndAt: 'desc' },
+      take: RECALIBRATION_SESSION_LIMIT
+    });
+
+    const runs = sessions.flatMap((session) =>
+      measureTaskRuns(session.tasks, session.actualStartAt).flatMap(
+        ({ title, durationSeconds }): RecalibrationRun[] =>
+          durationSeconds !== null ? [{ title, durationSeconds }] : []
+      )
+    );
+
+    const tasks = template.tasks.slice().sort((a, b) => a.orderIndex - b.orderIndex);
+    const suggestions = suggestExpectedMinutes(tasks, runs).map((suggestion) =>
+      expectedMinutesSuggestionSchema.parse(suggestion)
+    );
+
+    res.json({ suggestions });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
 export const registerTemplateRoutes = (app: Express) => {
   app.use('/api/templates', router);
 };
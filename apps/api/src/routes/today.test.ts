@@ -0,0 +1,139 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createApp } from '../app.js';
+import { prisma } from '../lib/prisma.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+const createTemplate = (name: string, daysActive: string) =>
+  prisma.template.create({
+    data: {
+      name,
+      defaultStartTime: '07:00',
+      defaultEndTime: '08:00',
+      daysActive,
+      tasks: { create: [{ title: 'Wake up', expectedMinutes: 5, orderIndex: 0 }] }
+    }
+  });
+
+describe.sequential('today routes', () => {
+  const app = createApp();
+
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+  });
+
+  it('suggests each child their default routine when it runs on the weekday', async () => {
+    const school = await createTemplate('School day', 'mon,tue,wed,thu,fri');
+    const weekend = await createTemplate('Weekend', 'sat,sun');
+
+    const ada = await prisma.child.create({
+      data: {
+        firstName: 'Ada',
+        birthdate: new Date('2015-04-03'),
+        active: true,
+        defaultTemplateId: school.id
+      }
+    });
+    const bo = await prisma.child.create({
+      data: { firstName: 'Bo', birthdate: new Date('2017-09-12'), active: true }
+    });
+    await prisma.child.create({
+      data: {
+        firstName: 'Cy',
+        birthdate: new Date('2019-01-20'),
+        active: false,
+        defaultTemplateId: school.id
+      }
+    });
+
+    const mondayResponse = await agent.get('/api/today/plan?date=2025-11-03');
+
+    expect(mondayResponse.status).toBe(200);
+    expect(mondayResponse.body.plan).toEqual({
+      date: '2025-11-03',
+      weekday: 'mon',
+      entries: [
+        { childId: ada.id, templateId: school.id, source: 'default' },
+        { childId: bo.id, templateId: school.id, source: 'weekday' }
+      ],
+      suspended: []
+    });
+
+    const saturdayResponse = await agent.get('/api/today/plan?date=2025-11-08');
+
+    expect(saturdayResponse.status).toBe(200);
+    expect(saturdayResponse.body.plan.weekday).toBe('sat');
+    expect(saturdayResponse.body.plan.entries).toEqual([
+      { childId: ada.id, templateId: weekend.id, source: 'weekday' },
+      { childId: bo.id, templateId: weekend.id, source: 'weekday' }
+    ]);
+  });
+
+  it('suggests the weekly assignment the scheduler would stage', async () => {
+    const school = await createTemplate('School day', 'mon,tue,wed,thu,fri');
+    const swim = await createTemplate('Swim club', 'sat');
+    const ada = await prisma.child.create({
+      data: {
+        firstName: 'Ada',
+        birthdate: new Date('2015-04-03'),
+        active: true,
+        defaultTemplateId: school.id
+      }
+    });
+    await prisma.scheduleAssignment.create({
+      data: { childId: ada.id, weekday: 'mon', templateId: swim.id }
+    });
+
+    const response = await agent.get('/api/today/plan?date=2025-11-03');
+
+    expect(response.body.plan.entries).toEqual([{ childId: ada.id, templateId: swim.id, source: 'schedule' }]);
+  });
+
+  it('skips or swaps routines for children with calendar exceptions', async () => {
+    const school = await createTemplate('School day', 'mon,tue,wed,thu,fri');
+    const weekend = await createTemplate('Weekend', 'sat,sun');
+    const ada = await prisma.child.create({
+      data: {
+        firstName: 'Ada',
+        birthdate: new Date('2015-04-03'),
+        active: true,
+        defaultTemplateId: school.id
+      }
+    });
+    const bo = await prisma.child.create({
+      data: {
+        firstName: 'Bo',
+        birthdate: new Date('2017-09-12'),
+        active: true,
+        defaultTemplateId: school.id
+      }
+    });
+
+    await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2025-12-24', kind: 'skip', note: 'Christmas Eve' });
+    await agent
+      .post('/api/calendar/exceptions')
+      .send({ date: '2025-12-24', childId: bo.id, kind: 'template', templateId: weekend.id });
+
+    const response = await agent.get('/api/today/plan?date=2025-12-24');
+
+    expect(response.status).toBe(200);
+    expect(response.body.plan.entries).toEqual([
+      { childId: bo.id, templateId: weekend.id, source: 'exception' }
+    ]);
+    expect(response.body.plan.suspended).toEqual([{ childId: ada.id, note: 'Christmas Eve' }]);
+  });
+
+  it('validates the date and requires a parent session', async () => {
+    const invalidResponse = await agent.get('/api/today/plan?date=03-11-2025');
+    expect(invalidResponse.status).toBe(400);
+
+    const anonymousResponse = await request(app).get('/api/today/plan');
+    expect(anonymousResponse.status).toBe(401);
+  });
+});
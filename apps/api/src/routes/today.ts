@@ -0,0 +1,51 @@
+import { suggestTodayPlan, todayPlanQuerySchema, todayPlanSchema } from '@klar-parat/shared';
+import type { Express } from 'express';
+import { Router } from 'express';
+
+import { requireParent } from '../lib/auth.js';
+import { householdTimeZone, isoDateWeekday, toZonedIsoDate } from '../lib/dates.js';
+import { sendServerError, sendValidationError } from '../lib/http.js';
+import { mapCalendarException, mapChild, mapTemplate } from '../lib/mappers.js';
+import { prisma } from '../lib/prisma.js';
+import { loadSettings } from '../lib/settings.js';
+
+const router = Router();
+
+router.use(requireParent);
+
+router.get('/plan', async (req, res) => {
+  const parseResult = todayPlanQuerySchema.safeParse(req.query);
+  if (!parseResult.success) {
+    return sendValidationError(res, parseResult.error.issues);
+  }
+
+  try {
+    const timeZone = householdTimeZone(await loadSettings());
+    const date = parseResult.data.date ?? toZonedIsoDate(new Date(), timeZone);
+    const weekday = isoDateWeekday(date);
+
+    const [children, templates, exceptions, assignments] = await Promise.all([
+      prisma.child.findMany({ orderBy: { createdAt: 'asc' } }),
+      prisma.template.findMany({ include: { tasks: true }, orderBy: { createdAt: 'asc' } }),
+      prisma.calendarException.findMany({ where: { date } }),
+      prisma.scheduleAssignment.findMany({ where: { weekday } })
+    ]);
+
+    const { entries, suspended } = suggestTodayPlan(
+      children.map(mapChild),
+      templates.map(mapTemplate),
+      weekday,
+      exceptions.map(mapCalendarException),
+      assignments
+    );
+
+    res.json({ plan: todayPlanSchema.parse({ date, weekday, entries, suspended }) });
+  } catch (error) {
+    console.error(error);
+    sendServerError(res);
+  }
+});
+
+export const registerTodayRoutes = (app: Express) => {
+  app.use('/api/today', router);
+};
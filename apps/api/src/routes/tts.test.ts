@@ -0,0 +1,140 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app.js';
+import { createParentCookie, resetDatabase } from '../test/utils.js';
+
+const app = createApp();
+
+describe.sequential('tts route', () => {
+  const originalEnv = {
+    TTS_PROVIDER: process.env.TTS_PROVIDER,
+    TTS_BASE_URL: process.env.TTS_BASE_URL,
+    TTS_COMMAND: process.env.TTS_COMMAND,
+    TTS_CACHE_DIR: process.env.TTS_CACHE_DIR,
+    FLAG_USE_FAKE_TTS: process.env.FLAG_USE_FAKE_TTS
+  };
+
+  let cacheDir: string;
+  let agent: ReturnType<typeof request.agent>;
+
+  beforeEach(async () => {
+    await resetDatabase();
+    agent = request.agent(app).set('Cookie', await createParentCookie());
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'tts-cache-test-'));
+    process.env.TTS_CACHE_DIR = cacheDir;
+    process.env.TTS_PROVIDER = 'fake';
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(cacheDir, { recursive: true, force: true });
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it('caches audio by text, voice and language and serves it by URL', async () => {
+    const first = await agent.post('/api/tts').send({ text: 'Hello', language: 'en-US', voice: 'kiddo' });
+    const repeat = await agent.post('/api/tts').send({ text: 'Hello', language: 'en-US', voice: 'kiddo' });
+    const danish = await agent.post('/api/tts').send({ text: 'Hello', language: 'da-DK', voice: 'kiddo' });
+
+    expect(first.status).toBe(200);
+    expect(first.body.audioUrl).toMatch(/^\/api\/tts\/audio\/[a-f0-9]{64}\.wav$/);
+    expect(repeat.body.audioUrl).toBe(first.body.audioUrl);
+    expect(danish.body.audioUrl).not.toBe(first.body.audioUrl);
+    expect(await readdir(cacheDir)).toHaveLength(2);
+
+    const audio = await request(app).get(first.body.audioUrl);
+    expect(audio.status).toBe(200);
+    expect(audio.headers['content-type']).toBe('audio/wav');
+    expect(audio.headers['cache-control']).toContain('immutable');
+  });
+
+  it('asks the HTTP provider once per distinct request', async () => {
+    process.env.TTS_PROVIDER = 'http';
+    process.env.TTS_BASE_URL = 'http://tts.local:5002/synthesize';
+
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () =>
+        new Response(new Uint8Array([0x49, 0x44, 0x33]), { status: 200, headers: { 'Content-Type': 'audio/mpeg' } })
+      );
+
+    const body = { text: 'Godmorgen', language: 'da-DK', voice: 'mette' };
+    const first = await agent.post('/api/tts').send(body);
+    const repeat = await agent.post('/api/tts').send(body);
+
+    expect(first.status).toBe(200);
+    expect(first.body.audioUrl).toMatch(/\.mp3$/);
+    expect(repeat.body.audioUrl).toBe(first.body.audioUrl);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('http://tts.local:5002/synthesize');
+    expect(JSON.parse(String(init?.body))).toEqual({ ...body, rate: 1, pitch: 1 });
+  });
+
+  it('keeps dash-leading text out of the synthesizer options and survives an unread stdin', async () => {
+    const scriptDir = await mkdtemp(path.join(os.tmpdir(), 'tts-command-test-'));
+    const script = path.join(scriptDir, 'synth.cjs');
+    await writeFile(
+      script,
+      [
+        "const fs = require('node:fs');",
+        'const [output, ...args] = process.argv.slice(2);',
+        "const textFile = args.find((arg) => arg.endsWith('speech.txt'));",
+        "const fileText = textFile ? fs.readFileSync(textFile, 'utf8') : null;",
+        'fs.writeFileSync(output, JSON.stringify({ args, fileText }));'
+      ].join('\n')
+    );
+    process.env.TTS_PROVIDER = 'command';
+
+    try {
+      process.env.TTS_COMMAND = `${process.execPath} ${script} {output} {text} {textFile}`;
+      const inline = await agent.post('/api/tts').send({ text: '--help me', language: 'en-US', voice: 'kiddo' });
+      expect(inline.status).toBe(200);
+      const [cached] = await readdir(cacheDir);
+      expect(JSON.parse(await readFile(path.join(cacheDir, cached), 'utf8'))).toEqual({
+        args: [' --help me', expect.stringMatching(/speech\.txt$/)],
+        fileText: '--help me'
+      });
+
+      // The script never reads stdin, so a long text written there would fail with EPIPE.
+      process.env.TTS_COMMAND = `${process.execPath} ${script} {output}`;
+      const piped = await agent
+        .post('/api/tts')
+        .send({ text: 'Tandbørstning '.repeat(50_000), language: 'da-DK', voice: 'mette' });
+      expect(piped.status).toBe(200);
+    } finally {
+      await rm(scriptDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns 501 when no provider is configured', async () => {
+    delete process.env.TTS_PROVIDER;
+    process.env.FLAG_USE_FAKE_TTS = 'false';
+
+    const response = await agent.post('/api/tts').send({ text: 'Hello', language: 'en-US', voice: 'kiddo' });
+
+    expect(response.status).toBe(501);
+  });
+
+  it('requires a parent or device to synthesize', async () => {
+    const response = await request(app).post('/api/tts').send({ text: 'Hello', language: 'en-US', voice: 'kiddo' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects audio file names outside the cache', async () => {
+    const response = await request(app).get('/api/tts/audio/..%2F.env');
+    expect(response.status).toBe(404);
+  });
+});
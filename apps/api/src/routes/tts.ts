@@ -2,31 +2,52 @@ import { ttsRequestSchema } from '@klar-parat/shared';
 import type { Express } from 'express';
 import { Router } from 'express';
 
-import { loadFeatureFlags } from '../config/flags.js';
-import { generateSineWave } from '../lib/audio.js';
-import { sendValidationError } from '../lib/http.js';
+import { loadTtsConfig } from '../config/tts.js';
+import { requireParentOrDevice } from '../lib/auth.js';
+import { sendNotFound, sendServerError, sendValidationError } from '../lib/http.js';
+import { synthesizeCached, TTS_CACHE_FILE_PATTERN } from '../lib/ttsCache.js';
+import { createTtsProvider } from '../lib/ttsProviders.js';
 
 const router = Router();
 
-router.post('/', (req, res) => {
+router.post('/', requireParentOrDevice, async (req, res) => {
   const parseResult = ttsRequestSchema.safeParse(req.body);
 
   if (!parseResult.success) {
     return sendValidationError(res, parseResult.error.issues);
   }
 
-  const flags = loadFeatureFlags();
+  const config = loadTtsConfig();
+  const provider = createTtsProvider(config);
 
-  if (flags.useFakeTTS) {
-    return res.json({
-      audioUrl: generateSineWave()
+  if (!provider) {
+    return res.status(501).json({
+      error: {
+        code: 'NOT_IMPLEMENTED',
+        message: 'Real TTS provider is not configured yet.'
+      }
     });
   }
 
-  return res.status(501).json({
-    error: {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Real TTS provider is not configured yet.'
+  try {
+    const fileName = await synthesizeCached(provider, config.cacheDir, parseResult.data);
+    res.json({ audioUrl: `/api/tts/audio/${fileName}` });
+  } catch (error) {
+    console.error(`TTS provider ${provider.name} failed`, error);
+    sendServerError(res, 'Unable to synthesize speech');
+  }
+});
+
+// Cache files are named by the hash of their content key, so they never change and can be cached forever.
+router.get('/audio/:fileName', (req, res) => {
+  const { fileName } = req.params;
+  if (!TTS_CACHE_FILE_PATTERN.test(fileName)) {
+    return sendNotFound(res, 'Audio not found');
+  }
+
+  res.sendFile(fileName, { root: loadTtsConfig().cacheDir, immutable: true, maxAge: '365d' }, (error) => {
+    if (error && !res.headersSent) {
+      sendNotFound(res, 'Audio not found');
     }
   });
 });
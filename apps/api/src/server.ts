@@ -1,7 +1,9 @@
 import dotenv from 'dotenv';
 
 import { createApp } from './app.js';
+import { loadSchedulerConfig } from './config/scheduler.js';
 import { ensureDatabaseMigrated } from './lib/migrate.js';
+import { startScheduler } from './lib/scheduler.js';
 
 dotenv.config();
 
@@ -14,6 +16,8 @@ async function start() {
   app.listen(port, () => {
     console.log(`API server listening on http://localhost:${port}`);
   });
+
+  startScheduler(loadSchedulerConfig());
 }
 
 start().catch((error) => {
@@ -1,9 +1,38 @@
 export const resetDatabase = async () => {
   const { prisma } = await import('../lib/prisma.js');
+  await prisma.messageLogEntry.deleteMany();
+  await prisma.blockedPhrase.deleteMany();
+  await prisma.taskCompletionReceipt.deleteMany();
   await prisma.sessionTask.deleteMany();
   await prisma.session.deleteMany();
+  await prisma.scheduleAssignment.deleteMany();
+  await prisma.calendarException.deleteMany();
   await prisma.templateTask.deleteMany();
   await prisma.template.deleteMany();
   await prisma.child.deleteMany();
+  await prisma.settings.deleteMany();
+  await prisma.authSession.deleteMany();
+  await prisma.deviceToken.deleteMany();
+  await prisma.parentInvite.deleteMany();
+  await prisma.parent.deleteMany();
+  await prisma.household.deleteMany();
 };
 
+export const createParentCookie = async () => {
+  const { prisma } = await import('../lib/prisma.js');
+  const { generateToken, hashPassword, hashToken, SESSION_COOKIE_NAME } = await import('../lib/auth.js');
+  const token = generateToken();
+
+  await prisma.parent.create({
+    data: {
+      email: 'parent@example.com',
+      passwordHash: await hashPassword('correct-horse-battery'),
+      household: { create: { name: 'Test household' } },
+      authSessions: {
+        create: { tokenHash: hashToken(token), expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+      }
+    }
+  });
+
+  return `${SESSION_COOKIE_NAME}=${token}`;
+};
@@ -1,9 +1,11 @@
-import type { Child, Session, Template } from '@shared/schemas';
-import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import type { Child, Session, Template, TodayPlanEntry, TodayPlanSuspension } from '@shared/schemas';
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import App from './App';
+import type { SessionStreamEvent } from './types/session';
+import { OUTBOX_RETRY_BASE_MS } from './utils/outbox';
 
 type ActiveSessionRecord = { session: Session; child: Child };
 
@@ -19,17 +21,75 @@ describe('App (multi-child board)', () => {
   let sessionsById: Map<string, Session>;
   let children: Child[];
   let templates: Template[];
+  let todayPlanEntries: TodayPlanEntry[];
+  let todayPlanSuspended: TodayPlanSuspension[];
   let sessionCounter: number;
+  let offline: boolean;
+  let completionStatus: number | null;
   let fetchMock: vi.SpiedFunction<typeof window.fetch>;
 
+  const createSessionFromTemplate = (childId: string, templateId: string, allowSkip: boolean): Session => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    const expectedTotal = template.tasks.reduce((sum, task) => sum + task.expectedMinutes, 0);
+    const start = new Date();
+    const plannedEnd = new Date(start.getTime() + 45 * 60 * 1000);
+    const sessionId = `session-${++sessionCounter}`;
+    const session: Session = {
+      id: sessionId,
+      childId,
+      allowSkip,
+      plannedStartAt: start.toISOString(),
+      plannedEndAt: plannedEnd.toISOString(),
+      actualStartAt: start.toISOString(),
+      actualEndAt: null,
+      expectedTotalMinutes: expectedTotal,
+      medal: null,
+      templateSnapshot: {
+        templateId: template.id,
+        name: template.name,
+        defaultStartTime: template.defaultStartTime,
+        defaultEndTime: template.defaultEndTime,
+        tasks: template.tasks.map((task) => ({
+          title: task.title,
+          emoji: task.emoji,
+          hint: task.hint,
+          expectedMinutes: task.expectedMinutes,
+          orderIndex: task.orderIndex
+        })),
+        expectedTotalMinutes: expectedTotal
+      },
+      tasks: template.tasks.map((task) => ({
+        id: `${sessionId}-task-${task.orderIndex}`,
+        title: task.title,
+        expectedMinutes: task.expectedMinutes,
+        completedAt: null,
+        skipped: false,
+        skippedAt: null,
+        orderIndex: task.orderIndex,
+        emoji: task.emoji,
+        hint: task.hint
+      }))
+    };
+
+    return session;
+  };
+
   beforeEach(() => {
     activeSessions = [];
     sessionsById = new Map();
     sessionCounter = 0;
+    offline = false;
+    completionStatus = null;
+    todayPlanEntries = [];
+    todayPlanSuspended = [];
 
     children = [
-      { id: 'child-1', firstName: 'Ada', birthdate: '2015-04-03', active: true, createdAt: new Date().toISOString() },
-      { id: 'child-2', firstName: 'Ben', birthdate: '2014-09-12', active: true, createdAt: new Date().toISOString() }
+      { id: 'child-1', firstName: 'Ada', birthdate: '2015-04-03', active: true, defaultTemplateId: null, createdAt: new Date().toISOString() },
+      { id: 'child-2', firstName: 'Ben', birthdate: '2014-09-12', active: true, defaultTemplateId: null, createdAt: new Date().toISOString() }
     ];
 
     templates = [
@@ -38,6 +98,7 @@ describe('App (multi-child board)', () => {
         name: 'Morning Blast',
         defaultStartTime: '07:00',
         defaultEndTime: '08:00',
+        daysActive: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         tasks: [
@@ -61,55 +122,6 @@ describe('App (multi-child board)', () => {
       }
     ];
 
-    const createSessionFromTemplate = (childId: string, templateId: string, allowSkip: boolean): Session => {
-      const template = templates.find((item) => item.id === templateId);
-      if (!template) {
-        throw new Error('Template not found');
-      }
-
-      const expectedTotal = template.tasks.reduce((sum, task) => sum + task.expectedMinutes, 0);
-      const start = new Date();
-      const plannedEnd = new Date(start.getTime() + 45 * 60 * 1000);
-      const sessionId = `session-${++sessionCounter}`;
-      const session: Session = {
-        id: sessionId,
-        childId,
-        allowSkip,
-        plannedStartAt: start.toISOString(),
-        plannedEndAt: plannedEnd.toISOString(),
-        actualStartAt: start.toISOString(),
-        actualEndAt: null,
-        expectedTotalMinutes: expectedTotal,
-        medal: null,
-        templateSnapshot: {
-          templateId: template.id,
-          name: template.name,
-          defaultStartTime: template.defaultStartTime,
-          defaultEndTime: template.defaultEndTime,
-          tasks: template.tasks.map((task) => ({
-            title: task.title,
-            emoji: task.emoji,
-            hint: task.hint,
-            expectedMinutes: task.expectedMinutes,
-            orderIndex: task.orderIndex
-          })),
-          expectedTotalMinutes: expectedTotal
-        },
-        tasks: template.tasks.map((task) => ({
-          id: `${sessionId}-task-${task.orderIndex}`,
-          title: task.title,
-          expectedMinutes: task.expectedMinutes,
-          completedAt: null,
-          skipped: false,
-          orderIndex: task.orderIndex,
-          emoji: task.emoji,
-          hint: task.hint
-        }))
-      };
-
-      return session;
-    };
-
     fetchMock = vi
       .spyOn(window, 'fetch')
       .mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
@@ -128,6 +140,12 @@ describe('App (multi-child board)', () => {
         return jsonResponse({ templates });
       }
 
+      if (url.includes('/api/today/plan') && method === 'GET') {
+        return jsonResponse({
+          plan: { date: '2025-11-03', weekday: 'mon', entries: todayPlanEntries, suspended: todayPlanSuspended }
+        });
+      }
+
       if (url.endsWith('/api/sessions/start') && method === 'POST') {
         const body = JSON.parse(init?.body as string) as {
           childId: string;
@@ -144,40 +162,13 @@ describe('App (multi-child board)', () => {
         return jsonResponse({ session }, 201);
       }
 
-      const telemetryMatch = url.match(/\/api\/sessions\/([^/]+)\/telemetry$/);
-      if (telemetryMatch && method === 'GET') {
-        const session = sessionsById.get(telemetryMatch[1]);
-        if (!session) {
-          return jsonResponse({ error: { message: 'Session not found' } }, 404);
-        }
-        return jsonResponse({
-          telemetry: {
-            urgencyLevel: 1,
-            timeRemainingMinutes: 20,
-            paceDelta: 0.05,
-            sessionEndsAt: session.plannedEndAt,
-            nudges: [],
-            currentTask: session.tasks.find((task) => !task.completedAt && !task.skipped)
-              ? {
-                  sessionTaskId: session.tasks.find((task) => !task.completedAt && !task.skipped)!.id,
-                  title: session.tasks.find((task) => !task.completedAt && !task.skipped)!.title,
-                  expectedMinutes: session.tasks.find((task) => !task.completedAt && !task.skipped)!.expectedMinutes,
-                  hint: session.tasks.find((task) => !task.completedAt && !task.skipped)!.hint,
-                  startedAt: session.actualStartAt!,
-                  elapsedSeconds: 60,
-                  remainingSeconds: 120,
-                  nudgesFiredCount: 0,
-                  totalScheduledNudges: 3,
-                  nextNudgeThreshold: 'second',
-                  lastNudgeFiredAt: null
-                }
-              : null,
-            nextTask: null
-          }
-        });
-      }
-
       const completeMatch = url.match(/\/api\/sessions\/([^/]+)\/task\/(\d+)\/complete$/);
+      if (completeMatch && method === 'POST' && offline) {
+        throw new TypeError('Failed to fetch');
+      }
+      if (completeMatch && method === 'POST' && completionStatus) {
+        return jsonResponse({ error: { message: 'Rejected' } }, completionStatus);
+      }
       if (completeMatch && method === 'POST') {
         const [, sessionId, index] = completeMatch;
         const session = sessionsById.get(sessionId);
@@ -238,6 +229,8 @@ describe('App (multi-child board)', () => {
   afterEach(() => {
     cleanup();
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
   });
 
   it('shows the voice status indicator on the Today planner', async () => {
@@ -263,6 +256,20 @@ describe('App (multi-child board)', () => {
     expect(await screen.findByRole('heading', { name: /templates/i })).toBeInTheDocument();
   });
 
+  it('pre-fills the plan from today\'s suggested routines and flags suspended kids', async () => {
+    todayPlanEntries = [{ childId: 'child-2', templateId: 'template-1', source: 'default' }];
+    todayPlanSuspended = [{ childId: 'child-1', note: 'Dentist' }];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+
+    expect(await screen.findByText(/Pre-filled from today's schedule/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Start 1 session' })).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: 'Remove' })).toHaveLength(1);
+    expect(screen.getByRole('status')).toHaveTextContent('No routine today for Ada (Dentist)');
+  });
+
   it('lets the parent stage multiple kids and introduces them together first', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -313,6 +320,38 @@ describe('App (multi-child board)', () => {
     expect(startMessageCalls).toHaveLength(0);
   });
 
+  it('introduces kids who speak different languages one by one in their own language and voice', async () => {
+    children = [
+      { ...children[0], language: 'en-US', voice: 'kiddo' },
+      { ...children[1], language: 'da-DK', voice: 'mette' }
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+    await waitFor(() => expect(screen.getByLabelText('Child')).toBeInTheDocument());
+    await user.selectOptions(screen.getByLabelText('Child'), 'child-1');
+    await user.selectOptions(screen.getByLabelText('Routine template'), 'template-1');
+    await user.click(screen.getByRole('button', { name: 'Add to plan' }));
+    await user.selectOptions(screen.getByLabelText('Child'), 'child-2');
+    await user.selectOptions(screen.getByLabelText('Routine template'), 'template-1');
+    await user.click(screen.getByRole('button', { name: 'Add to plan' }));
+    await user.click(screen.getByRole('button', { name: 'Start 2 sessions' }));
+
+    const introCalls = () =>
+      fetchMock.mock.calls
+        .filter(([input]) => String(input).endsWith('/api/tts'))
+        .map(([, init]) => JSON.parse(init?.body as string) as { text: string; language: string; voice: string })
+        .filter((payload) => payload.text.startsWith('Hej'));
+    await waitFor(() => expect(introCalls()).toHaveLength(2));
+    expect(introCalls()).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ language: 'en-US', voice: 'kiddo', text: expect.stringMatching(/^Hej Ada! Today/) }),
+        expect.objectContaining({ language: 'da-DK', voice: 'mette', text: expect.stringMatching(/^Hej Ben! I dag/) })
+      ])
+    );
+  });
+
   it('lets the parent end all sessions and return to planning', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -359,4 +398,183 @@ describe('App (multi-child board)', () => {
     expect(skipCalls.length).toBeGreaterThan(0);
     expect(finishCalls.length).toBeGreaterThan(0);
   });
+
+  it('follows sessions from other devices through the live session stream', async () => {
+    const streams: FakeEventSource[] = [];
+    class FakeEventSource {
+      onmessage: ((message: MessageEvent<string>) => void) | null = null;
+
+      constructor(public url: string) {
+        streams.push(this);
+      }
+
+      close() {}
+    }
+    vi.stubGlobal('EventSource', FakeEventSource);
+    const emit = (event: SessionStreamEvent) =>
+      act(() => {
+        streams[0].onmessage?.({ data: JSON.stringify(event) } as MessageEvent<string>);
+      });
+
+    const user = userEvent.setup();
+    render(<App />);
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+
+    await waitFor(() => expect(streams).toHaveLength(1));
+    expect(streams[0].url).toBe('/api/sessions/stream');
+
+    const session = createSessionFromTemplate('child-2', 'template-1', false);
+    emit({ type: 'session.started', session, child: children[1] });
+
+    expect(await screen.findByRole('heading', { name: 'Ben' })).toBeInTheDocument();
+    expect(screen.getByText('0 / 2')).toBeInTheDocument();
+
+    emit({
+      type: 'telemetry',
+      sessionId: session.id,
+      telemetry: {
+        urgencyLevel: 2,
+        timeRemainingMinutes: 12,
+        paceDelta: 0.2,
+        sessionEndsAt: session.plannedEndAt,
+        nudges: [],
+        currentTask: null,
+        nextTask: null
+      }
+    });
+    expect(await screen.findByText('12m left')).toBeInTheDocument();
+
+    const completedAt = new Date().toISOString();
+    const tasks = session.tasks.map((task) => ({ ...task, completedAt }));
+    emit({ type: 'session.updated', session: { ...session, tasks: [tasks[0], session.tasks[1]] }, child: children[1] });
+    expect(await screen.findByText('1 / 2')).toBeInTheDocument();
+
+    emit({
+      type: 'session.finished',
+      session: { ...session, tasks, medal: 'gold', actualEndAt: completedAt },
+      child: children[1]
+    });
+    expect(await screen.findByText(/medal earned/)).toBeInTheDocument();
+  });
+
+  it('keeps taps made offline in the outbox and replays them once back online', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+    await waitFor(() => expect(screen.getByLabelText('Child')).toBeInTheDocument());
+    await user.selectOptions(screen.getByLabelText('Child'), 'child-1');
+    await user.selectOptions(screen.getByLabelText('Routine template'), 'template-1');
+    await user.click(screen.getByRole('button', { name: 'Add to plan' }));
+    await user.click(screen.getByRole('button', { name: 'Start 1 session' }));
+
+    offline = true;
+    await user.click(await screen.findByRole('button', { name: 'Complete ✅' }));
+
+    expect(await screen.findByText(/Offline: 1 tap saved/)).toBeInTheDocument();
+    expect(screen.getByText('1 / 2')).toBeInTheDocument();
+    expect(screen.queryByText('Unable to update this task. Please try again.')).not.toBeInTheDocument();
+
+    offline = false;
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(screen.queryByText(/Offline:/)).not.toBeInTheDocument());
+    const replay = fetchMock.mock.calls
+      .filter(([input]) => String(input).endsWith('/task/0/complete'))
+      .map(([, init]) => JSON.parse(init?.body as string) as { completedAt?: string; idempotencyKey?: string });
+    expect(replay).toHaveLength(2);
+    expect(replay[1]).toEqual(replay[0]);
+    expect(replay[1].completedAt).toEqual(expect.any(String));
+    expect(sessionsById.get('session-1')?.tasks[0].completedAt).not.toBeNull();
+  });
+
+  it('retries queued taps on a backoff timer without an online event', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+    await waitFor(() => expect(screen.getByLabelText('Child')).toBeInTheDocument());
+    await user.selectOptions(screen.getByLabelText('Child'), 'child-1');
+    await user.selectOptions(screen.getByLabelText('Routine template'), 'template-1');
+    await user.click(screen.getByRole('button', { name: 'Add to plan' }));
+    await user.click(screen.getByRole('button', { name: 'Start 1 session' }));
+
+    offline = true;
+    await user.click(await screen.findByRole('button', { name: 'Complete ✅' }));
+    expect(await screen.findByText(/Offline: 1 tap saved/)).toBeInTheDocument();
+
+    offline = false;
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(OUTBOX_RETRY_BASE_MS);
+    });
+
+    await waitFor(() => expect(screen.queryByText(/Offline:/)).not.toBeInTheDocument());
+    expect(sessionsById.get('session-1')?.tasks[0].completedAt).not.toBeNull();
+  });
+
+  it('keeps queued taps through an expired login and on top of streamed session updates', async () => {
+    const streams: Array<{ onmessage: ((message: MessageEvent<string>) => void) | null }> = [];
+    vi.stubGlobal(
+      'EventSource',
+      class {
+        onmessage: ((message: MessageEvent<string>) => void) | null = null;
+
+        constructor() {
+          streams.push(this);
+        }
+
+        close() {}
+      }
+    );
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(await screen.findByRole('button', { name: 'Today' }));
+    await waitFor(() => expect(screen.getByLabelText('Child')).toBeInTheDocument());
+    await user.selectOptions(screen.getByLabelText('Child'), 'child-1');
+    await user.selectOptions(screen.getByLabelText('Routine template'), 'template-1');
+    await user.click(screen.getByRole('button', { name: 'Add to plan' }));
+    await user.click(screen.getByRole('button', { name: 'Start 1 session' }));
+
+    offline = true;
+    await user.click(await screen.findByRole('button', { name: 'Complete ✅' }));
+    expect(await screen.findByText(/Offline: 1 tap saved/)).toBeInTheDocument();
+
+    offline = false;
+    completionStatus = 401;
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    const completeCalls = () =>
+      fetchMock.mock.calls.filter(([input]) => String(input).endsWith('/task/0/complete')).length;
+    await waitFor(() => expect(completeCalls()).toBe(2));
+    expect(screen.getByText(/Offline: 1 tap saved/)).toBeInTheDocument();
+
+    // A parent remote ticks off the second task; the queued first tap must stay on the board.
+    const server = sessionsById.get('session-1')!;
+    act(() => {
+      streams[0].onmessage?.({
+        data: JSON.stringify({
+          type: 'session.updated',
+          session: {
+            ...server,
+            tasks: [server.tasks[0], { ...server.tasks[1], completedAt: new Date().toISOString() }]
+          },
+          child: children[0]
+        } satisfies SessionStreamEvent)
+      } as MessageEvent<string>);
+    });
+    expect(await screen.findByText('2 / 2')).toBeInTheDocument();
+    expect(screen.getByText(/Offline: 1 tap saved/)).toBeInTheDocument();
+
+    completionStatus = null;
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    await waitFor(() => expect(screen.queryByText(/Offline:/)).not.toBeInTheDocument());
+    expect(sessionsById.get('session-1')?.tasks[0].completedAt).not.toBeNull();
+  });
 });
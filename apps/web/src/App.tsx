@@ -1,44 +1,78 @@
 import type { Child, Session } from '@shared/schemas';
+import { CHILD_LANGUAGES } from '@shared/schemas';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
+import { CalendarManager } from './components/calendar/CalendarManager';
 import { ChildrenManager } from './components/children/ChildrenManager';
+import { HistoryManager } from './components/history/HistoryManager';
+import { HouseholdManager } from './components/household/HouseholdManager';
+import { MessageLogManager } from './components/messages/MessageLogManager';
 import { getInitialNavKey, type NavKey, SidebarNav } from './components/navigation/SidebarNav';
 import { TemplatesManager } from './components/templates/TemplatesManager';
 import { TodayManager } from './components/today/TodayManager';
+import { createTranslator, I18nProvider, translate, type Translator, useHouseholdLocale } from './i18n';
 import type {
   SessionNudgeEvent,
   SessionProgressState,
+  SessionStreamEvent,
   SessionTelemetry
 } from './types/session';
+import { deviceFetch } from './utils/deviceAuth';
+import { childLanguageLabel } from './utils/format';
+import {
+  applyCompletionLocally,
+  applyQueuedCompletions,
+  type CompletionOutbox,
+  createCompletionOutbox,
+  createIdempotencyKey,
+  flushCompletionOutbox,
+  isOfflineError,
+  outboxRetryDelayMs,
+  type QueuedCompletion
+} from './utils/outbox';
+import { endSessions } from './utils/sessionActions';
 import { deriveSessionProgress } from './utils/sessionProgress';
-import { useVoicePlayer } from './utils/voice';
+import { useSessionStream } from './utils/sessionStream';
+import {
+  childVoiceProfile,
+  DEFAULT_VOICE_PROFILE,
+  type SpokenMessage,
+  useVoicePlayer,
+  type VoiceProfile
+} from './utils/voice';
+import { useVoiceChannels, type VoiceQueueItem } from './utils/voiceChannels';
 
 type VoiceRequest =
   | {
       type: 'session_start';
       sessionId: string;
       sessionTaskId: string;
-      language: string;
+      profile: VoiceProfile;
     }
   | {
       type: 'completion';
       sessionId: string;
       sessionTaskId: string;
-      language: string;
+      profile: VoiceProfile;
     }
   | {
       type: 'nudge';
       sessionId: string;
       sessionTaskId: string;
-      nudgeThreshold: 'first' | 'second' | 'final';
-      language: string;
+      nudgeThreshold?: 'first' | 'second' | 'final';
+      profile: VoiceProfile;
     }
   | {
       type: 'custom';
-      language: string;
+      profile: VoiceProfile;
       text: string;
+      // Lines for one child play on that child's channel; without it they go to the shared board channel.
+      sessionId?: string;
     };
 
+// Board-wide lines such as the morning introduction do not belong to one child.
+const BOARD_VOICE_CHANNEL = 'board';
+
 type SessionUIState = {
   session: Session;
   child: Child;
@@ -47,58 +81,64 @@ type SessionUIState = {
   error: string | null;
   telemetry: SessionTelemetry | null;
   nudgeEvents: SessionNudgeEvent[];
+  queuedCount: number;
 };
 
-const VOICE_LANGUAGE = 'en-US';
-const VOICE_ID = 'kiddo';
-
 type TodayViewMode = 'planner' | 'board';
 
-const formatList = (values: string[]): string => {
-  if (values.length === 0) {
-    return '';
-  }
-  if (values.length === 1) {
-    return values[0];
-  }
-  if (values.length === 2) {
-    return `${values[0]} and ${values[1]}`;
-  }
-  return `${values.slice(0, -1).join(', ')}, and ${values[values.length - 1]}`;
-};
-
-const describeTask = (task: Session['tasks'][number] | undefined): string => {
+const describeTask = (task: Session['tasks'][number] | undefined, { t }: Translator): string => {
   if (!task) {
-    return 'your first task';
+    return t('board.introFirstTaskFallback');
   }
   const emoji = task.emoji ? `${task.emoji} ` : '';
   return `${emoji}${task.title}`;
 };
 
-const buildBoardIntroduction = (entries: Array<{ session: Session; child: Child }>): string => {
+const buildBoardIntroduction = (entries: Array<{ session: Session; child: Child }>, translator: Translator): string => {
   if (entries.length === 0) {
     return '';
   }
 
-  const names = formatList(entries.map((entry) => entry.child.firstName));
-  const routines = formatList(
-    Array.from(new Set(entries.map((entry) => entry.session.templateSnapshot.name)))
-  );
-  const taskSentences = entries
-    .map((entry) => {
-      const firstTask = entry.session.tasks.find((task) => !task.completedAt && !task.skipped);
-      return `${entry.child.firstName}, start with ${describeTask(firstTask ?? entry.session.tasks[0])}.`;
-    })
-    .join(' ');
-
-  return `Hej ${names}! Today we're tackling ${routines}. ${taskSentences} You've got this!`;
+  const { t, language } = translator;
+  const list = new Intl.ListFormat(language, { type: 'conjunction' });
+  const names = list.format(entries.map((entry) => entry.child.firstName));
+  const routines = list.format(Array.from(new Set(entries.map((entry) => entry.session.templateSnapshot.name))));
+  const taskSentences = entries.map((entry) => {
+    const firstTask = entry.session.tasks.find((task) => !task.completedAt && !task.skipped);
+    return t('board.introFirstTask', {
+      name: entry.child.firstName,
+      task: describeTask(firstTask ?? entry.session.tasks[0], translator)
+    });
+  });
+
+  return [
+    t('board.introGreeting', { names }),
+    t('board.introRoutines', { routines }),
+    ...taskSentences,
+    t('board.introClosing', { count: entries.length })
+  ].join(' ');
+};
+
+type AppProps = {
+  // A paired Kid Mode device shows only the board and talks to the API with its device token.
+  kidDevice?: boolean;
 };
 
-const App = () => {
-  const [activeNav, setActiveNav] = useState<NavKey>(getInitialNavKey());
+const App = ({ kidDevice = false }: AppProps) => {
+  const [activeNav, setActiveNav] = useState<NavKey>(kidDevice ? 'today' : getInitialNavKey());
   const [sessions, setSessions] = useState<Record<string, SessionUIState>>({});
   const [focusedSessionId, setFocusedSessionId] = useState<string | null>(null);
-  const [todayMode, setTodayMode] = useState<TodayViewMode>('planner');
+  const [todayMode, setTodayMode] = useState<TodayViewMode>(kidDevice ? 'board' : 'planner');
+  const {
+    language: uiLanguage,
+    timeZone,
+    changeLanguage: handleLanguageChange,
+    changeTimeZone: handleTimeZoneChange
+  } = useHouseholdLocale();
+  const timeZoneOptions = useMemo(() => {
+    const supported = Intl.supportedValuesOf('timeZone');
+    return supported.includes(timeZone) ? supported : [timeZone, ...supported];
+  }, [timeZone]);
   const [debugMode] = useState<boolean>(() => {
     if (typeof window === 'undefined') {
       return false;
@@ -106,16 +146,27 @@ const App = () => {
     return new URLSearchParams(window.location.search).get('debug') === '1';
   });
   const sessionStateRef = useRef<Record<string, SessionUIState>>({});
-  const voiceQueueRef = useRef<VoiceRequest[]>([]);
-  const voiceProcessingRef = useRef(false);
   const processedNudgeKeysRef = useRef<Map<string, Set<string>>>(new Map());
   const boardIntroDeliveredRef = useRef(false);
+  const outboxRef = useRef<CompletionOutbox>(createCompletionOutbox());
+
+  const listQueuedCompletions = useCallback(async () => {
+    try {
+      return await outboxRef.current.list();
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }, []);
   const {
     enabled: voiceEnabled,
     enabling: voiceEnabling,
     enable: enableVoice,
     play: playVoice,
     error: voiceError,
+    unplayed: unplayedVoiceMessage,
+    replay: replayVoice,
+    dismissUnplayed: dismissUnplayedVoice,
     setError: setVoiceError
   } = useVoicePlayer();
   const [endingSessions, setEndingSessions] = useState(false);
@@ -123,7 +174,6 @@ const App = () => {
 
   const sessionList = useMemo(() => Object.values(sessions), [sessions]);
   const sessionIds = useMemo(() => Object.keys(sessions), [sessions]);
-  const sessionIdsKey = useMemo(() => sessionIds.join('|'), [sessionIds]);
 
   useEffect(() => {
     sessionStateRef.current = sessions;
@@ -138,38 +188,55 @@ const App = () => {
     return set;
   }, []);
 
-  const requestSpeechAudio = useCallback(
-    async (request: VoiceRequest) => {
-      if (request.type === 'custom') {
-        const ttsResponse = await fetch('/api/tts', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            text: request.text,
-            language: request.language,
-            voice: VOICE_ID
-          })
-        });
+  // A missing server voice (501, network or provider failure) is not an error: the player falls back to the browser voice.
+  const requestTtsAudio = useCallback(async (text: string, profile: VoiceProfile): Promise<string | null> => {
+    try {
+      const ttsResponse = await deviceFetch('/api/tts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text,
+          language: profile.language,
+          voice: profile.voice,
+          rate: profile.rate,
+          pitch: profile.pitch
+        })
+      });
 
-        const ttsPayload = (await ttsResponse.json()) as {
-          audioUrl?: string;
-          error?: { message?: string };
-        };
+      const ttsPayload = (await ttsResponse.json()) as {
+        audioUrl?: string;
+        error?: { message?: string };
+      };
 
-        if (!ttsResponse.ok || !ttsPayload.audioUrl) {
-          throw new Error(ttsPayload.error?.message ?? 'Unable to create voice audio.');
-        }
+      if (!ttsResponse.ok || !ttsPayload.audioUrl) {
+        console.warn(ttsPayload.error?.message ?? `Voice audio unavailable (${ttsResponse.status})`);
+        return null;
+      }
 
-        return ttsPayload.audioUrl;
+      return ttsPayload.audioUrl;
+    } catch (error) {
+      console.warn('Voice audio unavailable', error);
+      return null;
+    }
+  }, []);
+
+  const requestSpokenMessage = useCallback(
+    async (request: VoiceRequest): Promise<SpokenMessage> => {
+      if (request.type === 'custom') {
+        return {
+          text: request.text,
+          profile: request.profile,
+          audioUrl: await requestTtsAudio(request.text, request.profile)
+        };
       }
 
-      const llmResponse = await fetch(`/api/sessions/${request.sessionId}/message`, {
+      const llmResponse = await deviceFetch(`/api/sessions/${request.sessionId}/message`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           type: request.type,
           sessionTaskId: request.sessionTaskId,
-          language: request.language,
+          language: request.profile.language,
           nudgeThreshold: request.type === 'nudge' ? request.nudgeThreshold : undefined
         })
       });
@@ -180,79 +247,62 @@ const App = () => {
       };
 
       if (!llmResponse.ok || !llmPayload.text) {
-        throw new Error(llmPayload.error?.message ?? 'Unable to generate encouragement text.');
+        throw new Error(llmPayload.error?.message ?? translate(uiLanguage, 'today.voiceTextFailed'));
       }
 
-      const ttsResponse = await fetch('/api/tts', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          text: llmPayload.text,
-          language: request.language,
-          voice: VOICE_ID
-        })
-      });
-
-      const ttsPayload = (await ttsResponse.json()) as {
-        audioUrl?: string;
-        error?: { message?: string };
+      return {
+        text: llmPayload.text,
+        profile: request.profile,
+        audioUrl: await requestTtsAudio(llmPayload.text, request.profile)
       };
-
-      if (!ttsResponse.ok || !ttsPayload.audioUrl) {
-        throw new Error(ttsPayload.error?.message ?? 'Unable to create voice audio.');
-      }
-
-      return ttsPayload.audioUrl;
     },
-    []
+    [requestTtsAudio, uiLanguage]
   );
 
-  const processVoiceQueue = useCallback(async () => {
-    if (!voiceEnabled) {
-      return;
-    }
-
-    if (voiceProcessingRef.current || voiceQueueRef.current.length === 0) {
-      return;
+  // A nudge is stale once its task is done or its session is over, even if the text was already fetched.
+  const isVoiceRequestStale = useCallback(({ request }: VoiceQueueItem<VoiceRequest>) => {
+    if (request.type === 'custom') {
+      return false;
     }
+    const entry = sessionStateRef.current[request.sessionId];
+    const task = entry?.session.tasks.find((candidate) => candidate.id === request.sessionTaskId);
+    return !task || Boolean(entry.session.actualEndAt || task.completedAt || task.skipped);
+  }, []);
 
-    voiceProcessingRef.current = true;
-    let encounteredError = false;
-
-    try {
-      while (voiceEnabled && voiceQueueRef.current.length > 0) {
-        const next = voiceQueueRef.current.shift();
-        if (!next) {
-          break;
-        }
+  const handleVoicePlayed = useCallback(() => setVoiceError(null), [setVoiceError]);
 
-        const audioUrl = await requestSpeechAudio(next);
-        await playVoice(audioUrl);
-      }
-      setVoiceError(null);
-    } catch (error) {
+  const handleVoiceError = useCallback(
+    (error: unknown) => {
       console.error(error);
-      encounteredError = true;
       setVoiceError(
-        error instanceof Error ? error.message : 'Unable to play encouragement right now. Please try again.'
+        error instanceof Error ? error.message : translate(uiLanguage, 'today.voicePlayFailed')
       );
-    } finally {
-      voiceProcessingRef.current = false;
-    }
+    },
+    [setVoiceError, uiLanguage]
+  );
 
-    if (!encounteredError && voiceEnabled && voiceQueueRef.current.length > 0) {
-      void processVoiceQueue();
-    }
-  }, [playVoice, requestSpeechAudio, setVoiceError, voiceEnabled]);
+  const {
+    channels: voiceChannels,
+    enqueue: enqueueVoice,
+    clear: clearVoiceChannels
+  } = useVoiceChannels<VoiceRequest>({
+    enabled: voiceEnabled,
+    prepare: requestSpokenMessage,
+    play: playVoice,
+    isStale: isVoiceRequestStale,
+    onPlayed: handleVoicePlayed,
+    onError: handleVoiceError
+  });
 
   const enqueueVoiceRequest = useCallback(
     (request: VoiceRequest) => {
-      voiceQueueRef.current.push(request);
-      if (voiceEnabled) {
-        void processVoiceQueue();
+      if (request.type === 'custom') {
+        enqueueVoice(request.sessionId ?? BOARD_VOICE_CHANNEL, 'custom', null, request);
+        return;
       }
+      enqueueVoice(request.sessionId, request.type, request.sessionTaskId, request);
     },
-    [processVoiceQueue, voiceEnabled]
+    [enqueueVoice]
   );
 
   const addSessionEntry = useCallback((session: Session, child: Child) => {
@@ -265,7 +315,8 @@ const App = () => {
         pending: false,
         error: null,
         telemetry: null,
-        nudgeEvents: []
+        nudgeEvents: [],
+        queuedCount: 0
       }
     }));
     processedNudgeKeysRef.current.set(session.id, new Set());
@@ -293,7 +344,7 @@ const App = () => {
   const finishSession = useCallback(
     async (sessionId: string) => {
       try {
-        const response = await fetch(`/api/sessions/${sessionId}/finish`, {
+        const response = await deviceFetch(`/api/sessions/${sessionId}/finish`, {
           method: 'POST'
         });
         if (!response.ok) {
@@ -313,7 +364,7 @@ const App = () => {
             [sessionId]: {
               ...existing,
               pending: false,
-              error: 'Unable to finalise the session. Please try again.'
+              error: translate(existing.child.language, 'board.finishError')
             }
           };
         });
@@ -336,7 +387,7 @@ const App = () => {
             type: 'session_start',
             sessionId: session.id,
             sessionTaskId: firstTask.id,
-            language: VOICE_LANGUAGE
+            profile: childVoiceProfile(child)
           });
         }
       }
@@ -346,32 +397,25 @@ const App = () => {
 
   const handleEnableVoice = useCallback(async () => {
     setVoiceError(null);
-    const success = await enableVoice();
-    if (success) {
-      await processVoiceQueue();
-    }
-  }, [enableVoice, processVoiceQueue, setVoiceError]);
-
-  useEffect(() => {
-    if (voiceEnabled) {
-      void processVoiceQueue();
-    }
-  }, [processVoiceQueue, voiceEnabled]);
+    await enableVoice();
+  }, [enableVoice, setVoiceError]);
 
   const fetchActiveSessions = useCallback(async (): Promise<number> => {
     let count = 0;
     try {
-      const response = await fetch('/api/sessions/active');
+      const response = await deviceFetch('/api/sessions/active');
       if (!response.ok) {
         throw new Error('Failed to load active sessions');
       }
       const data = (await response.json()) as {
         sessions: Array<{ session: Session; child: Child }>;
       };
+      const queued = await listQueuedCompletions();
 
       const nextState: Record<string, SessionUIState> = {};
       const processed = new Map<string, Set<string>>();
-      data.sessions.forEach(({ session, child }) => {
+      data.sessions.forEach(({ session: serverSession, child }) => {
+        const session = applyQueuedCompletions(serverSession, queued);
         nextState[session.id] = {
           session,
           child,
@@ -379,7 +423,8 @@ const App = () => {
           pending: false,
           error: null,
           telemetry: null,
-          nudgeEvents: []
+          nudgeEvents: [],
+          queuedCount: queued.filter((entry) => entry.sessionId === session.id).length
         };
         processed.set(session.id, new Set());
       });
@@ -401,7 +446,7 @@ const App = () => {
       console.error(error);
     }
     return count;
-  }, []);
+  }, [listQueuedCompletions]);
 
   useEffect(() => {
     void fetchActiveSessions();
@@ -411,14 +456,13 @@ const App = () => {
     if (sessionIds.length === 0) {
       setFocusedSessionId(null);
       boardIntroDeliveredRef.current = false;
-      voiceQueueRef.current = [];
-      voiceProcessingRef.current = false;
+      clearVoiceChannels();
       processedNudgeKeysRef.current = new Map();
       setTodayMode('planner');
     } else if (focusedSessionId && !sessions[focusedSessionId]) {
       setFocusedSessionId(sessionIds[0] ?? null);
     }
-  }, [focusedSessionId, sessionIds, sessions]);
+  }, [clearVoiceChannels, focusedSessionId, sessionIds, sessions]);
 
   const handleSessionsBatchStarted = useCallback(
     (entries: Array<{ session: Session; child: Child }>) => {
@@ -429,8 +473,26 @@ const App = () => {
       if (boardIntroDeliveredRef.current || entries.length === 0) {
         return;
       }
-      const text = buildBoardIntroduction(entries);
-      enqueueVoiceRequest({ type: 'custom', language: VOICE_LANGUAGE, text });
+      // Kids who share a language hear one introduction together; otherwise each child gets their own, in their
+      // language and voice, on their own channel.
+      const languages = Array.from(new Set(entries.map((entry) => entry.child.language)));
+      if (languages.length === 1) {
+        const [language] = languages;
+        enqueueVoiceRequest({
+          type: 'custom',
+          profile: entries.length === 1 ? childVoiceProfile(entries[0].child) : { ...DEFAULT_VOICE_PROFILE, language },
+          text: buildBoardIntroduction(entries, createTranslator(language))
+        });
+      } else {
+        entries.forEach((entry) =>
+          enqueueVoiceRequest({
+            type: 'custom',
+            sessionId: entry.session.id,
+            profile: childVoiceProfile(entry.child),
+            text: buildBoardIntroduction([entry], createTranslator(entry.child.language))
+          })
+        );
+      }
       boardIntroDeliveredRef.current = true;
     },
     [enqueueVoiceRequest]
@@ -451,123 +513,243 @@ const App = () => {
     setEndSessionsError(null);
 
     try {
-      for (const entry of entries) {
-        const { session } = entry;
-        for (let index = 0; index < session.tasks.length; index += 1) {
-          const task = session.tasks[index];
-          if (task.completedAt || task.skipped) {
-            continue;
-          }
-
-          const response = await fetch(`/api/sessions/${session.id}/task/${index}/complete`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ skipped: true })
-          });
-
-          if (!response.ok) {
-            const payload = await response.json().catch(() => ({} as { error?: { message?: string } }));
-            throw new Error(payload.error?.message ?? 'Unable to skip remaining tasks.');
-          }
-        }
-
-        const finishResponse = await fetch(`/api/sessions/${session.id}/finish`, { method: 'POST' });
-        if (!finishResponse.ok) {
-          const payload = await finishResponse.json().catch(() => ({} as { error?: { message?: string } }));
-          throw new Error(payload.error?.message ?? 'Unable to end the session.');
-        }
-      }
+      await endSessions(entries.map((entry) => entry.session));
 
       const remaining = await fetchActiveSessions();
       setTodayMode(remaining > 0 ? 'board' : 'planner');
     } catch (error) {
       console.error(error);
       setEndSessionsError(
-        error instanceof Error ? error.message : 'Unable to end sessions right now. Please try again.'
+        error instanceof Error ? error.message : translate(uiLanguage, 'today.endFailed')
       );
     } finally {
       setEndingSessions(false);
     }
-  }, [endingSessions, fetchActiveSessions]);
+  }, [endingSessions, fetchActiveSessions, uiLanguage]);
 
-  useEffect(() => {
-    if (sessionIdsKey.length === 0) {
-      return undefined;
-    }
+  const applyTelemetry = useCallback(
+    (sessionId: string, telemetry: SessionTelemetry) => {
+      setSessions((prev) => {
+        const existing = prev[sessionId];
+        if (!existing) {
+          return prev;
+        }
 
-    let cancelled = false;
-    const ids = sessionIdsKey.split('|').filter(Boolean);
-
-    const fetchTelemetry = async () => {
-      await Promise.all(
-        ids.map(async (sessionId) => {
-          try {
-            const response = await fetch(`/api/sessions/${sessionId}/telemetry`);
-            if (!response.ok) {
-              throw new Error('Failed to load telemetry');
-            }
-            const data = (await response.json()) as { telemetry: SessionTelemetry };
-            if (cancelled) {
-              return;
+        const existingEvents = existing.nudgeEvents;
+        const processed = ensureProcessedSet(sessionId);
+        const additions = telemetry.nudges.filter((event) => {
+          const key = `${event.sessionTaskId}:${event.threshold}`;
+          return (
+            !processed.has(key) &&
+            !existingEvents.some(
+              (current) => current.sessionTaskId === event.sessionTaskId && current.threshold === event.threshold
+            )
+          );
+        });
+
+        if (additions.length > 0) {
+          additions.forEach((event) => {
+            const key = `${event.sessionTaskId}:${event.threshold}`;
+            processed.add(key);
+            enqueueVoiceRequest({
+              type: 'nudge',
+              sessionId,
+              sessionTaskId: event.sessionTaskId,
+              nudgeThreshold: event.threshold,
+              profile: childVoiceProfile(existing.child)
+            });
+          });
+        }
+
+        return {
+          ...prev,
+          [sessionId]: {
+            ...existing,
+            telemetry,
+            nudgeEvents: additions.length > 0 ? [...existingEvents, ...additions] : existingEvents
+          }
+        };
+      });
+    },
+    [enqueueVoiceRequest, ensureProcessedSet]
+  );
+
+  // Sessions can change on another device (or be staged by the scheduler), so the stream upserts.
+  const upsertStreamedSession = useCallback(
+    async (serverSession: Session, child: Child) => {
+      const known = Boolean(sessionStateRef.current[serverSession.id]);
+      if (!known && serverSession.actualEndAt) {
+        return;
+      }
+
+      const queued = (await listQueuedCompletions()).filter((entry) => entry.sessionId === serverSession.id);
+      const session = applyQueuedCompletions(serverSession, queued);
+      setSessions((prev) => {
+        const existing = prev[session.id];
+        if (!existing) {
+          return {
+            ...prev,
+            [session.id]: {
+              session,
+              child,
+              progress: deriveSessionProgress(session),
+              pending: false,
+              error: null,
+              telemetry: null,
+              nudgeEvents: [],
+              queuedCount: queued.length
             }
+          };
+        }
+        return {
+          ...prev,
+          [session.id]: {
+            ...existing,
+            session,
+            progress: deriveSessionProgress(session),
+            queuedCount: queued.length
+          }
+        };
+      });
 
-            setSessions((prev) => {
-              const existing = prev[sessionId];
-              if (!existing) {
-                return prev;
-              }
-
-              const existingEvents = existing.nudgeEvents;
-              const processed = ensureProcessedSet(sessionId);
-              const additions = data.telemetry.nudges.filter((event) => {
-                const key = `${event.sessionTaskId}:${event.threshold}`;
-                return (
-                  !processed.has(key) &&
-                  !existingEvents.some(
-                    (current) =>
-                      current.sessionTaskId === event.sessionTaskId && current.threshold === event.threshold
-                  )
-                );
-              });
-
-              if (additions.length > 0) {
-                additions.forEach((event) => {
-                  const key = `${event.sessionTaskId}:${event.threshold}`;
-                  processed.add(key);
-                  enqueueVoiceRequest({
-                    type: 'nudge',
-                    sessionId,
-                    sessionTaskId: event.sessionTaskId,
-                    nudgeThreshold: event.threshold,
-                    language: VOICE_LANGUAGE
-                  });
-                });
-              }
-
-              return {
-                ...prev,
-                [sessionId]: {
-                  ...existing,
-                  telemetry: data.telemetry,
-                  nudgeEvents: additions.length > 0 ? [...existingEvents, ...additions] : existingEvents
-                }
-              };
+      if (!known) {
+        ensureProcessedSet(session.id);
+        setFocusedSessionId((current) => current ?? session.id);
+        if (Object.keys(sessionStateRef.current).length === 0) {
+          setTodayMode('board');
+        }
+      }
+    },
+    [ensureProcessedSet, listQueuedCompletions]
+  );
+
+  const handleStreamEvent = useCallback(
+    (event: SessionStreamEvent) => {
+      switch (event.type) {
+        case 'session.started':
+        case 'session.updated':
+        case 'session.finished':
+          void upsertStreamedSession(event.session, event.child);
+          break;
+        case 'telemetry':
+          applyTelemetry(event.sessionId, event.telemetry);
+          break;
+        case 'encouragement.requested':
+          if (sessionStateRef.current[event.sessionId]) {
+            enqueueVoiceRequest({
+              type: 'nudge',
+              sessionId: event.sessionId,
+              sessionTaskId: event.sessionTaskId,
+              profile: childVoiceProfile(sessionStateRef.current[event.sessionId].child)
             });
-          } catch (error) {
-            console.error(error);
           }
-        })
-      );
-    };
+          break;
+        default:
+          // task.completed is always followed by session.updated carrying the new state.
+          break;
+      }
+    },
+    [applyTelemetry, enqueueVoiceRequest, upsertStreamedSession]
+  );
 
-    void fetchTelemetry();
-    const interval = window.setInterval(fetchTelemetry, 5000);
+  useSessionStream(handleStreamEvent);
 
+  const queueCompletion = useCallback(async (entry: QueuedCompletion) => {
+    try {
+      await outboxRef.current.add(entry);
+    } catch (error) {
+      console.error(error);
+      return false;
+    }
+
+    setSessions((prev) => {
+      const existing = prev[entry.sessionId];
+      if (!existing) {
+        return prev;
+      }
+      const session = applyCompletionLocally(existing.session, entry);
+      return {
+        ...prev,
+        [entry.sessionId]: {
+          ...existing,
+          session,
+          progress: deriveSessionProgress(session),
+          pending: false,
+          error: null,
+          queuedCount: existing.queuedCount + 1
+        }
+      };
+    });
+    return true;
+  }, []);
+
+  const syncOutbox = useCallback(async () => {
+    const synced = new Map<string, Session>();
+    try {
+      await flushCompletionOutbox(outboxRef.current, (session) => synced.set(session.id, session));
+      const remaining = await outboxRef.current.list();
+
+      setSessions((prev) => {
+        const next = { ...prev };
+        Object.entries(prev).forEach(([sessionId, existing]) => {
+          const queued = remaining.filter((entry) => entry.sessionId === sessionId);
+          const serverSession = synced.get(sessionId);
+          if (!serverSession && queued.length === existing.queuedCount) {
+            return;
+          }
+          const session = applyQueuedCompletions(serverSession ?? existing.session, queued);
+          next[sessionId] = {
+            ...existing,
+            session,
+            progress: deriveSessionProgress(session),
+            queuedCount: queued.length
+          };
+        });
+        return next;
+      });
+
+      for (const session of synced.values()) {
+        const allHandled = session.tasks.every((task) => task.completedAt || task.skipped);
+        const stillQueued = remaining.some((entry) => entry.sessionId === session.id);
+        if (allHandled && !session.medal && !stillQueued) {
+          await finishSession(session.id);
+        }
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  }, [finishSession]);
+
+  useEffect(() => {
+    void syncOutbox();
+    const handleOnline = () => void syncOutbox();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncOutbox]);
+
+  const hasQueuedTaps = sessionList.some((entry) => entry.queuedCount > 0);
+
+  useEffect(() => {
+    if (!hasQueuedTaps) {
+      return undefined;
+    }
+    let cancelled = false;
+    let timer: number | undefined;
+    const scheduleRetry = (attempt: number) => {
+      timer = window.setTimeout(async () => {
+        await syncOutbox();
+        if (!cancelled) {
+          scheduleRetry(attempt + 1);
+        }
+      }, outboxRetryDelayMs(attempt));
+    };
+    scheduleRetry(0);
     return () => {
       cancelled = true;
-      window.clearInterval(interval);
+      window.clearTimeout(timer);
     };
-  }, [enqueueVoiceRequest, ensureProcessedSet, sessionIdsKey]);
+  }, [hasQueuedTaps, syncOutbox]);
+
   const handleCompleteTask = useCallback(
     async (sessionId: string, index: number) => {
       const entry = sessionStateRef.current[sessionId];
@@ -575,6 +757,20 @@ const App = () => {
         return;
       }
 
+      const queuedEntry: QueuedCompletion = {
+        idempotencyKey: createIdempotencyKey(),
+        sessionId,
+        orderIndex: index,
+        skipped: false,
+        completedAt: new Date().toISOString()
+      };
+
+      // Earlier taps are still waiting to sync, so this one queues behind them to keep the order.
+      if (entry.queuedCount > 0 && (await queueCompletion(queuedEntry))) {
+        void syncOutbox();
+        return;
+      }
+
       setSessions((prev) => {
         const existing = prev[sessionId];
         if (!existing) {
@@ -587,12 +783,16 @@ const App = () => {
       });
 
       try {
-        const response = await fetch(`/api/sessions/${sessionId}/task/${index}/complete`, {
+        const response = await deviceFetch(`/api/sessions/${sessionId}/task/${index}/complete`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ skipped: false })
+          body: JSON.stringify({
+            skipped: queuedEntry.skipped,
+            completedAt: queuedEntry.completedAt,
+            idempotencyKey: queuedEntry.idempotencyKey
+          })
         });
 
         if (!response.ok) {
@@ -608,7 +808,7 @@ const App = () => {
             type: 'completion',
             sessionId: data.session.id,
             sessionTaskId: updatedTask.id,
-            language: VOICE_LANGUAGE
+            profile: childVoiceProfile(entry.child)
           });
         }
 
@@ -618,6 +818,9 @@ const App = () => {
         }
       } catch (error) {
         console.error(error);
+        if (isOfflineError(error) && (await queueCompletion(queuedEntry))) {
+          return;
+        }
         setSessions((prev) => {
           const existing = prev[sessionId];
           if (!existing) {
@@ -628,13 +831,13 @@ const App = () => {
             [sessionId]: {
               ...existing,
               pending: false,
-              error: 'Unable to update this task. Please try again.'
+              error: translate(existing.child.language, 'board.updateError')
             }
           };
         });
       }
     },
-    [applySessionUpdate, enqueueVoiceRequest, finishSession]
+    [applySessionUpdate, enqueueVoiceRequest, finishSession, queueCompletion, syncOutbox]
   );
 
   const handleSkipTask = useCallback(
@@ -644,6 +847,20 @@ const App = () => {
         return;
       }
 
+      const queuedEntry: QueuedCompletion = {
+        idempotencyKey: createIdempotencyKey(),
+        sessionId,
+        orderIndex: index,
+        skipped: true,
+        completedAt: new Date().toISOString()
+      };
+
+      // Earlier taps are still waiting to sync, so this one queues behind them to keep the order.
+      if (entry.queuedCount > 0 && (await queueCompletion(queuedEntry))) {
+        void syncOutbox();
+        return;
+      }
+
       setSessions((prev) => {
         const existing = prev[sessionId];
         if (!existing) {
@@ -656,12 +873,16 @@ const App = () => {
       });
 
       try {
-        const response = await fetch(`/api/sessions/${sessionId}/task/${index}/complete`, {
+        const response = await deviceFetch(`/api/sessions/${sessionId}/task/${index}/complete`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ skipped: true })
+          body: JSON.stringify({
+            skipped: queuedEntry.skipped,
+            completedAt: queuedEntry.completedAt,
+            idempotencyKey: queuedEntry.idempotencyKey
+          })
         });
 
         if (!response.ok) {
@@ -677,6 +898,9 @@ const App = () => {
         }
       } catch (error) {
         console.error(error);
+        if (isOfflineError(error) && (await queueCompletion(queuedEntry))) {
+          return;
+        }
         setSessions((prev) => {
           const existing = prev[sessionId];
           if (!existing) {
@@ -687,13 +911,34 @@ const App = () => {
             [sessionId]: {
               ...existing,
               pending: false,
-              error: 'Unable to skip this task. Please try again.'
+              error: translate(existing.child.language, 'board.skipError')
             }
           };
         });
       }
     },
-    [applySessionUpdate, finishSession]
+    [applySessionUpdate, finishSession, queueCompletion, syncOutbox]
+  );
+
+  const handleUndoTask = useCallback(
+    async (sessionId: string, index: number, pin: string) => {
+      const response = await deviceFetch(`/api/sessions/${sessionId}/task/${index}/undo`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ pin })
+      });
+
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({} as { error?: { message?: string } }));
+        throw new Error(payload.error?.message ?? translate(uiLanguage, 'parentDrawer.undoFailed'));
+      }
+
+      const data = (await response.json()) as { session: Session };
+      applySessionUpdate(data.session);
+    },
+    [applySessionUpdate, uiLanguage]
   );
 
   const isTodayBoardFullScreen = activeNav === 'today' && todayMode === 'board';
@@ -706,46 +951,108 @@ const App = () => {
     isTodayBoardFullScreen ? 'h-full w-full' : 'mx-auto max-w-6xl'
   ].join(' ');
 
+  const todayManager = (
+    <TodayManager
+      sessions={sessionList}
+      focusedSessionId={focusedSessionId}
+      onFocusSession={setFocusedSessionId}
+      onSessionStarted={handleSessionStarted}
+      onSessionsBatchStarted={handleSessionsBatchStarted}
+      onCompleteTask={handleCompleteTask}
+      onSkipTask={handleSkipTask}
+      onUndoTask={handleUndoTask}
+      onEnableVoice={handleEnableVoice}
+      voiceEnabled={voiceEnabled}
+      voiceEnabling={voiceEnabling}
+      voiceError={voiceError}
+      unplayedVoice={unplayedVoiceMessage}
+      onReplayVoice={replayVoice}
+      onDismissVoiceText={dismissUnplayedVoice}
+      showDebugTelemetry={debugMode}
+      voiceChannels={voiceChannels}
+      mode={todayMode}
+      onLaunchBoard={() => setTodayMode('board')}
+      onEndAllSessions={handleEndAllSessions}
+      endingSessions={endingSessions}
+      endSessionsError={endSessionsError}
+    />
+  );
+
+  if (kidDevice) {
+    return (
+      <I18nProvider language={uiLanguage}>
+        <main className="h-screen overflow-hidden bg-slate-950 text-slate-50">{todayManager}</main>
+      </I18nProvider>
+    );
+  }
+
   return (
-    <div className="flex min-h-screen bg-slate-950 text-slate-50">
-      <aside className="flex w-64 flex-col gap-8 border-r border-slate-800 bg-slate-900 p-6">
-        <div>
-          <h1 className="text-2xl font-semibold">Klar Parat</h1>
-          <p className="text-sm text-slate-400">Morning routine assistant</p>
-        </div>
-        <SidebarNav activeKey={activeNav} onSelect={setActiveNav} />
-      </aside>
-      <main className={mainClasses}>
-        <div className={containerClasses}>
-          {activeNav === 'children' ? <ChildrenManager /> : null}
-          {activeNav === 'templates' ? <TemplatesManager /> : null}
-          {activeNav === 'today' ? (
-            <TodayManager
-              sessions={sessionList}
-              focusedSessionId={focusedSessionId}
-              onFocusSession={setFocusedSessionId}
-              onSessionStarted={handleSessionStarted}
-              onSessionsBatchStarted={handleSessionsBatchStarted}
-              onCompleteTask={handleCompleteTask}
-              onSkipTask={handleSkipTask}
-              onEnableVoice={handleEnableVoice}
-              voiceEnabled={voiceEnabled}
-              voiceEnabling={voiceEnabling}
-              voiceError={voiceError}
-              showDebugTelemetry={debugMode}
-              mode={todayMode}
-              onLaunchBoard={() => setTodayMode('board')}
-              onEndAllSessions={handleEndAllSessions}
-              endingSessions={endingSessions}
-              endSessionsError={endSessionsError}
-            />
-          ) : null}
-          {activeNav === 'history' && (
-            <p className="text-lg text-slate-400">History tracking is coming later.</p>
-          )}
-        </div>
-      </main>
-    </div>
+    <I18nProvider language={uiLanguage}>
+      <div className="flex min-h-screen bg-slate-950 text-slate-50">
+        <aside className="flex w-64 flex-col gap-8 border-r border-slate-800 bg-slate-900 p-6">
+          <div>
+            <h1 className="text-2xl font-semibold">Klar Parat</h1>
+            <p className="text-sm text-slate-400">{translate(uiLanguage, 'app.tagline')}</p>
+          </div>
+          <SidebarNav activeKey={activeNav} onSelect={setActiveNav} />
+          <a
+            href="/?view=remote"
+            className="rounded-lg px-4 py-2 text-sm text-emerald-300 underline-offset-2 hover:underline"
+          >
+            {translate(uiLanguage, 'app.openRemote')}
+          </a>
+          <div className="mt-auto flex flex-col gap-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {translate(uiLanguage, 'app.language')}
+            </span>
+            <div className="flex gap-2">
+              {CHILD_LANGUAGES.map((language) => (
+                <button
+                  key={language}
+                  type="button"
+                  aria-pressed={uiLanguage === language}
+                  onClick={() => void handleLanguageChange(language)}
+                  className={`rounded-full px-3 py-1 text-sm font-medium transition ${
+                    uiLanguage === language
+                      ? 'bg-emerald-500 text-slate-950'
+                      : 'bg-slate-800 text-slate-200 hover:bg-slate-700'
+                  }`}
+                >
+                  {childLanguageLabel[language]}
+                </button>
+              ))}
+            </div>
+            <label className="mt-2 flex flex-col gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                {translate(uiLanguage, 'app.timeZone')}
+              </span>
+              <select
+                value={timeZone}
+                onChange={(event) => void handleTimeZoneChange(event.target.value)}
+                className="rounded-lg bg-slate-800 px-3 py-2 text-sm text-slate-200"
+              >
+                {timeZoneOptions.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </aside>
+        <main className={mainClasses}>
+          <div className={containerClasses}>
+            {activeNav === 'children' ? <ChildrenManager /> : null}
+            {activeNav === 'templates' ? <TemplatesManager /> : null}
+            {activeNav === 'calendar' ? <CalendarManager timeZone={timeZone} /> : null}
+            {activeNav === 'today' ? todayManager : null}
+            {activeNav === 'history' ? <HistoryManager timeZone={timeZone} /> : null}
+            {activeNav === 'messages' ? <MessageLogManager /> : null}
+            {activeNav === 'household' ? <HouseholdManager /> : null}
+          </div>
+        </main>
+      </div>
+    </I18nProvider>
   );
 };
 
@@ -0,0 +1,243 @@
+import type { Parent } from '@shared/schemas';
+import type { FC, FormEvent, ReactNode } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { browserLanguage, createTranslator } from '../../i18n';
+
+type AuthMode = 'login' | 'signup';
+
+// An invite link (/?invite=<token>) lets a second parent join the household that sent it.
+const readInviteToken = () =>
+  typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get('invite');
+
+type AuthGateProps = {
+  children: ReactNode;
+};
+
+export const AuthGate: FC<AuthGateProps> = ({ children }) => {
+  const { t } = useMemo(() => createTranslator(browserLanguage()), []);
+  const [parent, setParent] = useState<Parent | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [inviteToken, setInviteToken] = useState(readInviteToken);
+  const [mode, setMode] = useState<AuthMode>(inviteToken ? 'signup' : 'login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [householdName, setHouseholdName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingPin, setEditingPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadParent = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (response.ok) {
+          const data = (await response.json()) as { parent: Parent };
+          setParent(data.parent);
+        }
+      } catch (err) {
+        console.error(err);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    void loadParent();
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      setSubmitting(true);
+      setError(null);
+
+      try {
+        const response = await fetch(mode === 'signup' ? '/api/auth/signup' : '/api/auth/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            email,
+            password,
+            householdName: mode === 'signup' && householdName.trim() ? householdName.trim() : undefined,
+            inviteToken: mode === 'signup' && inviteToken ? inviteToken : undefined
+          })
+        });
+
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message ?? t('auth.signInFailed'));
+        }
+
+        setParent((body as { parent: Parent }).parent);
+        setPassword('');
+        if (inviteToken) {
+          const url = new URL(window.location.href);
+          url.searchParams.delete('invite');
+          window.history.replaceState(null, '', url.toString());
+          setInviteToken(null);
+        }
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : t('auth.signInFailed'));
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [email, householdName, inviteToken, mode, password, t]
+  );
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error(err);
+    }
+    setParent(null);
+  }, []);
+
+  const handlePinSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      setPinError(null);
+
+      try {
+        const response = await fetch('/api/auth/pin', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pin })
+        });
+
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message ?? t('auth.pinSaveFailed'));
+        }
+
+        setParent((body as { parent: Parent }).parent);
+        setPin('');
+        setEditingPin(false);
+      } catch (err) {
+        console.error(err);
+        setPinError(err instanceof Error ? err.message : t('auth.pinSaveFailed'));
+      }
+    },
+    [pin, t]
+  );
+
+  if (checking) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-950 text-slate-400">
+        {t('common.loading')}
+      </div>
+    );
+  }
+
+  if (parent) {
+    return (
+      <>
+        {children}
+        <div className="fixed bottom-4 left-4 flex items-center gap-3 rounded-lg bg-slate-900/90 px-3 py-2 text-xs text-slate-400 shadow">
+          <span>{parent.householdName}</span>
+          {editingPin ? (
+            <form onSubmit={handlePinSubmit} className="flex items-center gap-2">
+              <input
+                type="password"
+                inputMode="numeric"
+                aria-label={t('auth.newPin')}
+                value={pin}
+                onChange={(event) => setPin(event.target.value)}
+                className="w-20 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-slate-50 focus:border-emerald-400 focus:outline-none"
+              />
+              <button type="submit" className="rounded bg-emerald-500 px-2 py-1 font-semibold text-slate-900">
+                {t('auth.savePin')}
+              </button>
+              {pinError ? <span className="text-rose-300">{pinError}</span> : null}
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setEditingPin(true)}
+              className="rounded border border-slate-600 px-2 py-1 font-semibold text-slate-200 hover:border-emerald-400"
+            >
+              {parent.hasPin ? t('auth.changePin') : t('auth.setPin')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleLogout}
+            className="rounded border border-slate-600 px-2 py-1 font-semibold text-slate-200 hover:border-emerald-400"
+          >
+            {t('auth.logOut')}
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-950 p-6 text-slate-50">
+      <form onSubmit={handleSubmit} className="flex w-full max-w-sm flex-col gap-4 rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <div>
+          <h1 className="text-2xl font-semibold">Klar Parat</h1>
+          <p className="text-sm text-slate-400">
+            {mode === 'signup'
+              ? inviteToken
+                ? t('auth.inviteIntro')
+                : t('auth.signupIntro')
+              : t('auth.loginIntro')}
+          </p>
+        </div>
+        {mode === 'signup' && !inviteToken ? (
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('auth.householdName')}</span>
+            <input
+              type="text"
+              value={householdName}
+              onChange={(event) => setHouseholdName(event.target.value)}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+            />
+          </label>
+        ) : null}
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-slate-200">{t('auth.email')}</span>
+          <input
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-slate-200">{t('auth.password')}</span>
+          <input
+            type="password"
+            autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-lg bg-emerald-500 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-400 disabled:opacity-60"
+        >
+          {mode === 'signup' ? t('auth.createAccount') : t('auth.logIn')}
+        </button>
+        {error && <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{error}</p>}
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'signup' ? 'login' : 'signup');
+            setError(null);
+          }}
+          className="text-sm text-emerald-300 hover:text-emerald-200"
+        >
+          {mode === 'signup' ? t('auth.switchToLogin') : t('auth.switchToSignup')}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import type { Child, IcsImportPreview } from '@shared/schemas';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CalendarManager } from './CalendarManager';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const child: Child = {
+  id: 'child-1',
+  firstName: 'Ada',
+  birthdate: '2015-04-03',
+  active: true,
+  defaultTemplateId: null,
+  createdAt: new Date().toISOString()
+};
+
+const preview: IcsImportPreview = {
+  eventCount: 4,
+  entries: [
+    { date: '2026-12-21', childId: 'child-1', kind: 'skip', templateId: null, note: 'Juleferie' },
+    { date: '2026-12-22', childId: 'child-1', kind: 'skip', templateId: null, note: 'Juleferie' }
+  ]
+};
+
+describe('CalendarManager', () => {
+  let fetchMock: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchMock = vi.spyOn(window, 'fetch').mockImplementation(async (input: RequestInfo | URL) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.endsWith('/api/children')) {
+        return jsonResponse({ children: [child] });
+      }
+      if (url.endsWith('/api/templates')) {
+        return jsonResponse({ templates: [] });
+      }
+      if (url.includes('/api/calendar/exceptions')) {
+        return jsonResponse({ exceptions: [] });
+      }
+      if (url.endsWith('/api/calendar/import/preview')) {
+        return jsonResponse({ preview });
+      }
+      if (url.endsWith('/api/calendar/import')) {
+        return jsonResponse({ exceptions: [] }, 201);
+      }
+      return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('previews an uploaded .ics file before importing it', async () => {
+    const user = userEvent.setup();
+    render(<CalendarManager timeZone="UTC" />);
+
+    await user.click(await screen.findByRole('checkbox', { name: 'Ada' }));
+    const file = new File(['BEGIN:VCALENDAR\r\nEND:VCALENDAR'], 'school.ics', { type: 'text/calendar' });
+    await user.upload(screen.getByLabelText('Calendar file (.ics)'), file);
+    await user.click(screen.getByRole('button', { name: 'Preview import' }));
+
+    expect(await screen.findByText(/2 days matched from 4 all-day events/)).toBeInTheDocument();
+    const previewCall = fetchMock.mock.calls.find(([input]) => String(input).endsWith('/import/preview'));
+    const payload = JSON.parse((previewCall?.[1] as RequestInit).body as string);
+    expect(payload).toMatchObject({
+      ics: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR',
+      rules: [
+        { keyword: 'Ferie', kind: 'skip', templateId: null },
+        { keyword: 'Holiday', kind: 'skip', templateId: null }
+      ],
+      childIds: ['child-1']
+    });
+    expect(fetchMock.mock.calls.some(([input]) => String(input).endsWith('/api/calendar/import'))).toBe(false);
+
+    await user.click(screen.getByRole('button', { name: 'Import 2 days' }));
+
+    expect(fetchMock.mock.calls.some(([input]) => String(input).endsWith('/api/calendar/import'))).toBe(true);
+    expect(screen.queryByRole('button', { name: 'Import 2 days' })).not.toBeInTheDocument();
+  });
+});
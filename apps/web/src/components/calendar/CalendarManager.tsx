@@ -0,0 +1,384 @@
+import type {
+  CalendarException,
+  CalendarExceptionKind,
+  Child,
+  IcsImportPreview,
+  Template
+} from '@shared/schemas';
+import type { ChangeEvent, FC, FormEvent } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { useI18n } from '../../i18n';
+import { toZonedIsoDate } from '../../utils/format';
+
+type KeywordRuleForm = {
+  keyword: string;
+  action: string;
+};
+
+const SKIP_ACTION = 'skip';
+
+const createDefaultRules = (): KeywordRuleForm[] => [
+  { keyword: 'Ferie', action: SKIP_ACTION },
+  { keyword: 'Holiday', action: SKIP_ACTION }
+];
+
+const toRulePayload = ({ keyword, action }: KeywordRuleForm) => ({
+  keyword: keyword.trim(),
+  kind: (action === SKIP_ACTION ? 'skip' : 'template') as CalendarExceptionKind,
+  templateId: action === SKIP_ACTION ? null : action
+});
+
+const readFileText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+type CalendarManagerProps = {
+  timeZone: string;
+};
+
+export const CalendarManager: FC<CalendarManagerProps> = ({ timeZone }) => {
+  const { t } = useI18n();
+  const [children, setChildren] = useState<Child[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [exceptions, setExceptions] = useState<CalendarException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [icsText, setIcsText] = useState('');
+  const [rules, setRules] = useState<KeywordRuleForm[]>(createDefaultRules());
+  const [childIds, setChildIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<IcsImportPreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const today = useMemo(() => toZonedIsoDate(new Date(), timeZone), [timeZone]);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [childrenResponse, templatesResponse, exceptionsResponse] = await Promise.all([
+        fetch('/api/children'),
+        fetch('/api/templates'),
+        fetch(`/api/calendar/exceptions?from=${today}`)
+      ]);
+
+      if (!childrenResponse.ok || !templatesResponse.ok || !exceptionsResponse.ok) {
+        throw new Error('Failed to load calendar');
+      }
+
+      const childrenData = (await childrenResponse.json()) as { children: Child[] };
+      const templatesData = (await templatesResponse.json()) as { templates: Template[] };
+      const exceptionsData = (await exceptionsResponse.json()) as { exceptions: CalendarException[] };
+
+      setChildren(childrenData.children);
+      setTemplates(templatesData.templates);
+      setExceptions(exceptionsData.exceptions);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('calendar.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t, today]);
+
+  useEffect(() => {
+    void fetchCalendar();
+  }, [fetchCalendar]);
+
+  const childName = useCallback(
+    (childId: string | null) =>
+      childId
+        ? (children.find((child) => child.id === childId)?.firstName ?? t('calendar.unknownChild'))
+        : t('calendar.everyone'),
+    [children, t]
+  );
+
+  const describeAction = useCallback(
+    (kind: CalendarExceptionKind, templateId: string | null) =>
+      kind === 'skip'
+        ? t('calendar.noRoutine')
+        : t('calendar.useTemplate', {
+            name: templates.find((template) => template.id === templateId)?.name ?? t('calendar.anotherRoutine')
+          }),
+    [t, templates]
+  );
+
+  const handleFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setPreview(null);
+    setImportError(null);
+    if (!file) {
+      setFileName('');
+      setIcsText('');
+      return;
+    }
+    try {
+      setFileName(file.name);
+      setIcsText(await readFileText(file));
+    } catch (err) {
+      console.error(err);
+      setImportError(t('calendar.readFailed'));
+    }
+  }, [t]);
+
+  const updateRule = useCallback((index: number, field: keyof KeywordRuleForm, value: string) => {
+    setPreview(null);
+    setRules((prev) => prev.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, [field]: value } : rule)));
+  }, []);
+
+  const toggleChild = useCallback((childId: string) => {
+    setPreview(null);
+    setChildIds((prev) => (prev.includes(childId) ? prev.filter((id) => id !== childId) : [...prev, childId]));
+  }, []);
+
+  const importPayload = useMemo(
+    () => ({
+      ics: icsText,
+      rules: rules.filter((rule) => rule.keyword.trim()).map(toRulePayload),
+      childIds
+    }),
+    [childIds, icsText, rules]
+  );
+
+  const postImport = useCallback(
+    async (path: string) => {
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(importPayload)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message ?? t('calendar.importFailed'));
+      }
+      return response.json();
+    },
+    [importPayload, t]
+  );
+
+  const handlePreview = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      if (!icsText) {
+        setImportError(t('calendar.chooseFile'));
+        return;
+      }
+      if (importPayload.rules.length === 0) {
+        setImportError(t('calendar.keywordRequired'));
+        return;
+      }
+
+      try {
+        setImporting(true);
+        const data = (await postImport('/api/calendar/import/preview')) as { preview: IcsImportPreview };
+        setPreview(data.preview);
+        setImportError(null);
+      } catch (err) {
+        console.error(err);
+        setImportError(err instanceof Error ? err.message : t('calendar.previewFailed'));
+      } finally {
+        setImporting(false);
+      }
+    },
+    [icsText, importPayload.rules.length, postImport, t]
+  );
+
+  const handleCommit = useCallback(async () => {
+    try {
+      setImporting(true);
+      await postImport('/api/calendar/import');
+      setPreview(null);
+      setFileName('');
+      setIcsText('');
+      setImportError(null);
+      await fetchCalendar();
+    } catch (err) {
+      console.error(err);
+      setImportError(err instanceof Error ? err.message : t('calendar.importFailed'));
+    } finally {
+      setImporting(false);
+    }
+  }, [fetchCalendar, postImport, t]);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`/api/calendar/exceptions/${id}`, { method: 'DELETE' });
+        if (!response.ok) {
+          throw new Error('Failed to delete exception');
+        }
+        await fetchCalendar();
+      } catch (err) {
+        console.error(err);
+        setError(t('calendar.deleteFailed'));
+      }
+    },
+    [fetchCalendar, t]
+  );
+
+  return (
+    <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+      <header className="mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">{t('calendar.title')}</h2>
+          <p className="text-sm text-slate-400">{t('calendar.subtitle')}</p>
+        </div>
+        {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
+      </header>
+      {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <form onSubmit={handlePreview} className="flex flex-col gap-4 rounded-xl bg-slate-950/40 p-5">
+          <h3 className="text-xl font-semibold">{t('calendar.importTitle')}</h3>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('calendar.file')}</span>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(event) => void handleFileChange(event)}
+              className="text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-700 file:px-3 file:py-2 file:text-slate-100"
+            />
+            {fileName && <span className="text-xs text-slate-400">{fileName}</span>}
+          </label>
+          <fieldset className="flex flex-col gap-2 text-sm">
+            <legend className="mb-1 font-medium text-slate-200">{t('calendar.keywords')}</legend>
+            {rules.map((rule, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  aria-label={t('calendar.keyword', { index: index + 1 })}
+                  value={rule.keyword}
+                  onChange={(event) => updateRule(index, 'keyword', event.target.value)}
+                  className="flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+                />
+                <select
+                  aria-label={t('calendar.keywordAction', { index: index + 1 })}
+                  value={rule.action}
+                  onChange={(event) => updateRule(index, 'action', event.target.value)}
+                  className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+                >
+                  <option value={SKIP_ACTION}>{t('calendar.noRoutine')}</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {t('calendar.useTemplate', { name: template.name })}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setRules((prev) => prev.filter((_, ruleIndex) => ruleIndex !== index))}
+                  className="rounded border border-rose-400 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10"
+                >
+                  {t('calendar.removeKeyword')}
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setRules((prev) => [...prev, { keyword: '', action: SKIP_ACTION }])}
+              className="self-start rounded-lg border border-dashed border-emerald-400 px-3 py-1 text-sm font-semibold text-emerald-300"
+            >
+              {t('calendar.addKeyword')}
+            </button>
+          </fieldset>
+          <fieldset className="flex flex-col gap-2 text-sm">
+            <legend className="mb-1 font-medium text-slate-200">{t('calendar.appliesTo')}</legend>
+            <div className="flex flex-wrap gap-3">
+              {children.map((child) => (
+                <label key={child.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={childIds.includes(child.id)}
+                    onChange={() => toggleChild(child.id)}
+                    className="h-4 w-4 rounded border-slate-600 bg-slate-800 text-emerald-400"
+                  />
+                  <span className="text-slate-200">{child.firstName}</span>
+                </label>
+              ))}
+            </div>
+            <span className="text-xs text-slate-400">{t('calendar.appliesToHint')}</span>
+          </fieldset>
+          <button
+            type="submit"
+            disabled={importing}
+            className="rounded-lg bg-emerald-500 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('calendar.preview')}
+          </button>
+          {importError && <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{importError}</p>}
+          {preview ? (
+            <div className="space-y-3 border-t border-slate-800 pt-4">
+              <p className="text-sm text-slate-300">
+                {t('calendar.previewSummary', {
+                  days: t('calendar.matchedDays', { count: preview.entries.length }),
+                  events: t('calendar.allDayEvents', { count: preview.eventCount })
+                })}
+              </p>
+              {preview.entries.length > 0 ? (
+                <ul className="max-h-64 space-y-1 overflow-y-auto text-sm text-slate-200">
+                  {preview.entries.map((entry) => (
+                    <li key={`${entry.date}-${entry.childId ?? 'household'}`} className="flex justify-between gap-3">
+                      <span>
+                        {entry.date} · {childName(entry.childId)}
+                      </span>
+                      <span className="text-slate-400">
+                        {describeAction(entry.kind, entry.templateId)} ({entry.note})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              <button
+                type="button"
+                disabled={importing || preview.entries.length === 0}
+                onClick={() => void handleCommit()}
+                className="rounded-lg bg-emerald-400 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {t('calendar.importDays', { count: preview.entries.length })}
+              </button>
+            </div>
+          ) : null}
+        </form>
+        <div className="space-y-3">
+          <h3 className="text-xl font-semibold">{t('calendar.upcomingTitle')}</h3>
+          {exceptions.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+              {t('calendar.noExceptions')}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {exceptions.map((exception) => (
+                <li
+                  key={exception.id}
+                  className="flex items-center justify-between gap-3 rounded-xl bg-slate-950/40 px-4 py-3 text-sm"
+                >
+                  <span>
+                    <span className="block font-semibold text-slate-100">
+                      {exception.date} · {childName(exception.childId)}
+                    </span>
+                    <span className="block text-xs text-slate-400">
+                      {describeAction(exception.kind, exception.templateId)}
+                      {exception.note ? ` · ${exception.note}` : ''}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(exception.id)}
+                    className="rounded-lg border border-slate-600 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-rose-400 hover:text-rose-200"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -1,12 +1,24 @@
-import type { Child } from '@shared/schemas';
+import type { Child, ChildLanguage, ScheduleAssignment, Template, TonePreset, Weekday } from '@shared/schemas';
+import { CHILD_LANGUAGES, DEFAULT_CHILD_LANGUAGE, DEFAULT_VOICE_ID, TONE_PRESETS, WEEKDAYS } from '@shared/schemas';
 import type { FC, FormEvent } from 'react';
 import { useCallback, useEffect, useState } from 'react';
 
+import { useI18n } from '../../i18n';
+import { childLanguageLabel } from '../../utils/format';
+import { ToneSettings } from './ToneSettings';
+
 type ChildFormState = {
   id?: string;
   firstName: string;
   birthdate: string;
   active: boolean;
+  defaultTemplateId: string;
+  tone: TonePreset | '';
+  language: ChildLanguage;
+  voice: string;
+  speechRate: number;
+  speechPitch: number;
+  schedule: Partial<Record<Weekday, string>>;
   error: string | null;
 };
 
@@ -14,11 +26,21 @@ const createInitialChildForm = (): ChildFormState => ({
   firstName: '',
   birthdate: '',
   active: true,
+  defaultTemplateId: '',
+  tone: '',
+  language: DEFAULT_CHILD_LANGUAGE,
+  voice: DEFAULT_VOICE_ID,
+  speechRate: 1,
+  speechPitch: 1,
+  schedule: {},
   error: null
 });
 
 export const ChildrenManager: FC = () => {
+  const { t } = useI18n();
   const [children, setChildren] = useState<Child[]>([]);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [assignments, setAssignments] = useState<ScheduleAssignment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [form, setForm] = useState<ChildFormState>(createInitialChildForm());
@@ -26,20 +48,28 @@ export const ChildrenManager: FC = () => {
   const fetchChildren = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/children');
-      if (!response.ok) {
+      const [childrenResponse, templatesResponse, scheduleResponse] = await Promise.all([
+        fetch('/api/children'),
+        fetch('/api/templates'),
+        fetch('/api/schedule')
+      ]);
+      if (!childrenResponse.ok || !templatesResponse.ok || !scheduleResponse.ok) {
         throw new Error('Failed to load children');
       }
-      const data = (await response.json()) as { children: Child[] };
-      setChildren(data.children);
+      const childrenData = (await childrenResponse.json()) as { children: Child[] };
+      const templatesData = (await templatesResponse.json()) as { templates: Template[] };
+      const scheduleData = (await scheduleResponse.json()) as { assignments: ScheduleAssignment[] };
+      setChildren(childrenData.children);
+      setTemplates(templatesData.templates);
+      setAssignments(scheduleData.assignments);
       setError(null);
     } catch (err) {
       console.error(err);
-      setError('Unable to load children. Please retry.');
+      setError(t('children.loadError'));
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [t]);
 
   useEffect(() => {
     void fetchChildren();
@@ -51,18 +81,24 @@ export const ChildrenManager: FC = () => {
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
       if (!form.firstName.trim()) {
-        setForm((prev) => ({ ...prev, error: 'First name is required.' }));
+        setForm((prev) => ({ ...prev, error: t('children.firstNameRequired') }));
         return;
       }
       if (!form.birthdate) {
-        setForm((prev) => ({ ...prev, error: 'Birthdate is required.' }));
+        setForm((prev) => ({ ...prev, error: t('children.birthdateRequired') }));
         return;
       }
 
       const payload = {
         firstName: form.firstName.trim(),
         birthdate: form.birthdate,
-        active: form.active
+        active: form.active,
+        defaultTemplateId: form.defaultTemplateId || null,
+        tone: form.tone || null,
+        language: form.language,
+        voice: form.voice.trim() || DEFAULT_VOICE_ID,
+        speechRate: form.speechRate,
+        speechPitch: form.speechPitch
       };
 
       try {
@@ -74,7 +110,24 @@ export const ChildrenManager: FC = () => {
 
         if (!response.ok) {
           const body = await response.json();
-          throw new Error(body.error?.message ?? 'Failed to save child');
+          throw new Error(body.error?.message ?? t('children.saveFailed'));
+        }
+
+        const { child } = (await response.json()) as { child: Child };
+        const scheduleResponse = await fetch(`/api/schedule/${child.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            assignments: WEEKDAYS.flatMap((weekday) => {
+              const templateId = form.schedule[weekday];
+              return templateId ? [{ weekday, templateId }] : [];
+            })
+          })
+        });
+
+        if (!scheduleResponse.ok) {
+          const body = await scheduleResponse.json();
+          throw new Error(body.error?.message ?? t('children.scheduleSaveFailed'));
         }
 
         await fetchChildren();
@@ -83,26 +136,55 @@ export const ChildrenManager: FC = () => {
         console.error(err);
         setForm((prev) => ({
           ...prev,
-          error: err instanceof Error ? err.message : 'Failed to save child.'
+          error: err instanceof Error ? err.message : t('children.saveFailed')
         }));
       }
     },
-    [fetchChildren, form.active, form.birthdate, form.firstName, form.id, resetForm]
+    [
+      fetchChildren,
+      form.active,
+      form.birthdate,
+      form.defaultTemplateId,
+      form.firstName,
+      form.id,
+      form.language,
+      form.schedule,
+      form.speechPitch,
+      form.speechRate,
+      form.tone,
+      form.voice,
+      resetForm,
+      t
+    ]
   );
 
-  const handleEdit = useCallback((child: Child) => {
-    setForm({
-      id: child.id,
-      firstName: child.firstName,
-      birthdate: child.birthdate,
-      active: child.active,
-      error: null
-    });
-  }, []);
+  const handleEdit = useCallback(
+    (child: Child) => {
+      setForm({
+        id: child.id,
+        firstName: child.firstName,
+        birthdate: child.birthdate,
+        active: child.active,
+        defaultTemplateId: child.defaultTemplateId ?? '',
+        tone: child.tone ?? '',
+        language: child.language,
+        voice: child.voice,
+        speechRate: child.speechRate,
+        speechPitch: child.speechPitch,
+        schedule: Object.fromEntries(
+          assignments
+            .filter((assignment) => assignment.childId === child.id)
+            .map((assignment) => [assignment.weekday, assignment.templateId])
+        ),
+        error: null
+      });
+    },
+    [assignments]
+  );
 
   const handleDelete = useCallback(
     async (id: string) => {
-      if (!window.confirm('Remove this child?')) return;
+      if (!window.confirm(t('children.confirmDelete'))) return;
       try {
         const response = await fetch(`/api/children/${id}`, { method: 'DELETE' });
         if (!response.ok) {
@@ -111,27 +193,28 @@ export const ChildrenManager: FC = () => {
         await fetchChildren();
       } catch (err) {
         console.error(err);
-        setError('Unable to delete child.');
+        setError(t('children.deleteFailed'));
       }
     },
-    [fetchChildren]
+    [fetchChildren, t]
   );
 
   return (
     <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
       <header className="mb-6 flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold">Children</h2>
-          <p className="text-sm text-slate-400">Add each kid once. No logins required.</p>
+          <h2 className="text-2xl font-semibold">{t('children.title')}</h2>
+          <p className="text-sm text-slate-400">{t('children.subtitle')}</p>
         </div>
-        {loading && <span className="text-sm text-emerald-400">Loading…</span>}
+        {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
       </header>
       {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
+      <ToneSettings />
       <div className="grid gap-6 lg:grid-cols-2">
         <form onSubmit={handleSubmit} className="flex flex-col gap-4 rounded-xl bg-slate-950/40 p-5">
-          <h3 className="text-xl font-semibold">{form.id ? 'Edit Child' : 'New Child'}</h3>
+          <h3 className="text-xl font-semibold">{form.id ? t('children.editTitle') : t('children.newTitle')}</h3>
           <label className="flex flex-col gap-1 text-sm">
-            <span className="font-medium text-slate-200">First name</span>
+            <span className="font-medium text-slate-200">{t('children.firstName')}</span>
             <input
               type="text"
               value={form.firstName}
@@ -140,7 +223,7 @@ export const ChildrenManager: FC = () => {
             />
           </label>
           <label className="flex flex-col gap-1 text-sm">
-            <span className="font-medium text-slate-200">Birthdate</span>
+            <span className="font-medium text-slate-200">{t('children.birthdate')}</span>
             <input
               type="date"
               value={form.birthdate}
@@ -148,6 +231,118 @@ export const ChildrenManager: FC = () => {
               className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
             />
           </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('children.defaultRoutine')}</span>
+            <select
+              value={form.defaultTemplateId}
+              onChange={(event) => setForm((prev) => ({ ...prev, defaultTemplateId: event.target.value }))}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+            >
+              <option value="">{t('children.noDefault')}</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('children.tone')}</span>
+            <select
+              value={form.tone}
+              onChange={(event) => setForm((prev) => ({ ...prev, tone: event.target.value as TonePreset | '' }))}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+            >
+              <option value="">{t('children.householdTone')}</option>
+              {TONE_PRESETS.map((tone) => (
+                <option key={tone} value={tone}>
+                  {t(`tone.${tone}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <fieldset className="flex flex-col gap-2 text-sm">
+            <legend className="mb-1 font-medium text-slate-200">{t('children.voice')}</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-300">{t('children.language')}</span>
+                <select
+                  value={form.language}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, language: event.target.value as ChildLanguage }))
+                  }
+                  className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+                >
+                  {CHILD_LANGUAGES.map((language) => (
+                    <option key={language} value={language}>
+                      {childLanguageLabel[language]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-300">{t('children.ttsVoice')}</span>
+                <input
+                  value={form.voice}
+                  onChange={(event) => setForm((prev) => ({ ...prev, voice: event.target.value }))}
+                  maxLength={50}
+                  className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-300">{t('children.speechRate', { rate: form.speechRate.toFixed(1) })}</span>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  value={form.speechRate}
+                  onChange={(event) => setForm((prev) => ({ ...prev, speechRate: Number(event.target.value) }))}
+                  className="accent-emerald-400"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-300">{t('children.speechPitch', { pitch: form.speechPitch.toFixed(1) })}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={form.speechPitch}
+                  onChange={(event) => setForm((prev) => ({ ...prev, speechPitch: Number(event.target.value) }))}
+                  className="accent-emerald-400"
+                />
+              </label>
+            </div>
+          </fieldset>
+          <fieldset className="flex flex-col gap-2 text-sm">
+            <legend className="mb-1 font-medium text-slate-200">{t('children.weeklyRoutines')}</legend>
+            <p className="text-xs text-slate-400">{t('children.weeklyRoutinesHint')}</p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEEKDAYS.map((weekday) => (
+                <label key={weekday} className="flex flex-col gap-1">
+                  <span className="text-xs text-slate-300">{t(`weekday.${weekday}`)}</span>
+                  <select
+                    value={form.schedule[weekday] ?? ''}
+                    onChange={(event) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        schedule: { ...prev.schedule, [weekday]: event.target.value }
+                      }))
+                    }
+                    className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+                  >
+                    <option value="">{t('children.nothingScheduled')}</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </fieldset>
           <label className="flex items-center gap-3 text-base">
             <input
               type="checkbox"
@@ -155,7 +350,7 @@ export const ChildrenManager: FC = () => {
               onChange={(event) => setForm((prev) => ({ ...prev, active: event.target.checked }))}
               className="h-5 w-5 rounded border-slate-600 bg-slate-800 text-emerald-400 focus:ring-emerald-300"
             />
-            <span className="text-slate-200">Active child</span>
+            <span className="text-slate-200">{t('children.active')}</span>
           </label>
           {form.error && <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{form.error}</p>}
           <div className="mt-2 flex gap-3">
@@ -163,7 +358,7 @@ export const ChildrenManager: FC = () => {
               type="submit"
               className="flex-1 rounded-lg bg-emerald-500 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-400"
             >
-              {form.id ? 'Save changes' : 'Add child'}
+              {form.id ? t('children.saveChanges') : t('children.add')}
             </button>
             {form.id && (
               <button
@@ -171,7 +366,7 @@ export const ChildrenManager: FC = () => {
                 onClick={resetForm}
                 className="rounded-lg border border-slate-600 px-4 py-3 text-lg font-semibold text-slate-200 transition hover:border-slate-400"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
             )}
           </div>
@@ -179,16 +374,31 @@ export const ChildrenManager: FC = () => {
         <div className="space-y-4">
           {children.length === 0 ? (
             <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
-              Add your first child to begin building routines.
+              {t('children.empty')}
             </p>
           ) : (
             children.map((child) => (
               <article key={child.id} className="flex items-center justify-between rounded-xl bg-slate-950/40 p-5 shadow">
                 <div>
                   <h3 className="text-xl font-semibold text-slate-100">{child.firstName}</h3>
-                  <p className="text-sm text-slate-400">Born {child.birthdate}</p>
+                  <p className="text-sm text-slate-400">{t('children.born', { date: child.birthdate })}</p>
+                  {child.tone && (
+                    <p className="text-sm text-slate-400">{t('children.toneSummary', { tone: t(`tone.${child.tone}`) })}</p>
+                  )}
+                  <p className="text-sm text-slate-400">
+                    {t('children.voiceSummary', { language: childLanguageLabel[child.language], voice: child.voice })}
+                  </p>
+                  {child.defaultTemplateId && (
+                    <p className="text-sm text-slate-400">
+                      {t('children.defaultSummary', {
+                        routine:
+                          templates.find((template) => template.id === child.defaultTemplateId)?.name ??
+                          t('children.unknownRoutine')
+                      })}
+                    </p>
+                  )}
                   <p className={`text-sm font-medium ${child.active ? 'text-emerald-400' : 'text-slate-500'}`}>
-                    {child.active ? 'Active' : 'Inactive'}
+                    {child.active ? t('children.statusActive') : t('children.statusInactive')}
                   </p>
                 </div>
                 <div className="flex gap-2">
@@ -197,14 +407,14 @@ export const ChildrenManager: FC = () => {
                     onClick={() => handleEdit(child)}
                     className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-emerald-400"
                   >
-                    Edit
+                    {t('common.edit')}
                   </button>
                   <button
                     type="button"
                     onClick={() => handleDelete(child.id)}
                     className="rounded-lg bg-rose-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-rose-400"
                   >
-                    Delete
+                    {t('common.delete')}
                   </button>
                 </div>
               </article>
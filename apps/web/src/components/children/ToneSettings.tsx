@@ -0,0 +1,168 @@
+import type { ChildLanguage, Settings, TonePreset, TonePreview } from '@shared/schemas';
+import { CHILD_LANGUAGES } from '@shared/schemas';
+import type { FC } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { useI18n } from '../../i18n';
+import { childLanguageLabel } from '../../utils/format';
+
+const PREVIEW_VOICE = 'kiddo';
+
+export const ToneSettings: FC = () => {
+  const { t, language: uiLanguage } = useI18n();
+  const [tone, setTone] = useState<TonePreset | null>(null);
+  const [language, setLanguage] = useState<ChildLanguage>(uiLanguage);
+  const [previews, setPreviews] = useState<TonePreview[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings');
+        if (!response.ok) {
+          throw new Error('Failed to load settings');
+        }
+        const data = (await response.json()) as { settings: Settings };
+        setTone(data.settings.tone);
+      } catch (err) {
+        console.error(err);
+        setError(t('toneSettings.loadError'));
+      }
+    };
+    void loadSettings();
+  }, [t]);
+
+  useEffect(() => {
+    const loadPreviews = async () => {
+      try {
+        const response = await fetch(`/api/encouragement/tones/preview?language=${encodeURIComponent(language)}`);
+        if (!response.ok) {
+          throw new Error('Failed to load tone previews');
+        }
+        const data = (await response.json()) as { previews: TonePreview[] };
+        setPreviews(data.previews);
+      } catch (err) {
+        console.error(err);
+        setError(t('toneSettings.samplesLoadError'));
+      }
+    };
+    void loadPreviews();
+  }, [language, t]);
+
+  const handleSelect = useCallback(
+    async (nextTone: TonePreset) => {
+      try {
+        const response = await fetch('/api/settings', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tone: nextTone })
+        });
+        if (!response.ok) {
+          throw new Error('Failed to save tone');
+        }
+        const data = (await response.json()) as { settings: Settings };
+        setTone(data.settings.tone);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(t('toneSettings.saveFailed'));
+      }
+    },
+    [t]
+  );
+
+  const handlePlay = useCallback(
+    async (text: string) => {
+      try {
+        const response = await fetch('/api/tts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text, language, voice: PREVIEW_VOICE })
+        });
+        if (!response.ok) {
+          throw new Error('Voice preview unavailable');
+        }
+        const { audioUrl } = (await response.json()) as { audioUrl: string };
+        audioRef.current?.pause();
+        audioRef.current = new Audio(audioUrl);
+        await audioRef.current.play();
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(t('toneSettings.previewUnavailable'));
+      }
+    },
+    [language, t]
+  );
+
+  return (
+    <section className="mb-6 rounded-xl bg-slate-950/40 p-5">
+      <header className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold">{t('toneSettings.title')}</h3>
+          <p className="text-sm text-slate-400">{t('toneSettings.subtitle')}</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <span className="text-slate-300">{t('toneSettings.samplesIn')}</span>
+          <select
+            value={language}
+            onChange={(event) => setLanguage(event.target.value as ChildLanguage)}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+          >
+            {CHILD_LANGUAGES.map((option) => (
+              <option key={option} value={option}>
+                {childLanguageLabel[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </header>
+      {error && <p className="mb-3 rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{error}</p>}
+      <div className="grid gap-3 md:grid-cols-3">
+        {previews.map((preview) => {
+          const selected = preview.tone === tone;
+          return (
+            <article
+              key={preview.tone}
+              className={`flex flex-col gap-3 rounded-xl border p-4 ${
+                selected ? 'border-emerald-400 bg-emerald-500/10' : 'border-slate-700 bg-slate-900/60'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <h4 className="text-lg font-semibold text-slate-100">{t(`tone.${preview.tone}`)}</h4>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(preview.tone)}
+                  disabled={selected}
+                  aria-pressed={selected}
+                  className="rounded-lg border border-slate-600 px-3 py-1 text-sm font-semibold text-slate-100 transition hover:border-emerald-400 disabled:border-emerald-400 disabled:text-emerald-300"
+                >
+                  {selected ? t('toneSettings.inUse') : t('toneSettings.use')}
+                </button>
+              </div>
+              <ul className="flex flex-col gap-2">
+                {preview.samples.map((sample) => (
+                  <li key={sample.type} className="flex items-start gap-2 text-sm text-slate-300">
+                    <button
+                      type="button"
+                      onClick={() => handlePlay(sample.text)}
+                      aria-label={t('toneSettings.playSample', {
+                        tone: t(`tone.${preview.tone}`),
+                        sample: t(`toneSettings.sample.${sample.type}`)
+                      })}
+                      className="rounded-md bg-slate-800 px-2 py-1 text-xs font-semibold text-slate-100 transition hover:bg-slate-700"
+                    >
+                      ▶ {t(`toneSettings.sample.${sample.type}`)}
+                    </button>
+                    <span>{sample.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,125 @@
+import type { Child, SessionHistoryEntry } from '@shared/schemas';
+import { cleanup, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { I18nProvider } from '../../i18n';
+import { browserTimeZone } from '../../utils/format';
+import { HistoryManager } from './HistoryManager';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const child: Child = {
+  id: 'child-1',
+  firstName: 'Ada',
+  birthdate: '2015-04-03',
+  active: true,
+  defaultTemplateId: null,
+  createdAt: new Date().toISOString()
+};
+
+const createEntry = (id: string, plannedStartAt: Date): SessionHistoryEntry => ({
+  id,
+  child,
+  templateName: 'Morning Blast',
+  plannedStartAt: plannedStartAt.toISOString(),
+  actualStartAt: plannedStartAt.toISOString(),
+  actualEndAt: new Date(plannedStartAt.getTime() + 10 * 60 * 1000).toISOString(),
+  medal: 'silver',
+  expectedTotalMinutes: 8,
+  durationSeconds: 600,
+  tasks: [
+    {
+      id: `${id}-task-0`,
+      orderIndex: 0,
+      title: 'Brush Teeth',
+      emoji: '🪥',
+      expectedMinutes: 3,
+      skipped: false,
+      startedAt: plannedStartAt.toISOString(),
+      completedAt: new Date(plannedStartAt.getTime() + 7 * 60 * 1000).toISOString(),
+      durationSeconds: 420
+    },
+    {
+      id: `${id}-task-1`,
+      orderIndex: 1,
+      title: 'Get Dressed',
+      expectedMinutes: 5,
+      skipped: false,
+      startedAt: new Date(plannedStartAt.getTime() + 7 * 60 * 1000).toISOString(),
+      completedAt: new Date(plannedStartAt.getTime() + 10 * 60 * 1000).toISOString(),
+      durationSeconds: 180
+    }
+  ]
+});
+
+describe('HistoryManager', () => {
+  beforeEach(() => {
+    const today = new Date();
+    today.setHours(7, 0, 0, 0);
+    const entries = [createEntry('session-today', today)];
+
+    vi.spyOn(window, 'fetch').mockImplementation(async (input: RequestInfo | URL) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.endsWith('/api/children')) {
+        return jsonResponse({ children: [child] });
+      }
+      if (url.includes('/api/sessions/history')) {
+        return jsonResponse({ sessions: entries, nextCursor: null });
+      }
+      return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('summarises today per child and expands sessions into per-task durations', async () => {
+    const user = userEvent.setup();
+    render(<HistoryManager timeZone={browserTimeZone()} />);
+
+    const card = (await screen.findByRole('heading', { name: 'Ada' })).closest('article');
+    expect(card).not.toBeNull();
+    expect(within(card as HTMLElement).getByText('No finished routine.')).toBeInTheDocument();
+    expect(within(card as HTMLElement).getByText(/Longest: 🪥 Brush Teeth \(07:00\)/)).toBeInTheDocument();
+
+    const row = screen.getByRole('button', { name: /Ada · Morning Blast/ });
+    expect(row).toHaveAttribute('aria-expanded', 'false');
+    await user.click(row);
+
+    expect(row).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByRole('cell', { name: '03:00' })).toBeInTheDocument();
+  });
+
+  it('follows the household language, medal names included', async () => {
+    render(
+      <I18nProvider language="da-DK">
+        <HistoryManager timeZone={browserTimeZone()} />
+      </I18nProvider>
+    );
+
+    const card = (await screen.findByRole('heading', { name: 'Ada' })).closest('article');
+    expect(within(card as HTMLElement).getByText('Ingen afsluttet rutine.')).toBeInTheDocument();
+    expect(within(card as HTMLElement).getByText('🥈 Sølv')).toBeInTheDocument();
+    expect(within(card as HTMLElement).getByText('10.00 mod 8 min forventet')).toBeInTheDocument();
+  });
+
+  it('asks for today and yesterday as the household counts them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 00:30 on 2 January in Copenhagen, while UTC is still on 1 January.
+    vi.setSystemTime(new Date('2025-01-01T23:30:00.000Z'));
+
+    render(<HistoryManager timeZone="Europe/Copenhagen" />);
+
+    await screen.findByRole('heading', { name: 'Ada' });
+    expect(window.fetch).toHaveBeenCalledWith('/api/sessions/history?from=2025-01-01&to=2025-01-02&limit=100');
+  });
+});
@@ -0,0 +1,235 @@
+import type { Child, SessionHistoryEntry, SessionHistoryTask } from '@shared/schemas';
+import type { FC } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { type Translator, useI18n } from '../../i18n';
+import { formatSeconds, medalEmoji, previousIsoDate, toZonedIsoDate } from '../../utils/format';
+
+const RECENT_LIMIT = 14;
+
+const findLongestTask = (entry: SessionHistoryEntry): SessionHistoryTask | null =>
+  entry.tasks.reduce<SessionHistoryTask | null>((longest, task) => {
+    if (task.durationSeconds === null) {
+      return longest;
+    }
+    if (!longest || task.durationSeconds > (longest.durationSeconds ?? 0)) {
+      return task;
+    }
+    return longest;
+  }, null);
+
+const describeTotal = (entry: SessionHistoryEntry, { t, language }: Translator) =>
+  t('history.total', {
+    took: entry.durationSeconds !== null ? formatSeconds(entry.durationSeconds, language) : '–',
+    minutes: Math.round(entry.expectedTotalMinutes)
+  });
+
+const describeMedal = (entry: SessionHistoryEntry, { t }: Translator) =>
+  entry.medal ? `${medalEmoji[entry.medal]} ${t(`medal.${entry.medal}`)}` : null;
+
+type DaySummaryProps = {
+  label: string;
+  entry: SessionHistoryEntry | undefined;
+};
+
+const DaySummary: FC<DaySummaryProps> = ({ label, entry }) => {
+  const translator = useI18n();
+  const { t, language } = translator;
+
+  if (!entry) {
+    return (
+      <div className="rounded-xl bg-slate-950/40 p-4">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</p>
+        <p className="mt-2 text-sm text-slate-500">{t('history.noRoutine')}</p>
+      </div>
+    );
+  }
+
+  const longestTask = findLongestTask(entry);
+
+  return (
+    <div className="rounded-xl bg-slate-950/40 p-4">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="mt-2 text-lg font-semibold text-slate-100">
+        {describeMedal(entry, translator) ?? t('history.noMedal')}
+      </p>
+      <p className="text-sm text-slate-300">{describeTotal(entry, translator)}</p>
+      <p className="mt-1 text-xs text-slate-400">
+        {longestTask
+          ? t('history.longest', {
+              task: `${longestTask.emoji ? `${longestTask.emoji} ` : ''}${longestTask.title}`,
+              time: formatSeconds(longestTask.durationSeconds ?? 0, language)
+            })
+          : t('history.noTimedTasks')}
+      </p>
+    </div>
+  );
+};
+
+type HistoryManagerProps = {
+  timeZone: string;
+};
+
+export const HistoryManager: FC<HistoryManagerProps> = ({ timeZone }) => {
+  const translator = useI18n();
+  const { t, language } = translator;
+  const [children, setChildren] = useState<Child[]>([]);
+  const [recentSessions, setRecentSessions] = useState<SessionHistoryEntry[]>([]);
+  const [recentDays, setRecentDays] = useState<SessionHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { today, yesterday } = useMemo(() => {
+    const current = toZonedIsoDate(new Date(), timeZone);
+    return { today: current, yesterday: previousIsoDate(current) };
+  }, [timeZone]);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [childrenResponse, recentResponse, daysResponse] = await Promise.all([
+        fetch('/api/children'),
+        fetch(`/api/sessions/history?limit=${RECENT_LIMIT}`),
+        fetch(`/api/sessions/history?from=${yesterday}&to=${today}&limit=100`)
+      ]);
+
+      if (!childrenResponse.ok || !recentResponse.ok || !daysResponse.ok) {
+        throw new Error('Failed to load history');
+      }
+
+      const childrenData = (await childrenResponse.json()) as { children: Child[] };
+      const recentData = (await recentResponse.json()) as { sessions: SessionHistoryEntry[] };
+      const daysData = (await daysResponse.json()) as { sessions: SessionHistoryEntry[] };
+
+      setChildren(childrenData.children);
+      setRecentSessions(recentData.sessions);
+      setRecentDays(daysData.sessions);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('history.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t, today, yesterday]);
+
+  useEffect(() => {
+    void fetchHistory();
+  }, [fetchHistory]);
+
+  const latestByChildAndDay = useMemo(() => {
+    const lookup = new Map<string, SessionHistoryEntry>();
+    // Entries arrive newest first, so the first match per child/day wins.
+    recentDays.forEach((entry) => {
+      const key = `${entry.child.id}:${toZonedIsoDate(new Date(entry.plannedStartAt), timeZone)}`;
+      if (!lookup.has(key)) {
+        lookup.set(key, entry);
+      }
+    });
+    return lookup;
+  }, [recentDays, timeZone]);
+
+  const activeChildren = useMemo(() => children.filter((child) => child.active), [children]);
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <header className="mb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold">{t('history.title')}</h2>
+            <p className="text-sm text-slate-400">{t('history.subtitle')}</p>
+          </div>
+          {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
+        </header>
+        {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
+        <h3 className="mb-3 text-xl font-semibold">{t('history.yesterdayAndToday')}</h3>
+        {activeChildren.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('history.noChildren')}
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {activeChildren.map((child) => (
+              <article key={child.id} className="rounded-xl border border-slate-800 bg-slate-900/60 p-5">
+                <h4 className="text-lg font-semibold text-slate-100">{child.firstName}</h4>
+                <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                  <DaySummary
+                    label={t('history.yesterday')}
+                    entry={latestByChildAndDay.get(`${child.id}:${yesterday}`)}
+                  />
+                  <DaySummary label={t('history.today')} entry={latestByChildAndDay.get(`${child.id}:${today}`)} />
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <h3 className="mb-3 text-xl font-semibold">{t('history.recent', { count: RECENT_LIMIT })}</h3>
+        {recentSessions.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('history.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {recentSessions.map((entry) => {
+              const expanded = expandedId === entry.id;
+              return (
+                <li key={entry.id} className="rounded-xl bg-slate-950/40">
+                  <button
+                    type="button"
+                    aria-expanded={expanded}
+                    onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    className="flex w-full flex-wrap items-center justify-between gap-3 rounded-xl px-5 py-4 text-left transition hover:bg-slate-800/60"
+                  >
+                    <span>
+                      <span className="block text-base font-semibold text-slate-100">
+                        {entry.child.firstName} · {entry.templateName}
+                      </span>
+                      <span className="block text-xs text-slate-400">
+                        {new Date(entry.plannedStartAt).toLocaleDateString(language)}
+                      </span>
+                    </span>
+                    <span className="text-sm text-slate-300">{describeTotal(entry, translator)}</span>
+                    <span className="text-lg">{describeMedal(entry, translator) ?? '–'}</span>
+                  </button>
+                  {expanded ? (
+                    <table className="mx-5 mb-4 w-[calc(100%-2.5rem)] text-left text-sm text-slate-300">
+                      <thead>
+                        <tr className="text-xs uppercase tracking-wide text-slate-500">
+                          <th className="py-1 font-semibold">{t('history.task')}</th>
+                          <th className="py-1 font-semibold">{t('history.took')}</th>
+                          <th className="py-1 font-semibold">{t('history.expected')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {entry.tasks.map((task) => (
+                          <tr key={task.id} className="border-t border-slate-800">
+                            <td className="py-2">
+                              {task.emoji ? `${task.emoji} ` : ''}
+                              {task.title}
+                            </td>
+                            <td className="py-2">
+                              {task.skipped
+                                ? t('history.skipped')
+                                : task.durationSeconds !== null
+                                  ? formatSeconds(task.durationSeconds, language)
+                                  : '–'}
+                            </td>
+                            <td className="py-2">{t('history.minutes', { minutes: task.expectedMinutes })}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
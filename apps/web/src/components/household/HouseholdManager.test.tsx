@@ -0,0 +1,81 @@
+import type { DeviceToken } from '@shared/schemas';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HouseholdManager } from './HouseholdManager';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const parent = {
+  id: 'ckparent0000000000000000',
+  email: 'first@example.com',
+  householdId: 'ckhousehold0000000000000',
+  householdName: 'Jensen',
+  hasPin: true
+};
+
+describe('HouseholdManager', () => {
+  let deviceTokens: DeviceToken[];
+
+  beforeEach(() => {
+    deviceTokens = [];
+    vi.spyOn(window, 'fetch').mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.endsWith('/api/auth/parents')) {
+        return jsonResponse({ parents: [parent] });
+      }
+      if (url.endsWith('/api/auth/invites') && init?.method === 'POST') {
+        const now = new Date().toISOString();
+        return jsonResponse({ invite: { id: 'invite-1', expiresAt: now, createdAt: now }, token: 'invite-secret' }, 201);
+      }
+      if (url.endsWith('/api/auth/device-tokens') && init?.method === 'POST') {
+        const { label } = JSON.parse(String(init.body)) as { label: string };
+        const deviceToken = { id: 'device-1', label, lastUsedAt: null, createdAt: new Date().toISOString() };
+        deviceTokens = [deviceToken];
+        return jsonResponse({ deviceToken, token: 'device-secret' }, 201);
+      }
+      if (url.endsWith('/api/auth/device-tokens')) {
+        return jsonResponse({ deviceTokens });
+      }
+      if (url.endsWith('/api/auth/device-tokens/device-1') && init?.method === 'DELETE') {
+        return Promise.resolve({ ok: true, status: 204 } as Response);
+      }
+      return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('issues an invite link for a second parent', async () => {
+    const user = userEvent.setup();
+    render(<HouseholdManager />);
+
+    expect(await screen.findByText('first@example.com')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Invite a parent' }));
+
+    expect(await screen.findByDisplayValue(`${window.location.origin}/?invite=invite-secret`)).toBeInTheDocument();
+  });
+
+  it('pairs a Kid Mode device with a one-time link and unpairs it again', async () => {
+    const user = userEvent.setup();
+    render(<HouseholdManager />);
+
+    await user.type(await screen.findByLabelText('Device name'), 'Kitchen tablet');
+    await user.click(screen.getByRole('button', { name: 'Pair device' }));
+
+    expect(await screen.findByDisplayValue(`${window.location.origin}/?pair=device-secret`)).toBeInTheDocument();
+    expect(screen.getByText('Kitchen tablet')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Unpair' }));
+    expect(await screen.findByText('No devices paired yet.')).toBeInTheDocument();
+  });
+});
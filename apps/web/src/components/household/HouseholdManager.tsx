@@ -0,0 +1,213 @@
+import type { DeviceToken, Parent, ParentInvite } from '@shared/schemas';
+import type { FC, FormEvent } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { useI18n } from '../../i18n';
+import { buildPairingLink } from '../../utils/deviceAuth';
+
+const buildInviteLink = (token: string) => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+
+type IssuedLink = {
+  url: string;
+  expiresAt?: string;
+};
+
+const LinkNotice: FC<{ link: IssuedLink; hint: string }> = ({ link, hint }) => (
+  <div className="mt-4 rounded-xl border border-emerald-500/30 bg-slate-950/60 p-4 text-sm text-emerald-100">
+    <p>{hint}</p>
+    <input
+      readOnly
+      value={link.url}
+      onFocus={(event) => event.target.select()}
+      className="mt-2 w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs text-slate-50"
+    />
+  </div>
+);
+
+export const HouseholdManager: FC = () => {
+  const { t, language } = useI18n();
+  const [parents, setParents] = useState<Parent[]>([]);
+  const [deviceTokens, setDeviceTokens] = useState<DeviceToken[]>([]);
+  const [deviceLabel, setDeviceLabel] = useState('');
+  const [inviteLink, setInviteLink] = useState<IssuedLink | null>(null);
+  const [pairingLink, setPairingLink] = useState<IssuedLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [parentsResponse, devicesResponse] = await Promise.all([
+        fetch('/api/auth/parents'),
+        fetch('/api/auth/device-tokens')
+      ]);
+      if (!parentsResponse.ok || !devicesResponse.ok) {
+        throw new Error('Failed to load household');
+      }
+      const parentsData = (await parentsResponse.json()) as { parents: Parent[] };
+      const devicesData = (await devicesResponse.json()) as { deviceTokens: DeviceToken[] };
+      setParents(parentsData.parents);
+      setDeviceTokens(devicesData.deviceTokens);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('household.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleInvite = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/invites', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to create invite');
+      }
+      const data = (await response.json()) as { invite: ParentInvite; token: string };
+      setInviteLink({ url: buildInviteLink(data.token), expiresAt: data.invite.expiresAt });
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('household.inviteError'));
+    }
+  }, [t]);
+
+  const handlePair = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      try {
+        const response = await fetch('/api/auth/device-tokens', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ label: deviceLabel })
+        });
+        if (!response.ok) {
+          throw new Error('Failed to create device token');
+        }
+        const data = (await response.json()) as { deviceToken: DeviceToken; token: string };
+        setPairingLink({ url: buildPairingLink(data.token) });
+        setDeviceTokens((current) => [...current, data.deviceToken]);
+        setDeviceLabel('');
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(t('household.pairError'));
+      }
+    },
+    [deviceLabel, t]
+  );
+
+  const handleRevoke = useCallback(
+    async (deviceTokenId: string) => {
+      try {
+        const response = await fetch(`/api/auth/device-tokens/${deviceTokenId}`, { method: 'DELETE' });
+        if (!response.ok) {
+          throw new Error('Failed to revoke device');
+        }
+        setDeviceTokens((current) => current.filter((deviceToken) => deviceToken.id !== deviceTokenId));
+      } catch (err) {
+        console.error(err);
+        setError(t('household.revokeError'));
+      }
+    },
+    [t]
+  );
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <header className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-2xl font-semibold">{t('household.parentsTitle')}</h2>
+            <p className="text-sm text-slate-400">{t('household.parentsSubtitle')}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
+            <button
+              type="button"
+              onClick={() => void handleInvite()}
+              className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-400"
+            >
+              {t('household.invite')}
+            </button>
+          </div>
+        </header>
+        {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
+        <ul className="space-y-2">
+          {parents.map((parent) => (
+            <li key={parent.id} className="rounded-xl bg-slate-950/40 px-4 py-3 text-sm text-slate-200">
+              {parent.email}
+            </li>
+          ))}
+        </ul>
+        {inviteLink ? (
+          <LinkNotice
+            link={inviteLink}
+            hint={t('household.inviteHint', {
+              date: inviteLink.expiresAt ? new Date(inviteLink.expiresAt).toLocaleDateString(language) : ''
+            })}
+          />
+        ) : null}
+      </section>
+
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <h3 className="mb-1 text-xl font-semibold">{t('household.devicesTitle')}</h3>
+        <p className="mb-4 text-sm text-slate-400">{t('household.devicesSubtitle')}</p>
+        <form onSubmit={handlePair} className="mb-4 flex flex-wrap items-end gap-3">
+          <label className="flex flex-1 flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('household.deviceLabel')}</span>
+            <input
+              type="text"
+              value={deviceLabel}
+              onChange={(event) => setDeviceLabel(event.target.value)}
+              placeholder={t('household.deviceLabelPlaceholder')}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={!deviceLabel.trim()}
+            className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-400 disabled:opacity-60"
+          >
+            {t('household.pair')}
+          </button>
+        </form>
+        {pairingLink ? <LinkNotice link={pairingLink} hint={t('household.pairHint')} /> : null}
+        {deviceTokens.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('household.noDevices')}
+          </p>
+        ) : (
+          <ul className="mt-4 space-y-2">
+            {deviceTokens.map((deviceToken) => (
+              <li
+                key={deviceToken.id}
+                className="flex items-center justify-between gap-3 rounded-xl bg-slate-950/40 px-4 py-3 text-sm text-slate-300"
+              >
+                <span>
+                  <span className="block font-semibold text-slate-100">{deviceToken.label}</span>
+                  <span className="text-xs text-slate-500">
+                    {deviceToken.lastUsedAt
+                      ? t('household.lastUsed', { date: new Date(deviceToken.lastUsedAt).toLocaleString(language) })
+                      : t('household.neverUsed')}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleRevoke(deviceToken.id)}
+                  className="rounded-lg border border-slate-600 px-3 py-1 text-sm font-semibold text-slate-100 transition hover:border-rose-400"
+                >
+                  {t('household.revoke')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import type { BlockedPhrase, MessageLogEntry } from '@shared/schemas';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MessageLogManager } from './MessageLogManager';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const createEntry = (id: string, text: string, overrides: Partial<MessageLogEntry> = {}): MessageLogEntry => ({
+  id,
+  sessionId: 'session-1',
+  sessionTaskId: 'task-1',
+  childFirstName: 'Ada',
+  templateName: 'Morning Blast',
+  type: 'completion',
+  source: 'llm',
+  language: 'en-US',
+  latencyMs: 420,
+  text,
+  blocked: false,
+  createdAt: new Date().toISOString(),
+  ...overrides
+});
+
+describe('MessageLogManager', () => {
+  let entries: MessageLogEntry[];
+  let blockedPhrases: BlockedPhrase[];
+
+  beforeEach(() => {
+    entries = [
+      createEntry('entry-2', 'Great job, Ada! Next is Get Dressed!'),
+      createEntry('entry-1', 'Let’s go, Ada!', { type: 'nudge', source: 'snippet', latencyMs: 3 })
+    ];
+    blockedPhrases = [];
+
+    vi.spyOn(window, 'fetch').mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.endsWith('/api/children')) {
+        return jsonResponse({ children: [] });
+      }
+      if (url.endsWith('/api/message-log/entry-2/block') && init?.method === 'POST') {
+        entries = entries.map((entry) => (entry.id === 'entry-2' ? { ...entry, blocked: true } : entry));
+        const phrase = { id: 'phrase-1', text: entries[0].text, createdAt: new Date().toISOString() };
+        blockedPhrases = [phrase];
+        return jsonResponse({ blockedPhrase: phrase }, 201);
+      }
+      if (url.endsWith('/api/message-log/blocked')) {
+        return jsonResponse({ blockedPhrases });
+      }
+      if (url.startsWith('/api/message-log')) {
+        return jsonResponse({ entries, nextCursor: null });
+      }
+      return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('groups messages by session and blocks a phrase on request', async () => {
+    const user = userEvent.setup();
+    render(<MessageLogManager />);
+
+    expect(await screen.findByRole('heading', { name: 'Ada · Morning Blast' })).toBeInTheDocument();
+    expect(screen.getByText('Snippet')).toBeInTheDocument();
+    expect(screen.getByText('420 ms')).toBeInTheDocument();
+    expect(screen.getByText('Nothing blocked yet.')).toBeInTheDocument();
+
+    const [blockButton] = screen.getAllByRole('button', { name: 'Never say this again' });
+    await user.click(blockButton);
+
+    expect(await screen.findByRole('button', { name: 'Blocked' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Allow again' })).toBeInTheDocument();
+  });
+});
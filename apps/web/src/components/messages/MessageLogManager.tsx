@@ -0,0 +1,276 @@
+import type { BlockedPhrase, Child, MessageLogEntry, MessageLogResponse } from '@shared/schemas';
+import type { FC } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { type MessageKey, useI18n } from '../../i18n';
+
+const typeLabel: Record<MessageLogEntry['type'], MessageKey> = {
+  session_start: 'coachLog.typeSessionStart',
+  completion: 'coachLog.typeCompletion',
+  nudge: 'coachLog.typeNudge'
+};
+
+const sourceLabel: Record<MessageLogEntry['source'], MessageKey> = {
+  snippet: 'coachLog.sourceSnippet',
+  llm: 'coachLog.sourceLlm',
+  fallback: 'coachLog.sourceFallback',
+  fake: 'coachLog.sourceFake'
+};
+
+const Badge: FC<{ children: string }> = ({ children }) => (
+  <span className="rounded-full bg-slate-800 px-2 py-0.5 text-xs font-semibold text-slate-300">{children}</span>
+);
+
+type SessionGroup = {
+  sessionId: string;
+  childFirstName: string;
+  templateName: string;
+  entries: MessageLogEntry[];
+};
+
+export const MessageLogManager: FC = () => {
+  const { t, language } = useI18n();
+  const [children, setChildren] = useState<Child[]>([]);
+  const [childId, setChildId] = useState('');
+  const [entries, setEntries] = useState<MessageLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [blockedPhrases, setBlockedPhrases] = useState<BlockedPhrase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(
+    async (cursor: string | null) => {
+      const params = new URLSearchParams();
+      if (childId) params.set('childId', childId);
+      if (cursor) params.set('cursor', cursor);
+      const query = params.toString();
+      const response = await fetch(`/api/message-log${query ? `?${query}` : ''}`);
+      if (!response.ok) {
+        throw new Error('Failed to load message log');
+      }
+      return (await response.json()) as MessageLogResponse;
+    },
+    [childId]
+  );
+
+  const fetchBlockedPhrases = useCallback(async () => {
+    const response = await fetch('/api/message-log/blocked');
+    if (!response.ok) {
+      throw new Error('Failed to load blocked phrases');
+    }
+    const data = (await response.json()) as { blockedPhrases: BlockedPhrase[] };
+    setBlockedPhrases(data.blockedPhrases);
+  }, []);
+
+  useEffect(() => {
+    const loadChildren = async () => {
+      try {
+        const response = await fetch('/api/children');
+        if (!response.ok) {
+          throw new Error('Failed to load children');
+        }
+        const data = (await response.json()) as { children: Child[] };
+        setChildren(data.children);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    void loadChildren();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [data] = await Promise.all([fetchEntries(null), fetchBlockedPhrases()]);
+      setEntries(data.entries);
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('coachLog.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchBlockedPhrases, fetchEntries, t]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    try {
+      setLoading(true);
+      const data = await fetchEntries(nextCursor);
+      setEntries((current) => [...current, ...data.entries]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error(err);
+      setError(t('coachLog.loadMoreError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchEntries, nextCursor, t]);
+
+  const handleBlock = useCallback(
+    async (entryId: string) => {
+      try {
+        const response = await fetch(`/api/message-log/${entryId}/block`, { method: 'POST' });
+        if (!response.ok) {
+          throw new Error('Failed to block message');
+        }
+        await refresh();
+      } catch (err) {
+        console.error(err);
+        setError(t('coachLog.blockError'));
+      }
+    },
+    [refresh, t]
+  );
+
+  const handleAllow = useCallback(
+    async (phraseId: string) => {
+      try {
+        const response = await fetch(`/api/message-log/blocked/${phraseId}`, { method: 'DELETE' });
+        if (!response.ok) {
+          throw new Error('Failed to allow phrase');
+        }
+        await refresh();
+      } catch (err) {
+        console.error(err);
+        setError(t('coachLog.allowError'));
+      }
+    },
+    [refresh, t]
+  );
+
+  const sessions = useMemo(() => {
+    const groups: SessionGroup[] = [];
+    const lookup = new Map<string, SessionGroup>();
+    entries.forEach((entry) => {
+      let group = lookup.get(entry.sessionId);
+      if (!group) {
+        group = {
+          sessionId: entry.sessionId,
+          childFirstName: entry.childFirstName,
+          templateName: entry.templateName,
+          entries: []
+        };
+        lookup.set(entry.sessionId, group);
+        groups.push(group);
+      }
+      group.entries.push(entry);
+    });
+    return groups;
+  }, [entries]);
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <header className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-2xl font-semibold">{t('coachLog.title')}</h2>
+            <p className="text-sm text-slate-400">{t('coachLog.subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
+            <label className="flex items-center gap-2 text-sm">
+              <span className="text-slate-300">{t('coachLog.child')}</span>
+              <select
+                value={childId}
+                onChange={(event) => setChildId(event.target.value)}
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 focus:border-emerald-400 focus:outline-none"
+              >
+                <option value="">{t('coachLog.allChildren')}</option>
+                {children.map((child) => (
+                  <option key={child.id} value={child.id}>
+                    {child.firstName}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </header>
+        {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
+        {sessions.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('coachLog.empty')}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {sessions.map((group) => (
+              <article key={group.sessionId} className="rounded-xl bg-slate-950/40 p-5">
+                <h3 className="mb-3 text-lg font-semibold text-slate-100">
+                  {group.childFirstName} · {group.templateName}
+                </h3>
+                <ul className="space-y-3">
+                  {group.entries.map((entry) => (
+                    <li key={entry.id} className="flex flex-wrap items-start justify-between gap-3 border-t border-slate-800 pt-3">
+                      <div className="min-w-0 flex-1">
+                        <p className={entry.blocked ? 'text-slate-500 line-through' : 'text-slate-100'}>{entry.text}</p>
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                          <span className="text-xs text-slate-500">
+                            {new Date(entry.createdAt).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                          <Badge>{t(typeLabel[entry.type])}</Badge>
+                          <Badge>{t(sourceLabel[entry.source])}</Badge>
+                          <Badge>{entry.language}</Badge>
+                          <Badge>{`${entry.latencyMs} ms`}</Badge>
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleBlock(entry.id)}
+                        disabled={entry.blocked}
+                        className="rounded-lg border border-slate-600 px-3 py-1 text-sm font-semibold text-slate-100 transition hover:border-rose-400 disabled:border-slate-800 disabled:text-slate-500"
+                      >
+                        {entry.blocked ? t('coachLog.blocked') : t('coachLog.block')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </article>
+            ))}
+            {nextCursor ? (
+              <button
+                type="button"
+                onClick={handleLoadMore}
+                className="rounded-lg bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:bg-slate-700"
+              >
+                {t('coachLog.loadMore')}
+              </button>
+            ) : null}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
+        <h3 className="mb-1 text-xl font-semibold">{t('coachLog.blockedTitle')}</h3>
+        <p className="mb-4 text-sm text-slate-400">{t('coachLog.blockedSubtitle')}</p>
+        {blockedPhrases.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('coachLog.noBlocked')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {blockedPhrases.map((phrase) => (
+              <li
+                key={phrase.id}
+                className="flex items-center justify-between gap-3 rounded-xl bg-slate-950/40 px-4 py-3 text-sm text-slate-300"
+              >
+                <span>{phrase.text}</span>
+                <button
+                  type="button"
+                  onClick={() => handleAllow(phrase.id)}
+                  className="rounded-lg border border-slate-600 px-3 py-1 text-sm font-semibold text-slate-100 transition hover:border-emerald-400"
+                >
+                  {t('coachLog.allow')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
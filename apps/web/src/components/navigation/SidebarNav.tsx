@@ -1,12 +1,17 @@
 import type { FC } from 'react';
 
-export type NavKey = 'children' | 'templates' | 'today' | 'history';
+import { type MessageKey, useI18n } from '../../i18n';
 
-const NAV_ITEMS: Array<{ key: NavKey; label: string; enabled: boolean }> = [
-  { key: 'children', label: 'Children', enabled: true },
-  { key: 'templates', label: 'Templates', enabled: true },
-  { key: 'today', label: 'Today', enabled: true },
-  { key: 'history', label: 'History', enabled: false }
+export type NavKey = 'children' | 'templates' | 'calendar' | 'today' | 'history' | 'messages' | 'household';
+
+const NAV_ITEMS: Array<{ key: NavKey; labelKey: MessageKey; enabled: boolean }> = [
+  { key: 'children', labelKey: 'nav.children', enabled: true },
+  { key: 'templates', labelKey: 'nav.templates', enabled: true },
+  { key: 'calendar', labelKey: 'nav.calendar', enabled: true },
+  { key: 'today', labelKey: 'nav.today', enabled: true },
+  { key: 'history', labelKey: 'nav.history', enabled: true },
+  { key: 'messages', labelKey: 'nav.messages', enabled: true },
+  { key: 'household', labelKey: 'nav.household', enabled: true }
 ];
 
 type SidebarNavProps = {
@@ -14,31 +19,35 @@ type SidebarNavProps = {
   onSelect: (key: NavKey) => void;
 };
 
-export const SidebarNav: FC<SidebarNavProps> = ({ activeKey, onSelect }) => (
-  <nav className="flex flex-col gap-2">
-    {NAV_ITEMS.map((item) => {
-      const isActive = activeKey === item.key;
-      const baseClasses =
-        'rounded-lg px-4 py-3 text-left text-lg font-medium transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-400';
-      const enabledClasses = isActive
-        ? 'bg-emerald-500 text-slate-900 shadow'
-        : 'bg-slate-800 text-slate-100 hover:bg-slate-700';
-      const disabledClasses = 'cursor-not-allowed bg-slate-900 text-slate-600';
-
-      return (
-        <button
-          key={item.key}
-          type="button"
-          disabled={!item.enabled}
-          onClick={() => item.enabled && onSelect(item.key)}
-          className={`${baseClasses} ${item.enabled ? enabledClasses : disabledClasses}`}
-        >
-          {item.label}
-          {!item.enabled && <span className="ml-2 text-xs uppercase">(coming soon)</span>}
-        </button>
-      );
-    })}
-  </nav>
-);
+export const SidebarNav: FC<SidebarNavProps> = ({ activeKey, onSelect }) => {
+  const { t } = useI18n();
+
+  return (
+    <nav className="flex flex-col gap-2">
+      {NAV_ITEMS.map((item) => {
+        const isActive = activeKey === item.key;
+        const baseClasses =
+          'rounded-lg px-4 py-3 text-left text-lg font-medium transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-400';
+        const enabledClasses = isActive
+          ? 'bg-emerald-500 text-slate-900 shadow'
+          : 'bg-slate-800 text-slate-100 hover:bg-slate-700';
+        const disabledClasses = 'cursor-not-allowed bg-slate-900 text-slate-600';
+
+        return (
+          <button
+            key={item.key}
+            type="button"
+            disabled={!item.enabled}
+            onClick={() => item.enabled && onSelect(item.key)}
+            className={`${baseClasses} ${item.enabled ? enabledClasses : disabledClasses}`}
+          >
+            {t(item.labelKey)}
+            {!item.enabled && <span className="ml-2 text-xs uppercase">{t('nav.comingSoon')}</span>}
+          </button>
+        );
+      })}
+    </nav>
+  );
+};
 
 export const getInitialNavKey = (): NavKey => 'children';
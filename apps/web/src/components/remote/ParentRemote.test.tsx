@@ -0,0 +1,195 @@
+import type { Child, Session } from '@shared/schemas';
+import { act, cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { SessionStreamEvent } from '../../types/session';
+import { ParentRemote } from './ParentRemote';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const child: Child = {
+  id: 'child-1',
+  firstName: 'Ada',
+  birthdate: '2015-04-03',
+  active: true,
+  defaultTemplateId: null,
+  createdAt: new Date().toISOString()
+};
+
+const createSession = (): Session => {
+  const start = new Date();
+  return {
+    id: 'session-1',
+    childId: child.id,
+    allowSkip: false,
+    plannedStartAt: start.toISOString(),
+    plannedEndAt: new Date(start.getTime() + 30 * 60 * 1000).toISOString(),
+    actualStartAt: start.toISOString(),
+    actualEndAt: null,
+    expectedTotalMinutes: 8,
+    medal: null,
+    templateSnapshot: {
+      templateId: 'template-1',
+      name: 'Morning Blast',
+      defaultStartTime: '07:00',
+      defaultEndTime: '07:30',
+      tasks: [
+        { title: 'Brush Teeth', emoji: '🪥', expectedMinutes: 3, orderIndex: 0 },
+        { title: 'Get Dressed', expectedMinutes: 5, orderIndex: 1 }
+      ],
+      expectedTotalMinutes: 8
+    },
+    tasks: [
+      {
+        id: 'session-1-task-0',
+        title: 'Brush Teeth',
+        emoji: '🪥',
+        expectedMinutes: 3,
+        completedAt: null,
+        skipped: false,
+        skippedAt: null,
+        orderIndex: 0
+      },
+      {
+        id: 'session-1-task-1',
+        title: 'Get Dressed',
+        expectedMinutes: 5,
+        completedAt: null,
+        skipped: false,
+        skippedAt: null,
+        orderIndex: 1
+      }
+    ]
+  };
+};
+
+describe('ParentRemote', () => {
+  let session: Session;
+  let active: boolean;
+  let streams: Array<{ onmessage: ((message: MessageEvent<string>) => void) | null }>;
+  let fetchMock: vi.SpiedFunction<typeof window.fetch>;
+
+  const emit = (event: SessionStreamEvent) =>
+    act(() => {
+      streams[0].onmessage?.({ data: JSON.stringify(event) } as MessageEvent<string>);
+    });
+
+  beforeEach(() => {
+    session = createSession();
+    active = true;
+    streams = [];
+
+    vi.stubGlobal(
+      'EventSource',
+      class {
+        onmessage: ((message: MessageEvent<string>) => void) | null = null;
+
+        constructor() {
+          streams.push(this);
+        }
+
+        close() {}
+      }
+    );
+
+    fetchMock = vi
+      .spyOn(window, 'fetch')
+      .mockImplementation(async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = typeof input === 'string' ? input : input.toString();
+        const method = (init?.method ?? 'GET').toUpperCase();
+
+        if (url.endsWith('/api/sessions/active') && method === 'GET') {
+          return jsonResponse({ sessions: active ? [{ session, child }] : [] });
+        }
+
+        const completeMatch = url.match(/\/task\/(\d+)\/complete$/);
+        if (completeMatch && method === 'POST') {
+          const body = JSON.parse(init?.body as string) as { skipped: boolean };
+          const index = Number(completeMatch[1]);
+          const now = new Date().toISOString();
+          session = {
+            ...session,
+            tasks: session.tasks.map((task, taskIndex) =>
+              taskIndex === index
+                ? { ...task, skipped: body.skipped, completedAt: body.skipped ? null : now }
+                : task
+            )
+          };
+          return jsonResponse({ session });
+        }
+
+        if (url.endsWith('/finish') && method === 'POST') {
+          session = { ...session, medal: 'silver', actualEndAt: new Date().toISOString() };
+          active = false;
+          return jsonResponse({ session });
+        }
+
+        if (url.endsWith('/encourage') && method === 'POST') {
+          return jsonResponse({ sessionTaskId: session.tasks[0].id }, 202);
+        }
+
+        return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+      });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('completes tasks and sends encouragement on a child\'s behalf while following the stream', async () => {
+    const user = userEvent.setup();
+    render(<ParentRemote />);
+
+    const card = (await screen.findByRole('heading', { name: 'Ada' })).closest('article') as HTMLElement;
+    expect(within(card).getByText('🪥 Brush Teeth')).toBeInTheDocument();
+
+    await user.click(within(card).getByRole('button', { name: 'Encourage' }));
+    expect(await within(card).findByText("Encouragement sent to Ada's board.")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/sessions/session-1/encourage', { method: 'POST' });
+
+    await user.click(within(card).getByRole('button', { name: 'Complete' }));
+    expect(await within(card).findByText('Get Dressed')).toBeInTheDocument();
+    expect(within(card).getByText('1 / 2')).toBeInTheDocument();
+
+    emit({
+      type: 'telemetry',
+      sessionId: session.id,
+      telemetry: {
+        urgencyLevel: 1,
+        timeRemainingMinutes: 18,
+        paceDelta: 0,
+        sessionEndsAt: session.plannedEndAt,
+        nudges: [],
+        currentTask: null,
+        nextTask: null
+      }
+    });
+    expect(await within(card).findByText('L1 · 18m left')).toBeInTheDocument();
+
+    await user.click(within(card).getByRole('button', { name: 'Skip' }));
+    expect(await within(card).findByText(/Silver medal earned/)).toBeInTheDocument();
+  });
+
+  it('ends every session after a second tap', async () => {
+    const user = userEvent.setup();
+    render(<ParentRemote />);
+
+    await screen.findByRole('heading', { name: 'Ada' });
+    await user.click(screen.getByRole('button', { name: 'End all sessions' }));
+    expect(fetchMock.mock.calls.some(([input]) => String(input).endsWith('/finish'))).toBe(false);
+
+    await user.click(screen.getByRole('button', { name: 'Tap again to end every routine' }));
+
+    await waitFor(() => expect(screen.getByText('No routines are running right now.')).toBeInTheDocument());
+    const skipCalls = fetchMock.mock.calls.filter(([input]) => /task\/\d+\/complete$/.test(String(input)));
+    expect(skipCalls).toHaveLength(2);
+  });
+});
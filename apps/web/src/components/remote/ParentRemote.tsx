@@ -0,0 +1,322 @@
+import type { Child, Session } from '@shared/schemas';
+import type { FC } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { I18nProvider, useHouseholdLocale, useI18n } from '../../i18n';
+import type { SessionStreamEvent, SessionTelemetry } from '../../types/session';
+import { medalEmoji } from '../../utils/format';
+import {
+  completeSessionTask,
+  endSessions,
+  finishSessionRequest,
+  requestEncouragement
+} from '../../utils/sessionActions';
+import { useSessionStream } from '../../utils/sessionStream';
+
+type RemoteEntry = {
+  session: Session;
+  child: Child;
+  telemetry: SessionTelemetry | null;
+  pending: boolean;
+  error: string | null;
+  notice: string | null;
+};
+
+export const isParentRemoteView = () =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('view') === 'remote';
+
+const isTaskDone = (task: Session['tasks'][number]) => Boolean(task.completedAt || task.skipped);
+
+const createEntry = (session: Session, child: Child): RemoteEntry => ({
+  session,
+  child,
+  telemetry: null,
+  pending: false,
+  error: null,
+  notice: null
+});
+
+type RemoteSessionCardProps = {
+  entry: RemoteEntry;
+  onComplete: () => void;
+  onSkip: () => void;
+  onEncourage: () => void;
+};
+
+const RemoteSessionCard: FC<RemoteSessionCardProps> = ({ entry, onComplete, onSkip, onEncourage }) => {
+  const { t } = useI18n();
+  const { session, child, telemetry, pending, error, notice } = entry;
+  const currentTask = session.tasks.find((task) => !isTaskDone(task));
+  const doneCount = session.tasks.filter(isTaskDone).length;
+
+  return (
+    <article className="rounded-2xl border border-slate-800 bg-slate-900/80 p-4 shadow-lg">
+      <header className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">{child.firstName}</h2>
+          <p className="text-xs uppercase tracking-wide text-emerald-300">{session.templateSnapshot.name}</p>
+        </div>
+        <div className="text-right text-sm text-slate-300">
+          <p className="font-semibold text-emerald-200">
+            {doneCount} / {session.tasks.length}
+          </p>
+          <p className="text-xs text-slate-400">
+            {telemetry
+              ? t('remote.status', { level: telemetry.urgencyLevel, minutes: telemetry.timeRemainingMinutes })
+              : t('remote.waiting')}
+          </p>
+        </div>
+      </header>
+
+      {session.medal ? (
+        <p className="mt-4 rounded-xl bg-emerald-500/10 p-3 text-center font-semibold text-emerald-200">
+          {medalEmoji[session.medal]} {t('board.medalEarned', { medal: t(`medal.${session.medal}`) })}
+        </p>
+      ) : currentTask ? (
+        <>
+          <p className="mt-4 text-lg font-semibold text-slate-50">
+            {currentTask.emoji ? `${currentTask.emoji} ` : ''}
+            {currentTask.title}
+          </p>
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={onComplete}
+              disabled={pending}
+              className="rounded-xl bg-emerald-400 px-3 py-3 font-semibold text-slate-950 transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t('remote.complete')}
+            </button>
+            <button
+              type="button"
+              onClick={onSkip}
+              disabled={pending}
+              className="rounded-xl border border-slate-600 px-3 py-3 font-semibold text-slate-100 transition hover:border-slate-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t('remote.skip')}
+            </button>
+            <button
+              type="button"
+              onClick={onEncourage}
+              disabled={pending}
+              className="rounded-xl bg-sky-500/20 px-3 py-3 font-semibold text-sky-100 transition hover:bg-sky-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t('remote.encourage')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="mt-4 text-sm text-slate-300">{t('remote.computingMedal')}</p>
+      )}
+
+      {notice ? <p className="mt-3 text-sm text-emerald-300">{notice}</p> : null}
+      {error ? <p className="mt-3 rounded-lg bg-rose-500/20 p-2 text-sm text-rose-200">{error}</p> : null}
+    </article>
+  );
+};
+
+const ParentRemoteScreen: FC = () => {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<Record<string, RemoteEntry>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingEnd, setConfirmingEnd] = useState(false);
+  const [ending, setEnding] = useState(false);
+
+  const entryList = useMemo(() => Object.values(entries), [entries]);
+
+  const loadActiveSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sessions/active');
+      if (!response.ok) {
+        throw new Error('Failed to load active sessions');
+      }
+      const data = (await response.json()) as { sessions: Array<{ session: Session; child: Child }> };
+      setEntries(
+        Object.fromEntries(data.sessions.map(({ session, child }) => [session.id, createEntry(session, child)]))
+      );
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(t('remote.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    void loadActiveSessions();
+  }, [loadActiveSessions]);
+
+  const updateEntry = useCallback((sessionId: string, patch: Partial<RemoteEntry>) => {
+    setEntries((prev) => {
+      const existing = prev[sessionId];
+      return existing ? { ...prev, [sessionId]: { ...existing, ...patch } } : prev;
+    });
+  }, []);
+
+  const handleStreamEvent = useCallback(
+    (event: SessionStreamEvent) => {
+      switch (event.type) {
+        case 'session.started':
+        case 'session.updated':
+        case 'session.finished':
+          setEntries((prev) => {
+            const existing = prev[event.session.id];
+            if (!existing && event.session.actualEndAt) {
+              return prev;
+            }
+            return {
+              ...prev,
+              [event.session.id]: existing
+                ? { ...existing, session: event.session }
+                : createEntry(event.session, event.child)
+            };
+          });
+          break;
+        case 'telemetry':
+          updateEntry(event.sessionId, { telemetry: event.telemetry });
+          break;
+        default:
+          break;
+      }
+    },
+    [updateEntry]
+  );
+
+  useSessionStream(handleStreamEvent);
+
+  const handleTask = useCallback(
+    async (entry: RemoteEntry, skipped: boolean) => {
+      const sessionId = entry.session.id;
+      const index = entry.session.tasks.findIndex((task) => !isTaskDone(task));
+      if (index === -1) {
+        return;
+      }
+
+      updateEntry(sessionId, { pending: true, error: null, notice: null });
+      try {
+        let session = await completeSessionTask(sessionId, index, skipped);
+        if (session.tasks.every(isTaskDone) && !session.medal) {
+          session = await finishSessionRequest(sessionId);
+        }
+        updateEntry(sessionId, { session, pending: false });
+      } catch (err) {
+        console.error(err);
+        updateEntry(sessionId, {
+          pending: false,
+          error: err instanceof Error ? err.message : t('remote.updateFailed')
+        });
+      }
+    },
+    [t, updateEntry]
+  );
+
+  const handleEncourage = useCallback(
+    async (entry: RemoteEntry) => {
+      const sessionId = entry.session.id;
+      updateEntry(sessionId, { pending: true, error: null, notice: null });
+      try {
+        await requestEncouragement(sessionId);
+        updateEntry(sessionId, {
+          pending: false,
+          notice: t('remote.encouragementSent', { name: entry.child.firstName })
+        });
+      } catch (err) {
+        console.error(err);
+        updateEntry(sessionId, {
+          pending: false,
+          error: err instanceof Error ? err.message : t('remote.encourageFailed')
+        });
+      }
+    },
+    [t, updateEntry]
+  );
+
+  const handleEndAll = useCallback(async () => {
+    if (!confirmingEnd) {
+      setConfirmingEnd(true);
+      return;
+    }
+
+    setConfirmingEnd(false);
+    setEnding(true);
+    setError(null);
+    try {
+      await endSessions(entryList.map((entry) => entry.session));
+      await loadActiveSessions();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : t('remote.endFailed'));
+    } finally {
+      setEnding(false);
+    }
+  }, [confirmingEnd, entryList, loadActiveSessions, t]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 pb-24 pt-6 text-slate-50">
+      <div className="mx-auto flex max-w-md flex-col gap-4">
+        <header className="flex items-start justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">{t('remote.title')}</h1>
+            <p className="text-sm text-slate-400">{t('remote.subtitle')}</p>
+          </div>
+          <a href="/" className="text-sm text-emerald-300 underline-offset-2 hover:underline">
+            {t('remote.fullApp')}
+          </a>
+        </header>
+
+        {loading ? <p className="text-sm text-emerald-400">{t('common.loading')}</p> : null}
+        {error ? <p className="rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p> : null}
+
+        {!loading && entryList.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
+            {t('remote.empty')}
+          </p>
+        ) : null}
+
+        {entryList.map((entry) => (
+          <RemoteSessionCard
+            key={entry.session.id}
+            entry={entry}
+            onComplete={() => void handleTask(entry, false)}
+            onSkip={() => void handleTask(entry, true)}
+            onEncourage={() => void handleEncourage(entry)}
+          />
+        ))}
+
+        {entryList.length > 0 ? (
+          <div className="flex flex-col gap-2">
+            <button
+              type="button"
+              onClick={() => void handleEndAll()}
+              disabled={ending}
+              className="rounded-2xl border-2 border-rose-400/70 px-4 py-3 font-semibold text-rose-100 transition hover:bg-rose-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {ending ? t('today.ending') : confirmingEnd ? t('remote.confirmEnd') : t('today.endAll')}
+            </button>
+            {confirmingEnd ? (
+              <button
+                type="button"
+                onClick={() => setConfirmingEnd(false)}
+                className="text-sm text-slate-400 underline-offset-2 hover:underline"
+              >
+                {t('remote.keepGoing')}
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+// The remote opens outside the main app, so it looks up the household language itself.
+export const ParentRemote: FC = () => {
+  const { language } = useHouseholdLocale();
+  return (
+    <I18nProvider language={language}>
+      <ParentRemoteScreen />
+    </I18nProvider>
+  );
+};
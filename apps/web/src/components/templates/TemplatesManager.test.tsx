@@ -0,0 +1,93 @@
+import type { ExpectedMinutesSuggestion, Template } from '@shared/schemas';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TemplatesManager } from './TemplatesManager';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => data
+  } as Response);
+
+const template: Template = {
+  id: 'template-1',
+  name: 'Morning Blast',
+  defaultStartTime: '07:00',
+  defaultEndTime: '08:00',
+  daysActive: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  tasks: [
+    { id: 'task-1', title: 'Brush Teeth', expectedMinutes: 2, orderIndex: 0 },
+    { id: 'task-2', title: 'Get Dressed', expectedMinutes: 5, orderIndex: 1 }
+  ],
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+const suggestions: ExpectedMinutesSuggestion[] = [
+  { taskId: 'task-1', title: 'Brush Teeth', currentMinutes: 2, suggestedMinutes: 4, sampleSize: 5 },
+  { taskId: 'task-2', title: 'Get Dressed', currentMinutes: 5, suggestedMinutes: 3, sampleSize: 5 }
+];
+
+describe('TemplatesManager', () => {
+  let fetchMock: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchMock = vi.spyOn(window, 'fetch').mockImplementation(async (input: RequestInfo | URL) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.endsWith('/api/templates')) {
+        return jsonResponse({ templates: [template] });
+      }
+      if (url.endsWith('/recalibration')) {
+        return jsonResponse({ suggestions });
+      }
+      if (url.endsWith(`/api/templates/${template.id}`)) {
+        return jsonResponse({ template });
+      }
+      return jsonResponse({ error: { message: `Unhandled fetch ${url}` } }, 500);
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('saves only the accepted timing suggestions', async () => {
+    const user = userEvent.setup();
+    render(<TemplatesManager />);
+
+    await user.click(await screen.findByRole('button', { name: 'Review timings' }));
+    const [acceptBrush] = await screen.findAllByRole('button', { name: 'Accept' });
+    const [, rejectDressed] = screen.getAllByRole('button', { name: 'Reject' });
+
+    await user.click(acceptBrush);
+    await user.click(rejectDressed);
+    await user.click(screen.getByRole('button', { name: 'Save 1 accepted' }));
+
+    const putCall = fetchMock.mock.calls.find(([, init]) => (init as RequestInit | undefined)?.method === 'PUT');
+    expect(putCall).toBeDefined();
+    const payload = JSON.parse((putCall?.[1] as RequestInit).body as string);
+    expect(payload.tasks.map((task: { expectedMinutes: number }) => task.expectedMinutes)).toEqual([4, 5]);
+  });
+
+  it('edits the weekdays a template runs on', async () => {
+    const user = userEvent.setup();
+    render(<TemplatesManager />);
+
+    expect(await screen.findByText(/Weekdays/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Edit' }));
+
+    const friday = screen.getByRole('button', { name: 'Fri' });
+    expect(friday).toHaveAttribute('aria-pressed', 'true');
+    await user.click(friday);
+    await user.click(screen.getByRole('button', { name: 'Sat' }));
+    await user.click(screen.getByRole('button', { name: 'Save template' }));
+
+    const putCall = fetchMock.mock.calls.find(([, init]) => (init as RequestInit | undefined)?.method === 'PUT');
+    const payload = JSON.parse((putCall?.[1] as RequestInit).body as string);
+    expect(payload.daysActive).toEqual(['mon', 'tue', 'wed', 'thu', 'sat']);
+  });
+});
@@ -1,13 +1,18 @@
-import type { Template, TemplateTaskInput } from '@shared/schemas';
+import type { ExpectedMinutesSuggestion, Template, TemplateTaskInput, Weekday } from '@shared/schemas';
+import { WEEKDAYS } from '@shared/schemas';
 import type { FC, FormEvent } from 'react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
+import { type Translator, useI18n } from '../../i18n';
+
 type TemplateTaskForm = {
   id?: string;
   title: string;
   expectedMinutes: number | string;
   emoji?: string;
   hint?: string;
+  completionSnippet?: string;
+  nudgeSnippet?: string;
 };
 
 type TemplateFormState = {
@@ -15,32 +20,60 @@ type TemplateFormState = {
   name: string;
   defaultStartTime: string;
   defaultEndTime: string;
+  daysActive: Weekday[];
   tasks: TemplateTaskForm[];
   error: string | null;
 };
 
+type SuggestionDecision = 'accepted' | 'rejected';
+
+type RecalibrationReviewState = {
+  template: Template;
+  suggestions: ExpectedMinutesSuggestion[];
+  decisions: Record<string, SuggestionDecision>;
+  error: string | null;
+};
+
 const blankTask = (): TemplateTaskForm => ({
   title: '',
   expectedMinutes: 1,
   emoji: '',
-  hint: ''
+  hint: '',
+  completionSnippet: '',
+  nudgeSnippet: ''
 });
 
 const createInitialTemplateForm = (): TemplateFormState => ({
   name: '',
   defaultStartTime: '07:00',
   defaultEndTime: '08:00',
+  daysActive: [...WEEKDAYS],
   tasks: [blankTask(), blankTask()],
   error: null
 });
 
 const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
+const describeDays = (days: Weekday[], t: Translator['t']) => {
+  if (days.length === WEEKDAYS.length) {
+    return t('templates.everyDay');
+  }
+  if (days.join(',') === 'mon,tue,wed,thu,fri') {
+    return t('templates.weekdays');
+  }
+  if (days.join(',') === 'sat,sun') {
+    return t('templates.weekends');
+  }
+  return days.map((day) => t(`weekdayShort.${day}`)).join(', ');
+};
+
 export const TemplatesManager: FC = () => {
+  const { t } = useI18n();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [form, setForm] = useState<TemplateFormState>(createInitialTemplateForm());
+  const [review, setReview] = useState<RecalibrationReviewState | null>(null);
 
   const fetchTemplates = useCallback(async () => {
     try {
@@ -54,11 +87,11 @@ export const TemplatesManager: FC = () => {
       setError(null);
     } catch (err) {
       console.error(err);
-      setError('Unable to load templates. Please retry.');
+      setError(t('templates.loadError'));
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [t]);
 
   useEffect(() => {
     void fetchTemplates();
@@ -66,30 +99,36 @@ export const TemplatesManager: FC = () => {
 
   const resetForm = useCallback(() => setForm(createInitialTemplateForm()), []);
 
-  const validateTemplateForm = useCallback((state: TemplateFormState): string | null => {
-    if (!state.name.trim()) {
-      return 'Template name is required.';
-    }
-    if (!timePattern.test(state.defaultStartTime)) {
-      return 'Start time must be HH:MM (24h).';
-    }
-    if (!timePattern.test(state.defaultEndTime)) {
-      return 'End time must be HH:MM (24h).';
-    }
-    if (state.tasks.length === 0) {
-      return 'Add at least one task.';
-    }
-    for (const task of state.tasks) {
-      if (!task.title.trim()) {
-        return 'Each task needs a title.';
+  const validateTemplateForm = useCallback(
+    (state: TemplateFormState): string | null => {
+      if (!state.name.trim()) {
+        return t('templates.nameRequired');
       }
-      const minutes = Number(task.expectedMinutes);
-      if (Number.isNaN(minutes) || minutes < 0) {
-        return 'Expected minutes must be 0 or greater.';
+      if (!timePattern.test(state.defaultStartTime)) {
+        return t('templates.startTimeInvalid');
       }
-    }
-    return null;
-  }, []);
+      if (!timePattern.test(state.defaultEndTime)) {
+        return t('templates.endTimeInvalid');
+      }
+      if (state.daysActive.length === 0) {
+        return t('templates.daysRequired');
+      }
+      if (state.tasks.length === 0) {
+        return t('templates.tasksRequired');
+      }
+      for (const task of state.tasks) {
+        if (!task.title.trim()) {
+          return t('templates.taskTitleRequired');
+        }
+        const minutes = Number(task.expectedMinutes);
+        if (Number.isNaN(minutes) || minutes < 0) {
+          return t('templates.expectedMinutesInvalid');
+        }
+      }
+      return null;
+    },
+    [t]
+  );
 
   const normaliseTasks = useCallback(
     (tasks: TemplateTaskForm[]): TemplateTaskInput[] =>
@@ -98,6 +137,8 @@ export const TemplatesManager: FC = () => {
         title: task.title.trim(),
         emoji: task.emoji?.trim() || undefined,
         hint: task.hint?.trim() || undefined,
+        completionSnippet: task.completionSnippet?.trim() || undefined,
+        nudgeSnippet: task.nudgeSnippet?.trim() || undefined,
         expectedMinutes: Number(task.expectedMinutes)
       })),
     []
@@ -116,6 +157,7 @@ export const TemplatesManager: FC = () => {
         name: form.name.trim(),
         defaultStartTime: form.defaultStartTime,
         defaultEndTime: form.defaultEndTime,
+        daysActive: form.daysActive,
         tasks: normaliseTasks(form.tasks)
       };
 
@@ -128,7 +170,7 @@ export const TemplatesManager: FC = () => {
 
         if (!response.ok) {
           const body = await response.json();
-          throw new Error(body.error?.message ?? 'Failed to save template');
+          throw new Error(body.error?.message ?? t('templates.saveFailed'));
         }
 
         await fetchTemplates();
@@ -137,11 +179,11 @@ export const TemplatesManager: FC = () => {
         console.error(err);
         setForm((prev) => ({
           ...prev,
-          error: err instanceof Error ? err.message : 'Failed to save template.'
+          error: err instanceof Error ? err.message : t('templates.saveFailed')
         }));
       }
     },
-    [fetchTemplates, form, normaliseTasks, validateTemplateForm, resetForm]
+    [fetchTemplates, form, normaliseTasks, validateTemplateForm, resetForm, t]
   );
 
   const handleEdit = useCallback((template: Template) => {
@@ -150,12 +192,15 @@ export const TemplatesManager: FC = () => {
       name: template.name,
       defaultStartTime: template.defaultStartTime,
       defaultEndTime: template.defaultEndTime,
+      daysActive: template.daysActive,
       tasks: template.tasks.map((task) => ({
         id: task.id,
         title: task.title,
         expectedMinutes: task.expectedMinutes,
         emoji: task.emoji ?? '',
-        hint: task.hint ?? ''
+        hint: task.hint ?? '',
+        completionSnippet: task.completionSnippet ?? '',
+        nudgeSnippet: task.nudgeSnippet ?? ''
       })),
       error: null
     });
@@ -163,7 +208,7 @@ export const TemplatesManager: FC = () => {
 
   const handleDelete = useCallback(
     async (id: string) => {
-      if (!window.confirm('Remove this template?')) return;
+      if (!window.confirm(t('templates.confirmDelete'))) return;
       try {
         const response = await fetch(`/api/templates/${id}`, { method: 'DELETE' });
         if (!response.ok) {
@@ -172,10 +217,92 @@ export const TemplatesManager: FC = () => {
         await fetchTemplates();
       } catch (err) {
         console.error(err);
-        setError('Unable to delete template.');
+        setError(t('templates.deleteFailed'));
       }
     },
-    [fetchTemplates]
+    [fetchTemplates, t]
+  );
+
+  const handleReviewTimings = useCallback(
+    async (template: Template) => {
+      try {
+        const response = await fetch(`/api/templates/${template.id}/recalibration`);
+        if (!response.ok) {
+          throw new Error('Failed to load suggestions');
+        }
+        const data = (await response.json()) as { suggestions: ExpectedMinutesSuggestion[] };
+        setReview({ template, suggestions: data.suggestions, decisions: {}, error: null });
+      } catch (err) {
+        console.error(err);
+        setError(t('templates.suggestionsLoadError'));
+      }
+    },
+    [t]
+  );
+
+  const decideSuggestion = useCallback((taskId: string, decision: SuggestionDecision) => {
+    setReview((prev) =>
+      prev ? { ...prev, decisions: { ...prev.decisions, [taskId]: decision } } : prev
+    );
+  }, []);
+
+  const handleApplySuggestions = useCallback(async () => {
+    if (!review) return;
+
+    const accepted = new Map(
+      review.suggestions
+        .filter((suggestion) => review.decisions[suggestion.taskId] === 'accepted')
+        .map((suggestion) => [suggestion.taskId, suggestion.suggestedMinutes])
+    );
+
+    const { template } = review;
+    const payload = {
+      name: template.name,
+      defaultStartTime: template.defaultStartTime,
+      defaultEndTime: template.defaultEndTime,
+      daysActive: template.daysActive,
+      tasks: template.tasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        emoji: task.emoji,
+        hint: task.hint,
+        completionSnippet: task.completionSnippet,
+        nudgeSnippet: task.nudgeSnippet,
+        expectedMinutes: (task.id && accepted.get(task.id)) || task.expectedMinutes
+      }))
+    };
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error?.message ?? t('templates.saveFailed'));
+      }
+
+      await fetchTemplates();
+      setReview(null);
+    } catch (err) {
+      console.error(err);
+      setReview((prev) =>
+        prev
+          ? { ...prev, error: err instanceof Error ? err.message : t('templates.saveFailed') }
+          : prev
+      );
+    }
+  }, [fetchTemplates, review, t]);
+
+  const acceptedCount = useMemo(
+    () =>
+      review
+        ? review.suggestions.filter((suggestion) => review.decisions[suggestion.taskId] === 'accepted')
+            .length
+        : 0,
+    [review]
   );
 
   const moveTask = useCallback((index: number, direction: -1 | 1) => {
@@ -190,7 +317,7 @@ export const TemplatesManager: FC = () => {
     });
   }, []);
 
-  const updateTaskField = useCallback((index: number, field: 'title' | 'expectedMinutes' | 'emoji' | 'hint', value: string) => {
+  const updateTaskField = useCallback((index: number, field: keyof Omit<TemplateTaskForm, 'id'>, value: string) => {
     setForm((prev) => {
       const tasks = prev.tasks.map((task, taskIndex) =>
         taskIndex === index
@@ -204,6 +331,15 @@ export const TemplatesManager: FC = () => {
     });
   }, []);
 
+  const toggleDay = useCallback((day: Weekday) => {
+    setForm((prev) => {
+      const selected = prev.daysActive.includes(day)
+        ? prev.daysActive.filter((value) => value !== day)
+        : [...prev.daysActive, day];
+      return { ...prev, daysActive: WEEKDAYS.filter((value) => selected.includes(value)) };
+    });
+  }, []);
+
   const removeTask = useCallback((index: number) => {
     setForm((prev) => ({
       ...prev,
@@ -231,20 +367,20 @@ export const TemplatesManager: FC = () => {
     <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
       <header className="mb-6 flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-semibold">Templates</h2>
-          <p className="text-sm text-slate-400">Build the routine once, reuse daily. Tasks render in kid mode soon.</p>
+          <h2 className="text-2xl font-semibold">{t('templates.title')}</h2>
+          <p className="text-sm text-slate-400">{t('templates.subtitle')}</p>
         </div>
-        {loading && <span className="text-sm text-emerald-400">Loading…</span>}
+        {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
       </header>
       {error && <p className="mb-4 rounded-lg bg-rose-500/20 p-3 text-rose-200">{error}</p>}
       <div className="grid gap-6 lg:grid-cols-2">
         <form onSubmit={handleSubmit} className="flex flex-col gap-4 rounded-xl bg-slate-950/40 p-5">
           <div className="flex items-center justify-between">
-            <h3 className="text-xl font-semibold">{form.id ? 'Edit Template' : 'New Template'}</h3>
-            <span className="text-sm text-slate-400">Total {expectedTotalMinutes} min</span>
+            <h3 className="text-xl font-semibold">{form.id ? t('templates.editTitle') : t('templates.newTitle')}</h3>
+            <span className="text-sm text-slate-400">{t('templates.totalMinutes', { minutes: expectedTotalMinutes })}</span>
           </div>
           <label className="flex flex-col gap-1 text-sm">
-            <span className="font-medium text-slate-200">Template name</span>
+            <span className="font-medium text-slate-200">{t('templates.name')}</span>
             <input
               type="text"
               value={form.name}
@@ -254,7 +390,7 @@ export const TemplatesManager: FC = () => {
           </label>
           <div className="grid grid-cols-2 gap-4">
             <label className="flex flex-col gap-1 text-sm">
-              <span className="font-medium text-slate-200">Start time</span>
+              <span className="font-medium text-slate-200">{t('templates.startTime')}</span>
               <input
                 type="time"
                 value={form.defaultStartTime}
@@ -263,7 +399,7 @@ export const TemplatesManager: FC = () => {
               />
             </label>
             <label className="flex flex-col gap-1 text-sm">
-              <span className="font-medium text-slate-200">End time</span>
+              <span className="font-medium text-slate-200">{t('templates.endTime')}</span>
               <input
                 type="time"
                 value={form.defaultEndTime}
@@ -272,11 +408,34 @@ export const TemplatesManager: FC = () => {
               />
             </label>
           </div>
+          <fieldset className="flex flex-col gap-2 text-sm">
+            <legend className="mb-1 font-medium text-slate-200">{t('templates.activeOn')}</legend>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day) => {
+                const selected = form.daysActive.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    aria-pressed={selected}
+                    onClick={() => toggleDay(day)}
+                    className={`rounded-lg px-3 py-1 text-sm font-semibold transition ${
+                      selected
+                        ? 'bg-emerald-500 text-slate-900'
+                        : 'border border-slate-600 text-slate-300 hover:border-emerald-400'
+                    }`}
+                  >
+                    {t(`weekdayShort.${day}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </fieldset>
           <div className="space-y-4">
             {form.tasks.map((task, index) => (
               <div key={index} className="rounded-lg border border-slate-800 bg-slate-900/60 p-4">
                 <div className="mb-3 flex items-center justify-between">
-                  <span className="text-sm font-semibold text-slate-200">Task {index + 1}</span>
+                  <span className="text-sm font-semibold text-slate-200">{t('templates.taskNumber', { number: index + 1 })}</span>
                   <div className="flex items-center gap-2">
                     <button
                       type="button"
@@ -297,13 +456,13 @@ export const TemplatesManager: FC = () => {
                       onClick={() => removeTask(index)}
                       className="rounded border border-rose-400 px-2 py-1 text-xs text-rose-300 hover:bg-rose-500/10"
                     >
-                      Remove
+                      {t('templates.removeTask')}
                     </button>
                   </div>
                 </div>
                 <div className="grid gap-3 md:grid-cols-2">
                   <label className="flex flex-col gap-1 text-sm">
-                    <span className="font-medium text-slate-200">Title</span>
+                    <span className="font-medium text-slate-200">{t('templates.taskTitle')}</span>
                     <input
                       type="text"
                       value={task.title}
@@ -312,7 +471,7 @@ export const TemplatesManager: FC = () => {
                     />
                   </label>
                   <label className="flex flex-col gap-1 text-sm">
-                    <span className="font-medium text-slate-200">Expected minutes</span>
+                    <span className="font-medium text-slate-200">{t('templates.expectedMinutes')}</span>
                     <input
                       type="number"
                       min="0"
@@ -323,7 +482,7 @@ export const TemplatesManager: FC = () => {
                     />
                   </label>
                   <label className="flex flex-col gap-1 text-sm">
-                    <span className="font-medium text-slate-200">Emoji (optional)</span>
+                    <span className="font-medium text-slate-200">{t('templates.emoji')}</span>
                     <input
                       type="text"
                       value={task.emoji ?? ''}
@@ -332,7 +491,7 @@ export const TemplatesManager: FC = () => {
                     />
                   </label>
                   <label className="flex flex-col gap-1 text-sm">
-                    <span className="font-medium text-slate-200">Hint (optional)</span>
+                    <span className="font-medium text-slate-200">{t('templates.hint')}</span>
                     <input
                       type="text"
                       value={task.hint ?? ''}
@@ -340,6 +499,27 @@ export const TemplatesManager: FC = () => {
                       className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
                     />
                   </label>
+                  <label className="flex flex-col gap-1 text-sm">
+                    <span className="font-medium text-slate-200">{t('templates.completionLine')}</span>
+                    <input
+                      type="text"
+                      value={task.completionSnippet ?? ''}
+                      placeholder={t('templates.completionLinePlaceholder')}
+                      onChange={(event) => updateTaskField(index, 'completionSnippet', event.target.value)}
+                      className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-sm">
+                    <span className="font-medium text-slate-200">{t('templates.nudgeLine')}</span>
+                    <input
+                      type="text"
+                      value={task.nudgeSnippet ?? ''}
+                      placeholder={t('templates.nudgeLinePlaceholder')}
+                      onChange={(event) => updateTaskField(index, 'nudgeSnippet', event.target.value)}
+                      className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
+                    />
+                  </label>
+                  <p className="text-xs text-slate-400 md:col-span-2">{t('templates.snippetHint')}</p>
                 </div>
               </div>
             ))}
@@ -349,20 +529,20 @@ export const TemplatesManager: FC = () => {
             onClick={addTask}
             className="rounded-lg border border-dashed border-emerald-400 px-4 py-2 text-base font-semibold text-emerald-300 transition hover:border-emerald-300"
           >
-            Add another task
+            {t('templates.addTask')}
           </button>
           <button
             type="submit"
             className="rounded-lg bg-emerald-500 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-400"
           >
-            {form.id ? 'Save template' : 'Create template'}
+            {form.id ? t('templates.save') : t('templates.create')}
           </button>
           {form.error && <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{form.error}</p>}
         </form>
         <div className="space-y-4">
           {templates.length === 0 ? (
             <p className="rounded-xl border border-dashed border-slate-700 p-6 text-center text-slate-400">
-              Create your first routine to get started.
+              {t('templates.empty')}
             </p>
           ) : (
             templates.map((template) => (
@@ -371,27 +551,115 @@ export const TemplatesManager: FC = () => {
                   <div>
                     <h3 className="text-xl font-semibold text-slate-100">{template.name}</h3>
                     <p className="text-sm text-slate-400">
-                      {template.tasks.length} task{template.tasks.length === 1 ? '' : 's'} · {template.defaultStartTime}–
-                      {template.defaultEndTime}
+                      {t('common.taskCount', { count: template.tasks.length })} · {template.defaultStartTime}–
+                      {template.defaultEndTime} · {describeDays(template.daysActive, t)}
                     </p>
                   </div>
                   <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleReviewTimings(template)}
+                      className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-emerald-400"
+                    >
+                      {t('templates.reviewTimings')}
+                    </button>
                     <button
                       type="button"
                       onClick={() => handleEdit(template)}
                       className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-emerald-400"
                     >
-                      Edit
+                      {t('common.edit')}
                     </button>
                     <button
                       type="button"
                       onClick={() => handleDelete(template.id)}
                       className="rounded-lg bg-rose-500 px-4 py-2 text-sm font-semibold text-slate-950 transition hover:bg-rose-400"
                     >
-                      Delete
+                      {t('common.delete')}
                     </button>
                   </div>
                 </div>
+                {review?.template.id === template.id ? (
+                  <div className="mt-4 space-y-3 border-t border-slate-800 pt-4">
+                    <h4 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+                      {t('templates.suggestedTimings')}
+                    </h4>
+                    {review.suggestions.length === 0 ? (
+                      <p className="text-sm text-slate-400">
+                        {t('templates.noSuggestions')}
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {review.suggestions.map((suggestion) => {
+                          const decision = review.decisions[suggestion.taskId];
+                          return (
+                            <li
+                              key={suggestion.taskId}
+                              className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-slate-900/60 px-4 py-3"
+                            >
+                              <span className="text-sm text-slate-200">
+                                <span className="font-semibold">{suggestion.title}</span>:{' '}
+                                {t('templates.suggestionChange', {
+                                  current: suggestion.currentMinutes,
+                                  suggested: suggestion.suggestedMinutes
+                                })}
+                                <span className="block text-xs text-slate-400">
+                                  {t('templates.suggestionBasis', { count: suggestion.sampleSize })}
+                                </span>
+                              </span>
+                              <span className="flex gap-2">
+                                <button
+                                  type="button"
+                                  aria-pressed={decision === 'accepted'}
+                                  onClick={() => decideSuggestion(suggestion.taskId, 'accepted')}
+                                  className={`rounded-lg px-3 py-1 text-sm font-semibold transition ${
+                                    decision === 'accepted'
+                                      ? 'bg-emerald-500 text-slate-900'
+                                      : 'border border-emerald-400 text-emerald-300 hover:bg-emerald-500/10'
+                                  }`}
+                                >
+                                  {t('templates.accept')}
+                                </button>
+                                <button
+                                  type="button"
+                                  aria-pressed={decision === 'rejected'}
+                                  onClick={() => decideSuggestion(suggestion.taskId, 'rejected')}
+                                  className={`rounded-lg px-3 py-1 text-sm font-semibold transition ${
+                                    decision === 'rejected'
+                                      ? 'bg-slate-600 text-slate-100'
+                                      : 'border border-slate-600 text-slate-300 hover:border-slate-400'
+                                  }`}
+                                >
+                                  {t('templates.reject')}
+                                </button>
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        disabled={acceptedCount === 0}
+                        onClick={handleApplySuggestions}
+                        className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {t('templates.saveAccepted', { count: acceptedCount })}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReview(null)}
+                        className="rounded-lg border border-slate-600 px-4 py-2 text-sm font-semibold text-slate-100 transition hover:border-emerald-400"
+                      >
+                        {t('common.close')}
+                      </button>
+                    </div>
+                    {review.error && (
+                      <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{review.error}</p>
+                    )}
+                  </div>
+                ) : null}
               </article>
             ))
           )}
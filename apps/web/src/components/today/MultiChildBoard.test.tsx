@@ -1,7 +1,7 @@
 import type { Child, Session } from '@shared/schemas';
-import { render, screen } from '@testing-library/react';
+import { cleanup, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import type { SessionNudgeEvent, SessionProgressState } from '../../types/session';
 import { MultiChildBoard } from './MultiChildBoard';
@@ -12,6 +12,7 @@ type BoardSessionState = {
   progress: SessionProgressState[];
   telemetry: null;
   nudgeEvents: SessionNudgeEvent[];
+  queuedCount: number;
   pending: boolean;
   error: string | null;
 };
@@ -45,6 +46,7 @@ const createSession = (id: string, childId: string, name: string): BoardSessionS
         expectedMinutes: 3,
         completedAt: null,
         skipped: false,
+        skippedAt: null,
         orderIndex: 0,
         emoji: '🎯',
         hint: 'First hint'
@@ -55,6 +57,7 @@ const createSession = (id: string, childId: string, name: string): BoardSessionS
         expectedMinutes: 5,
         completedAt: null,
         skipped: false,
+        skippedAt: null,
         orderIndex: 1,
         emoji: '🎵',
         hint: 'Second hint'
@@ -69,17 +72,24 @@ const createSession = (id: string, childId: string, name: string): BoardSessionS
       firstName: name,
       birthdate: '2015-01-01',
       active: true,
+      defaultTemplateId: null,
       createdAt: new Date().toISOString()
     },
     progress: session.tasks.map(() => ({ completed: false, skipped: false })),
     telemetry: null,
     nudgeEvents: [],
+    queuedCount: 0,
     pending: false,
     error: null
   };
 };
 
 describe('MultiChildBoard', () => {
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
   it('renders columns and focus controls', async () => {
     const user = userEvent.setup();
     const sessions = [createSession('session-1', 'child-1', 'Ada'), createSession('session-2', 'child-2', 'Ben')];
@@ -91,7 +101,9 @@ describe('MultiChildBoard', () => {
         onFocusSession={() => undefined}
         onCompleteTask={() => undefined}
         onSkipTask={() => undefined}
+        onUndoTask={async () => undefined}
         showDebugTelemetry={false}
+        voiceChannels={{}}
       />
     );
 
@@ -109,4 +121,60 @@ describe('MultiChildBoard', () => {
     // but we can ensure the button exists and is interactable.
     expect(focusBen).toBeEnabled();
   });
+
+  it('labels each column in the child language while the controls follow the household', () => {
+    const entry = createSession('session-1', 'child-1', 'Ada');
+    entry.child = { ...entry.child, language: 'da-DK' };
+
+    render(
+      <MultiChildBoard
+        sessions={[entry]}
+        focusedSessionId={null}
+        onFocusSession={() => undefined}
+        onCompleteTask={() => undefined}
+        onSkipTask={() => undefined}
+        onUndoTask={async () => undefined}
+        showDebugTelemetry={false}
+        voiceChannels={{}}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Færdig ✅' })).toBeInTheDocument();
+    expect(screen.getByText('Forventet 3 minutter')).toBeInTheDocument();
+    expect(screen.getByText(/2 opgaver · Tid \d+\.\d{2}$/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'All kids' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '🔒 Parent' })).toBeInTheDocument();
+  });
+
+  it('unlocks the parent drawer with the household PIN and undoes a recent completion', async () => {
+    const user = userEvent.setup();
+    const entry = createSession('session-1', 'child-1', 'Ada');
+    entry.session.tasks[0] = { ...entry.session.tasks[0], completedAt: new Date().toISOString() };
+    const onUndoTask = vi.fn(async () => undefined);
+    const fetchMock = vi
+      .spyOn(window, 'fetch')
+      .mockResolvedValue({ ok: true, status: 204, json: async () => ({}) } as Response);
+
+    render(
+      <MultiChildBoard
+        sessions={[entry]}
+        focusedSessionId={null}
+        onFocusSession={() => undefined}
+        onCompleteTask={() => undefined}
+        onSkipTask={() => undefined}
+        onUndoTask={onUndoTask}
+        showDebugTelemetry={false}
+        voiceChannels={{}}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: '🔒 Parent' }));
+    await user.type(screen.getByLabelText('Household PIN'), '1234');
+    await user.click(screen.getByRole('button', { name: 'Unlock' }));
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/auth/pin/verify', expect.objectContaining({ method: 'POST' }));
+
+    await user.click(await screen.findByRole('button', { name: 'Undo' }));
+    expect(onUndoTask).toHaveBeenCalledWith('session-1', 0, '1234');
+  });
 });
@@ -2,31 +2,15 @@ import type { Child, Session } from '@shared/schemas';
 import type { FC } from 'react';
 import { useEffect, useMemo, useState } from 'react';
 
+import { createTranslator, type Translator, useI18n } from '../../i18n';
 import type {
   SessionNudgeEvent,
   SessionProgressState,
   SessionTelemetry
 } from '../../types/session';
-
-const medalEmoji: Record<'gold' | 'silver' | 'bronze', string> = {
-  gold: '🥇',
-  silver: '🥈',
-  bronze: '🥉'
-};
-
-const medalLabel: Record<'gold' | 'silver' | 'bronze', string> = {
-  gold: 'Gold',
-  silver: 'Silver',
-  bronze: 'Bronze'
-};
-
-const formatSeconds = (value: number) => {
-  const minutes = Math.floor(value / 60)
-    .toString()
-    .padStart(2, '0');
-  const seconds = (value % 60).toString().padStart(2, '0');
-  return `${minutes}:${seconds}`;
-};
+import { formatSeconds, medalEmoji } from '../../utils/format';
+import type { VoiceChannelState } from '../../utils/voiceChannels';
+import { ParentDrawer } from './ParentDrawer';
 
 type BoardSessionState = {
   session: Session;
@@ -34,6 +18,7 @@ type BoardSessionState = {
   progress: SessionProgressState[];
   telemetry: SessionTelemetry | null;
   nudgeEvents: SessionNudgeEvent[];
+  queuedCount: number;
   pending: boolean;
   error: string | null;
 };
@@ -45,6 +30,19 @@ type BoardColumnProps = {
   onCompleteTask: (index: number) => void;
   onSkipTask: (index: number) => void;
   showDebugTelemetry: boolean;
+  voiceChannel: VoiceChannelState | undefined;
+};
+
+// Statuses and clip kinds stay as their identifiers; they are debugging output, not copy.
+const describeVoiceChannel = (channel: VoiceChannelState | undefined, t: Translator['t']) => {
+  if (!channel) {
+    return t('board.debugVoiceIdle');
+  }
+  return t('board.debugVoiceChannel', {
+    current: channel.current ? `${channel.status} ${channel.current}` : channel.status,
+    queued: channel.queued.length > 0 ? channel.queued.join(', ') : t('board.debugQueueEmpty'),
+    dropped: channel.dropped
+  });
 };
 
 const BoardColumn: FC<BoardColumnProps> = ({
@@ -53,9 +51,12 @@ const BoardColumn: FC<BoardColumnProps> = ({
   isDimmed,
   onCompleteTask,
   onSkipTask,
-  showDebugTelemetry
+  showDebugTelemetry,
+  voiceChannel
 }) => {
-  const { session, child, progress, telemetry, nudgeEvents, pending, error } = entry;
+  const { session, child, progress, telemetry, nudgeEvents, pending, error, queuedCount } = entry;
+  // Kid-facing labels follow the child's own language rather than the household one.
+  const { t, language } = useMemo(() => createTranslator(child.language), [child.language]);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
 
   useEffect(() => {
@@ -117,16 +118,17 @@ const BoardColumn: FC<BoardColumnProps> = ({
           <p className="text-sm uppercase tracking-wide text-emerald-300">{session.templateSnapshot.name}</p>
           <h3 className="mt-1 text-3xl font-semibold text-slate-50">{child.firstName}</h3>
           <p className="text-sm text-slate-400">
-            {session.tasks.length} task{session.tasks.length === 1 ? '' : 's'} · Elapsed {formatSeconds(elapsedSeconds)}
+            {t('common.taskCount', { count: session.tasks.length })} ·{' '}
+            {t('board.elapsed', { time: formatSeconds(elapsedSeconds, language) })}
           </p>
         </div>
         <div className="flex flex-col items-end text-right text-sm text-slate-300">
-          <span className="font-semibold uppercase tracking-wide text-slate-400">Urgency</span>
+          <span className="font-semibold uppercase tracking-wide text-slate-400">{t('board.urgency')}</span>
           <span className="text-xl font-bold text-emerald-200">
             {telemetry ? `L${telemetry.urgencyLevel}` : '–'}
           </span>
           <span className="text-xs text-slate-500">
-            {telemetry ? `${telemetry.timeRemainingMinutes}m left` : 'calculating…'}
+            {telemetry ? t('board.minutesLeft', { minutes: telemetry.timeRemainingMinutes }) : t('board.calculating')}
           </span>
         </div>
       </header>
@@ -149,30 +151,41 @@ const BoardColumn: FC<BoardColumnProps> = ({
         </div>
       ) : null}
 
+      {queuedCount > 0 ? (
+        <div
+          role="status"
+          className="mt-4 rounded-lg border border-amber-400/40 bg-amber-500/15 px-3 py-2 text-sm text-amber-100"
+        >
+          {t('board.offlineQueued', { count: queuedCount })}
+        </div>
+      ) : null}
+
       {sessionComplete ? (
         <div className="mt-6 flex flex-col items-center gap-3 rounded-2xl bg-emerald-500/10 p-6 text-center">
           <span className="text-5xl">{session.medal ? medalEmoji[session.medal] : '🎉'}</span>
           <p className="text-lg font-semibold text-emerald-200">
-            {session.medal ? `${medalLabel[session.medal]} medal earned` : 'Session complete!'}
+            {session.medal
+              ? t('board.medalEarned', { medal: t(`medal.${session.medal}`) })
+              : t('board.sessionComplete')}
           </p>
         </div>
       ) : awaitingMedal ? (
         <div className="mt-6 rounded-2xl bg-slate-900/70 p-5 text-center text-slate-200">
-          Computing medal… hang tight!
+          {t('board.computingMedal')}
         </div>
       ) : (
         <div className="mt-6">
-          <h4 className="text-sm uppercase tracking-wide text-emerald-300">Current task</h4>
+          <h4 className="text-sm uppercase tracking-wide text-emerald-300">{t('board.currentTask')}</h4>
           <div className="mt-2 rounded-2xl bg-slate-950/70 p-5">
             <p className="text-2xl font-semibold text-slate-50">
               {currentTask?.emoji && <span className="mr-2 text-3xl">{currentTask.emoji}</span>}
-              {currentTask?.title ?? 'All done!'}
+              {currentTask?.title ?? t('board.allDone')}
             </p>
             <p className="mt-2 text-base text-slate-300">
-              {currentTask?.hint ?? 'Tap complete when you finish.'}
+              {currentTask?.hint ?? t('board.defaultHint')}
             </p>
             <p className="mt-3 text-xs text-slate-500">
-              Expected {currentTask ? Math.round(currentTask.expectedMinutes) : 0} minute(s)
+              {t('board.expectedMinutes', { count: currentTask ? Math.round(currentTask.expectedMinutes) : 0 })}
             </p>
             <div className="mt-4 flex flex-wrap gap-3">
               <button
@@ -181,7 +194,7 @@ const BoardColumn: FC<BoardColumnProps> = ({
                 disabled={pending || currentIndex === -1}
                 className="flex-1 rounded-2xl bg-emerald-400 px-4 py-3 text-xl font-semibold text-slate-950 shadow-lg transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:bg-emerald-400/50 disabled:text-slate-700"
               >
-                {pending ? 'Working…' : 'Complete ✅'}
+                {pending ? t('board.working') : t('board.complete')}
               </button>
               {session.allowSkip ? (
                 <button
@@ -190,13 +203,13 @@ const BoardColumn: FC<BoardColumnProps> = ({
                   disabled={pending || currentIndex === -1}
                   className="flex-1 rounded-2xl border-2 border-slate-500 bg-slate-900 px-4 py-3 text-lg font-semibold text-slate-100 transition hover:border-slate-300 disabled:cursor-not-allowed disabled:border-slate-700 disabled:text-slate-500"
                 >
-                  Skip ⏭️
+                  {t('board.skip')}
                 </button>
               ) : null}
             </div>
           </div>
           <div className="mt-4 rounded-2xl bg-slate-950/40 p-4">
-            <p className="text-sm font-semibold uppercase tracking-wide text-slate-400">Up next</p>
+            <p className="text-sm font-semibold uppercase tracking-wide text-slate-400">{t('board.upNext')}</p>
             <p className="mt-2 text-lg text-slate-200">
               {nextTask ? (
                 <>
@@ -204,7 +217,7 @@ const BoardColumn: FC<BoardColumnProps> = ({
                   {nextTask.title}
                 </>
               ) : (
-                'You are almost finished!'
+                t('board.almostFinished')
               )}
             </p>
           </div>
@@ -214,16 +227,23 @@ const BoardColumn: FC<BoardColumnProps> = ({
       {showDebugTelemetry ? (
         <div className="mt-6 space-y-2 rounded-2xl border border-emerald-400/30 bg-slate-950/60 p-4 text-xs text-emerald-100">
           <p>
-            Pace Δ {telemetry ? telemetry.paceDelta.toFixed(2) : '0.00'} ·
-            {' '}
-            {telemetry ? `${telemetry.timeRemainingMinutes}m remaining` : 'estimating…'}
+            {t('board.debugPace', { delta: telemetry ? telemetry.paceDelta.toFixed(2) : '0.00' })} ·{' '}
+            {telemetry
+              ? t('board.debugRemaining', { minutes: telemetry.timeRemainingMinutes })
+              : t('board.debugEstimating')}
           </p>
-          <p>Last nudge: {nudgeEvents.length > 0 ? nudgeEvents[nudgeEvents.length - 1].threshold : 'none'}</p>
           <p>
-            Current task ID: {telemetry?.currentTask?.sessionTaskId ?? '–'} · Next nudge:
-            {' '}
-            {telemetry?.currentTask?.nextNudgeThreshold ?? 'none'}
+            {t('board.debugLastNudge', {
+              threshold: nudgeEvents.length > 0 ? nudgeEvents[nudgeEvents.length - 1].threshold : t('board.debugNone')
+            })}
           </p>
+          <p>
+            {t('board.debugCurrentTask', {
+              id: telemetry?.currentTask?.sessionTaskId ?? '–',
+              threshold: telemetry?.currentTask?.nextNudgeThreshold ?? t('board.debugNone')
+            })}
+          </p>
+          <p>{t('board.debugVoice', { channel: describeVoiceChannel(voiceChannel, t) })}</p>
         </div>
       ) : null}
     </section>
@@ -236,7 +256,9 @@ type MultiChildBoardProps = {
   onFocusSession: (sessionId: string | null) => void;
   onCompleteTask: (sessionId: string, index: number) => void;
   onSkipTask: (sessionId: string, index: number) => void;
+  onUndoTask: (sessionId: string, index: number, pin: string) => Promise<void>;
   showDebugTelemetry: boolean;
+  voiceChannels: Record<string, VoiceChannelState>;
 };
 
 export const MultiChildBoard: FC<MultiChildBoardProps> = ({
@@ -245,12 +267,16 @@ export const MultiChildBoard: FC<MultiChildBoardProps> = ({
   onFocusSession,
   onCompleteTask,
   onSkipTask,
-  showDebugTelemetry
+  onUndoTask,
+  showDebugTelemetry,
+  voiceChannels
 }) => {
+  const { t } = useI18n();
+
   if (sessions.length === 0) {
     return (
       <div className="rounded-2xl border border-dashed border-slate-700 bg-slate-950/40 p-6 text-center text-sm text-slate-300">
-        Start a session to populate the board.
+        {t('board.empty')}
       </div>
     );
   }
@@ -258,7 +284,7 @@ export const MultiChildBoard: FC<MultiChildBoardProps> = ({
   return (
     <div className="space-y-5">
       <div className="flex flex-wrap items-center gap-2">
-        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Focus</span>
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">{t('board.focus')}</span>
         <button
           type="button"
           onClick={() => onFocusSession(null)}
@@ -268,7 +294,7 @@ export const MultiChildBoard: FC<MultiChildBoardProps> = ({
               : 'bg-slate-800 text-slate-200 hover:bg-slate-700'
           }`}
         >
-          All kids
+          {t('board.allKids')}
         </button>
         {sessions.map((entry) => (
           <button
@@ -284,6 +310,9 @@ export const MultiChildBoard: FC<MultiChildBoardProps> = ({
             {entry.child.firstName}
           </button>
         ))}
+        <div className="ml-auto">
+          <ParentDrawer sessions={sessions} onUndoTask={onUndoTask} />
+        </div>
       </div>
       <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
         {sessions.map((entry) => (
@@ -295,6 +324,7 @@ export const MultiChildBoard: FC<MultiChildBoardProps> = ({
             onCompleteTask={(index) => onCompleteTask(entry.session.id, index)}
             onSkipTask={(index) => onSkipTask(entry.session.id, index)}
             showDebugTelemetry={showDebugTelemetry}
+            voiceChannel={voiceChannels[entry.session.id]}
           />
         ))}
       </div>
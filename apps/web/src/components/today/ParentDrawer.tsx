@@ -0,0 +1,213 @@
+import { getTaskActedAt, isWithinUndoWindow, TASK_UNDO_WINDOW_MS } from '@shared/logic/undo';
+import type { Child, Session } from '@shared/schemas';
+import type { FC, FormEvent } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { useI18n } from '../../i18n';
+import { deviceFetch, forgetDevice, isPairedDevice } from '../../utils/deviceAuth';
+
+type ParentDrawerProps = {
+  sessions: Array<{ session: Session; child: Child }>;
+  onUndoTask: (sessionId: string, index: number, pin: string) => Promise<void>;
+};
+
+// The drawer is for parents, so it follows the household language rather than any child's.
+export const ParentDrawer: FC<ParentDrawerProps> = ({ sessions, onUndoTask }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [pinInput, setPinInput] = useState('');
+  const [unlockedPin, setUnlockedPin] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!open || !unlockedPin) {
+      return undefined;
+    }
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [open, unlockedPin]);
+
+  const undoableTasks = useMemo(
+    () =>
+      sessions.flatMap(({ session, child }) =>
+        session.tasks.flatMap((task, index) => {
+          const actedAt = getTaskActedAt(task);
+          if (!actedAt || !isWithinUndoWindow(actedAt, now)) {
+            return [];
+          }
+          const secondsLeft = Math.max(
+            0,
+            Math.ceil((new Date(actedAt).getTime() + TASK_UNDO_WINDOW_MS - now.getTime()) / 1000)
+          );
+          return [{ session, child, task, index, secondsLeft }];
+        })
+      ),
+    [now, sessions]
+  );
+
+  const handleClose = useCallback(() => {
+    setOpen(false);
+    setPinInput('');
+    setUnlockedPin(null);
+    setError(null);
+  }, []);
+
+  const handleUnlock = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      setWorking(true);
+      setError(null);
+
+      try {
+        const response = await deviceFetch('/api/auth/pin/verify', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pin: pinInput })
+        });
+
+        if (!response.ok) {
+          const payload = await response.json().catch(() => ({} as { error?: { message?: string } }));
+          throw new Error(payload.error?.message ?? t('parentDrawer.incorrectPin'));
+        }
+
+        setUnlockedPin(pinInput);
+        setPinInput('');
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : t('parentDrawer.incorrectPin'));
+      } finally {
+        setWorking(false);
+      }
+    },
+    [pinInput, t]
+  );
+
+  const handleUndo = useCallback(
+    async (sessionId: string, index: number) => {
+      if (!unlockedPin) {
+        return;
+      }
+      setWorking(true);
+      setError(null);
+      try {
+        await onUndoTask(sessionId, index, unlockedPin);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : t('parentDrawer.undoFailed'));
+      } finally {
+        setWorking(false);
+      }
+    },
+    [onUndoTask, t, unlockedPin]
+  );
+
+  // Unpairing drops the device token, so the next load asks for a parent login instead of opening the board.
+  const handleUnpair = useCallback(() => {
+    forgetDevice();
+    window.location.reload();
+  }, []);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="rounded-full bg-slate-800 px-3 py-1 text-sm font-medium text-slate-200 transition hover:bg-slate-700"
+      >
+        {t('parentDrawer.open')}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label={t('parentDrawer.title')}
+      className="fixed inset-y-0 right-0 z-20 flex w-full max-w-sm flex-col gap-4 border-l border-slate-800 bg-slate-900 p-6 shadow-2xl"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-slate-50">{t('parentDrawer.title')}</h3>
+        <button
+          type="button"
+          onClick={handleClose}
+          className="rounded border border-slate-600 px-3 py-1 text-sm text-slate-200 hover:border-emerald-400"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      {unlockedPin ? (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-400">{t('parentDrawer.undoHint')}</p>
+          {undoableTasks.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-slate-700 p-4 text-center text-sm text-slate-400">
+              {t('parentDrawer.nothingToUndo')}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {undoableTasks.map(({ session, child, task, index, secondsLeft }) => (
+                <li
+                  key={task.id}
+                  className="flex items-center justify-between gap-3 rounded-xl bg-slate-950/60 px-4 py-3"
+                >
+                  <span className="text-sm text-slate-200">
+                    <span className="block font-semibold">
+                      {child.firstName} · {task.emoji ? `${task.emoji} ` : ''}
+                      {task.title}
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {t(task.skipped ? 'parentDrawer.skippedLeft' : 'parentDrawer.doneLeft', { seconds: secondsLeft })}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    disabled={working}
+                    onClick={() => void handleUndo(session.id, index)}
+                    className="rounded-lg bg-amber-400 px-3 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-300 disabled:opacity-60"
+                  >
+                    {t('parentDrawer.undo')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {isPairedDevice() ? (
+            <button
+              type="button"
+              onClick={handleUnpair}
+              className="w-full rounded-lg border border-slate-600 px-3 py-2 text-sm font-semibold text-slate-200 transition hover:border-rose-400"
+            >
+              {t('parentDrawer.unpair')}
+            </button>
+          ) : null}
+        </div>
+      ) : (
+        <form onSubmit={handleUnlock} className="flex flex-col gap-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="font-medium text-slate-200">{t('parentDrawer.pin')}</span>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pinInput}
+              onChange={(event) => setPinInput(event.target.value)}
+              className="rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-lg tracking-widest text-slate-50 focus:border-emerald-400 focus:outline-none"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={working || pinInput.length === 0}
+            className="rounded-lg bg-emerald-500 px-4 py-2 text-base font-semibold text-slate-900 transition hover:bg-emerald-400 disabled:opacity-60"
+          >
+            {t('parentDrawer.unlock')}
+          </button>
+        </form>
+      )}
+
+      {error ? <p className="rounded bg-rose-500/20 px-3 py-2 text-sm text-rose-200">{error}</p> : null}
+    </div>
+  );
+};
@@ -1,13 +1,17 @@
-import type { Child, Session, Template } from '@shared/schemas';
+import type { Child, Session, Settings, Template, TodayPlan } from '@shared/schemas';
 import type { FC } from 'react';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
+import { createTranslator, useI18n } from '../../i18n';
 import type {
   SessionNudgeEvent,
   SessionProgressState,
   SessionTelemetry
 } from '../../types/session';
+import type { SpokenMessage } from '../../utils/voice';
+import type { VoiceChannelState } from '../../utils/voiceChannels';
 import { MultiChildBoard } from './MultiChildBoard';
+import { VoiceFallbackBubble } from './VoiceFallbackBubble';
 
 type BoardSessionState = {
   session: Session;
@@ -15,6 +19,7 @@ type BoardSessionState = {
   progress: SessionProgressState[];
   telemetry: SessionTelemetry | null;
   nudgeEvents: SessionNudgeEvent[];
+  queuedCount: number;
   pending: boolean;
   error: string | null;
 };
@@ -36,11 +41,16 @@ type TodayManagerProps = {
   onSessionsBatchStarted: (entries: Array<{ session: Session; child: Child }>) => void;
   onCompleteTask: (sessionId: string, index: number) => void;
   onSkipTask: (sessionId: string, index: number) => void;
+  onUndoTask: (sessionId: string, index: number, pin: string) => Promise<void>;
   onEnableVoice: () => Promise<void>;
   voiceEnabled: boolean;
   voiceEnabling: boolean;
   voiceError: string | null;
+  unplayedVoice: SpokenMessage | null;
+  onReplayVoice: () => Promise<void>;
+  onDismissVoiceText: () => void;
   showDebugTelemetry: boolean;
+  voiceChannels: Record<string, VoiceChannelState>;
   mode: TodayViewMode;
   onLaunchBoard: () => void;
   onEndAllSessions: () => Promise<void>;
@@ -56,11 +66,16 @@ export const TodayManager: FC<TodayManagerProps> = ({
   onSessionsBatchStarted,
   onCompleteTask,
   onSkipTask,
+  onUndoTask,
   onEnableVoice,
   voiceEnabled,
   voiceEnabling,
   voiceError,
+  unplayedVoice,
+  onReplayVoice,
+  onDismissVoiceText,
   showDebugTelemetry,
+  voiceChannels,
   mode,
   onLaunchBoard,
   onEndAllSessions,
@@ -74,15 +89,22 @@ export const TodayManager: FC<TodayManagerProps> = ({
   const [selectedChildId, setSelectedChildId] = useState('');
   const [selectedTemplateId, setSelectedTemplateId] = useState('');
   const [allowSkip, setAllowSkip] = useState(false);
+  const [allowSkipDefault, setAllowSkipDefault] = useState(false);
   const [starting, setStarting] = useState(false);
   const [plannedEntries, setPlannedEntries] = useState<PlannedEntry[]>([]);
+  const [todayPlan, setTodayPlan] = useState<TodayPlan | null>(null);
+  const [planPrefilled, setPlanPrefilled] = useState(false);
+  const planAppliedRef = useRef(false);
+  const { t } = useI18n();
 
   const fetchTodayData = useCallback(async () => {
     try {
       setLoading(true);
-      const [childrenResponse, templatesResponse] = await Promise.all([
+      const [childrenResponse, templatesResponse, settingsResponse, planResponse] = await Promise.all([
         fetch('/api/children'),
-        fetch('/api/templates')
+        fetch('/api/templates'),
+        fetch('/api/settings'),
+        fetch('/api/today/plan')
       ]);
 
       if (!childrenResponse.ok || !templatesResponse.ok) {
@@ -94,44 +116,94 @@ export const TodayManager: FC<TodayManagerProps> = ({
 
       setChildren(childrenData.children);
       setTemplates(templatesData.templates);
+      if (settingsResponse.ok) {
+        const settingsData = (await settingsResponse.json()) as { settings: Settings };
+        setAllowSkipDefault(settingsData.settings.allowSkipByDefault);
+        setAllowSkip(settingsData.settings.allowSkipByDefault);
+      }
+      if (planResponse.ok) {
+        const planData = (await planResponse.json()) as { plan: TodayPlan };
+        setTodayPlan(planData.plan);
+      }
       setError(null);
     } catch (err) {
       console.error(err);
-      setError('Unable to load selections. Please retry.');
+      setError(t('today.loadError'));
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [t]);
 
+  // The planner data is parent-only; a paired Kid Mode device never leaves the board.
   useEffect(() => {
-    void fetchTodayData();
-  }, [fetchTodayData]);
+    if (mode === 'planner') {
+      void fetchTodayData();
+    }
+  }, [fetchTodayData, mode]);
+
+  const suspendedByChildId = useMemo(
+    () => new Map((todayPlan?.suspended ?? []).map((suspension) => [suspension.childId, suspension])),
+    [todayPlan]
+  );
+
+  const suspendedNotice = useMemo(
+    () =>
+      children
+        .filter((child) => suspendedByChildId.has(child.id))
+        .map((child) => {
+          const note = suspendedByChildId.get(child.id)?.note;
+          return note ? `${child.firstName} (${note})` : child.firstName;
+        })
+        .join(', '),
+    [children, suspendedByChildId]
+  );
+
+  useEffect(() => {
+    if (!todayPlan || planAppliedRef.current) {
+      return;
+    }
+    planAppliedRef.current = true;
+
+    const suggested = todayPlan.entries.flatMap((suggestion): PlannedEntry[] => {
+      const child = children.find((item) => item.id === suggestion.childId);
+      const template = templates.find((item) => item.id === suggestion.templateId);
+      if (!child || !template || sessions.some((entry) => entry.child.id === child.id)) {
+        return [];
+      }
+      return [{ id: `${child.id}-${template.id}`, child, template, allowSkip: allowSkipDefault }];
+    });
+
+    if (suggested.length > 0) {
+      setPlannedEntries((prev) => (prev.length > 0 ? prev : suggested));
+      setPlanPrefilled(true);
+    }
+  }, [allowSkipDefault, children, sessions, templates, todayPlan]);
 
   const handleAddToPlan = useCallback(() => {
     if (!selectedChildId || !selectedTemplateId) {
-      setError('Pick a child and template, then add them to the plan.');
+      setError(t('today.pickChildAndTemplate'));
       return;
     }
 
     const child = children.find((item) => item.id === selectedChildId);
     if (!child) {
-      setError('Selected child could not be found.');
+      setError(t('today.childNotFound'));
       return;
     }
 
     const template = templates.find((item) => item.id === selectedTemplateId);
     if (!template) {
-      setError('Selected template could not be found.');
+      setError(t('today.templateNotFound'));
       return;
     }
 
     if (sessions.some((entry) => entry.child.id === child.id)) {
-      setError(`${child.firstName} is already on the board.`);
+      setError(t('today.alreadyOnBoard', { name: child.firstName }));
       return;
     }
 
     if (plannedEntries.some((entry) => entry.child.id === child.id)) {
-      setError(`${child.firstName} is already planned.`);
+      setError(t('today.alreadyPlanned', { name: child.firstName }));
       return;
     }
 
@@ -145,9 +217,19 @@ export const TodayManager: FC<TodayManagerProps> = ({
     setPlannedEntries((prev) => [...prev, entry]);
     setSelectedChildId('');
     setSelectedTemplateId('');
-    setAllowSkip(false);
+    setAllowSkip(allowSkipDefault);
     setError(null);
-  }, [allowSkip, children, plannedEntries, selectedChildId, selectedTemplateId, sessions, templates]);
+  }, [
+    allowSkip,
+    allowSkipDefault,
+    children,
+    plannedEntries,
+    selectedChildId,
+    selectedTemplateId,
+    sessions,
+    t,
+    templates
+  ]);
 
   const handleRemovePlannedEntry = useCallback((id: string) => {
     setPlannedEntries((prev) => prev.filter((entry) => entry.id !== id));
@@ -155,7 +237,7 @@ export const TodayManager: FC<TodayManagerProps> = ({
 
   const handleStartPlannedSessions = useCallback(async () => {
     if (plannedEntries.length === 0) {
-      setError('Add at least one child to the plan.');
+      setError(t('today.planEmptyError'));
       return;
     }
 
@@ -178,7 +260,7 @@ export const TodayManager: FC<TodayManagerProps> = ({
 
         if (!response.ok) {
           const body = await response.json();
-          throw new Error(body.error?.message ?? `Unable to start ${entry.child.firstName}'s session.`);
+          throw new Error(body.error?.message ?? t('today.startFailedFor', { name: entry.child.firstName }));
         }
 
         const data = (await response.json()) as { session: Session };
@@ -194,11 +276,11 @@ export const TodayManager: FC<TodayManagerProps> = ({
       setPlannedEntries([]);
     } catch (err) {
       console.error(err);
-      setError(err instanceof Error ? err.message : 'Unable to start planned sessions.');
+      setError(err instanceof Error ? err.message : t('today.startFailed'));
     } finally {
       setStarting(false);
     }
-  }, [onEnableVoice, onLaunchBoard, onSessionStarted, onSessionsBatchStarted, plannedEntries]);
+  }, [onEnableVoice, onLaunchBoard, onSessionStarted, onSessionsBatchStarted, plannedEntries, t]);
 
   const activeNames = useMemo(() => sessions.map((entry) => entry.child.firstName).join(', '), [sessions]);
 
@@ -207,13 +289,11 @@ export const TodayManager: FC<TodayManagerProps> = ({
       <div className="flex h-full flex-col gap-6 bg-slate-950 p-6">
         <header className="flex flex-col gap-4 rounded-3xl bg-slate-900/60 p-6 shadow-lg md:flex-row md:items-center md:justify-between">
           <div>
-            <p className="text-sm uppercase tracking-wide text-emerald-300">Kid screen</p>
+            <p className="text-sm uppercase tracking-wide text-emerald-300">{t('today.kidScreen')}</p>
             <h2 className="mt-1 text-3xl font-semibold text-slate-50">
-              {activeNames ? `${activeNames} are up!` : 'Morning routine time!'}
+              {activeNames ? t('today.kidsUp', { names: activeNames }) : t('today.routineTime')}
             </h2>
-            <p className="mt-1 text-sm text-slate-400">
-              Tap a kid to spotlight their column. Voice cheer kicks off automatically.
-            </p>
+            <p className="mt-1 text-sm text-slate-400">{t('today.boardHint')}</p>
           </div>
           <div className="flex flex-col items-stretch gap-3 text-sm text-slate-200 md:items-end">
             <button
@@ -222,13 +302,13 @@ export const TodayManager: FC<TodayManagerProps> = ({
               disabled={endingSessions}
               className="rounded-xl bg-rose-500 px-4 py-3 text-base font-semibold text-slate-950 shadow transition hover:bg-rose-400 disabled:cursor-not-allowed disabled:bg-rose-500/60"
             >
-              {endingSessions ? 'Ending…' : 'End all sessions'}
+              {endingSessions ? t('today.ending') : t('today.endAll')}
             </button>
             {!voiceEnabled && voiceEnabling ? (
-              <span className="text-xs text-emerald-300">Connecting voice…</span>
+              <span className="text-xs text-emerald-300">{t('today.voiceConnecting')}</span>
             ) : null}
             {voiceEnabled ? (
-              <span className="text-xs text-emerald-300">Voice ready to cheer</span>
+              <span className="text-xs text-emerald-300">{t('today.voiceReadyBoard')}</span>
             ) : null}
           </div>
         </header>
@@ -236,6 +316,14 @@ export const TodayManager: FC<TodayManagerProps> = ({
         {voiceError ? (
           <p className="rounded-2xl bg-rose-500/15 px-4 py-3 text-sm text-rose-100">{voiceError}</p>
         ) : null}
+        {unplayedVoice ? (
+          <VoiceFallbackBubble
+            text={unplayedVoice.text}
+            translator={createTranslator(unplayedVoice.profile.language)}
+            onPlay={onReplayVoice}
+            onDismiss={onDismissVoiceText}
+          />
+        ) : null}
         {endSessionsError ? (
           <p className="rounded-2xl bg-rose-500/15 px-4 py-3 text-sm text-rose-100">{endSessionsError}</p>
         ) : null}
@@ -247,7 +335,9 @@ export const TodayManager: FC<TodayManagerProps> = ({
             onFocusSession={onFocusSession}
             onCompleteTask={onCompleteTask}
             onSkipTask={onSkipTask}
+            onUndoTask={onUndoTask}
             showDebugTelemetry={showDebugTelemetry}
+            voiceChannels={voiceChannels}
           />
         </div>
       </div>
@@ -259,25 +349,21 @@ export const TodayManager: FC<TodayManagerProps> = ({
       <section className="rounded-2xl bg-slate-900/80 p-6 shadow-xl">
         <header className="mb-6 flex items-center justify-between">
             <div>
-              <h2 className="text-2xl font-semibold">Today Session</h2>
-              <p className="text-sm text-slate-400">
-                Pick the kid + routine and the board will guide everyone together as soon as you tap start.
-              </p>
+              <h2 className="text-2xl font-semibold">{t('today.title')}</h2>
+              <p className="text-sm text-slate-400">{t('today.subtitle')}</p>
             </div>
-          {loading && <span className="text-sm text-emerald-400">Loading…</span>}
+          {loading && <span className="text-sm text-emerald-400">{t('common.loading')}</span>}
         </header>
 
         <div className="mb-6 rounded-xl border border-emerald-500/30 bg-slate-950/60 p-5 text-sm text-emerald-100">
           <div className="flex flex-wrap items-center justify-between gap-3">
-            <p className="font-semibold uppercase tracking-wide text-emerald-200">Voice feedback</p>
+            <p className="font-semibold uppercase tracking-wide text-emerald-200">{t('today.voiceFeedback')}</p>
             <span className="flex items-center gap-2 text-xs text-emerald-300">
               <span className="h-2.5 w-2.5 rounded-full bg-emerald-400" aria-hidden />
-              {voiceEnabled ? 'Ready to cheer' : 'Will enable when you start'}
+              {voiceEnabled ? t('today.voiceReady') : t('today.voicePending')}
             </span>
           </div>
-          <p className="mt-2 text-xs text-emerald-200/80">
-            Voice starts automatically as soon as you launch the kid screen.
-          </p>
+          <p className="mt-2 text-xs text-emerald-200/80">{t('today.voiceHint')}</p>
           {voiceError ? (
             <p className="mt-2 rounded-lg bg-rose-500/20 px-3 py-2 text-xs text-rose-100">{voiceError}</p>
           ) : null}
@@ -285,9 +371,10 @@ export const TodayManager: FC<TodayManagerProps> = ({
 
         {sessions.length > 0 ? (
           <div className="mb-6 rounded-xl bg-emerald-500/10 p-5 text-sm text-emerald-100">
-            <p className="font-semibold text-emerald-200">Board running</p>
+            <p className="font-semibold text-emerald-200">{t('today.boardRunning')}</p>
             <p>
-              {activeNames ? `${activeNames} are active.` : 'Sessions in progress.'} Tap a column focus button to spotlight a kid.
+              {activeNames ? t('today.kidsActive', { names: activeNames }) : t('today.sessionsInProgress')}{' '}
+              {t('today.focusHint')}
             </p>
           </div>
         ) : null}
@@ -297,19 +384,17 @@ export const TodayManager: FC<TodayManagerProps> = ({
         <div className="grid gap-6 lg:grid-cols-2">
           <div className="flex flex-col gap-5 rounded-xl bg-slate-950/40 p-5">
             <div>
-              <h3 className="text-xl font-semibold">Step 1 · Build the plan</h3>
-              <p className="mt-1 text-sm text-slate-400">
-                Pick every kid and their routine before you kick things off. You can reuse the same template for multiple kids.
-              </p>
+              <h3 className="text-xl font-semibold">{t('today.step1')}</h3>
+              <p className="mt-1 text-sm text-slate-400">{t('today.step1Hint')}</p>
             </div>
             <label className="flex flex-col gap-1 text-sm">
-              <span className="font-medium text-slate-200">Child</span>
+              <span className="font-medium text-slate-200">{t('today.child')}</span>
               <select
                 value={selectedChildId}
                 onChange={(event) => setSelectedChildId(event.target.value)}
                 className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
               >
-                <option value="">Select a child</option>
+                <option value="">{t('today.selectChild')}</option>
                 {children.map((child) => (
                   <option key={child.id} value={child.id}>
                     {child.firstName}
@@ -318,13 +403,13 @@ export const TodayManager: FC<TodayManagerProps> = ({
               </select>
             </label>
             <label className="flex flex-col gap-1 text-sm">
-              <span className="font-medium text-slate-200">Routine template</span>
+              <span className="font-medium text-slate-200">{t('today.template')}</span>
               <select
                 value={selectedTemplateId}
                 onChange={(event) => setSelectedTemplateId(event.target.value)}
                 className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-base text-slate-50 focus:border-emerald-400 focus:outline-none"
               >
-                <option value="">Select a template</option>
+                <option value="">{t('today.selectTemplate')}</option>
                 {templates.map((template) => (
                   <option key={template.id} value={template.id}>
                     {template.name}
@@ -339,7 +424,7 @@ export const TodayManager: FC<TodayManagerProps> = ({
                 onChange={(event) => setAllowSkip(event.target.checked)}
                 className="h-5 w-5 rounded border-slate-600 bg-slate-800 text-emerald-400 focus:ring-emerald-300"
               />
-              <span className="text-slate-200">Allow skipping tasks</span>
+              <span className="text-slate-200">{t('today.allowSkip')}</span>
             </label>
             <button
               type="button"
@@ -347,8 +432,16 @@ export const TodayManager: FC<TodayManagerProps> = ({
               disabled={starting || !children.length || !templates.length}
               className="rounded-lg bg-emerald-500 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/40"
             >
-              Add to plan
+              {t('today.addToPlan')}
             </button>
+            {suspendedNotice ? (
+              <p role="status" className="rounded-lg bg-amber-500/20 px-3 py-2 text-sm text-amber-100">
+                {t('today.suspendedNotice', { names: suspendedNotice })}
+              </p>
+            ) : null}
+            {planPrefilled && plannedEntries.length > 0 ? (
+              <p className="text-xs text-emerald-300">{t('today.prefilled')}</p>
+            ) : null}
             {plannedEntries.length > 0 ? (
               <ul className="space-y-3">
                 {plannedEntries.map((entry) => (
@@ -359,10 +452,13 @@ export const TodayManager: FC<TodayManagerProps> = ({
                     <div>
                       <p className="text-base font-semibold text-slate-100">{entry.child.firstName}</p>
                       <p className="text-xs text-slate-400">{entry.template.name}</p>
+                      {suspendedByChildId.has(entry.child.id) ? (
+                        <p className="mt-1 text-xs text-amber-300">{t('today.suspended')}</p>
+                      ) : null}
                       {entry.allowSkip ? (
-                        <p className="mt-1 text-xs text-emerald-300">Skip allowed</p>
+                        <p className="mt-1 text-xs text-emerald-300">{t('today.skipAllowed')}</p>
                       ) : (
-                        <p className="mt-1 text-xs text-slate-500">Skip disabled</p>
+                        <p className="mt-1 text-xs text-slate-500">{t('today.skipDisabled')}</p>
                       )}
                     </div>
                     <button
@@ -370,23 +466,21 @@ export const TodayManager: FC<TodayManagerProps> = ({
                       onClick={() => handleRemovePlannedEntry(entry.id)}
                       className="rounded-lg border border-slate-600 px-3 py-1 text-xs font-semibold text-slate-200 transition hover:border-rose-400 hover:text-rose-200"
                     >
-                      Remove
+                      {t('today.remove')}
                     </button>
                   </li>
                 ))}
               </ul>
             ) : (
               <p className="rounded-lg border border-dashed border-slate-700 bg-slate-950/40 p-4 text-sm text-slate-400">
-                Your plan is empty. Add each kid you want on the board before starting.
+                {t('today.planEmpty')}
               </p>
             )}
           </div>
           <div className="space-y-4 rounded-xl border border-dashed border-slate-700 bg-slate-950/20 p-5 text-sm text-slate-300">
             <div>
-              <h3 className="text-base font-semibold text-slate-100">Step 2 · Launch the board</h3>
-              <p className="mt-1 text-slate-400">
-                When you hit start, the board switches to the kid-facing view and introduces everyone together.
-              </p>
+              <h3 className="text-base font-semibold text-slate-100">{t('today.step2')}</h3>
+              <p className="mt-1 text-slate-400">{t('today.step2Hint')}</p>
             </div>
             <button
               type="button"
@@ -394,10 +488,14 @@ export const TodayManager: FC<TodayManagerProps> = ({
               disabled={starting || plannedEntries.length === 0}
               className="w-full rounded-lg bg-emerald-400 px-4 py-3 text-lg font-semibold text-slate-900 shadow transition hover:bg-emerald-300 disabled:cursor-not-allowed disabled:bg-emerald-400/40"
             >
-              {starting ? 'Starting…' : `Start ${plannedEntries.length || ''} ${plannedEntries.length === 1 ? 'session' : 'sessions'}`.trim()}
+              {starting
+                ? t('today.starting')
+                : plannedEntries.length > 0
+                  ? t('today.startSessions', { count: plannedEntries.length })
+                  : t('today.startNoSessions')}
             </button>
-            <p>Progress sticks even if you refresh—the board keeps medals and timing live.</p>
-            <p>Tap a child chip above the board to highlight their column during the morning rush.</p>
+            <p>{t('today.progressHint')}</p>
+            <p>{t('today.chipHint')}</p>
           </div>
         </div>
       </section>
@@ -0,0 +1,38 @@
+import type { FC } from 'react';
+
+import type { Translator } from '../../i18n';
+
+type VoiceFallbackBubbleProps = {
+  text: string;
+  // The cheer was meant for one child, so the buttons speak that child's language too.
+  translator: Translator;
+  onPlay: () => Promise<void>;
+  onDismiss: () => void;
+};
+
+// Shown when neither the server voice nor the browser voice could speak, so the cheer is still seen.
+export const VoiceFallbackBubble: FC<VoiceFallbackBubbleProps> = ({ text, translator: { t }, onPlay, onDismiss }) => (
+  <div
+    role="status"
+    className="flex flex-wrap items-center gap-3 rounded-3xl rounded-bl-md bg-emerald-500/15 px-5 py-4 text-lg text-emerald-50 shadow"
+  >
+    <p className="min-w-0 flex-1">{text}</p>
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => void onPlay()}
+        className="rounded-xl bg-emerald-500 px-4 py-2 text-base font-semibold text-slate-950 transition hover:bg-emerald-400"
+      >
+        {t('board.voicePlay')}
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        aria-label={t('board.voiceDismiss')}
+        className="rounded-xl px-3 py-2 text-base text-emerald-200 transition hover:bg-emerald-500/20"
+      >
+        ✕
+      </button>
+    </div>
+  </div>
+);
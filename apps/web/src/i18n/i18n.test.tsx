@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { formatSeconds } from '../utils/format';
+import da from './da.json';
+import en from './en.json';
+import { browserLanguage, translate } from './index';
+
+describe('translate', () => {
+  it('has a Danish entry for every English one', () => {
+    expect(Object.keys(da).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it('picks the plural form and fills in params', () => {
+    expect(translate('en-US', 'common.taskCount', { count: 1 })).toBe('1 task');
+    expect(translate('en-US', 'common.taskCount', { count: 3 })).toBe('3 tasks');
+    expect(translate('da-DK', 'common.taskCount', { count: 3 })).toBe('3 opgaver');
+    expect(translate('da-DK', 'today.alreadyPlanned', { name: 'Ada' })).toBe('Ada er allerede i planen.');
+  });
+
+  it('leaves snippet placeholders alone when no param is given', () => {
+    expect(translate('en-US', 'templates.completionLinePlaceholder')).toBe('Great job, {{name}}! {{next}} is next.');
+  });
+});
+
+describe('browserLanguage', () => {
+  it('matches the browser language to a supported one and falls back to English', () => {
+    const language = vi.spyOn(navigator, 'language', 'get');
+    language.mockReturnValue('da');
+    expect(browserLanguage()).toBe('da-DK');
+    language.mockReturnValue('fr-FR');
+    expect(browserLanguage()).toBe('en-US');
+    language.mockRestore();
+  });
+});
+
+describe('formatSeconds', () => {
+  it('uses the time separator of the language', () => {
+    expect(formatSeconds(125)).toBe('02:05');
+    expect(formatSeconds(125, 'da-DK')).toBe('02.05');
+  });
+});
@@ -0,0 +1,119 @@
+import type { ChildLanguage, Settings } from '@shared/schemas';
+import { CHILD_LANGUAGES, DEFAULT_CHILD_LANGUAGE } from '@shared/schemas';
+import type { FC, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+import { browserTimeZone } from '../utils/format';
+import da from './da.json';
+import en from './en.json';
+
+type Catalog = typeof en;
+
+export type MessageKey = keyof Catalog;
+
+type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<ChildLanguage, Catalog> = {
+  'en-US': en,
+  'da-DK': da
+};
+
+// Plural entries are { one, other } objects, picked with Intl.PluralRules on the `count` param. Placeholders use
+// the same {{name}} syntax as task snippets; unknown ones are left in place so a missing param is easy to spot.
+export const translate = (language: ChildLanguage, key: MessageKey, params: MessageParams = {}) => {
+  const entry = catalogs[language]?.[key] ?? en[key];
+  const template =
+    typeof entry === 'string'
+      ? entry
+      : ((entry as Record<string, string>)[new Intl.PluralRules(language).select(Number(params.count ?? 0))] ??
+        entry.other);
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export type Translator = {
+  language: ChildLanguage;
+  t: (key: MessageKey, params?: MessageParams) => string;
+};
+
+export const createTranslator = (language: ChildLanguage): Translator => ({
+  language,
+  t: (key, params) => translate(language, key, params)
+});
+
+// Nobody is logged in on the login screen, so there are no household settings yet and the browser decides.
+export const browserLanguage = (): ChildLanguage => {
+  const preferred = typeof navigator === 'undefined' ? '' : navigator.language.toLowerCase();
+  return (
+    CHILD_LANGUAGES.find((language) => preferred.startsWith(language.slice(0, 2).toLowerCase())) ??
+    DEFAULT_CHILD_LANGUAGE
+  );
+};
+
+const I18nContext = createContext<Translator>(createTranslator(DEFAULT_CHILD_LANGUAGE));
+
+type I18nProviderProps = {
+  language: ChildLanguage;
+  children: ReactNode;
+};
+
+export const I18nProvider: FC<I18nProviderProps> = ({ language, children }) => {
+  const translator = useMemo(() => createTranslator(language), [language]);
+  return <I18nContext.Provider value={translator}>{children}</I18nContext.Provider>;
+};
+
+// Parent screens use the household language; the board builds its own translator per child.
+export const useI18n = () => useContext(I18nContext);
+
+// Language and time zone of the parent screens come from the household settings; changes are saved there and
+// rolled back if the save fails. Until the settings load, the browser's own zone stands in.
+export const useHouseholdLocale = () => {
+  const [locale, setLocale] = useState<Pick<Settings, 'language' | 'timeZone'>>({
+    language: DEFAULT_CHILD_LANGUAGE,
+    timeZone: browserTimeZone()
+  });
+
+  useEffect(() => {
+    const loadLocale = async () => {
+      try {
+        const response = await fetch('/api/settings');
+        if (!response.ok) {
+          return;
+        }
+        const data = (await response.json()) as { settings: Settings };
+        setLocale((current) => ({
+          language: data.settings.language ?? current.language,
+          timeZone: data.settings.timeZone ?? current.timeZone
+        }));
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    void loadLocale();
+  }, []);
+
+  const saveLocale = useCallback(
+    async (patch: Partial<Pick<Settings, 'language' | 'timeZone'>>) => {
+      const previous = locale;
+      setLocale({ ...locale, ...patch });
+      try {
+        const response = await fetch('/api/settings', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(patch)
+        });
+        if (!response.ok) {
+          throw new Error('Failed to save household settings');
+        }
+      } catch (error) {
+        console.error(error);
+        setLocale(previous);
+      }
+    },
+    [locale]
+  );
+
+  const changeLanguage = useCallback((language: ChildLanguage) => saveLocale({ language }), [saveLocale]);
+  const changeTimeZone = useCallback((timeZone: string) => saveLocale({ timeZone }), [saveLocale]);
+
+  return { ...locale, changeLanguage, changeTimeZone };
+};
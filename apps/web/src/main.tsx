@@ -4,9 +4,20 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 
 import App from './App';
+import { AuthGate } from './components/auth/AuthGate';
+import { isParentRemoteView, ParentRemote } from './components/remote/ParentRemote';
+import { claimDevicePairing, isPairedDevice } from './utils/deviceAuth';
+import { registerServiceWorker } from './utils/serviceWorker';
+
+registerServiceWorker();
+claimDevicePairing();
 
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
-    <App />
+    {isPairedDevice() && !isParentRemoteView() ? (
+      <App kidDevice />
+    ) : (
+      <AuthGate>{isParentRemoteView() ? <ParentRemote /> : <App />}</AuthGate>
+    )}
   </React.StrictMode>
 );
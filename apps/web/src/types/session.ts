@@ -1,3 +1,5 @@
+import type { Child, Session } from '@shared/schemas';
+
 export type SessionProgressState = {
   completed: boolean;
   skipped: boolean;
@@ -35,3 +37,15 @@ export type SessionTelemetry = {
     hint?: string | null;
   } | null;
 };
+
+export type SessionStreamEvent =
+  | { type: 'session.started' | 'session.updated' | 'session.finished'; session: Session; child: Child }
+  | {
+      type: 'task.completed';
+      sessionId: string;
+      sessionTaskId: string;
+      orderIndex: number;
+      skipped: boolean;
+    }
+  | { type: 'telemetry'; sessionId: string; telemetry: SessionTelemetry }
+  | { type: 'encouragement.requested'; sessionId: string; sessionTaskId: string };
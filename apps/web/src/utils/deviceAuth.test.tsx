@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { claimDevicePairing, deviceFetch, forgetDevice, isPairedDevice, withDeviceToken } from './deviceAuth';
+
+describe('device pairing', () => {
+  afterEach(() => {
+    forgetDevice();
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the token from a pairing link and drops it from the address bar', () => {
+    window.history.replaceState(null, '', '/?pair=device-secret&debug=1');
+
+    claimDevicePairing();
+
+    expect(isPairedDevice()).toBe(true);
+    expect(window.location.search).toBe('?debug=1');
+    expect(withDeviceToken('/api/sessions/stream')).toBe('/api/sessions/stream?access_token=device-secret');
+  });
+
+  it('adds the Bearer token on a paired device and leaves parent requests alone', async () => {
+    const fetchMock = vi.spyOn(window, 'fetch').mockResolvedValue({ ok: true, status: 200 } as Response);
+
+    await deviceFetch('/api/sessions/active');
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/sessions/active');
+
+    window.history.replaceState(null, '', '/?pair=device-secret');
+    claimDevicePairing();
+    await deviceFetch('/api/sessions/active', { method: 'POST' });
+
+    const [, init] = fetchMock.mock.calls[1];
+    expect(init?.method).toBe('POST');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer device-secret');
+  });
+});
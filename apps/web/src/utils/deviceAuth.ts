@@ -0,0 +1,50 @@
+const DEVICE_TOKEN_KEY = 'klar-parat:device-token';
+const PAIRING_PARAM = 'pair';
+
+export const readDeviceToken = () => {
+  try {
+    return window.localStorage.getItem(DEVICE_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const isPairedDevice = () => Boolean(readDeviceToken());
+
+export const forgetDevice = () => {
+  window.localStorage.removeItem(DEVICE_TOKEN_KEY);
+};
+
+export const buildPairingLink = (token: string) =>
+  `${window.location.origin}/?${PAIRING_PARAM}=${encodeURIComponent(token)}`;
+
+// Opening a pairing link turns this browser into a Kid Mode board: the token is kept locally and dropped from the
+// address bar so it does not linger in history or screenshots.
+export const claimDevicePairing = () => {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get(PAIRING_PARAM);
+  if (!token) {
+    return;
+  }
+  window.localStorage.setItem(DEVICE_TOKEN_KEY, token);
+  url.searchParams.delete(PAIRING_PARAM);
+  window.history.replaceState(null, '', url.toString());
+};
+
+// Board requests carry the device token as a Bearer header on a paired device; parent browsers rely on the cookie
+// and send the request untouched.
+export const deviceFetch = (input: string, init?: RequestInit) => {
+  const token = readDeviceToken();
+  if (!token) {
+    return init ? fetch(input, init) : fetch(input);
+  }
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+};
+
+// EventSource cannot send headers, so the stream URL carries the token instead.
+export const withDeviceToken = (url: string) => {
+  const token = readDeviceToken();
+  return token ? `${url}?access_token=${encodeURIComponent(token)}` : url;
+};
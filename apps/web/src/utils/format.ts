@@ -0,0 +1,44 @@
+import type { ChildLanguage, Session } from '@shared/schemas';
+import { DEFAULT_CHILD_LANGUAGE } from '@shared/schemas';
+
+type Medal = NonNullable<Session['medal']>;
+
+export const medalEmoji: Record<Medal, string> = {
+  gold: '🥇',
+  silver: '🥈',
+  bronze: '🥉'
+};
+
+export const childLanguageLabel: Record<ChildLanguage, string> = {
+  'en-US': 'English',
+  'da-DK': 'Dansk'
+};
+
+// Danish writes durations as 02.05 rather than 02:05, so the separator comes from the locale's own time format.
+const timeSeparator = (language: ChildLanguage) =>
+  new Intl.DateTimeFormat(language, { minute: '2-digit', second: '2-digit', timeZone: 'UTC' })
+    .formatToParts(new Date(0))
+    .find((part) => part.type === 'literal')?.value ?? ':';
+
+export const formatSeconds = (value: number, language: ChildLanguage = DEFAULT_CHILD_LANGUAGE) => {
+  const minutes = Math.floor(value / 60)
+    .toString()
+    .padStart(2, '0');
+  const seconds = (value % 60).toString().padStart(2, '0');
+  return `${minutes}${timeSeparator(language)}${seconds}`;
+};
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Calendar date of `date` on the household's wall clock, as YYYY-MM-DD.
+export const toZonedIsoDate = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+export const previousIsoDate = (date: string) =>
+  new Date(new Date(`${date}T00:00:00.000Z`).getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
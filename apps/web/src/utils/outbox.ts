@@ -0,0 +1,156 @@
+import type { Session } from '@shared/schemas';
+
+import { deviceFetch } from './deviceAuth';
+
+export type QueuedCompletion = {
+  idempotencyKey: string;
+  sessionId: string;
+  orderIndex: number;
+  skipped: boolean;
+  completedAt: string;
+};
+
+export type CompletionOutbox = {
+  add: (entry: QueuedCompletion) => Promise<void>;
+  list: () => Promise<QueuedCompletion[]>;
+  remove: (idempotencyKey: string) => Promise<void>;
+};
+
+const DB_NAME = 'klar-parat';
+const DB_VERSION = 1;
+const STORE_NAME = 'completion-outbox';
+
+const byTapTime = (a: QueuedCompletion, b: QueuedCompletion) => a.completedAt.localeCompare(b.completedAt);
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbOutbox = (): CompletionOutbox => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'idempotencyKey' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDatabase();
+    return promisifyRequest(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    add: async (entry) => {
+      await withStore('readwrite', (store) => store.put(entry));
+    },
+    list: async () => {
+      const entries = await withStore<QueuedCompletion[]>('readonly', (store) => store.getAll());
+      return entries.sort(byTapTime);
+    },
+    remove: async (idempotencyKey) => {
+      await withStore('readwrite', (store) => store.delete(idempotencyKey));
+    }
+  };
+};
+
+// Private browsing and older test environments have no IndexedDB; queued taps then last until reload.
+const createMemoryOutbox = (): CompletionOutbox => {
+  const entries = new Map<string, QueuedCompletion>();
+  return {
+    add: async (entry) => {
+      entries.set(entry.idempotencyKey, entry);
+    },
+    list: async () => Array.from(entries.values()).sort(byTapTime),
+    remove: async (idempotencyKey) => {
+      entries.delete(idempotencyKey);
+    }
+  };
+};
+
+export const createCompletionOutbox = (): CompletionOutbox =>
+  typeof indexedDB === 'undefined' ? createMemoryOutbox() : createIndexedDbOutbox();
+
+export const createIdempotencyKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// fetch rejects (rather than resolving with an error status) when the network is unreachable.
+export const isOfflineError = (error: unknown) =>
+  error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+export const applyCompletionLocally = (session: Session, entry: QueuedCompletion): Session => ({
+  ...session,
+  actualStartAt: session.actualStartAt ?? (entry.skipped ? null : entry.completedAt),
+  tasks: session.tasks.map((task) =>
+    task.orderIndex === entry.orderIndex
+      ? {
+          ...task,
+          skipped: entry.skipped,
+          skippedAt: entry.skipped ? entry.completedAt : null,
+          completedAt: entry.skipped ? null : entry.completedAt
+        }
+      : task
+  )
+});
+
+// Taps still waiting in the outbox, applied on top of the server's copy of their session.
+export const applyQueuedCompletions = (session: Session, queued: QueuedCompletion[]): Session =>
+  queued.filter((entry) => entry.sessionId === session.id).reduce(applyCompletionLocally, session);
+
+// An expired login, a revoked device token, a timeout or rate limiting can all clear up, so the tap stays queued.
+const RETRYABLE_STATUSES = new Set([401, 403, 408, 429]);
+
+const OUTBOX_RETRY_MAX_MS = 60_000;
+export const OUTBOX_RETRY_BASE_MS = 2_000;
+
+// A board can sit with queued taps on a flaky connection that never fires `online`, so retries also back off on a timer.
+export const outboxRetryDelayMs = (attempt: number) => Math.min(OUTBOX_RETRY_BASE_MS * 2 ** attempt, OUTBOX_RETRY_MAX_MS);
+
+// Replays queued taps oldest first; stops at the first failure that may clear up so order is preserved.
+export const flushCompletionOutbox = async (
+  outbox: CompletionOutbox,
+  onSynced: (session: Session) => void
+): Promise<boolean> => {
+  const entries = await outbox.list();
+
+  for (const entry of entries) {
+    let response: Response;
+    try {
+      response = await deviceFetch(`/api/sessions/${entry.sessionId}/task/${entry.orderIndex}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          skipped: entry.skipped,
+          completedAt: entry.completedAt,
+          idempotencyKey: entry.idempotencyKey
+        })
+      });
+    } catch (error) {
+      console.error(error);
+      return false;
+    }
+
+    if (response.status >= 500 || RETRYABLE_STATUSES.has(response.status)) {
+      return false;
+    }
+
+    // Other 4xx responses (a deleted session, a reused key, a rejected tap) can never succeed, so they are dropped.
+    await outbox.remove(entry.idempotencyKey);
+    if (response.ok) {
+      const data = (await response.json()) as { session: Session };
+      onSynced(data.session);
+    }
+  }
+
+  return true;
+};
@@ -0,0 +1,12 @@
+export const registerServiceWorker = () => {
+  // The dev server has no precache manifest, and a stale worker there would hide code changes.
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,57 @@
+import type { Session } from '@shared/schemas';
+
+import { deviceFetch } from './deviceAuth';
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+  const payload = await response.json().catch(() => ({} as { error?: { message?: string } }));
+  return payload.error?.message ?? fallback;
+};
+
+export const completeSessionTask = async (sessionId: string, index: number, skipped: boolean) => {
+  const response = await deviceFetch(`/api/sessions/${sessionId}/task/${index}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ skipped })
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, skipped ? 'Unable to skip this task.' : 'Unable to update this task.'));
+  }
+
+  const data = (await response.json()) as { session: Session };
+  return data.session;
+};
+
+export const finishSessionRequest = async (sessionId: string) => {
+  const response = await deviceFetch(`/api/sessions/${sessionId}/finish`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Unable to end the session.'));
+  }
+
+  const data = (await response.json()) as { session: Session };
+  return data.session;
+};
+
+export const requestEncouragement = async (sessionId: string) => {
+  const response = await fetch(`/api/sessions/${sessionId}/encourage`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Unable to send encouragement.'));
+  }
+};
+
+// Skips whatever is left so every session can be finished with a medal.
+export const endSessions = async (sessions: Session[]) => {
+  for (const session of sessions) {
+    for (let index = 0; index < session.tasks.length; index += 1) {
+      const task = session.tasks[index];
+      if (task.completedAt || task.skipped) {
+        continue;
+      }
+      await completeSessionTask(session.id, index, true);
+    }
+
+    if (!session.medal) {
+      await finishSessionRequest(session.id);
+    }
+  }
+};
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+import type { SessionStreamEvent } from '../types/session';
+import { withDeviceToken } from './deviceAuth';
+
+export const useSessionStream = (onEvent: (event: SessionStreamEvent) => void) => {
+  const handlerRef = useRef(onEvent);
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      return undefined;
+    }
+
+    const source = new EventSource(withDeviceToken('/api/sessions/stream'));
+    source.onmessage = (message: MessageEvent<string>) => {
+      let event: SessionStreamEvent;
+      try {
+        event = JSON.parse(message.data) as SessionStreamEvent;
+      } catch (error) {
+        console.error(error);
+        return;
+      }
+      handlerRef.current(event);
+    };
+
+    return () => {
+      source.close();
+    };
+  }, []);
+};
@@ -0,0 +1,121 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_VOICE_PROFILE, DUCKED_VOLUME, pickSpeechVoice, useVoicePlayer, type VoiceProfile } from './voice';
+
+const voice = (lang: string, name: string, isDefault = false) =>
+  ({ lang, name, default: isDefault }) as SpeechSynthesisVoice;
+
+const VOICES = [voice('en-GB', 'Daniel'), voice('en-US', 'Samantha'), voice('da_DK', 'Sara'), voice('en-US', 'Alex', true)];
+
+class FakeUtterance {
+  lang = '';
+  rate = 1;
+  pitch = 1;
+  voice: SpeechSynthesisVoice | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+
+  constructor(public text: string) {}
+}
+
+describe('pickSpeechVoice', () => {
+  it('prefers the exact locale, then the language, then gives up', () => {
+    expect(pickSpeechVoice(VOICES, 'en-US')?.name).toBe('Alex');
+    expect(pickSpeechVoice(VOICES, 'da-DK')?.name).toBe('Sara');
+    expect(pickSpeechVoice(VOICES, 'en-AU')?.name).toBe('Alex');
+    expect(pickSpeechVoice(VOICES, 'de-DE')).toBeNull();
+  });
+});
+
+describe('useVoicePlayer', () => {
+  const spoken: FakeUtterance[] = [];
+
+  beforeEach(() => {
+    spoken.length = 0;
+    vi.spyOn(window.HTMLMediaElement.prototype, 'load').mockImplementation(() => undefined);
+    vi.spyOn(window.HTMLMediaElement.prototype, 'pause').mockImplementation(() => undefined);
+    vi.spyOn(window.HTMLMediaElement.prototype, 'play').mockRejectedValue(new Error('NotAllowedError'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(window, 'speechSynthesis');
+  });
+
+  it('speaks through the browser voice when there is no server audio', async () => {
+    vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+    Object.defineProperty(window, 'speechSynthesis', {
+      configurable: true,
+      value: {
+        getVoices: () => VOICES,
+        cancel: vi.fn(),
+        speak: (utterance: FakeUtterance) => {
+          spoken.push(utterance);
+          utterance.onend?.();
+        }
+      }
+    });
+
+    const { result } = renderHook(() => useVoicePlayer());
+    const profile: VoiceProfile = { language: 'da-DK', voice: 'mette', rate: 0.8, pitch: 1.2 };
+    await act(() => result.current.play({ text: 'Godt gået, Ada!', profile, audioUrl: null }));
+
+    expect(spoken).toHaveLength(1);
+    expect(spoken[0]).toMatchObject({ text: 'Godt gået, Ada!', lang: 'da-DK', rate: 0.8, pitch: 1.2 });
+    expect(spoken[0].voice?.name).toBe('Sara');
+    expect(result.current.unplayed).toBeNull();
+  });
+
+  it('keeps the message for a manual replay when nothing can speak', async () => {
+    const { result } = renderHook(() => useVoicePlayer());
+    const message = { text: 'Great job, Ada!', profile: DEFAULT_VOICE_PROFILE, audioUrl: '/api/tts/audio/abc.wav' };
+
+    await act(() => result.current.play(message));
+
+    expect(result.current.unplayed).toEqual(message);
+
+    act(() => result.current.dismissUnplayed());
+    expect(result.current.unplayed).toBeNull();
+  });
+
+  it('ducks a nudge under a completion on another channel and holds a new nudge until it ends', async () => {
+    const started: HTMLMediaElement[] = [];
+    vi.spyOn(window.HTMLMediaElement.prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+      started.push(this);
+      return Promise.resolve();
+    });
+    const clip = (audioUrl: string) => ({ text: audioUrl, profile: DEFAULT_VOICE_PROFILE, audioUrl });
+    const flush = () => act(async () => undefined);
+
+    const { result } = renderHook(() => useVoicePlayer());
+    const nudge = result.current.play(clip('/api/tts/audio/nudge.wav'), { channel: 'ada', priority: 1 });
+    await flush();
+    const completion = result.current.play(clip('/api/tts/audio/done.wav'), { channel: 'ben', priority: 3 });
+    await flush();
+
+    expect(started).toHaveLength(2);
+    expect(started[0].volume).toBe(DUCKED_VOLUME);
+    expect(started[1].volume).toBe(1);
+
+    const laterNudge = result.current.play(clip('/api/tts/audio/later.wav'), { channel: 'cleo', priority: 1 });
+    await flush();
+    expect(started).toHaveLength(2);
+
+    await act(async () => {
+      started[1].dispatchEvent(new Event('ended'));
+      await completion;
+    });
+    expect(started).toHaveLength(3);
+    expect(started[0].volume).toBe(DUCKED_VOLUME);
+    expect(started[2].volume).toBe(1);
+
+    await act(async () => {
+      started[0].dispatchEvent(new Event('ended'));
+      started[2].dispatchEvent(new Event('ended'));
+      await Promise.all([nudge, laterNudge]);
+    });
+    expect(result.current.unplayed).toBeNull();
+  });
+});
@@ -1,30 +1,163 @@
+import type { Child, ChildLanguage } from '@shared/schemas';
+import { DEFAULT_CHILD_LANGUAGE, DEFAULT_VOICE_ID } from '@shared/schemas';
 import { useCallback, useMemo, useRef, useState } from 'react';
 
 const SILENT_WAV =
   "data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBIAAAABAAEAQB8AAEAfAAABAAgAAABmYWN0BAAAAAAAAABkYXRhAAAAAA==";
 
+export type VoiceProfile = {
+  language: ChildLanguage;
+  voice: string;
+  rate: number;
+  pitch: number;
+};
+
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+  language: DEFAULT_CHILD_LANGUAGE,
+  voice: DEFAULT_VOICE_ID,
+  rate: 1,
+  pitch: 1
+};
+
+export const childVoiceProfile = (child: Child): VoiceProfile => ({
+  language: child.language,
+  voice: child.voice,
+  rate: child.speechRate,
+  pitch: child.speechPitch
+});
+
+export type SpokenMessage = {
+  text: string;
+  profile: VoiceProfile;
+  // Null when /api/tts had nothing for us; the browser voice reads the text instead.
+  audioUrl: string | null;
+};
+
+// Which board channel a clip belongs to and how much it matters; see utils/voiceChannels.
+export type VoicePlayback = {
+  channel: string;
+  priority: number;
+};
 
 type VoicePlayer = {
   enabled: boolean;
   enabling: boolean;
   error: string | null;
+  unplayed: SpokenMessage | null;
   enable: () => Promise<boolean>;
-  play: (audioUrl: string) => Promise<void>;
+  play: (message: SpokenMessage, playback?: VoicePlayback) => Promise<void>;
+  replay: () => Promise<void>;
+  dismissUnplayed: () => void;
   setError: (message: string | null) => void;
 };
 
+const normalizeLocale = (value: string) => value.replace('_', '-').toLowerCase();
+
+// Exact locale first (da-DK), then any voice for the language (da-*), preferring the platform default.
+export const pickSpeechVoice = (voices: SpeechSynthesisVoice[], language: string) => {
+  const locale = normalizeLocale(language);
+  const base = locale.split('-')[0];
+  const exact = voices.filter((voice) => normalizeLocale(voice.lang) === locale);
+  const sameLanguage = voices.filter((voice) => normalizeLocale(voice.lang).split('-')[0] === base);
+  const candidates = exact.length > 0 ? exact : sameLanguage;
+  return candidates.find((voice) => voice.default) ?? candidates[0] ?? null;
+};
+
+const getSpeechSynthesis = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined'
+    ? window.speechSynthesis
+    : null;
+
+const VOICE_LOAD_TIMEOUT_MS = 1000;
+
+const DEFAULT_PLAYBACK: VoicePlayback = { channel: 'board', priority: 0 };
+
+// iPad Safari only lets an element play after it was started from a tap, so enabling voice primes a few up front.
+const AUDIO_POOL_SIZE = 4;
+
+// Volume of a clip that keeps playing underneath a more important one on another channel.
+export const DUCKED_VOLUME = 0.3;
+
+type ActiveClip = {
+  audio: HTMLAudioElement;
+  priority: number;
+  done: Promise<void>;
+};
+
+// The most important clip plays at full volume (the newest one on a tie) and everything else is ducked.
+const balanceMix = (clips: Map<string, ActiveClip>) => {
+  const lead = Array.from(clips.values()).reduce<ActiveClip | null>(
+    (best, clip) => (!best || clip.priority >= best.priority ? clip : best),
+    null
+  );
+  clips.forEach((clip) => {
+    clip.audio.volume = clip === lead ? 1 : DUCKED_VOLUME;
+  });
+};
+
+// Chrome fills the voice list asynchronously, so the first call can see an empty list.
+const loadSpeechVoices = (synth: SpeechSynthesis) => {
+  const voices = synth.getVoices();
+  if (voices.length > 0) {
+    return Promise.resolve(voices);
+  }
+  return new Promise<SpeechSynthesisVoice[]>((resolve) => {
+    const finish = () => {
+      window.clearTimeout(timer);
+      synth.removeEventListener('voiceschanged', finish);
+      resolve(synth.getVoices());
+    };
+    const timer = window.setTimeout(finish, VOICE_LOAD_TIMEOUT_MS);
+    synth.addEventListener('voiceschanged', finish);
+  });
+};
+
+const speakText = async (text: string, { language, rate, pitch }: VoiceProfile) => {
+  const synth = getSpeechSynthesis();
+  if (!synth) {
+    throw new Error('Speech synthesis is not available in this browser.');
+  }
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = language;
+  utterance.rate = rate;
+  utterance.pitch = pitch;
+  const voice = pickSpeechVoice(await loadSpeechVoices(synth), language);
+  if (voice) {
+    utterance.voice = voice;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => reject(new Error(`Speech synthesis failed: ${event.error}`));
+    synth.cancel();
+    synth.speak(utterance);
+  });
+};
+
 export const useVoicePlayer = (): VoicePlayer => {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioPoolRef = useRef<HTMLAudioElement[]>([]);
+  const channelAudioRef = useRef(new Map<string, HTMLAudioElement>());
+  const activeClipsRef = useRef(new Map<string, ActiveClip>());
+  const speechTurnRef = useRef<Promise<void>>(Promise.resolve());
   const [enabled, setEnabled] = useState(false);
   const [enabling, setEnabling] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [unplayed, setUnplayed] = useState<SpokenMessage | null>(null);
+
+  const createAudio = () => {
+    const audio = new Audio();
+    audio.preload = 'auto';
+    return audio;
+  };
 
-  const ensureAudio = useCallback(() => {
-    if (!audioRef.current) {
-      audioRef.current = new Audio();
-      audioRef.current.preload = 'auto';
+  const ensureAudio = useCallback((channel: string) => {
+    let audio = channelAudioRef.current.get(channel);
+    if (!audio) {
+      audio = audioPoolRef.current.shift() ?? createAudio();
+      channelAudioRef.current.set(channel, audio);
     }
-    return audioRef.current;
+    return audio;
   }, []);
 
   const enable = useCallback(async () => {
@@ -39,43 +172,124 @@ export const useVoicePlayer = (): VoicePlayer => {
     setEnabling(true);
 
     try {
-      const audio = ensureAudio();
-      audio.src = SILENT_WAV;
-      audio.load();
-      await audio.play();
+      const pool = Array.from({ length: AUDIO_POOL_SIZE }, createAudio);
+      await Promise.all(
+        pool.map((audio) => {
+          audio.src = SILENT_WAV;
+          audio.load();
+          return audio.play();
+        })
+      );
+      audioPoolRef.current = pool;
       setEnabled(true);
       setError(null);
       return true;
     } catch (err) {
+      // Browsers that refuse the silent clip can still speak through speechSynthesis.
+      if (getSpeechSynthesis()) {
+        setEnabled(true);
+        setError(null);
+        return true;
+      }
       console.error(err);
       setError('Unable to enable voice playback. Please try again.');
       return false;
     } finally {
       setEnabling(false);
     }
-  }, [enabled, enabling, ensureAudio]);
+  }, [enabled, enabling]);
 
-  const play = useCallback(
-    async (audioUrl: string) => {
-      const audio = ensureAudio();
+  // Resolves once the clip has finished. A clip waits while a more important one plays on another channel, and
+  // otherwise starts straight away with the rest of the mix ducked underneath it.
+  const playAudio = useCallback(
+    async (audioUrl: string, { channel, priority }: VoicePlayback) => {
+      const clips = activeClipsRef.current;
+      const findLouder = () =>
+        Array.from(clips.entries()).find(([key, clip]) => key !== channel && clip.priority > priority)?.[1];
+      for (let louder = findLouder(); louder; louder = findLouder()) {
+        await louder.done.catch(() => undefined);
+      }
+
+      const audio = ensureAudio(channel);
       audio.pause();
       audio.currentTime = 0;
       audio.src = audioUrl;
       audio.load();
-      await audio.play();
+      const done = new Promise<void>((resolve, reject) => {
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('Audio playback failed'));
+      });
+      done.catch(() => undefined);
+
+      clips.set(channel, { audio, priority, done });
+      balanceMix(clips);
+      try {
+        await audio.play();
+        await done;
+      } finally {
+        clips.delete(channel);
+        balanceMix(clips);
+      }
     },
     [ensureAudio]
   );
 
+  // Browsers speak one utterance at a time, so the fallback voice always takes turns across channels.
+  const speakInTurn = useCallback((message: SpokenMessage) => {
+    const turn = speechTurnRef.current.then(() => speakText(message.text, message.profile));
+    speechTurnRef.current = turn.catch(() => undefined);
+    return turn;
+  }, []);
+
+  const speak = useCallback(
+    async (message: SpokenMessage, playback: VoicePlayback) => {
+      if (message.audioUrl) {
+        try {
+          await playAudio(message.audioUrl, playback);
+          return;
+        } catch (err) {
+          console.warn('Audio playback failed, trying the browser voice', err);
+        }
+      }
+      await speakInTurn(message);
+    },
+    [playAudio, speakInTurn]
+  );
+
+  // When neither backend can speak, the message stays on screen with a Play button instead of vanishing.
+  const play = useCallback(
+    async (message: SpokenMessage, playback: VoicePlayback = DEFAULT_PLAYBACK) => {
+      try {
+        await speak(message, playback);
+        setUnplayed(null);
+      } catch (err) {
+        console.error(err);
+        setUnplayed(message);
+      }
+    },
+    [speak]
+  );
+
+  const replay = useCallback(async () => {
+    if (unplayed) {
+      await play(unplayed);
+    }
+  }, [play, unplayed]);
+
+  const dismissUnplayed = useCallback(() => setUnplayed(null), []);
+
   return useMemo(
     () => ({
       enabled,
       enabling,
       error,
+      unplayed,
       enable,
       play,
+      replay,
+      dismissUnplayed,
       setError
     }),
-    [enabled, enabling, error, enable, play, setError]
+    [enabled, enabling, error, unplayed, enable, play, replay, dismissUnplayed, setError]
   );
 };
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { enqueueVoiceItem, STALE_NUDGE_MS, takeNextVoiceItem, type VoiceKind, type VoiceQueueItem } from './voiceChannels';
+
+const item = (kind: VoiceKind, sessionTaskId: string | null, enqueuedAt = 0): VoiceQueueItem<string> => ({
+  kind,
+  sessionTaskId,
+  enqueuedAt,
+  request: `${kind}:${sessionTaskId}`
+});
+
+const never = () => false;
+
+describe('enqueueVoiceItem', () => {
+  it('puts completions ahead of nudges and keeps arrival order within a priority', () => {
+    let queue: VoiceQueueItem<string>[] = [];
+    queue = enqueueVoiceItem(queue, item('nudge', 'task-2')).queue;
+    queue = enqueueVoiceItem(queue, item('session_start', 'task-1')).queue;
+    queue = enqueueVoiceItem(queue, item('completion', 'task-1')).queue;
+    queue = enqueueVoiceItem(queue, item('completion', 'task-3')).queue;
+
+    expect(queue.map((entry) => entry.request)).toEqual([
+      'completion:task-1',
+      'completion:task-3',
+      'session_start:task-1',
+      'nudge:task-2'
+    ]);
+  });
+
+  it('drops waiting nudges that a newer nudge or the task completion made pointless', () => {
+    const replaced = enqueueVoiceItem([item('nudge', 'task-1')], item('nudge', 'task-1'));
+    expect(replaced.queue).toHaveLength(1);
+    expect(replaced.dropped).toBe(1);
+
+    const completed = enqueueVoiceItem([item('nudge', 'task-1'), item('nudge', 'task-2')], item('completion', 'task-1'));
+    expect(completed.queue.map((entry) => entry.request)).toEqual(['completion:task-1', 'nudge:task-2']);
+    expect(completed.dropped).toBe(1);
+  });
+});
+
+describe('takeNextVoiceItem', () => {
+  it('skips nudges that waited too long or that the caller marks stale', () => {
+    const queue = [item('nudge', 'task-1', 0), item('nudge', 'task-2', STALE_NUDGE_MS), item('nudge', 'task-3', STALE_NUDGE_MS)];
+    const now = STALE_NUDGE_MS + 1;
+
+    const next = takeNextVoiceItem(queue, now, (entry) => entry.sessionTaskId === 'task-2');
+
+    expect(next.item?.request).toBe('nudge:task-3');
+    expect(next.dropped).toBe(2);
+    expect(next.rest).toEqual([]);
+  });
+
+  it('never drops completions, however long they waited', () => {
+    const next = takeNextVoiceItem([item('completion', 'task-1', 0)], STALE_NUDGE_MS * 10, never);
+
+    expect(next.item?.kind).toBe('completion');
+    expect(next.dropped).toBe(0);
+  });
+});
@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { SpokenMessage, VoicePlayback } from './voice';
+
+export type VoiceKind = 'session_start' | 'completion' | 'nudge' | 'custom';
+
+// Higher goes first within a channel and ducks lower clips playing on other channels.
+export const VOICE_PRIORITY: Record<VoiceKind, number> = {
+  completion: 3,
+  session_start: 2,
+  custom: 2,
+  nudge: 1
+};
+
+// A nudge that waited this long behind other lines no longer matches what the child is doing.
+export const STALE_NUDGE_MS = 20_000;
+
+export type VoiceQueueItem<T> = {
+  kind: VoiceKind;
+  sessionTaskId: string | null;
+  enqueuedAt: number;
+  request: T;
+};
+
+export type VoiceChannelState = {
+  status: 'idle' | 'preparing' | 'speaking';
+  current: VoiceKind | null;
+  queued: VoiceKind[];
+  dropped: number;
+};
+
+const IDLE_CHANNEL: VoiceChannelState = { status: 'idle', current: null, queued: [], dropped: 0 };
+
+// A newer nudge replaces the one still waiting, and a completion makes the nudge for that task pointless.
+export const enqueueVoiceItem = <T>(queue: VoiceQueueItem<T>[], item: VoiceQueueItem<T>) => {
+  const kept = queue.filter(
+    (queued) =>
+      queued.kind !== 'nudge' ||
+      !(item.kind === 'nudge' || (item.kind === 'completion' && item.sessionTaskId === queued.sessionTaskId))
+  );
+  const index = kept.findIndex((queued) => VOICE_PRIORITY[queued.kind] < VOICE_PRIORITY[item.kind]);
+  const next = index === -1 ? [...kept, item] : [...kept.slice(0, index), item, ...kept.slice(index)];
+  return { queue: next, dropped: queue.length - kept.length };
+};
+
+export const isStaleNudge = <T>(item: VoiceQueueItem<T>, now: number, isStale: (item: VoiceQueueItem<T>) => boolean) =>
+  item.kind === 'nudge' && (now - item.enqueuedAt > STALE_NUDGE_MS || isStale(item));
+
+export const takeNextVoiceItem = <T>(
+  queue: VoiceQueueItem<T>[],
+  now: number,
+  isStale: (item: VoiceQueueItem<T>) => boolean
+) => {
+  const index = queue.findIndex((item) => !isStaleNudge(item, now, isStale));
+  return {
+    item: index === -1 ? null : queue[index],
+    rest: index === -1 ? [] : queue.slice(index + 1),
+    dropped: index === -1 ? queue.length : index
+  };
+};
+
+type VoiceChannelsOptions<T> = {
+  enabled: boolean;
+  prepare: (request: T) => Promise<SpokenMessage>;
+  play: (message: SpokenMessage, playback: VoicePlayback) => Promise<void>;
+  // Lets the caller drop nudges for tasks that were finished while the line waited.
+  isStale: (item: VoiceQueueItem<T>) => boolean;
+  onPlayed: () => void;
+  onError: (error: unknown) => void;
+};
+
+// One queue per channel (a session, or the shared board), each preparing and playing on its own so a sibling's
+// slow message never holds up another child's cheer.
+export const useVoiceChannels = <T>(options: VoiceChannelsOptions<T>) => {
+  const optionsRef = useRef(options);
+  const queuesRef = useRef(new Map<string, VoiceQueueItem<T>[]>());
+  const statesRef = useRef(new Map<string, VoiceChannelState>());
+  const [channels, setChannels] = useState<Record<string, VoiceChannelState>>({});
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const update = useCallback((channel: string, patch: Partial<VoiceChannelState>, dropped = 0) => {
+    const current = statesRef.current.get(channel) ?? IDLE_CHANNEL;
+    statesRef.current.set(channel, {
+      ...current,
+      ...patch,
+      queued: (queuesRef.current.get(channel) ?? []).map((item) => item.kind),
+      dropped: current.dropped + dropped
+    });
+    setChannels(Object.fromEntries(statesRef.current));
+  }, []);
+
+  const runChannel = useCallback(
+    async (channel: string) => {
+      if (!optionsRef.current.enabled || (statesRef.current.get(channel)?.status ?? 'idle') !== 'idle') {
+        return;
+      }
+
+      update(channel, { status: 'preparing' });
+      try {
+        while (optionsRef.current.enabled) {
+          const { item, rest, dropped } = takeNextVoiceItem(
+            queuesRef.current.get(channel) ?? [],
+            Date.now(),
+            optionsRef.current.isStale
+          );
+          queuesRef.current.set(channel, rest);
+          if (!item) {
+            update(channel, {}, dropped);
+            break;
+          }
+
+          update(channel, { status: 'preparing', current: item.kind }, dropped);
+          try {
+            const message = await optionsRef.current.prepare(item.request);
+            // The child may have finished the task while the nudge text was being written.
+            if (isStaleNudge(item, Date.now(), optionsRef.current.isStale)) {
+              update(channel, {}, 1);
+              continue;
+            }
+            update(channel, { status: 'speaking' });
+            await optionsRef.current.play(message, { channel, priority: VOICE_PRIORITY[item.kind] });
+            optionsRef.current.onPlayed();
+          } catch (error) {
+            optionsRef.current.onError(error);
+          }
+        }
+      } finally {
+        update(channel, { status: 'idle', current: null });
+      }
+    },
+    [update]
+  );
+
+  const enqueue = useCallback(
+    (channel: string, kind: VoiceKind, sessionTaskId: string | null, request: T) => {
+      const { queue, dropped } = enqueueVoiceItem(queuesRef.current.get(channel) ?? [], {
+        kind,
+        sessionTaskId,
+        enqueuedAt: Date.now(),
+        request
+      });
+      queuesRef.current.set(channel, queue);
+      update(channel, {}, dropped);
+      void runChannel(channel);
+    },
+    [runChannel, update]
+  );
+
+  // Lines already being prepared or spoken finish; everything still waiting is forgotten.
+  const clear = useCallback(() => {
+    queuesRef.current = new Map();
+    statesRef.current.forEach((state, channel) => {
+      if (state.status === 'idle') {
+        statesRef.current.delete(channel);
+      } else {
+        statesRef.current.set(channel, { ...state, queued: [] });
+      }
+    });
+    setChannels(Object.fromEntries(statesRef.current));
+  }, []);
+
+  useEffect(() => {
+    if (options.enabled) {
+      queuesRef.current.forEach((_, channel) => void runChannel(channel));
+    }
+  }, [options.enabled, runChannel]);
+
+  return useMemo(() => ({ channels, enqueue, clear }), [channels, enqueue, clear]);
+};
@@ -0,0 +1,108 @@
+/* global self, caches, fetch, Response, URL */
+// Built into dist/sw.js by the precacheServiceWorker plugin in vite.config.ts, which prepends
+// `self.__PRECACHE_MANIFEST = { version, urls }` describing the current Vite build.
+
+const { version, urls } = self.__PRECACHE_MANIFEST;
+const SHELL_CACHE = `klar-parat-shell-${version}`;
+const API_CACHE = 'klar-parat-api';
+const NETWORK_TIMEOUT_MS = 4000;
+
+// The active list and per-session snapshots are what a reloaded board needs to carry on.
+const isCachedApiPath = (pathname) =>
+  pathname === '/api/sessions/active' ||
+  (/^\/api\/sessions\/[^/]+$/.test(pathname) && !['/api/sessions/history', '/api/sessions/stream'].includes(pathname));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('klar-parat-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const withTimeout = (promise, ms) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Network timed out')), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await withTimeout(fetch(request), NETWORK_TIMEOUT_MS);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) ?? (fallbackUrl ? await cache.match(fallbackUrl) : undefined);
+    if (cached) {
+      return cached;
+    }
+    if (fallbackUrl) {
+      throw error;
+    }
+    return new Response(JSON.stringify({ error: { message: 'Offline and nothing cached yet' } }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  return cached ?? fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/')) {
+    if (isCachedApiPath(url.pathname)) {
+      event.respondWith(networkFirst(request, API_CACHE));
+    }
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (urls.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,10 +1,42 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
 import path from 'node:path';
 
 import react from '@vitejs/plugin-react';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+const PUBLIC_PRECACHE_URLS = [
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png'
+];
+
+// Emits dist/sw.js with the hashed build output baked in, so every deploy gets a fresh shell cache.
+const precacheServiceWorker = (): Plugin => ({
+  name: 'klar-parat-precache-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const bundleUrls = Object.keys(bundle)
+      .filter((fileName) => !fileName.endsWith('.map'))
+      .map((fileName) => `/${fileName}`);
+    const urls = Array.from(new Set([...PUBLIC_PRECACHE_URLS, ...bundleUrls])).sort();
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    const template = readFileSync(path.resolve(__dirname, 'sw/service-worker.js'), 'utf8');
+
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls })};\n${template}`
+    });
+  }
+});
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   resolve: {
     alias: {
       '@shared': path.resolve(__dirname, '../../packages/shared/src')
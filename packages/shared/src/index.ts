@@ -1,4 +1,12 @@
 export * from './flags';
+export * from './logic/calendar';
+export * from './logic/durations';
+export * from './logic/insights';
 export * from './logic/medals';
+export * from './logic/messageSafety';
+export * from './logic/plan';
+export * from './logic/recalibration';
+export * from './logic/snippets';
+export * from './logic/undo';
 export * from './logic/urgency';
 export * from './schemas';
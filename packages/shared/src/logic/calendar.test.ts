@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { expandDateRange, findExceptionForChild } from './calendar.js';
+
+describe('expandDateRange', () => {
+  it('lists every date in an inclusive range, across month ends', () => {
+    expect(expandDateRange('2025-12-30', '2026-01-02')).toEqual([
+      '2025-12-30',
+      '2025-12-31',
+      '2026-01-01',
+      '2026-01-02'
+    ]);
+    expect(expandDateRange('2026-03-29', '2026-03-29')).toEqual(['2026-03-29']);
+  });
+});
+
+describe('findExceptionForChild', () => {
+  const household = { id: 'household', childId: null };
+  const ada = { id: 'ada-only', childId: 'ada' };
+
+  it('prefers a child-specific exception over the household one', () => {
+    expect(findExceptionForChild([household, ada], 'ada')).toBe(ada);
+    expect(findExceptionForChild([household, ada], 'ben')).toBe(household);
+    expect(findExceptionForChild([ada], 'ben')).toBeUndefined();
+  });
+});
@@ -0,0 +1,18 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcDate = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+export const expandDateRange = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let time = toUtcDate(from).getTime(); time <= toUtcDate(to).getTime(); time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+export const findExceptionForChild = <T extends { childId: string | null }>(
+  exceptions: T[],
+  childId: string
+): T | undefined =>
+  exceptions.find((exception) => exception.childId === childId) ??
+  exceptions.find((exception) => exception.childId === null);
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeSessionDurationSeconds, computeTaskDurations, measureTaskRuns } from './durations.js';
+
+const at = (minutes: number) => new Date(Date.UTC(2025, 0, 1, 7, minutes));
+
+describe('computeTaskDurations', () => {
+  it('measures each task from its start to completion', () => {
+    const durations = computeTaskDurations(
+      [
+        { orderIndex: 1, startedAt: at(5), completedAt: at(8), skipped: false },
+        { orderIndex: 0, startedAt: at(0), completedAt: at(5), skipped: false }
+      ],
+      at(0)
+    );
+
+    expect(durations).toEqual([
+      { orderIndex: 0, durationSeconds: 300 },
+      { orderIndex: 1, durationSeconds: 180 }
+    ]);
+  });
+
+  it('falls back to the previous completion when a task has no start stamp', () => {
+    const durations = computeTaskDurations(
+      [
+        { orderIndex: 0, startedAt: null, completedAt: at(2), skipped: false },
+        { orderIndex: 1, startedAt: null, completedAt: at(6), skipped: false }
+      ],
+      at(0)
+    );
+
+    expect(durations.map((entry) => entry.durationSeconds)).toEqual([120, 240]);
+  });
+
+  it('reports null for skipped and unfinished tasks', () => {
+    const durations = computeTaskDurations(
+      [
+        { orderIndex: 0, startedAt: at(0), completedAt: null, skipped: true },
+        { orderIndex: 1, startedAt: at(1), completedAt: null, skipped: false }
+      ],
+      at(0)
+    );
+
+    expect(durations.map((entry) => entry.durationSeconds)).toEqual([null, null]);
+  });
+});
+
+describe('measureTaskRuns', () => {
+  it('returns the tasks in routine order with their durations attached', () => {
+    const runs = measureTaskRuns(
+      [
+        { orderIndex: 1, title: 'Dress', startedAt: null, completedAt: at(7), skipped: false },
+        { orderIndex: 0, title: 'Wake up', startedAt: null, completedAt: at(3), skipped: false }
+      ],
+      at(0)
+    );
+
+    expect(runs.map(({ title, durationSeconds }) => ({ title, durationSeconds }))).toEqual([
+      { title: 'Wake up', durationSeconds: 180 },
+      { title: 'Dress', durationSeconds: 240 }
+    ]);
+  });
+});
+
+describe('computeSessionDurationSeconds', () => {
+  it('returns null until the session has both timestamps', () => {
+    expect(computeSessionDurationSeconds(at(0), null)).toBeNull();
+    expect(computeSessionDurationSeconds(at(0), at(12))).toBe(720);
+  });
+});
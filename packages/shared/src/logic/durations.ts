@@ -0,0 +1,57 @@
+export type TaskTimingInput = {
+  orderIndex: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  skipped: boolean;
+};
+
+export type TaskDuration = {
+  orderIndex: number;
+  durationSeconds: number | null;
+};
+
+const secondsBetween = (start: Date, end: Date) =>
+  Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+
+export const computeTaskDurations = (
+  tasks: TaskTimingInput[],
+  sessionStartedAt: Date | null
+): TaskDuration[] => {
+  const ordered = tasks.slice().sort((a, b) => a.orderIndex - b.orderIndex);
+  let previousBoundary = sessionStartedAt;
+
+  return ordered.map((task) => {
+    const start = task.startedAt ?? previousBoundary;
+    const durationSeconds =
+      !task.skipped && task.completedAt && start ? secondsBetween(start, task.completedAt) : null;
+
+    if (task.completedAt) {
+      previousBoundary = task.completedAt;
+    }
+
+    return { orderIndex: task.orderIndex, durationSeconds };
+  });
+};
+
+export type TaskRun<Task extends TaskTimingInput> = Task & { durationSeconds: number | null };
+
+// Tasks in routine order with their measured duration. History, insights and recalibration all read runs through
+// this, so they agree on how a task is timed.
+export const measureTaskRuns = <Task extends TaskTimingInput>(
+  tasks: Task[],
+  sessionStartedAt: Date | null
+): TaskRun<Task>[] => {
+  const durations = new Map(
+    computeTaskDurations(tasks, sessionStartedAt).map((entry) => [entry.orderIndex, entry.durationSeconds])
+  );
+
+  return tasks
+    .slice()
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map((task) => ({ ...task, durationSeconds: durations.get(task.orderIndex) ?? null }));
+};
+
+export const computeSessionDurationSeconds = (
+  actualStartAt: Date | null,
+  actualEndAt: Date | null
+): number | null => (actualStartAt && actualEndAt ? secondsBetween(actualStartAt, actualEndAt) : null);
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { aggregateTaskInsights, selectTopSlowTasks, type TaskRunSample } from './insights.js';
+
+const sample = (overrides: Partial<TaskRunSample>): TaskRunSample => ({
+  childId: 'child-1',
+  childFirstName: 'Ada',
+  templateId: 'template-1',
+  templateName: 'Morning',
+  taskTitle: 'Brush teeth',
+  expectedMinutes: 2,
+  durationSeconds: 360,
+  skipped: false,
+  nudgeCount: 0,
+  ...overrides
+});
+
+describe('aggregateTaskInsights', () => {
+  it('averages runs per child, template, and task title', () => {
+    const [insight] = aggregateTaskInsights([
+      sample({ durationSeconds: 360, nudgeCount: 3 }),
+      sample({ durationSeconds: 360, nudgeCount: 2 }),
+      sample({ durationSeconds: null, skipped: true })
+    ]);
+
+    expect(insight).toMatchObject({
+      taskTitle: 'Brush teeth',
+      runs: 3,
+      completedRuns: 2,
+      averageActualMinutes: 6,
+      averageExpectedMinutes: 2,
+      overrunRatio: 3,
+      skipRate: 0.33,
+      nudgeCount: 5
+    });
+  });
+
+  it('keeps siblings and templates apart', () => {
+    const insights = aggregateTaskInsights([
+      sample({}),
+      sample({ childId: 'child-2', childFirstName: 'Ben' }),
+      sample({ templateId: 'template-2', templateName: 'Weekend' })
+    ]);
+
+    expect(insights).toHaveLength(3);
+  });
+
+  it('reports null averages when a task was never completed', () => {
+    const [insight] = aggregateTaskInsights([sample({ durationSeconds: null, skipped: true })]);
+
+    expect(insight.averageActualMinutes).toBeNull();
+    expect(insight.overrunRatio).toBeNull();
+    expect(insight.skipRate).toBe(1);
+  });
+});
+
+describe('selectTopSlowTasks', () => {
+  it('returns the worst overruns first and ignores tasks within estimate', () => {
+    const insights = aggregateTaskInsights([
+      sample({ taskTitle: 'Brush teeth', durationSeconds: 360 }),
+      sample({ taskTitle: 'Get dressed', durationSeconds: 180 }),
+      sample({ taskTitle: 'Shoes', durationSeconds: 240 }),
+      sample({ taskTitle: 'Breakfast', durationSeconds: 60 }),
+      sample({ taskTitle: 'Backpack', durationSeconds: 150 })
+    ]);
+
+    expect(selectTopSlowTasks(insights).map((insight) => insight.taskTitle)).toEqual([
+      'Brush teeth',
+      'Shoes',
+      'Get dressed'
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+export type TaskRunSample = {
+  childId: string;
+  childFirstName: string;
+  templateId: string;
+  templateName: string;
+  taskTitle: string;
+  expectedMinutes: number;
+  durationSeconds: number | null;
+  skipped: boolean;
+  nudgeCount: number;
+};
+
+export type TaskInsight = {
+  childId: string;
+  childFirstName: string;
+  templateId: string;
+  templateName: string;
+  taskTitle: string;
+  runs: number;
+  completedRuns: number;
+  averageActualMinutes: number | null;
+  averageExpectedMinutes: number;
+  overrunRatio: number | null;
+  skipRate: number;
+  nudgeCount: number;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+
+export const aggregateTaskInsights = (samples: TaskRunSample[]): TaskInsight[] => {
+  const groups = new Map<string, TaskRunSample[]>();
+
+  samples.forEach((sample) => {
+    const key = `${sample.childId}|${sample.templateId}|${sample.taskTitle}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(sample);
+    } else {
+      groups.set(key, [sample]);
+    }
+  });
+
+  return Array.from(groups.values()).map((group) => {
+    const [first] = group;
+    const actualMinutes = group
+      .filter((sample) => !sample.skipped && sample.durationSeconds !== null)
+      .map((sample) => (sample.durationSeconds ?? 0) / 60);
+    const averageActual = average(actualMinutes);
+    const averageExpected = average(group.map((sample) => sample.expectedMinutes)) ?? 0;
+    const skippedRuns = group.filter((sample) => sample.skipped).length;
+
+    return {
+      childId: first.childId,
+      childFirstName: first.childFirstName,
+      templateId: first.templateId,
+      templateName: first.templateName,
+      taskTitle: first.taskTitle,
+      runs: group.length,
+      completedRuns: actualMinutes.length,
+      averageActualMinutes: averageActual === null ? null : round(averageActual),
+      averageExpectedMinutes: round(averageExpected),
+      overrunRatio: averageActual === null || averageExpected <= 0 ? null : round(averageActual / averageExpected),
+      skipRate: round(skippedRuns / group.length),
+      nudgeCount: group.reduce((total, sample) => total + sample.nudgeCount, 0)
+    };
+  });
+};
+
+export const selectTopSlowTasks = (insights: TaskInsight[], limit = 3): TaskInsight[] =>
+  insights
+    .filter((insight) => insight.overrunRatio !== null && insight.overrunRatio > 1)
+    .sort((a, b) => (b.overrunRatio ?? 0) - (a.overrunRatio ?? 0))
+    .slice(0, limit);
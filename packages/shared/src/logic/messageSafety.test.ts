@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkMessageSafety } from './messageSafety.js';
+
+const context = { siblingNames: ['Otto'], knownTaskTitles: ['Morning Flow', 'Brush teeth', 'Get dressed'] };
+
+describe('checkMessageSafety', () => {
+  it('accepts short encouragement about known tasks', () => {
+    expect(checkMessageSafety('Great job, Ada! Next up is Get dressed.', context)).toEqual({ safe: true });
+    expect(checkMessageSafety('Flot, Ada! Børst tænder nu.', { ...context, knownTaskTitles: ['Børst tænder'] })).toEqual({
+      safe: true
+    });
+  });
+
+  it('limits sentence count and length', () => {
+    expect(checkMessageSafety('Go! Go! Go! Go!', context)).toEqual({ safe: false, reason: 'too_many_sentences' });
+    expect(checkMessageSafety(`Keep going ${'and going '.repeat(12)}Ada.`, context)).toEqual({
+      safe: false,
+      reason: 'sentence_too_long'
+    });
+  });
+
+  it('rejects shaming and comparisons in English and Danish', () => {
+    expect(checkMessageSafety('Don’t be lazy, Ada.', context)).toEqual({ safe: false, reason: 'shaming_language' });
+    expect(checkMessageSafety('Du er hurtigere end i går, Ada!', context)).toEqual({
+      safe: false,
+      reason: 'shaming_language'
+    });
+  });
+
+  it('rejects sibling names and chores that are not in the routine', () => {
+    expect(checkMessageSafety('Otto is already done, Ada!', context)).toEqual({ safe: false, reason: 'sibling_name' });
+    expect(checkMessageSafety('Nice work, Ada! Now grab your backpack.', context)).toEqual({
+      safe: false,
+      reason: 'unknown_task'
+    });
+  });
+});
@@ -0,0 +1,141 @@
+export const MAX_MESSAGE_SENTENCES = 3;
+export const MAX_SENTENCE_WORDS = 25;
+
+export type MessageSafetyViolation =
+  | 'too_many_sentences'
+  | 'sentence_too_long'
+  | 'shaming_language'
+  | 'sibling_name'
+  | 'unknown_task';
+
+export type MessageSafetyResult = { safe: true } | { safe: false; reason: MessageSafetyViolation };
+
+export type MessageSafetyContext = {
+  siblingNames: string[];
+  // Task titles (and the routine name) the child can actually see on screen.
+  knownTaskTitles: string[];
+};
+
+// Shaming words plus comparison phrasing; both languages are always checked because the LLM
+// occasionally answers in the wrong one.
+const SHAMING_TERMS = [
+  'stupid',
+  'dumb',
+  'lazy',
+  'slowpoke',
+  'useless',
+  'naughty',
+  'loser',
+  'shame',
+  'ashamed',
+  'embarrassing',
+  'disappointed',
+  'disappointing',
+  'baby',
+  'crybaby',
+  'worst',
+  'better than',
+  'faster than',
+  'slower than',
+  'unlike',
+  'brother',
+  'sister',
+  'sibling',
+  'siblings',
+  'dum',
+  'doven',
+  'sløv',
+  'sløve',
+  'sneglen',
+  'ubrugelig',
+  'fjols',
+  'tåbe',
+  'skam',
+  'skamme',
+  'pinligt',
+  'skuffet',
+  'skuffende',
+  'tudefjæs',
+  'værst',
+  'bedre end',
+  'hurtigere end',
+  'langsommere end',
+  'bror',
+  'søster',
+  'søskende'
+];
+
+// Everyday routine chores in English and Danish. A chore named in a message must appear in one of the
+// session's own task titles, otherwise the message is sending the child to a task that does not exist.
+const ROUTINE_TASK_TERMS = [
+  'teeth',
+  'toothbrush',
+  'dressed',
+  'clothes',
+  'breakfast',
+  'lunch',
+  'shoes',
+  'socks',
+  'jacket',
+  'coat',
+  'backpack',
+  'schoolbag',
+  'hair',
+  'bed',
+  'shower',
+  'bath',
+  'homework',
+  'pajamas',
+  'toilet',
+  'tænder',
+  'tandbørste',
+  'tøj',
+  'morgenmad',
+  'madpakke',
+  'sko',
+  'strømper',
+  'jakke',
+  'taske',
+  'skoletaske',
+  'hår',
+  'seng',
+  'lektier',
+  'nattøj'
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?…])\s+/u)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence));
+
+export const checkMessageSafety = (text: string, context: MessageSafetyContext): MessageSafetyResult => {
+  const sentences = splitSentences(text);
+  if (sentences.length > MAX_MESSAGE_SENTENCES) {
+    return { safe: false, reason: 'too_many_sentences' };
+  }
+  if (sentences.some((sentence) => sentence.split(/\s+/).length > MAX_SENTENCE_WORDS)) {
+    return { safe: false, reason: 'sentence_too_long' };
+  }
+
+  if (SHAMING_TERMS.some((term) => containsTerm(text, term))) {
+    return { safe: false, reason: 'shaming_language' };
+  }
+
+  if (context.siblingNames.some((name) => name.trim() && containsTerm(text, name.trim()))) {
+    return { safe: false, reason: 'sibling_name' };
+  }
+
+  const knownTasks = context.knownTaskTitles.join(' ');
+  const inventedTask = ROUTINE_TASK_TERMS.find((term) => containsTerm(text, term) && !containsTerm(knownTasks, term));
+  if (inventedTask) {
+    return { safe: false, reason: 'unknown_task' };
+  }
+
+  return { safe: true };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { WEEKDAYS } from '../schemas.js';
+import { getWeekday, suggestTodayPlan } from './plan.js';
+
+const weekdays = WEEKDAYS.filter((day) => day !== 'sat' && day !== 'sun');
+
+describe('getWeekday', () => {
+  it('maps local dates to Monday-first weekday keys', () => {
+    expect(getWeekday(new Date(2025, 0, 6))).toBe('mon');
+    expect(getWeekday(new Date(2025, 0, 12))).toBe('sun');
+  });
+});
+
+describe('suggestTodayPlan', () => {
+  const templates = [
+    { id: 'school', daysActive: weekdays },
+    { id: 'weekend', daysActive: ['sat' as const, 'sun' as const] },
+    { id: 'swim', daysActive: ['sat' as const] }
+  ];
+
+  it('uses each active child default template when it runs today', () => {
+    const plan = suggestTodayPlan(
+      [
+        { id: 'ada', active: true, defaultTemplateId: 'school' },
+        { id: 'ben', active: false, defaultTemplateId: 'school' }
+      ],
+      templates,
+      'tue'
+    );
+
+    expect(plan.entries).toEqual([{ childId: 'ada', templateId: 'school', source: 'default' }]);
+  });
+
+  it('prefers the weekly assignment the scheduler stages over the default template', () => {
+    const plan = suggestTodayPlan(
+      [
+        { id: 'ada', active: true, defaultTemplateId: 'school' },
+        { id: 'ben', active: true, defaultTemplateId: 'school' }
+      ],
+      templates,
+      'tue',
+      [{ childId: 'ben', kind: 'skip', templateId: null, note: null }],
+      [
+        { childId: 'ada', templateId: 'swim' },
+        { childId: 'ben', templateId: 'swim' }
+      ]
+    );
+
+    expect(plan).toEqual({
+      entries: [{ childId: 'ada', templateId: 'swim', source: 'schedule' }],
+      suspended: [{ childId: 'ben', note: null }]
+    });
+  });
+
+  it('falls back to the only routine scheduled for the weekday', () => {
+    const plan = suggestTodayPlan([{ id: 'ada', active: true, defaultTemplateId: 'school' }], templates, 'sun');
+
+    expect(plan.entries).toEqual([{ childId: 'ada', templateId: 'weekend', source: 'weekday' }]);
+  });
+
+  it('leaves children out when the weekday is ambiguous', () => {
+    expect(suggestTodayPlan([{ id: 'ada', active: true, defaultTemplateId: null }], templates, 'sat')).toEqual({
+      entries: [],
+      suspended: []
+    });
+  });
+
+  it('applies household and per-child calendar exceptions first', () => {
+    const plan = suggestTodayPlan(
+      [
+        { id: 'ada', active: true, defaultTemplateId: 'school' },
+        { id: 'ben', active: true, defaultTemplateId: 'school' }
+      ],
+      templates,
+      'fri',
+      [
+        { childId: null, kind: 'skip', templateId: null, note: 'Christmas break' },
+        { childId: 'ben', kind: 'template', templateId: 'weekend', note: null }
+      ]
+    );
+
+    expect(plan).toEqual({
+      entries: [{ childId: 'ben', templateId: 'weekend', source: 'exception' }],
+      suspended: [{ childId: 'ada', note: 'Christmas break' }]
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type {
+  CalendarExceptionKind,
+  TodayPlanEntry,
+  TodayPlanSuspension,
+  Weekday
+} from '../schemas.js';
+import { WEEKDAYS } from '../schemas.js';
+import { findExceptionForChild } from './calendar.js';
+
+export type PlanChild = {
+  id: string;
+  active: boolean;
+  defaultTemplateId: string | null;
+};
+
+export type PlanTemplate = {
+  id: string;
+  daysActive: Weekday[];
+};
+
+export type PlanException = {
+  childId: string | null;
+  kind: CalendarExceptionKind;
+  templateId: string | null;
+  note: string | null;
+};
+
+export type PlanAssignment = {
+  childId: string;
+  templateId: string;
+};
+
+export type TodayPlanSuggestion = {
+  entries: TodayPlanEntry[];
+  suspended: TodayPlanSuspension[];
+};
+
+export const getWeekday = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+// Same precedence as the scheduler: calendar exceptions, then the child's weekly assignment for the day. Defaults
+// and weekday templates only fill in for children nobody scheduled.
+export const suggestTodayPlan = (
+  children: PlanChild[],
+  templates: PlanTemplate[],
+  weekday: Weekday,
+  exceptions: PlanException[] = [],
+  assignments: PlanAssignment[] = []
+): TodayPlanSuggestion => {
+  const activeTemplates = templates.filter((template) => template.daysActive.includes(weekday));
+  const entries: TodayPlanEntry[] = [];
+  const suspended: TodayPlanSuspension[] = [];
+
+  children
+    .filter((child) => child.active)
+    .forEach((child) => {
+      const exception = findExceptionForChild(exceptions, child.id);
+      if (exception?.kind === 'skip') {
+        suspended.push({ childId: child.id, note: exception.note });
+        return;
+      }
+      if (exception?.kind === 'template' && exception.templateId) {
+        entries.push({ childId: child.id, templateId: exception.templateId, source: 'exception' });
+        return;
+      }
+
+      const assignment = assignments.find((entry) => entry.childId === child.id);
+      if (assignment) {
+        entries.push({ childId: child.id, templateId: assignment.templateId, source: 'schedule' });
+        return;
+      }
+
+      const defaultTemplate = activeTemplates.find((template) => template.id === child.defaultTemplateId);
+      if (defaultTemplate) {
+        entries.push({ childId: child.id, templateId: defaultTemplate.id, source: 'default' });
+        return;
+      }
+      // Without a usable default, only suggest when the weekday leaves exactly one routine to choose from.
+      if (activeTemplates.length === 1) {
+        entries.push({ childId: child.id, templateId: activeTemplates[0].id, source: 'weekday' });
+      }
+    });
+
+  return { entries, suspended };
+};
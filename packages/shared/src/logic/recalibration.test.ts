@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  median,
+  RECALIBRATION_RECENT_RUNS,
+  type RecalibrationRun,
+  suggestExpectedMinutes
+} from './recalibration.js';
+
+const task = { id: 'task-1', title: 'Brush teeth', expectedMinutes: 2 };
+
+const runs = (minutes: number[]): RecalibrationRun[] =>
+  minutes.map((value) => ({ title: 'Brush teeth', durationSeconds: value * 60 }));
+
+describe('median', () => {
+  it('handles odd and even sample sizes', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+});
+
+describe('suggestExpectedMinutes', () => {
+  it('suggests the median of recent runs rounded to half minutes', () => {
+    expect(suggestExpectedMinutes([task], runs([4.1, 30, 3.8]))).toEqual([
+      { taskId: 'task-1', title: 'Brush teeth', currentMinutes: 2, suggestedMinutes: 4, sampleSize: 3 }
+    ]);
+  });
+
+  it('needs enough runs before suggesting anything', () => {
+    expect(suggestExpectedMinutes([task], runs([5, 5]))).toEqual([]);
+  });
+
+  it('skips tasks whose estimate already matches', () => {
+    expect(suggestExpectedMinutes([task], runs([2, 2.1, 1.9]))).toEqual([]);
+  });
+
+  it('only looks at the most recent runs', () => {
+    const recent = runs(Array.from({ length: RECALIBRATION_RECENT_RUNS }, () => 3));
+    const older = runs(Array.from({ length: RECALIBRATION_RECENT_RUNS + 1 }, () => 10));
+    const [suggestion] = suggestExpectedMinutes([task], [...recent, ...older]);
+
+    expect(suggestion.suggestedMinutes).toBe(3);
+    expect(suggestion.sampleSize).toBe(RECALIBRATION_RECENT_RUNS);
+  });
+});
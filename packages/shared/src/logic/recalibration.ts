@@ -0,0 +1,57 @@
+import type { ExpectedMinutesSuggestion } from '../schemas.js';
+
+export const RECALIBRATION_RECENT_RUNS = 10;
+export const RECALIBRATION_MIN_RUNS = 3;
+
+export type RecalibrationTask = {
+  id: string;
+  title: string;
+  expectedMinutes: number;
+};
+
+export type RecalibrationRun = {
+  title: string;
+  durationSeconds: number;
+};
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const roundToHalfMinute = (minutes: number) => Math.max(0.5, Math.round(minutes * 2) / 2);
+
+// Runs are expected newest first so only the most recent ones feed the median.
+export const suggestExpectedMinutes = (
+  tasks: RecalibrationTask[],
+  runs: RecalibrationRun[]
+): ExpectedMinutesSuggestion[] =>
+  tasks.flatMap((task) => {
+    const recentMinutes = runs
+      .filter((run) => run.title === task.title)
+      .slice(0, RECALIBRATION_RECENT_RUNS)
+      .map((run) => run.durationSeconds / 60);
+
+    if (recentMinutes.length < RECALIBRATION_MIN_RUNS) {
+      return [];
+    }
+
+    const suggestedMinutes = roundToHalfMinute(median(recentMinutes) ?? task.expectedMinutes);
+    if (suggestedMinutes === task.expectedMinutes) {
+      return [];
+    }
+
+    return [
+      {
+        taskId: task.id,
+        title: task.title,
+        currentMinutes: task.expectedMinutes,
+        suggestedMinutes,
+        sampleSize: recentMinutes.length
+      }
+    ];
+  });
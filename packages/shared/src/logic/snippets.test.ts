@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderSnippet } from './snippets.js';
+
+const values = { name: 'Ada', task: 'Brush teeth', next: 'Get dressed', minutesLeft: 12 };
+
+describe('renderSnippet', () => {
+  it('fills every known placeholder', () => {
+    expect(renderSnippet('Sparkly teeth, {{name}}! {{ next }} is next, {{minutesLeft}} minutes left.', values)).toBe(
+      'Sparkly teeth, Ada! Get dressed is next, 12 minutes left.'
+    );
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(renderSnippet('{{task}} done, {{pet}}!', values)).toBe('Brush teeth done, {{pet}}!');
+  });
+
+  it('gives up when a referenced value is missing', () => {
+    expect(renderSnippet('Now {{next}}, {{name}}!', { ...values, next: null })).toBeNull();
+    expect(renderSnippet('Great work, {{name}}!', { ...values, next: null })).toBe('Great work, Ada!');
+  });
+});
@@ -0,0 +1,26 @@
+export const SNIPPET_PLACEHOLDERS = ['name', 'task', 'next', 'minutesLeft'] as const;
+
+export type SnippetPlaceholder = (typeof SNIPPET_PLACEHOLDERS)[number];
+
+export type SnippetValues = Record<SnippetPlaceholder, string | number | null>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Returns null when the snippet needs a value that is missing (e.g. {{next}} on the last task),
+// so the caller can move on to the next message source instead of speaking a broken sentence.
+export const renderSnippet = (snippet: string, values: SnippetValues): string | null => {
+  let missing = false;
+  const rendered = snippet.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    if (!(SNIPPET_PLACEHOLDERS as readonly string[]).includes(key)) {
+      return match;
+    }
+    const value = values[key as SnippetPlaceholder];
+    if (value === null || value === '') {
+      missing = true;
+      return '';
+    }
+    return String(value);
+  });
+
+  return missing ? null : rendered.trim() || null;
+};
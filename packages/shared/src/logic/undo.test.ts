@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { getTaskActedAt, isWithinUndoWindow, TASK_UNDO_WINDOW_MS } from './undo.js';
+
+describe('getTaskActedAt', () => {
+  it('prefers completion time and falls back to skip time', () => {
+    expect(getTaskActedAt({ completedAt: '2025-01-01T07:05:00.000Z', skipped: false, skippedAt: null })).toBe(
+      '2025-01-01T07:05:00.000Z'
+    );
+    expect(getTaskActedAt({ completedAt: null, skipped: true, skippedAt: '2025-01-01T07:06:00.000Z' })).toBe(
+      '2025-01-01T07:06:00.000Z'
+    );
+    expect(getTaskActedAt({ completedAt: null, skipped: false, skippedAt: null })).toBeNull();
+  });
+});
+
+describe('isWithinUndoWindow', () => {
+  const actedAt = new Date('2025-01-01T07:00:00.000Z');
+
+  it('allows undo until the window closes', () => {
+    expect(isWithinUndoWindow(actedAt, new Date(actedAt.getTime() + TASK_UNDO_WINDOW_MS))).toBe(true);
+    expect(isWithinUndoWindow(actedAt, new Date(actedAt.getTime() + TASK_UNDO_WINDOW_MS + 1))).toBe(false);
+  });
+
+  it('rejects tasks that were never acted on', () => {
+    expect(isWithinUndoWindow(null)).toBe(false);
+  });
+});
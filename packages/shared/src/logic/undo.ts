@@ -0,0 +1,18 @@
+export const TASK_UNDO_WINDOW_MS = 30 * 1000;
+
+type UndoableTask<TDate> = {
+  completedAt: TDate | null;
+  skipped: boolean;
+  skippedAt: TDate | null;
+};
+
+export const getTaskActedAt = <TDate extends Date | string>(task: UndoableTask<TDate>): TDate | null =>
+  task.completedAt ?? (task.skipped ? task.skippedAt : null);
+
+export const isWithinUndoWindow = (actedAt: Date | string | null, now: Date = new Date()) => {
+  if (!actedAt) {
+    return false;
+  }
+  const elapsedMs = now.getTime() - new Date(actedAt).getTime();
+  return elapsedMs >= 0 && elapsedMs <= TASK_UNDO_WINDOW_MS;
+};
@@ -7,6 +7,7 @@ import {
   sessionStartSchema,
   sessionTaskCompleteSchema,
   sessionTelemetrySchema,
+  settingsUpdateSchema,
   templateCreateSchema,
   templateUpdateSchema,
   timeStringSchema,
@@ -57,6 +58,39 @@ describe('childCreateSchema', () => {
       childCreateSchema.parse({ firstName: 'Ada', birthdate: '20150403' })
     ).toThrow();
   });
+
+  it('accepts a tone override from the preset list or null for the household tone', () => {
+    expect(childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03', tone: 'calm' }).tone).toBe(
+      'calm'
+    );
+    expect(childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03', tone: null }).tone).toBeNull();
+    expect(() =>
+      childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03', tone: 'grumpy' })
+    ).toThrow();
+  });
+
+  it('defaults the voice profile and keeps rate and pitch in Web Speech ranges', () => {
+    expect(childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03' })).toMatchObject({
+      language: 'en-US',
+      voice: 'kiddo',
+      speechRate: 1,
+      speechPitch: 1
+    });
+    expect(
+      childCreateSchema.parse({
+        firstName: 'Bo',
+        birthdate: '2019-08-12',
+        language: 'da-DK',
+        voice: 'mette',
+        speechRate: 0.8,
+        speechPitch: 1.3
+      })
+    ).toMatchObject({ language: 'da-DK', voice: 'mette', speechRate: 0.8, speechPitch: 1.3 });
+    expect(() =>
+      childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03', language: 'sv-SE' })
+    ).toThrow();
+    expect(() => childCreateSchema.parse({ firstName: 'Ada', birthdate: '2015-04-03', speechRate: 3 })).toThrow();
+  });
 });
 
 describe('template schemas', () => {
@@ -113,13 +147,13 @@ describe('template schemas', () => {
 });
 
 describe('sessionStartSchema', () => {
-  it('defaults allowSkip to false and validates ordering', () => {
+  it('leaves allowSkip unset so the household default applies', () => {
     const parsed = sessionStartSchema.parse({
       childId: 'ckchild12345678901234567890',
       templateId: 'cktmpl12345678901234567890'
     });
 
-    expect(parsed.allowSkip).toBe(false);
+    expect(parsed.allowSkip).toBeUndefined();
   });
 
   it('rejects when end is before start', () => {
@@ -225,6 +259,7 @@ describe('ttsRequestSchema', () => {
     });
 
     expect(parsed.voice).toBe('kiddo');
+    expect(parsed).toMatchObject({ rate: 1, pitch: 1 });
 
     expect(() =>
       ttsRequestSchema.parse({ text: '', language: 'en-US', voice: 'kiddo' })
@@ -234,3 +269,32 @@ describe('ttsRequestSchema', () => {
     ).toThrow();
   });
 });
+
+describe('settingsUpdateSchema', () => {
+  it('accepts partial updates', () => {
+    const parsed = settingsUpdateSchema.parse({
+      medalThresholds: { gold: 1.1, silver: 1.5 },
+      allowSkipByDefault: true
+    });
+
+    expect(parsed.medalThresholds).toEqual({ gold: 1.1, silver: 1.5 });
+    expect(parsed.urgencyThresholds).toBeUndefined();
+  });
+
+  it('rejects empty payloads and out-of-order thresholds', () => {
+    expect(() => settingsUpdateSchema.parse({})).toThrow();
+    expect(() =>
+      settingsUpdateSchema.parse({ medalThresholds: { gold: 1.5, silver: 1.2 } })
+    ).toThrow();
+    expect(() =>
+      settingsUpdateSchema.parse({
+        urgencyThresholds: { aheadBoundary: 0.2, onTrackBoundary: 0.1, warningBoundary: 0.3 }
+      })
+    ).toThrow();
+    expect(() => settingsUpdateSchema.parse({ defaultExpectedMinutes: -1 })).toThrow();
+    expect(() => settingsUpdateSchema.parse({ tone: 'loud' })).toThrow();
+    expect(() => settingsUpdateSchema.parse({ language: 'de-DE' })).toThrow();
+    expect(() => settingsUpdateSchema.parse({ timeZone: 'Mars/Olympus' })).toThrow();
+    expect(settingsUpdateSchema.parse({ timeZone: 'Europe/Copenhagen' })).toEqual({ timeZone: 'Europe/Copenhagen' });
+  });
+});
@@ -11,10 +11,55 @@ export const isoDateStringSchema = z
   .string()
   .regex(datePattern, 'Expected YYYY-MM-DD date');
 
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export const weekdaySchema = z.enum(WEEKDAYS);
+
+export const TONE_PRESETS = ['playful', 'coach', 'calm'] as const;
+
+export const DEFAULT_TONE: TonePreset = 'playful';
+
+export const tonePresetSchema = z.enum(TONE_PRESETS);
+
+export const CHILD_LANGUAGES = ['en-US', 'da-DK'] as const;
+
+export const DEFAULT_CHILD_LANGUAGE: ChildLanguage = 'en-US';
+
+export const DEFAULT_VOICE_ID = 'kiddo';
+
+export const childLanguageSchema = z.enum(CHILD_LANGUAGES);
+
+// Any IANA zone the runtime knows, e.g. Europe/Copenhagen.
+export const timeZoneSchema = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Time zone must be an IANA name such as Europe/Copenhagen');
+
+export const voiceIdSchema = z
+  .string()
+  .trim()
+  .min(1, 'voice identifier is required')
+  .max(50, 'voice identifier must be 50 characters or fewer');
+
+// Same ranges as the Web Speech API, so a profile plays the same in the browser and on the server.
+export const speechRateSchema = z.number().min(0.5, 'rate must be at least 0.5').max(2, 'rate must be at most 2');
+
+export const speechPitchSchema = z.number().min(0, 'pitch must be at least 0').max(2, 'pitch must be at most 2');
+
 export const childCreateSchema = z.object({
   firstName: z.string().trim().min(1, 'First name is required'),
   birthdate: isoDateStringSchema,
-  active: z.boolean().optional().default(true)
+  active: z.boolean().optional().default(true),
+  defaultTemplateId: z.string().cuid().nullable().optional(),
+  tone: tonePresetSchema.nullable().optional(),
+  language: childLanguageSchema.optional().default(DEFAULT_CHILD_LANGUAGE),
+  voice: voiceIdSchema.optional().default(DEFAULT_VOICE_ID),
+  speechRate: speechRateSchema.optional().default(1),
+  speechPitch: speechPitchSchema.optional().default(1)
 });
 
 export const childUpdateSchema = childCreateSchema.partial().refine(
@@ -27,6 +72,8 @@ export const childUpdateSchema = childCreateSchema.partial().refine(
 
 export const childSchema = childCreateSchema.extend({
   id: z.string().cuid(),
+  defaultTemplateId: z.string().cuid().nullable(),
+  tone: tonePresetSchema.nullable(),
   createdAt: z.string()
 });
 
@@ -44,9 +91,22 @@ const templateTaskBaseSchema = z.object({
     .max(140, 'Hint must be 140 characters or fewer')
     .optional()
     .or(z.literal('').transform(() => undefined)),
+  completionSnippet: z
+    .string()
+    .trim()
+    .max(200, 'Completion snippet must be 200 characters or fewer')
+    .optional()
+    .or(z.literal('').transform(() => undefined)),
+  nudgeSnippet: z
+    .string()
+    .trim()
+    .max(200, 'Nudge snippet must be 200 characters or fewer')
+    .optional()
+    .or(z.literal('').transform(() => undefined)),
   expectedMinutes: z
     .number({ coerce: true })
     .nonnegative('Expected minutes must be ≥ 0')
+    .optional()
 });
 
 export const templateTaskInputSchema = templateTaskBaseSchema.extend({
@@ -54,6 +114,7 @@ export const templateTaskInputSchema = templateTaskBaseSchema.extend({
 });
 
 export const templateTaskSchema = templateTaskInputSchema.extend({
+  expectedMinutes: z.number().nonnegative('Expected minutes must be ≥ 0'),
   orderIndex: z.number().int().nonnegative()
 });
 
@@ -61,6 +122,11 @@ export const templateCreateSchema = z.object({
   name: z.string().trim().min(1, 'Template name is required'),
   defaultStartTime: timeStringSchema,
   defaultEndTime: timeStringSchema,
+  daysActive: z
+    .array(weekdaySchema)
+    .min(1, 'Pick at least one weekday')
+    .transform((days) => WEEKDAYS.filter((day) => days.includes(day)))
+    .optional(),
   tasks: z
     .array(templateTaskBaseSchema)
     .min(1, 'Add at least one task')
@@ -86,6 +152,8 @@ export const templateUpdateSchema = templateCreateSchema.extend({
 
 export const templateSchema = templateUpdateSchema.extend({
   id: z.string().cuid(),
+  daysActive: z.array(weekdaySchema),
+  tasks: z.array(templateTaskSchema),
   createdAt: z.string(),
   updatedAt: z.string()
 });
@@ -100,6 +168,8 @@ export const templateSnapshotSchema = z.object({
       title: true,
       emoji: true,
       hint: true,
+      completionSnippet: true,
+      nudgeSnippet: true,
       expectedMinutes: true,
       orderIndex: true
     })
@@ -115,6 +185,7 @@ export const sessionTaskSchema = z.object({
   expectedMinutes: z.number().nonnegative(),
   completedAt: z.string().datetime().nullable(),
   skipped: z.boolean(),
+  skippedAt: z.string().datetime().nullable(),
   orderIndex: z.number().int().nonnegative(),
   emoji: z.string().optional(),
   hint: z.string().optional()
@@ -174,27 +245,127 @@ export const sessionTelemetrySchema = z.object({
   nextTask: sessionNextTaskTelemetrySchema.nullable().optional()
 });
 
+export const sessionStreamEventSchema = z.discriminatedUnion('type', [
+  sessionWithChildSchema.extend({ type: z.literal('session.started') }),
+  sessionWithChildSchema.extend({ type: z.literal('session.updated') }),
+  sessionWithChildSchema.extend({ type: z.literal('session.finished') }),
+  z.object({
+    type: z.literal('task.completed'),
+    sessionId: z.string().cuid(),
+    sessionTaskId: z.string().cuid(),
+    orderIndex: z.number().int().nonnegative(),
+    skipped: z.boolean()
+  }),
+  z.object({
+    type: z.literal('telemetry'),
+    sessionId: z.string().cuid(),
+    telemetry: sessionTelemetrySchema
+  }),
+  z.object({
+    type: z.literal('encouragement.requested'),
+    sessionId: z.string().cuid(),
+    sessionTaskId: z.string().cuid()
+  })
+]);
+
+const languageCodeSchema = z
+  .string()
+  .trim()
+  .min(2, 'language code is required')
+  .max(10, 'language code must be 10 characters or fewer');
+
+export const encouragementTypeSchema = z.enum(['session_start', 'completion', 'nudge']);
+
 export const sessionMessageRequestSchema = z.object({
-  type: z.enum(['session_start', 'completion', 'nudge']),
+  type: encouragementTypeSchema,
   sessionTaskId: z.string().cuid(),
-  language: z
-    .string()
-    .trim()
-    .min(2, 'language code is required')
-    .max(10, 'language code must be 10 characters or fewer'),
+  // Defaults to the child's own language profile.
+  language: languageCodeSchema.optional(),
   nudgeThreshold: z.enum(['first', 'second', 'final']).optional()
 });
 
+export const tonePreviewQuerySchema = z.object({
+  language: languageCodeSchema.optional().default('en-US'),
+  childId: z.string().cuid().optional()
+});
+
+export const tonePreviewSchema = z.object({
+  tone: tonePresetSchema,
+  samples: z.array(
+    z.object({
+      type: encouragementTypeSchema,
+      text: z.string()
+    })
+  )
+});
+
 export const llmResponseSchema = z.object({
   text: z.string().trim().min(1, 'text is required')
 });
 
+export const MESSAGE_SOURCES = ['snippet', 'llm', 'fallback'] as const;
+
+export const messageSourceSchema = z.enum(MESSAGE_SOURCES);
+
+export const sessionMessageResponseSchema = llmResponseSchema.extend({
+  source: messageSourceSchema
+});
+
+export const MESSAGE_LOG_SOURCES = [...MESSAGE_SOURCES, 'fake'] as const;
+
+export const messageLogEntrySchema = z.object({
+  id: z.string().cuid(),
+  sessionId: z.string().cuid(),
+  sessionTaskId: z.string().cuid().nullable(),
+  childFirstName: z.string(),
+  templateName: z.string(),
+  type: encouragementTypeSchema,
+  source: z.enum(MESSAGE_LOG_SOURCES),
+  language: z.string(),
+  latencyMs: z.number().int().nonnegative(),
+  text: z.string(),
+  blocked: z.boolean(),
+  createdAt: z.string()
+});
+
+export const messageLogQuerySchema = z.object({
+  childId: z.string().cuid().optional(),
+  sessionId: z.string().cuid().optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.number({ coerce: true }).int().min(1).max(200).optional().default(50)
+});
+
+export const messageLogResponseSchema = z.object({
+  entries: z.array(messageLogEntrySchema),
+  nextCursor: z.string().cuid().nullable()
+});
+
+export const blockedPhraseSchema = z.object({
+  id: z.string().cuid(),
+  text: z.string(),
+  createdAt: z.string()
+});
+
 export const sessionTaskCompleteSchema = z
   .object({
-    skipped: z.boolean().optional().default(false)
+    skipped: z.boolean().optional().default(false),
+    // Offline boards replay queued completions with the time the child actually tapped.
+    completedAt: z.string().datetime().optional(),
+    idempotencyKey: z
+      .string()
+      .trim()
+      .min(8, 'idempotencyKey must be at least 8 characters')
+      .max(100, 'idempotencyKey must be 100 characters or fewer')
+      .optional()
   })
   .default({ skipped: false });
 
+export const householdPinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits');
+
+export const householdPinInputSchema = z.object({
+  pin: householdPinSchema
+});
+
 export const ttsRequestSchema = z.object({
   text: z
     .string()
@@ -206,11 +377,9 @@ export const ttsRequestSchema = z.object({
     .trim()
     .min(2, 'language code is required')
     .max(10, 'language code must be 10 characters or fewer'),
-  voice: z
-    .string()
-    .trim()
-    .min(1, 'voice identifier is required')
-    .max(50, 'voice identifier must be 50 characters or fewer')
+  voice: voiceIdSchema,
+  rate: speechRateSchema.optional().default(1),
+  pitch: speechPitchSchema.optional().default(1)
 });
 
 export const sessionStartSchema = z
@@ -219,7 +388,7 @@ export const sessionStartSchema = z
     templateId: z.string().cuid(),
     plannedStartAt: z.string().datetime().optional(),
     plannedEndAt: z.string().datetime().optional(),
-    allowSkip: z.boolean().optional().default(false)
+    allowSkip: z.boolean().optional()
   })
   .refine(
     ({ plannedStartAt, plannedEndAt }) => {
@@ -234,6 +403,323 @@ export const sessionStartSchema = z
     }
   );
 
+export const sessionHistoryQuerySchema = z
+  .object({
+    childId: z.string().cuid().optional(),
+    from: isoDateStringSchema.optional(),
+    to: isoDateStringSchema.optional(),
+    cursor: z.string().cuid().optional(),
+    limit: z.number({ coerce: true }).int().min(1).max(100).optional().default(14)
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: 'from must be on or before to',
+    path: ['to']
+  });
+
+export const sessionHistoryTaskSchema = z.object({
+  id: z.string().cuid(),
+  orderIndex: z.number().int().nonnegative(),
+  title: z.string(),
+  emoji: z.string().optional(),
+  expectedMinutes: z.number().nonnegative(),
+  skipped: z.boolean(),
+  startedAt: z.string().datetime().nullable(),
+  completedAt: z.string().datetime().nullable(),
+  durationSeconds: z.number().int().nonnegative().nullable()
+});
+
+export const sessionHistoryEntrySchema = z.object({
+  id: z.string().cuid(),
+  child: childSchema,
+  templateName: z.string(),
+  plannedStartAt: z.string().datetime(),
+  actualStartAt: z.string().datetime().nullable(),
+  actualEndAt: z.string().datetime().nullable(),
+  medal: medalSchema.nullable(),
+  expectedTotalMinutes: z.number().nonnegative(),
+  durationSeconds: z.number().int().nonnegative().nullable(),
+  tasks: z.array(sessionHistoryTaskSchema)
+});
+
+export const sessionHistoryResponseSchema = z.object({
+  sessions: z.array(sessionHistoryEntrySchema),
+  nextCursor: z.string().cuid().nullable()
+});
+
+export const todayPlanQuerySchema = z.object({
+  date: isoDateStringSchema.optional()
+});
+
+export const todayPlanEntrySchema = z.object({
+  childId: z.string().cuid(),
+  templateId: z.string().cuid(),
+  source: z.enum(['schedule', 'default', 'weekday', 'exception'])
+});
+
+export const todayPlanSuspensionSchema = z.object({
+  childId: z.string().cuid(),
+  note: z.string().nullable()
+});
+
+export const todayPlanSchema = z.object({
+  date: isoDateStringSchema,
+  weekday: weekdaySchema,
+  entries: z.array(todayPlanEntrySchema),
+  suspended: z.array(todayPlanSuspensionSchema)
+});
+
+export const CALENDAR_EXCEPTION_MAX_RANGE_DAYS = 366;
+
+export const calendarExceptionKindSchema = z.enum(['skip', 'template']);
+
+const hasMatchingTemplate = (value: { kind: 'skip' | 'template'; templateId?: string | null }) =>
+  value.kind === 'template' ? Boolean(value.templateId) : !value.templateId;
+
+const templateMismatchIssue = {
+  message: 'Alternate template exceptions need a templateId; skip exceptions must not have one',
+  path: ['templateId']
+};
+
+const calendarExceptionFieldsSchema = z.object({
+  childId: z.string().cuid().nullable().optional(),
+  kind: calendarExceptionKindSchema,
+  templateId: z.string().cuid().nullable().optional(),
+  note: z.string().trim().max(120).optional()
+});
+
+export const calendarExceptionCreateSchema = calendarExceptionFieldsSchema
+  .extend({ date: isoDateStringSchema })
+  .refine(hasMatchingTemplate, templateMismatchIssue);
+
+export const calendarExceptionBulkSchema = calendarExceptionFieldsSchema
+  .extend({
+    from: isoDateStringSchema,
+    to: isoDateStringSchema
+  })
+  .refine(({ from, to }) => from <= to, {
+    message: 'from must be on or before to',
+    path: ['to']
+  })
+  .refine(
+    ({ from, to }) =>
+      (Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / 86_400_000 <
+      CALENDAR_EXCEPTION_MAX_RANGE_DAYS,
+    { message: `Ranges can span at most ${CALENDAR_EXCEPTION_MAX_RANGE_DAYS} days`, path: ['to'] }
+  )
+  .refine(hasMatchingTemplate, templateMismatchIssue);
+
+export const calendarExceptionQuerySchema = z
+  .object({
+    from: isoDateStringSchema.optional(),
+    to: isoDateStringSchema.optional(),
+    childId: z.string().cuid().optional()
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: 'from must be on or before to',
+    path: ['to']
+  });
+
+export const ICS_IMPORT_MAX_LENGTH = 1_000_000;
+
+export const icsImportRuleSchema = z
+  .object({
+    keyword: z.string().trim().min(1, 'Keyword is required'),
+    kind: calendarExceptionKindSchema,
+    templateId: z.string().cuid().nullable().optional()
+  })
+  .refine(hasMatchingTemplate, templateMismatchIssue);
+
+export const DEFAULT_ICS_IMPORT_RULES: z.infer<typeof icsImportRuleSchema>[] = [
+  { keyword: 'Ferie', kind: 'skip', templateId: null },
+  { keyword: 'Holiday', kind: 'skip', templateId: null }
+];
+
+export const icsImportSchema = z.object({
+  ics: z
+    .string()
+    .min(1, 'Calendar file is empty')
+    .max(ICS_IMPORT_MAX_LENGTH, 'Calendar file is too large'),
+  rules: z.array(icsImportRuleSchema).min(1, 'Add at least one keyword').default(DEFAULT_ICS_IMPORT_RULES),
+  childIds: z.array(z.string().cuid()).default([])
+});
+
+export const icsImportEntrySchema = z.object({
+  date: isoDateStringSchema,
+  childId: z.string().cuid().nullable(),
+  kind: calendarExceptionKindSchema,
+  templateId: z.string().cuid().nullable(),
+  note: z.string()
+});
+
+export const icsImportPreviewSchema = z.object({
+  eventCount: z.number().int().nonnegative(),
+  entries: z.array(icsImportEntrySchema)
+});
+
+export const calendarExceptionSchema = z.object({
+  id: z.string().cuid(),
+  date: isoDateStringSchema,
+  childId: z.string().cuid().nullable(),
+  kind: calendarExceptionKindSchema,
+  templateId: z.string().cuid().nullable(),
+  note: z.string().nullable(),
+  createdAt: z.string().datetime()
+});
+
+export const scheduleAssignmentSchema = z.object({
+  id: z.string().cuid(),
+  childId: z.string().cuid(),
+  weekday: weekdaySchema,
+  templateId: z.string().cuid()
+});
+
+export const scheduleUpdateSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        weekday: weekdaySchema,
+        templateId: z.string().cuid()
+      })
+    )
+    .refine(
+      (assignments) => new Set(assignments.map(({ weekday }) => weekday)).size === assignments.length,
+      { message: 'Each weekday can only have one routine' }
+    )
+});
+
+export const insightsQuerySchema = z
+  .object({
+    childId: z.string().cuid().optional(),
+    from: isoDateStringSchema.optional(),
+    to: isoDateStringSchema.optional()
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: 'from must be on or before to',
+    path: ['to']
+  });
+
+export const taskInsightSchema = z.object({
+  childId: z.string().cuid(),
+  childFirstName: z.string(),
+  templateId: z.string().cuid(),
+  templateName: z.string(),
+  taskTitle: z.string(),
+  runs: z.number().int().positive(),
+  completedRuns: z.number().int().nonnegative(),
+  averageActualMinutes: z.number().nonnegative().nullable(),
+  averageExpectedMinutes: z.number().nonnegative(),
+  overrunRatio: z.number().nonnegative().nullable(),
+  skipRate: z.number().min(0).max(1),
+  nudgeCount: z.number().int().nonnegative()
+});
+
+export const insightsSchema = z.object({
+  tasks: z.array(taskInsightSchema),
+  topSlowTasks: z.array(taskInsightSchema),
+  monthStartsOn: isoDateStringSchema
+});
+
+export const expectedMinutesSuggestionSchema = z.object({
+  taskId: z.string().cuid(),
+  title: z.string(),
+  currentMinutes: z.number().nonnegative(),
+  suggestedMinutes: z.number().positive(),
+  sampleSize: z.number().int().positive()
+});
+
+export const medalThresholdsSchema = z
+  .object({
+    gold: z.number().positive('Gold multiplier must be greater than 0'),
+    silver: z.number().positive('Silver multiplier must be greater than 0')
+  })
+  .refine(({ gold, silver }) => silver >= gold, {
+    message: 'Silver multiplier must be at least the gold multiplier',
+    path: ['silver']
+  });
+
+export const urgencyThresholdsSchema = z
+  .object({
+    aheadBoundary: z.number(),
+    onTrackBoundary: z.number(),
+    warningBoundary: z.number()
+  })
+  .refine(
+    ({ aheadBoundary, onTrackBoundary, warningBoundary }) =>
+      aheadBoundary <= onTrackBoundary && onTrackBoundary <= warningBoundary,
+    {
+      message: 'Urgency boundaries must be ordered ahead ≤ on track ≤ warning',
+      path: ['onTrackBoundary']
+    }
+  );
+
+const settingsValuesSchema = z.object({
+  medalThresholds: medalThresholdsSchema,
+  urgencyThresholds: urgencyThresholdsSchema,
+  defaultExpectedMinutes: z.number().nonnegative('Default expected minutes must be ≥ 0'),
+  allowSkipByDefault: z.boolean(),
+  tone: tonePresetSchema,
+  // Language of the parent-facing screens; kid-facing board labels follow each child's own language.
+  language: childLanguageSchema,
+  // Household zone that decides where every calendar day starts: history, insights, scheduling and the Today plan.
+  timeZone: timeZoneSchema
+});
+
+export const settingsUpdateSchema = settingsValuesSchema.partial().refine(
+  (value) => Object.keys(value).length > 0,
+  {
+    message: 'At least one field must be provided',
+    path: []
+  }
+);
+
+export const settingsSchema = settingsValuesSchema.extend({
+  updatedAt: z.string()
+});
+
+export const sessionThresholdsSchema = settingsValuesSchema.pick({
+  medalThresholds: true,
+  urgencyThresholds: true
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  password: z.string().min(1, 'Password is required')
+});
+
+export const signupSchema = loginSchema.extend({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  householdName: z.string().trim().min(1).max(80).optional(),
+  // Joins the household that issued the invite instead of founding a new one.
+  inviteToken: z.string().min(1).optional()
+});
+
+export const parentSchema = z.object({
+  id: z.string().cuid(),
+  email: z.string().email(),
+  householdId: z.string().cuid(),
+  householdName: z.string(),
+  hasPin: z.boolean()
+});
+
+export const parentInviteSchema = z.object({
+  id: z.string().cuid(),
+  expiresAt: z.string(),
+  createdAt: z.string()
+});
+
+export const deviceTokenCreateSchema = z.object({
+  label: z.string().trim().min(1, 'Device label is required').max(80)
+});
+
+export const deviceTokenSchema = deviceTokenCreateSchema.extend({
+  id: z.string().cuid(),
+  lastUsedAt: z.string().nullable(),
+  createdAt: z.string()
+});
+
+export type Weekday = z.infer<typeof weekdaySchema>;
+export type TonePreset = z.infer<typeof tonePresetSchema>;
+export type ChildLanguage = z.infer<typeof childLanguageSchema>;
 export type ChildCreateInput = z.infer<typeof childCreateSchema>;
 export type ChildUpdateInput = z.infer<typeof childUpdateSchema>;
 export type Child = z.infer<typeof childSchema>;
@@ -249,9 +735,48 @@ export type Session = z.infer<typeof sessionSchema>;
 export type SessionTask = z.infer<typeof sessionTaskSchema>;
 export type SessionStartInput = z.infer<typeof sessionStartSchema>;
 export type SessionTaskCompleteInput = z.infer<typeof sessionTaskCompleteSchema>;
+export type HouseholdPinInput = z.infer<typeof householdPinInputSchema>;
 export type SessionTelemetry = z.infer<typeof sessionTelemetrySchema>;
 export type SessionActiveTaskTelemetry = z.infer<typeof sessionActiveTaskTelemetrySchema>;
 export type SessionNextTaskTelemetry = z.infer<typeof sessionNextTaskTelemetrySchema>;
 export type SessionMessageRequest = z.infer<typeof sessionMessageRequestSchema>;
+export type EncouragementType = z.infer<typeof encouragementTypeSchema>;
+export type MessageSource = z.infer<typeof messageSourceSchema>;
+export type SessionMessageResponse = z.infer<typeof sessionMessageResponseSchema>;
+export type MessageLogEntry = z.infer<typeof messageLogEntrySchema>;
+export type MessageLogQuery = z.infer<typeof messageLogQuerySchema>;
+export type MessageLogResponse = z.infer<typeof messageLogResponseSchema>;
+export type BlockedPhrase = z.infer<typeof blockedPhraseSchema>;
+export type TonePreviewQuery = z.infer<typeof tonePreviewQuerySchema>;
+export type TonePreview = z.infer<typeof tonePreviewSchema>;
 export type SessionNudgeEvent = z.infer<typeof sessionNudgeEventSchema>;
+export type SessionStreamEvent = z.infer<typeof sessionStreamEventSchema>;
 export type TtsRequestInput = z.infer<typeof ttsRequestSchema>;
+export type SessionHistoryQuery = z.infer<typeof sessionHistoryQuerySchema>;
+export type SessionHistoryTask = z.infer<typeof sessionHistoryTaskSchema>;
+export type SessionHistoryEntry = z.infer<typeof sessionHistoryEntrySchema>;
+export type SessionHistoryResponse = z.infer<typeof sessionHistoryResponseSchema>;
+export type TodayPlanEntry = z.infer<typeof todayPlanEntrySchema>;
+export type TodayPlan = z.infer<typeof todayPlanSchema>;
+export type TodayPlanSuspension = z.infer<typeof todayPlanSuspensionSchema>;
+export type CalendarExceptionKind = z.infer<typeof calendarExceptionKindSchema>;
+export type CalendarExceptionCreateInput = z.infer<typeof calendarExceptionCreateSchema>;
+export type CalendarExceptionBulkInput = z.infer<typeof calendarExceptionBulkSchema>;
+export type CalendarException = z.infer<typeof calendarExceptionSchema>;
+export type IcsImportRule = z.infer<typeof icsImportRuleSchema>;
+export type IcsImportInput = z.infer<typeof icsImportSchema>;
+export type IcsImportEntry = z.infer<typeof icsImportEntrySchema>;
+export type IcsImportPreview = z.infer<typeof icsImportPreviewSchema>;
+export type ScheduleAssignment = z.infer<typeof scheduleAssignmentSchema>;
+export type ScheduleUpdateInput = z.infer<typeof scheduleUpdateSchema>;
+export type InsightsQuery = z.infer<typeof insightsQuerySchema>;
+export type Insights = z.infer<typeof insightsSchema>;
+export type ExpectedMinutesSuggestion = z.infer<typeof expectedMinutesSuggestionSchema>;
+export type Settings = z.infer<typeof settingsSchema>;
+export type SettingsUpdateInput = z.infer<typeof settingsUpdateSchema>;
+export type SessionThresholds = z.infer<typeof sessionThresholdsSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type SignupInput = z.infer<typeof signupSchema>;
+export type Parent = z.infer<typeof parentSchema>;
+export type ParentInvite = z.infer<typeof parentInviteSchema>;
+export type DeviceToken = z.infer<typeof deviceTokenSchema>;